@@ -1,38 +1,60 @@
 import { Tabs } from 'expo-router';
 import React from 'react';
-import { Platform, StyleSheet } from 'react-native'; // Import StyleSheet
+import { Platform, StyleSheet } from 'react-native';
 
 import { HapticTab } from '@/components/HapticTab';
 import { IconSymbol } from '@/components/ui/IconSymbol';
 import TabBarBackground from '@/components/ui/TabBarBackground';
-import { Colors } from '@/constants/Colors';
-import { useColorScheme } from '@/hooks/useColorScheme';
+import { useTheme } from '@/hooks/useTheme';
 
 export default function TabLayout() {
-  const colorScheme = useColorScheme();
+  const colors = useTheme();
 
   return (
     <Tabs
       screenOptions={{
-        tabBarActiveTintColor: Colors[colorScheme ?? 'light'].tint,
-        headerShown: false,
+        tabBarActiveTintColor: colors.tabIconSelected,
+        tabBarInactiveTintColor: colors.tabIconDefault,
         tabBarButton: HapticTab,
         tabBarBackground: TabBarBackground,
-        tabBarStyle: { // Merge existing styles with display: 'none'
-           display: 'none', // Add this line to hide the tab bar
-           ...(Platform.OS === 'ios' ? styles.iosTabBar : {}), // Keep existing platform-specific styles if needed
-        },
+        tabBarStyle: Platform.OS === 'ios' ? styles.iosTabBar : undefined,
       }}>
-      {/* You don't need to define Tabs.Screen here if using file-based routing */}
-      {/* <Tabs.Screen name="index" options={{ title: 'Converter' }} /> */}
+      <Tabs.Screen
+        name="index"
+        options={{
+          title: 'Convert',
+          headerShown: false,
+          tabBarIcon: ({ color }) => <IconSymbol size={28} name="arrow.left.arrow.right" color={color} />,
+        }}
+      />
+      <Tabs.Screen
+        name="history"
+        options={{
+          title: 'History',
+          tabBarIcon: ({ color }) => <IconSymbol size={28} name="clock.fill" color={color} />,
+        }}
+      />
+      <Tabs.Screen
+        name="insights"
+        options={{
+          title: 'Insights',
+          tabBarIcon: ({ color }) => <IconSymbol size={28} name="chart.xyaxis.line" color={color} />,
+        }}
+      />
+      <Tabs.Screen
+        name="settings"
+        options={{
+          title: 'Settings',
+          tabBarIcon: ({ color }) => <IconSymbol size={28} name="gearshape.fill" color={color} />,
+        }}
+      />
     </Tabs>
   );
 }
 
-// Keep existing styles if they were separate
 const styles = StyleSheet.create({
- iosTabBar: {
+  iosTabBar: {
+    // Use a transparent background on iOS to show the blur effect.
     position: 'absolute',
-    // Add other iOS specific styles if you had them
- }
+  },
 });
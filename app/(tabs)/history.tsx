@@ -0,0 +1,169 @@
+import { Tabs } from 'expo-router';
+import { useMemo, useState } from 'react';
+import { ActivityIndicator, Platform, SectionList, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { HistoryEntryEditor } from '@/components/HistoryEntryEditor';
+import { HistoryHeaderRow, HistoryRow } from '@/components/HistoryRow';
+import { HistoryRowActions } from '@/components/HistoryRowActions';
+import { TreatmentIcon } from '@/components/TreatmentIcon';
+import { TreatmentLogger } from '@/components/TreatmentLogger';
+import { useBottomTabOverflow } from '@/components/ui/TabBarBackground';
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale, width } from '@/constants/Layout';
+import { useHistory } from '@/hooks/useHistory';
+import { useTargetRanges } from '@/hooks/useTargetRanges';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { HistoryItem } from '@/lib/glucose';
+import { HISTORY_PAGE_SIZE, formatTimeOfDay, groupHistoryByDay } from '@/lib/historySections';
+
+/**
+ * Full history, grouped by day. Entries are handed to the virtualized list a page at a time
+ * as the user scrolls, so years of readings stay responsive. Rows can be edited or deleted,
+ * and insulin doses and carbs are logged here alongside the readings.
+ */
+export default function HistoryScreen() {
+  const { history, isLoading, storageError, removeEntry } = useHistory();
+  const [targetRanges] = useTargetRanges();
+  const [visibleCount, setVisibleCount] = useState(HISTORY_PAGE_SIZE);
+  const [editingItem, setEditingItem] = useState<HistoryItem | null>(null);
+  const [isLoggingTreatment, setIsLoggingTreatment] = useState(false);
+  const bottom = useBottomTabOverflow();
+  const colors = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  const sections = useMemo(() => groupHistoryByDay(history.slice(0, visibleCount)), [history, visibleCount]);
+  const hasMore = visibleCount < history.length;
+
+  const handleEndReached = () => {
+    if (hasMore) {
+      setVisibleCount(count => count + HISTORY_PAGE_SIZE);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Tabs.Screen options={{ headerTitle: `History (${history.length})` }} />
+      <TouchableOpacity
+        style={styles.logButton}
+        onPress={() => setIsLoggingTreatment(true)}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityLabel="Log insulin or carbs"
+      >
+        <TreatmentIcon type="insulin" />
+        <TreatmentIcon type="carbs" />
+        <Text style={styles.logButtonText}>Log insulin or carbs</Text>
+      </TouchableOpacity>
+      {storageError && (
+        <Text style={styles.storageError} accessibilityRole="alert">
+          {storageError}
+        </Text>
+      )}
+      {isLoading ? (
+        <ActivityIndicator size="large" color={colors.primary} style={styles.loadingIndicator} />
+      ) : (
+        <SectionList
+          sections={sections}
+          keyExtractor={item => item.id}
+          renderItem={({ item }) => (
+            <HistoryRowActions onEdit={() => setEditingItem(item)} onDelete={() => removeEntry(item.id)}>
+              <HistoryRow item={item} targetRanges={targetRanges} formatTime={formatTimeOfDay} />
+            </HistoryRowActions>
+          )}
+          renderSectionHeader={({ section }) => (
+            <View
+              style={styles.sectionHeader}
+              accessible
+              accessibilityRole="header"
+              accessibilityLabel={`${section.title}, ${section.data.length} ${section.data.length === 1 ? 'entry' : 'entries'}`}
+            >
+              <Text style={styles.sectionTitle}>{section.title}</Text>
+              <Text style={styles.sectionCount}>{section.data.length}</Text>
+            </View>
+          )}
+          ListHeaderComponent={history.length > 0 ? <HistoryHeaderRow /> : null}
+          ListEmptyComponent={<Text style={styles.emptyText}>No conversions recorded yet.</Text>}
+          ListFooterComponent={hasMore ? <ActivityIndicator color={colors.primary} style={styles.footer} /> : null}
+          onEndReached={handleEndReached}
+          onEndReachedThreshold={0.5}
+          stickySectionHeadersEnabled
+          initialNumToRender={20}
+          maxToRenderPerBatch={20}
+          windowSize={11}
+          removeClippedSubviews={Platform.OS === 'android'}
+          contentContainerStyle={styles.listContent}
+          contentInset={{ bottom }}
+          scrollIndicatorInsets={{ bottom }}
+        />
+      )}
+      <HistoryEntryEditor item={editingItem} onClose={() => setEditingItem(null)} />
+      <TreatmentLogger visible={isLoggingTreatment} onClose={() => setIsLoggingTreatment(false)} />
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    paddingHorizontal: width * 0.05,
+    paddingBottom: moderateScale(30),
+  },
+  logButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    gap: moderateScale(6),
+    marginTop: moderateScale(12),
+    paddingVertical: moderateScale(8),
+    paddingHorizontal: moderateScale(16),
+    borderRadius: moderateScale(20),
+    borderWidth: 1,
+    borderColor: colors.primary,
+    backgroundColor: colors.card,
+  },
+  logButtonText: {
+    color: colors.accent,
+    fontSize: moderateScale(14, 0.3),
+    fontWeight: 'bold',
+  },
+  storageError: {
+    color: colors.danger,
+    fontSize: moderateScale(13, 0.3),
+    textAlign: 'center',
+    paddingHorizontal: moderateScale(16),
+    paddingBottom: moderateScale(8),
+  },
+  loadingIndicator: {
+    marginTop: moderateScale(40),
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+    paddingTop: moderateScale(14),
+    paddingBottom: moderateScale(6),
+  },
+  sectionTitle: {
+    color: colors.accent,
+    fontSize: moderateScale(15, 0.3),
+    fontWeight: 'bold',
+  },
+  sectionCount: {
+    color: colors.textMuted,
+    fontSize: moderateScale(13, 0.3),
+  },
+  emptyText: {
+    color: colors.textMuted,
+    textAlign: 'center',
+    fontSize: moderateScale(16, 0.3),
+    fontStyle: 'italic',
+    marginTop: moderateScale(40),
+  },
+  footer: {
+    paddingVertical: moderateScale(16),
+  },
+});
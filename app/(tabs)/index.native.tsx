@@ -5,387 +5,338 @@ import {
   View,
   TextInput,
   TouchableOpacity,
-  Alert,
+  AccessibilityInfo,
   SafeAreaView,
   StatusBar,
   Platform,
-  Dimensions,
   Keyboard,
   ActivityIndicator,
   ScrollView,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Svg } from 'react-native-svg';
-import { LineChart } from "react-native-chart-kit";
-
-const CONVERSION_FACTOR = 18.0182;
-const HISTORY_STORAGE_KEY = '@glucoSwapHistory';
-const MAX_HISTORY_ITEMS_DISPLAYED = 100;
-const MAX_HISTORY_ITEMS_RENDERED = 20;
-const MAX_INPUT_LENGTH = 5;
-const HISTORY_ITEM_APPROX_HEIGHT = 55;
-const HISTORY_MAX_VISIBLE_ITEMS = 4;
-const MIN_POINTS_FOR_CHART = 2;
-const MAX_CHART_LABELS = 6;
-
-type Unit = 'mg/dL' | 'mmol/L';
+import { Link } from 'expo-router';
+
+import { ConversionResultPanel } from '@/components/ConversionResultPanel';
+import { HistoryEntryEditor } from '@/components/HistoryEntryEditor';
+import { HistoryHeaderRow, HistoryRow } from '@/components/HistoryRow';
+import { HistoryRowActions } from '@/components/HistoryRowActions';
+import { InputValidationMessage } from '@/components/InputValidationMessage';
+import { MealContextPicker } from '@/components/MealContextPicker';
+import { ProfileSwitcher } from '@/components/ProfileSwitcher';
+import { ReadingTimePicker } from '@/components/ReadingTimePicker';
+import { useBottomTabOverflow } from '@/components/ui/TabBarBackground';
+import { ThemeColors } from '@/constants/Colors';
+import { height, moderateScale, width } from '@/constants/Layout';
+import { useDialog } from '@/hooks/useDialog';
+import { useHistory } from '@/hooks/useHistory';
+import { useSettings } from '@/hooks/useSettings';
+import { useTargetRanges } from '@/hooks/useTargetRanges';
+import { useTheme, useThemeName, useThemedStyles } from '@/hooks/useTheme';
+import {
+  HistoryItem,
+  MAX_INPUT_LENGTH,
+  MAX_NOTE_LENGTH,
+  MealContext,
+  UNITS,
+  Unit,
+  addHistoryItem,
+  convertGlucose,
+  createHistoryItem,
+  validateReadingTime,
+} from '@/lib/glucose';
+import {
+  A1C_QUANTITIES,
+  A1C_QUANTITY_LABELS,
+  A1cQuantity,
+  convertA1c,
+  createA1cHistoryItem,
+} from '@/lib/a1c';
+import {
+  ConversionSummary,
+  formatSummary,
+  summarizeA1cConversion,
+  summarizeGlucoseConversion,
+} from '@/lib/conversionResult';
+import { InputValidation, validateA1cInput, validateGlucoseInput } from '@/lib/validation';
 
-interface HistoryItem {
-  id: string;
-  timestamp: number;
-  mgdlValue: number;
-  mmolValue: number;
-}
+const HISTORY_PREVIEW_ITEMS = 4;
 
-const { width, height } = Dimensions.get('window');
-const guidelineBaseWidth = 375;
-const scale = (size: number): number => (width / guidelineBaseWidth) * size;
-const moderateScale = (size: number, factor = 0.5): number => size + (scale(size) - size) * factor;
+type ConversionMode = 'glucose' | 'a1c';
 
 
 export default function GlucoSwapScreen() {
   const [inputValue, setInputValue] = useState<string>('');
-  const [selectedUnit, setSelectedUnit] = useState<Unit>('mg/dL');
-  const [history, setHistory] = useState<HistoryItem[]>([]);
-  const [isHistoryLoading, setIsHistoryLoading] = useState<boolean>(true);
+  const [mode, setMode] = useState<ConversionMode>('glucose');
+  const [selectedA1cQuantity, setSelectedA1cQuantity] = useState<A1cQuantity>('%');
+  const [mealContext, setMealContext] = useState<MealContext | undefined>(undefined);
+  const [note, setNote] = useState<string>('');
+  const [readingTime, setReadingTime] = useState<number | null>(null);
+  const [result, setResult] = useState<ConversionSummary | null>(null);
+  const [targetRanges] = useTargetRanges();
+  const { settings } = useSettings();
+  // Starts from the preference but only applies to this screen; Settings is where it is saved.
+  const [selectedUnit, setSelectedUnit] = useState<Unit>(settings.preferredUnit);
+  const { history, setHistory, isLoading: isHistoryLoading, storageError, removeEntry } = useHistory();
+  const [editingItem, setEditingItem] = useState<HistoryItem | null>(null);
+  const colors = useTheme();
+  const themeName = useThemeName();
+  const styles = useThemedStyles(createStyles);
+  const bottom = useBottomTabOverflow();
+  const { showError } = useDialog();
 
   useEffect(() => {
-    const loadHistory = async () => {
-      setIsHistoryLoading(true);
-      try {
-        const storedHistory = await AsyncStorage.getItem(HISTORY_STORAGE_KEY);
-        if (storedHistory !== null) {
-          const parsedHistory = JSON.parse(storedHistory);
-          setHistory(parsedHistory.slice(0, MAX_HISTORY_ITEMS_DISPLAYED));
-        } else {
-          setHistory([]);
-        }
-      } catch (e) {
-        console.error('Failed to load history.', e);
-        Alert.alert('Error', 'Could not load conversion history.');
-      } finally {
-        setIsHistoryLoading(false);
-      }
-    };
-    loadHistory();
-  }, []);
+    setSelectedUnit(settings.preferredUnit);
+  }, [settings.preferredUnit]);
 
   useEffect(() => {
-    if (!isHistoryLoading) {
-      const saveHistory = async () => {
-        try {
-          await AsyncStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history.slice(0, MAX_HISTORY_ITEMS_DISPLAYED)));
-        } catch (e) {
-          console.error('Failed to save history.', e);
-        }
-      };
-      saveHistory();
+    if (storageError) {
+      showError(storageError);
     }
-  }, [history, isHistoryLoading]);
-
-  const formatTimestamp = useCallback((timestamp: number): string => {
-    const date = new Date(timestamp);
-    return date.toLocaleString(undefined, {
-      day: '2-digit',
-      month: 'short',
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: true,
-    }).replace(',', '');
-  }, []);
-
-   const formatTimestampForChart = useCallback((timestamp: number): string => {
-     const date = new Date(timestamp);
-     return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
-   }, []);
+  }, [storageError, showError]);
+
+  const validation = useMemo(
+    (): InputValidation<A1cQuantity> =>
+      mode === 'a1c'
+        ? validateA1cInput(inputValue, selectedA1cQuantity, settings)
+        : validateGlucoseInput(inputValue, selectedUnit, settings),
+    [inputValue, mode, selectedA1cQuantity, selectedUnit, settings]
+  );
+  const inputNumber = validation.value;
 
-  const isInputValid = useMemo(() => {
-    const numericValue = parseFloat(inputValue);
-    return !isNaN(numericValue) && numericValue > 0;
-  }, [inputValue]);
+  // Live conversion of whatever is typed, before anything is saved.
+  const preview = useMemo(() => {
+    if (inputNumber === null) {
+      return null;
+    }
+    return mode === 'a1c'
+      ? summarizeA1cConversion(convertA1c(inputNumber, selectedA1cQuantity), settings)
+      : summarizeGlucoseConversion(convertGlucose(inputNumber, selectedUnit), selectedUnit, targetRanges, settings, mealContext);
+  }, [inputNumber, mode, selectedA1cQuantity, selectedUnit, targetRanges, settings, mealContext]);
+  const isInputValid = preview !== null;
+
+  const handleInputChange = (text: string) => {
+    setInputValue(text);
+    setResult(null);
+  };
 
-  const handleUnitChange = (newUnit: Unit) => {
-    setSelectedUnit(newUnit);
+  const handleModeChange = (newMode: ConversionMode) => {
+    setMode(newMode);
     setInputValue('');
+    setResult(null);
   };
 
-  const handleConvert = useCallback(() => {
-    if (!isInputValid) {
-      return;
-    }
-
-    Keyboard.dismiss();
-    const value = parseFloat(inputValue);
-
-    let mgdlValue: number;
-    let mmolValue: number;
-    let resultText: string;
+  const showResult = useCallback((summary: ConversionSummary) => {
+    setResult(summary);
+    AccessibilityInfo.announceForAccessibility(formatSummary(summary));
+  }, []);
 
-    if (selectedUnit === 'mg/dL') {
-      mgdlValue = value;
-      mmolValue = value / CONVERSION_FACTOR;
-      resultText = `${mgdlValue.toFixed(0)} mg/dL ≈ ${mmolValue.toFixed(2)} mmol/L`;
+  const selectUnit = (newUnit: A1cQuantity) => {
+    if (mode === 'glucose') {
+      setSelectedUnit(newUnit as Unit);
     } else {
-      mmolValue = value;
-      mgdlValue = value * CONVERSION_FACTOR;
-      resultText = `${mmolValue.toFixed(2)} mmol/L ≈ ${mgdlValue.toFixed(0)} mg/dL`;
+      setSelectedA1cQuantity(newUnit);
     }
+    setResult(null);
+  };
 
-    const newEntry: HistoryItem = {
-      id: Date.now().toString(),
-      timestamp: Date.now(),
-      mgdlValue: mgdlValue,
-      mmolValue: mmolValue,
-    };
-
-    setHistory(prevHistory => [newEntry, ...prevHistory].slice(0, MAX_HISTORY_ITEMS_DISPLAYED));
+  const handleUnitChange = (newUnit: A1cQuantity) => {
+    selectUnit(newUnit);
+    setInputValue('');
+  };
 
-    Alert.alert(
-      'Conversion Result',
-      resultText,
-      [
-        {
-          text: 'OK',
-          onPress: () => setInputValue(''),
-        },
-      ]
-    );
-  }, [inputValue, selectedUnit, history, isInputValid]);
+  const handleConvertA1c = useCallback(() => {
+    if (inputNumber === null) {
+      return;
+    }
+    const conversion = convertA1c(inputNumber, selectedA1cQuantity);
+    const timestamp = readingTime ?? Date.now();
+    const timeError = validateReadingTime(timestamp);
+    if (timeError) {
+      showError(timeError, 'Invalid Time');
+      return;
+    }
 
-  const handleClearHistory = useCallback(() => {
     Keyboard.dismiss();
-    Alert.alert(
-      'Confirm Delete',
-      'Are you sure you want to delete all conversion history? This action cannot be undone.',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: () => {
-            setHistory([]);
-            setInputValue('');
-          },
-        },
-      ],
-      { cancelable: true }
-    );
-  }, []);
+    setHistory(prevHistory => addHistoryItem(prevHistory, createA1cHistoryItem(conversion, { timestamp, note })));
 
-  const renderHistoryItem = (item: HistoryItem) => (
-    <View key={item.id} style={styles.historyItem}>
-      <Text style={styles.historyTextTime} numberOfLines={1} ellipsizeMode="tail">{formatTimestamp(item.timestamp)}</Text>
-      <Text style={styles.historyTextValue}>{item.mgdlValue.toFixed(0)}</Text>
-      <Text style={styles.historyTextValue}>{item.mmolValue.toFixed(2)}</Text>
-    </View>
-  );
-
-
-  const historyListMaxHeight = useMemo(() => {
-      return (HISTORY_ITEM_APPROX_HEIGHT * HISTORY_MAX_VISIBLE_ITEMS) + moderateScale(30);
-  }, []);
-
-  const chartYUnit: Unit = selectedUnit === 'mg/dL' ? 'mmol/L' : 'mg/dL';
-  const chartYAxisSuffix = chartYUnit === 'mg/dL' ? ' mg/dL' : ' mmol/L';
-  const chartLegend = [`Glucose (${chartYUnit})`];
-  const chartTitleText = `Glucose Trend (${chartYUnit})`;
-  const chartDecimalPlaces = chartYUnit === 'mg/dL' ? 0 : 1;
+    showResult(summarizeA1cConversion(conversion, settings));
+    setInputValue('');
+    setNote('');
+    setReadingTime(null);
+  }, [inputNumber, selectedA1cQuantity, note, readingTime, settings, setHistory, showResult, showError]);
 
-  const chartKitData = useMemo(() => {
-    if (history.length < MIN_POINTS_FOR_CHART) {
-      return null;
+  const handleConvertGlucose = useCallback(() => {
+    if (inputNumber === null) {
+      return;
+    }
+    const timestamp = readingTime ?? Date.now();
+    const timeError = validateReadingTime(timestamp);
+    if (timeError) {
+      showError(timeError, 'Invalid Time');
+      return;
     }
-    const sortedHistory = [...history].sort((a, b) => a.timestamp - b.timestamp);
-
-    const labels: string[] = [];
-    const dataPoints: number[] = [];
-    const step = Math.max(1, Math.floor(sortedHistory.length / MAX_CHART_LABELS));
 
-    sortedHistory.forEach((item, index) => {
-       const yValue = chartYUnit === 'mg/dL' ? item.mgdlValue : item.mmolValue;
-       if (index === 0 || index === sortedHistory.length - 1 || index % step === 0) {
-          labels.push(formatTimestampForChart(item.timestamp));
-          dataPoints.push(yValue);
-       } else if (sortedHistory.length <= MAX_CHART_LABELS) {
-          labels.push(formatTimestampForChart(item.timestamp));
-          dataPoints.push(yValue);
-       }
-    });
+    Keyboard.dismiss();
+    const conversion = convertGlucose(inputNumber, selectedUnit);
 
-     if (labels.length > 0 && dataPoints.length > 0) {
-        const firstHistoryLabel = formatTimestampForChart(sortedHistory[0].timestamp);
-        if (labels[0] !== firstHistoryLabel) {
-           labels.unshift(firstHistoryLabel);
-           dataPoints.unshift(chartYUnit === 'mg/dL' ? sortedHistory[0].mgdlValue : sortedHistory[0].mmolValue);
-        }
-        const lastHistoryLabel = formatTimestampForChart(sortedHistory[sortedHistory.length - 1].timestamp);
-        if (labels[labels.length - 1] !== lastHistoryLabel) {
-           labels.push(lastHistoryLabel);
-           dataPoints.push(chartYUnit === 'mg/dL' ? sortedHistory[sortedHistory.length - 1].mgdlValue : sortedHistory[sortedHistory.length - 1].mmolValue);
-        }
-     }
+    const newEntry = createHistoryItem(conversion, { timestamp, context: mealContext, note });
 
-     const finalLabels = labels.slice(0, dataPoints.length);
+    setHistory(prevHistory => addHistoryItem(prevHistory, newEntry));
 
-     if (finalLabels.length < MIN_POINTS_FOR_CHART) return null;
+    showResult(summarizeGlucoseConversion(conversion, selectedUnit, targetRanges, settings, mealContext));
+    setInputValue('');
+    setMealContext(undefined);
+    setNote('');
+    setReadingTime(null);
+  }, [inputNumber, selectedUnit, mealContext, note, readingTime, targetRanges, settings, setHistory, showResult, showError]);
 
-    return {
-      labels: finalLabels,
-      datasets: [
-        {
-          data: dataPoints,
-          color: (opacity = 1) => `rgba(138, 43, 226, ${opacity})`,
-          strokeWidth: 3
-        }
-      ],
-      legend: chartLegend
-    };
-  }, [history, formatTimestampForChart, chartYUnit]);
+  const handleConvert = mode === 'glucose' ? handleConvertGlucose : handleConvertA1c;
 
-  const dynamicChartConfig = useMemo(() => ({
-      backgroundColor: "#1E1E2E",
-      backgroundGradientFrom: "#1E1E2E",
-      backgroundGradientTo: "#2C2C3E",
-      decimalPlaces: chartDecimalPlaces,
-      color: (opacity = 1) => `rgba(221, 221, 221, ${opacity})`,
-      labelColor: (opacity = 1) => `rgba(204, 204, 204, ${opacity})`,
-      style: {
-        borderRadius: moderateScale(12),
-      },
-      propsForDots: {
-        r: "4",
-        strokeWidth: "2",
-        stroke: "#A040FF"
-      }
-  }), [chartDecimalPlaces]);
+  const radioOptions = mode === 'glucose'
+    ? UNITS.map(unit => ({ value: unit as A1cQuantity, label: unit }))
+    : A1C_QUANTITIES.map(quantity => ({ value: quantity, label: A1C_QUANTITY_LABELS[quantity] }));
+  const selectedOption: A1cQuantity = mode === 'glucose' ? selectedUnit : selectedA1cQuantity;
+  const unitLabel = (unit: A1cQuantity) => (mode === 'glucose' ? unit : A1C_QUANTITY_LABELS[unit]);
 
 
   return (
     <SafeAreaView style={styles.safeArea}>
-      <StatusBar barStyle={'light-content'} backgroundColor={styles.safeArea.backgroundColor} />
+      <StatusBar barStyle={themeName === 'light' ? 'dark-content' : 'light-content'} backgroundColor={colors.background} />
       <ScrollView
           style={styles.scrollView}
           contentContainerStyle={styles.container}
           keyboardShouldPersistTaps="handled"
+          contentInset={{ bottom }}
+          scrollIndicatorInsets={{ bottom }}
       >
         <View style={styles.card}>
-          <Text style={styles.title}>GlucoSwap</Text>
-          <View style={styles.section}>
-            <Text style={styles.label}>Convert From:</Text>
-            <View style={styles.radioContainer}>
-              <TouchableOpacity
-                style={styles.radioButton}
-                onPress={() => handleUnitChange('mg/dL')}
-                activeOpacity={0.7}
-              >
-                <View style={[styles.radioOuter, selectedUnit === 'mg/dL' && styles.radioOuterSelected]}>
-                  {selectedUnit === 'mg/dL' && <View style={styles.radioInnerSelected} />}
-                </View>
-                <Text style={styles.radioLabel}>mg/dL</Text>
-              </TouchableOpacity>
+          <View style={styles.header}>
+            <Text style={styles.title} accessibilityRole="header">GlucoSwap</Text>
+            <ProfileSwitcher />
+          </View>
+          <View style={styles.modeContainer} accessibilityRole="tablist">
+            {(['glucose', 'a1c'] as ConversionMode[]).map(option => (
               <TouchableOpacity
-                style={styles.radioButton}
-                onPress={() => handleUnitChange('mmol/L')}
+                key={option}
+                style={[styles.modeButton, mode === option && styles.modeButtonSelected]}
+                onPress={() => handleModeChange(option)}
                 activeOpacity={0.7}
+                accessibilityRole="tab"
+                accessibilityState={{ selected: mode === option }}
               >
-                <View style={[styles.radioOuter, selectedUnit === 'mmol/L' && styles.radioOuterSelected]}>
-                  {selectedUnit === 'mmol/L' && <View style={styles.radioInnerSelected} />}
-                </View>
-                <Text style={styles.radioLabel}>mmol/L</Text>
+                <Text style={[styles.modeButtonText, mode === option && styles.modeButtonTextSelected]}>
+                  {option === 'glucose' ? 'Glucose' : 'HbA1c ↔ eAG'}
+                </Text>
               </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.section}>
+            <Text style={styles.label}>Convert From:</Text>
+            <View style={styles.radioContainer} accessibilityRole="radiogroup" accessibilityLabel="Convert from">
+              {radioOptions.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={styles.radioButton}
+                  onPress={() => handleUnitChange(option.value)}
+                  activeOpacity={0.7}
+                  accessibilityRole="radio"
+                  accessibilityState={{ checked: selectedOption === option.value }}
+                >
+                  <View style={[styles.radioOuter, selectedOption === option.value && styles.radioOuterSelected]}>
+                    {selectedOption === option.value && <View style={styles.radioInnerSelected} />}
+                  </View>
+                  <Text style={styles.radioLabel}>{option.label}</Text>
+                </TouchableOpacity>
+              ))}
             </View>
           </View>
           <View style={styles.section}>
             <Text style={styles.label}>Enter Value:</Text>
             <TextInput
               style={styles.input}
-              placeholder={`Enter ${selectedUnit} value`}
-              placeholderTextColor="#888"
+              placeholder={`Enter ${unitLabel(selectedOption)} value`}
+              placeholderTextColor={colors.placeholder}
+              accessibilityLabel={`Value in ${unitLabel(selectedOption)}`}
               keyboardType="numeric"
               value={inputValue}
-              onChangeText={setInputValue}
+              onChangeText={handleInputChange}
               returnKeyType="done"
               maxLength={MAX_INPUT_LENGTH}
               autoCorrect={false}
               spellCheck={false}
               onSubmitEditing={handleConvert}
             />
+            <InputValidationMessage validation={validation} onSwitchUnit={selectUnit} unitLabel={unitLabel} />
+          </View>
+          {mode === 'glucose' && (
+            <View style={styles.section}>
+              <Text style={styles.label}>Context (optional):</Text>
+              <MealContextPicker value={mealContext} onChange={setMealContext} />
+            </View>
+          )}
+          <View style={styles.section}>
+            <Text style={styles.label}>Note (optional):</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="e.g. after pasta dinner"
+              placeholderTextColor={colors.placeholder}
+              accessibilityLabel="Note"
+              value={note}
+              onChangeText={setNote}
+              maxLength={MAX_NOTE_LENGTH}
+              returnKeyType="done"
+            />
+            <ReadingTimePicker value={readingTime} onChange={setReadingTime} />
           </View>
           <TouchableOpacity
             style={[styles.convertButton, !isInputValid && styles.convertButtonDisabled]}
             onPress={handleConvert}
             disabled={!isInputValid}
             activeOpacity={isInputValid ? 0.8 : 1.0}
+            accessibilityRole="button"
+            accessibilityState={{ disabled: !isInputValid }}
           >
             <Text style={styles.convertButtonText}>Convert</Text>
           </TouchableOpacity>
+          <ConversionResultPanel summary={preview ?? result} isPreview={preview !== null} />
         </View>
 
         <View style={[styles.card, styles.historyCard]}>
           <View style={styles.historyHeader}>
-            <Text style={styles.historyTitle}>Conversion History</Text>
-            {!isHistoryLoading && history.length > 0 && (
-              <TouchableOpacity onPress={handleClearHistory} style={styles.clearButton} activeOpacity={0.7}>
-                <Text style={styles.clearButtonText}>Clear</Text>
-              </TouchableOpacity>
-            )}
-          </View>
-          <View style={[styles.historyListContainer, { maxHeight: historyListMaxHeight }]}>
-            {isHistoryLoading ? (
-              <ActivityIndicator size="large" color="#8A2BE2" style={styles.loadingIndicator} />
-            ) : history.length === 0 ? (
-              <View style={styles.noHistoryContainer}>
-                <Text style={styles.noHistoryText}>No conversions recorded yet.</Text>
-              </View>
-            ) : (
-              <ScrollView nestedScrollEnabled={true} style={styles.innerHistoryScroll}>
-                <View style={styles.historyItemHeader}>
-                   <Text style={[styles.historyHeaderText, styles.historyHeaderTextTime]}>Time</Text>
-                   <Text style={styles.historyHeaderText}>mg/dL</Text>
-                   <Text style={styles.historyHeaderText}>mmol/L</Text>
-                </View>
-                {history.slice(0, MAX_HISTORY_ITEMS_RENDERED).map(item => renderHistoryItem(item))}
-              </ScrollView>
-            )}
+            <Text style={styles.historyTitle} accessibilityRole="header">Recent Entries</Text>
           </View>
+          {isHistoryLoading ? (
+            <ActivityIndicator size="large" color={colors.primary} style={styles.loadingIndicator} />
+          ) : history.length === 0 ? (
+            <View style={styles.noHistoryContainer}>
+              <Text style={styles.noHistoryText}>No conversions recorded yet.</Text>
+            </View>
+          ) : (
+            <View>
+              <HistoryHeaderRow />
+              {history.slice(0, HISTORY_PREVIEW_ITEMS).map(item => (
+                <HistoryRowActions key={item.id} onEdit={() => setEditingItem(item)} onDelete={() => removeEntry(item.id)}>
+                  <HistoryRow item={item} targetRanges={targetRanges} />
+                </HistoryRowActions>
+              ))}
+              <Link href="/history" asChild>
+                <TouchableOpacity style={styles.viewAllButton} activeOpacity={0.7}>
+                  <Text style={styles.viewAllButtonText}>View all {history.length} entries</Text>
+                </TouchableOpacity>
+              </Link>
+            </View>
+          )}
         </View>
 
-        {!isHistoryLoading && chartKitData && (
-           <View style={styles.card}>
-             <Text style={styles.chartTitle}>{chartTitleText}</Text>
-             <View style={styles.chartContainer}>
-               <LineChart
-                   data={chartKitData}
-                   width={width * 0.85}
-                   height={moderateScale(250)}
-                   yAxisSuffix={chartYAxisSuffix}
-                   yAxisInterval={1}
-                   chartConfig={dynamicChartConfig}
-                   bezier
-                   style={{
-                       marginVertical: 8,
-                       borderRadius: moderateScale(12)
-                   }}
-                   verticalLabelRotation={-15}
-               />
-             </View>
-           </View>
-        )}
-        {!isHistoryLoading && history.length < MIN_POINTS_FOR_CHART && (
-           <View style={styles.card}>
-               <Text style={styles.noHistoryText}>Need at least {MIN_POINTS_FOR_CHART} history entries to display chart.</Text>
-           </View>
-        )}
-
       </ScrollView>
+      <HistoryEntryEditor item={editingItem} onClose={() => setEditingItem(null)} />
     </SafeAreaView>
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   safeArea: {
     flex: 1,
-    backgroundColor: '#121212',
+    backgroundColor: colors.background,
   },
   scrollView: {
      flex: 1,
@@ -395,43 +346,71 @@ const styles = StyleSheet.create({
     paddingTop: height * 0.1,
     paddingBottom: height * 0.05,
     paddingHorizontal: width * 0.05,
-    backgroundColor: '#121212',
+    backgroundColor: colors.background,
     alignItems: 'center',
     minHeight: height * 0.95,
   },
   card: {
-    backgroundColor: '#1E1E2E',
+    backgroundColor: colors.card,
     borderRadius: moderateScale(12),
     padding: width * 0.05,
     marginBottom: height * 0.03,
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.3,
     shadowRadius: 5,
     elevation: 5,
     width: '100%',
     borderWidth: 1,
-    borderColor: '#9370DB',
+    borderColor: colors.cardBorder,
+  },
+  header: {
+    marginBottom: height * 0.03,
   },
   title: {
     fontSize: moderateScale(28, 0.4),
     fontWeight: 'bold',
-    color: '#FFF',
+    color: colors.text,
     textAlign: 'center',
-    marginBottom: height * 0.03,
+    marginBottom: height * 0.01,
   },
   section: {
     marginBottom: height * 0.025,
   },
+  modeContainer: {
+    flexDirection: 'row',
+    borderRadius: moderateScale(8),
+    borderWidth: 1,
+    borderColor: colors.primary,
+    overflow: 'hidden',
+    marginBottom: height * 0.025,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: moderateScale(8),
+    alignItems: 'center',
+  },
+  modeButtonSelected: {
+    backgroundColor: colors.primary,
+  },
+  modeButtonText: {
+    color: colors.text,
+    fontSize: moderateScale(14, 0.3),
+    fontWeight: 'bold',
+  },
+  modeButtonTextSelected: {
+    color: colors.onPrimary,
+  },
   label: {
     fontSize: moderateScale(16, 0.3),
-    color: '#DDD',
+    color: colors.textSecondary,
     marginBottom: height * 0.01,
     fontWeight: '500',
   },
   radioContainer: {
     flexDirection: 'row',
     alignItems: 'center',
+    flexWrap: 'wrap',
   },
   radioButton: {
     flexDirection: 'row',
@@ -444,36 +423,36 @@ const styles = StyleSheet.create({
     height: moderateScale(20),
     borderRadius: moderateScale(10),
     borderWidth: 2,
-    borderColor: '#8A2BE2',
+    borderColor: colors.primary,
     marginRight: width * 0.02,
     justifyContent: 'center',
     alignItems: 'center',
   },
   radioOuterSelected: {
-    borderColor: '#A040FF',
+    borderColor: colors.accent,
   },
   radioInnerSelected: {
     width: moderateScale(10),
     height: moderateScale(10),
     borderRadius: moderateScale(5),
-    backgroundColor: '#8A2BE2',
+    backgroundColor: colors.primary,
   },
   radioLabel: {
     fontSize: moderateScale(16, 0.3),
-    color: '#FFF',
+    color: colors.text,
   },
   input: {
-    backgroundColor: '#2C2C3E',
-    color: '#FFF',
+    backgroundColor: colors.surface,
+    color: colors.text,
     paddingHorizontal: width * 0.04,
     paddingVertical: Platform.OS === 'ios' ? height * 0.018 : height * 0.015,
     borderRadius: moderateScale(8),
     fontSize: moderateScale(16, 0.3),
     borderWidth: 1,
-    borderColor: '#BDB0D0',
+    borderColor: colors.inputBorder,
   },
   convertButton: {
-    backgroundColor: '#8A2BE2',
+    backgroundColor: colors.primary,
     paddingVertical: height * 0.018,
     borderRadius: moderateScale(8),
     alignItems: 'center',
@@ -481,11 +460,11 @@ const styles = StyleSheet.create({
     opacity: 1,
   },
   convertButtonDisabled: {
-    backgroundColor: '#5A1D9A',
+    backgroundColor: colors.primaryDisabled,
     opacity: 0.6,
   },
   convertButtonText: {
-    color: '#FFF',
+    color: colors.onPrimary,
     fontSize: moderateScale(16, 0.3),
     fontWeight: 'bold',
   },
@@ -499,30 +478,13 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingBottom: height * 0.015,
     borderBottomWidth: 1,
-    borderBottomColor: '#444',
+    borderBottomColor: colors.divider,
     marginBottom: height * 0.01,
   },
   historyTitle: {
     fontSize: moderateScale(24, 0.4),
     fontWeight: 'bold',
-    color: '#DDD',
-  },
-  clearButton: {
-    paddingVertical: moderateScale(4),
-    paddingHorizontal: moderateScale(10),
-    borderRadius: moderateScale(5),
-    backgroundColor: '#333',
-  },
-  clearButtonText: {
-    color: '#FF6B6B',
-    fontSize: moderateScale(14, 0.3),
-    fontWeight: 'bold',
-  },
-  historyListContainer: {
-    // Defines max height for the scrollable area
-  },
-  innerHistoryScroll: {
-    // Inner scroll view for history items
+    color: colors.textSecondary,
   },
   loadingIndicator: {
     marginTop: height * 0.05,
@@ -533,63 +495,19 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingVertical: moderateScale(30),
   },
+  viewAllButton: {
+  paddingVertical: moderateScale(10),
+  alignItems: 'center',
+  },
+  viewAllButtonText: {
+  color: colors.accent,
+  fontSize: moderateScale(14, 0.3),
+  fontWeight: 'bold',
+  },
   noHistoryText: {
-    color: '#AAA',
+    color: colors.textMuted,
     textAlign: 'center',
     fontSize: moderateScale(16, 0.3),
     fontStyle: 'italic',
   },
-  historyItemHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    paddingBottom: height * 0.01,
-    paddingHorizontal: width * 0.01,
-    backgroundColor: '#1E1E2E',
-    borderBottomWidth: 1,
-    borderBottomColor: '#444',
-    marginBottom: 5,
-  },
-  historyHeaderText: {
-    color: '#BBB',
-    fontWeight: 'bold',
-    fontSize: moderateScale(14, 0.3),
-    flex: 1,
-    textAlign: 'left',
-  },
-  historyHeaderTextTime: {
-    flex: 1.5,
-  },
-  historyItem: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    paddingVertical: height * 0.015,
-    paddingHorizontal: width * 0.01,
-    borderBottomWidth: 1,
-    borderBottomColor: '#3a3a4a',
-    minHeight: HISTORY_ITEM_APPROX_HEIGHT - moderateScale(10),
-  },
-  historyTextTime: {
-    color: '#CCC',
-    fontSize: moderateScale(13, 0.3),
-    flex: 1.5,
-    textAlign: 'left',
-  },
-  historyTextValue: {
-    color: '#FFF',
-    fontSize: moderateScale(14, 0.3),
-    flex: 1,
-    textAlign: 'left',
-  },
-  chartTitle: {
-    fontSize: moderateScale(18, 0.3),
-    fontWeight: 'bold',
-    color: '#DDD',
-    textAlign: 'center',
-    marginBottom: height * 0.02,
-  },
-  chartContainer: {
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
 });
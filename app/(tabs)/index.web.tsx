@@ -1,6 +1,3 @@
-// screens/GlucoSwapScreen.web.tsx
-// Replaced Alert.alert with window.confirm and window.alert for web compatibility.
-
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   StyleSheet,
@@ -8,212 +5,172 @@ import {
   View,
   TextInput,
   TouchableOpacity,
-  // Alert, // Removed Alert import
-  Platform,
-  Dimensions,
   ActivityIndicator,
   ScrollView,
 } from 'react-native';
+import { Link } from 'expo-router';
+
+import { ConversionResultPanel } from '@/components/ConversionResultPanel';
+import { HistoryEntryEditor } from '@/components/HistoryEntryEditor';
+import { HistoryHeaderRow, HistoryRow } from '@/components/HistoryRow';
+import { HistoryRowActions } from '@/components/HistoryRowActions';
+import { InputValidationMessage } from '@/components/InputValidationMessage';
+import { MealContextPicker } from '@/components/MealContextPicker';
+import { ProfileSwitcher } from '@/components/ProfileSwitcher';
+import { ReadingTimePicker } from '@/components/ReadingTimePicker';
+import { ThemeColors } from '@/constants/Colors';
+import { height, moderateScale, width } from '@/constants/Layout';
+import { useDialog } from '@/hooks/useDialog';
+import { useHistory } from '@/hooks/useHistory';
+import { useSettings } from '@/hooks/useSettings';
+import { useTargetRanges } from '@/hooks/useTargetRanges';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
 import {
-  LineChart,
-  Line,
-  XAxis,
-  YAxis,
-  CartesianGrid,
-  Tooltip,
-  Legend,
-  ResponsiveContainer,
-} from 'recharts';
-
-const CONVERSION_FACTOR = 18.0182;
-const HISTORY_STORAGE_KEY = '@glucoSwapHistory';
-const MAX_HISTORY_ITEMS_DISPLAYED = 100;
-const MAX_HISTORY_ITEMS_RENDERED = 20;
-const MAX_INPUT_LENGTH = 5;
-const HISTORY_ITEM_APPROX_HEIGHT = 55;
-const HISTORY_MAX_VISIBLE_ITEMS = 4;
-const MIN_POINTS_FOR_CHART = 2;
-const MAX_CHART_LABELS = 6;
-
-type Unit = 'mg/dL' | 'mmol/L';
-
-interface HistoryItem {
-  id: string;
-  timestamp: number;
-  mgdlValue: number;
-  mmolValue: number;
-}
+  HistoryItem,
+  MAX_INPUT_LENGTH,
+  MAX_NOTE_LENGTH,
+  MealContext,
+  UNITS,
+  Unit,
+  addHistoryItem,
+  convertGlucose,
+  createHistoryItem,
+  validateReadingTime,
+} from '@/lib/glucose';
+import {
+  A1C_QUANTITIES,
+  A1C_QUANTITY_LABELS,
+  A1cQuantity,
+  convertA1c,
+  createA1cHistoryItem,
+} from '@/lib/a1c';
+import { ConversionSummary, summarizeA1cConversion, summarizeGlucoseConversion } from '@/lib/conversionResult';
+import { InputValidation, validateA1cInput, validateGlucoseInput } from '@/lib/validation';
 
-interface ChartDataPoint {
-    timestamp: number;
-    timeLabel: string;
-    mgdlValue: number;
-    mmolValue: number;
-    yValue: number;
-}
+const HISTORY_PREVIEW_ITEMS = 4;
 
-const { width, height } = Dimensions.get('window');
-const guidelineBaseWidth = 375;
-const scale = (size: number): number => (width / guidelineBaseWidth) * size;
-const moderateScale = (size: number, factor = 0.5): number => size + (scale(size) - size) * factor;
+type ConversionMode = 'glucose' | 'a1c';
 
 export default function GlucoSwapScreenWeb() {
   const [inputValue, setInputValue] = useState<string>('');
-  const [selectedUnit, setSelectedUnit] = useState<Unit>('mg/dL');
-  const [history, setHistory] = useState<HistoryItem[]>([]);
-  const [isHistoryLoading, setIsHistoryLoading] = useState<boolean>(true);
+  const [mode, setMode] = useState<ConversionMode>('glucose');
+  const [selectedA1cQuantity, setSelectedA1cQuantity] = useState<A1cQuantity>('%');
+  const [mealContext, setMealContext] = useState<MealContext | undefined>(undefined);
+  const [note, setNote] = useState<string>('');
+  const [readingTime, setReadingTime] = useState<number | null>(null);
+  const [result, setResult] = useState<ConversionSummary | null>(null);
+  const [targetRanges] = useTargetRanges();
+  const { settings } = useSettings();
+  // Starts from the preference but only applies to this screen; Settings is where it is saved.
+  const [selectedUnit, setSelectedUnit] = useState<Unit>(settings.preferredUnit);
+  const { history, setHistory, isLoading: isHistoryLoading, storageError, removeEntry } = useHistory();
+  const [editingItem, setEditingItem] = useState<HistoryItem | null>(null);
+  const colors = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { showError } = useDialog();
 
   useEffect(() => {
-    setIsHistoryLoading(true);
-    try {
-      const storedHistory = localStorage.getItem(HISTORY_STORAGE_KEY);
-      if (storedHistory !== null) {
-        const parsedHistory = JSON.parse(storedHistory) as HistoryItem[];
-        if (Array.isArray(parsedHistory)) {
-           setHistory(parsedHistory.slice(0, MAX_HISTORY_ITEMS_DISPLAYED));
-        } else {
-           setHistory([]);
-           localStorage.removeItem(HISTORY_STORAGE_KEY);
-        }
-      } else {
-        setHistory([]);
-      }
-    } catch (e) {
-      console.error('Failed to load history from localStorage.', e);
-      // Use window.alert for errors too if Alert wasn't working
-      window.alert('Error: Could not load conversion history.');
-      setHistory([]);
-    } finally {
-      setIsHistoryLoading(false);
-    }
-  }, []);
+    setSelectedUnit(settings.preferredUnit);
+  }, [settings.preferredUnit]);
 
   useEffect(() => {
-    if (!isHistoryLoading) {
-      try {
-        const historyToSave = history.slice(0, MAX_HISTORY_ITEMS_DISPLAYED);
-        localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(historyToSave));
-      } catch (e) {
-        console.error('Failed to save history to localStorage.', e);
-         // Use window.alert for warnings too
-        window.alert('Warning: Could not save conversion history. Storage might be full.');
-      }
+    if (storageError) {
+      showError(storageError);
     }
-  }, [history, isHistoryLoading]);
-
-  const formatTimestamp = useCallback((timestamp: number): string => {
-    const date = new Date(timestamp);
-    return date.toLocaleString(undefined, {
-      day: '2-digit',
-      month: 'short',
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: true,
-    }).replace(',', '');
-  }, []);
-
-  const formatTimestampForChart = useCallback((timestamp: number): string => {
-    const date = new Date(timestamp);
-    return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
-  }, []);
+  }, [storageError, showError]);
+
+  const validation = useMemo(
+    (): InputValidation<A1cQuantity> =>
+      mode === 'a1c'
+        ? validateA1cInput(inputValue, selectedA1cQuantity, settings)
+        : validateGlucoseInput(inputValue, selectedUnit, settings),
+    [inputValue, mode, selectedA1cQuantity, selectedUnit, settings]
+  );
+  const inputNumber = validation.value;
 
-  const isInputValid = useMemo(() => {
-    const numericValue = parseFloat(inputValue);
-    return !isNaN(numericValue) && numericValue > 0;
-  }, [inputValue]);
+  // Live conversion of whatever is typed, before anything is saved.
+  const preview = useMemo(() => {
+    if (inputNumber === null) {
+      return null;
+    }
+    return mode === 'a1c'
+      ? summarizeA1cConversion(convertA1c(inputNumber, selectedA1cQuantity), settings)
+      : summarizeGlucoseConversion(convertGlucose(inputNumber, selectedUnit), selectedUnit, targetRanges, settings, mealContext);
+  }, [inputNumber, mode, selectedA1cQuantity, selectedUnit, targetRanges, settings, mealContext]);
+  const isInputValid = preview !== null;
+
+  const handleInputChange = (text: string) => {
+    setInputValue(text);
+    setResult(null);
+  };
 
-  const handleUnitChange = (newUnit: Unit) => {
-    setSelectedUnit(newUnit);
+  const handleModeChange = (newMode: ConversionMode) => {
+    setMode(newMode);
     setInputValue('');
+    setResult(null);
   };
 
-  const handleConvert = useCallback(() => {
-    if (!isInputValid) return;
-
-    const value = parseFloat(inputValue);
-    let mgdlValue: number;
-    let mmolValue: number;
-    let resultText: string;
-
-    if (selectedUnit === 'mg/dL') {
-      mgdlValue = value;
-      mmolValue = value / CONVERSION_FACTOR;
-      resultText = `${mgdlValue.toFixed(0)} mg/dL ≈ ${mmolValue.toFixed(2)} mmol/L`;
+  const selectUnit = (newUnit: A1cQuantity) => {
+    if (mode === 'glucose') {
+      setSelectedUnit(newUnit as Unit);
     } else {
-      mmolValue = value;
-      mgdlValue = value * CONVERSION_FACTOR;
-      resultText = `${mmolValue.toFixed(2)} mmol/L ≈ ${mgdlValue.toFixed(0)} mg/dL`;
+      setSelectedA1cQuantity(newUnit);
     }
+    setResult(null);
+  };
 
-    const newEntry: HistoryItem = {
-      id: Date.now().toString(),
-      timestamp: Date.now(),
-      mgdlValue: mgdlValue,
-      mmolValue: mmolValue,
-    };
-
-    setHistory(prevHistory => [newEntry, ...prevHistory].slice(0, MAX_HISTORY_ITEMS_DISPLAYED));
-
-    // Use window.alert to show the result
-    window.alert(resultText);
-    // Clear input after the alert is dismissed
+  const handleUnitChange = (newUnit: A1cQuantity) => {
+    selectUnit(newUnit);
     setInputValue('');
+  };
 
-  }, [inputValue, selectedUnit, isInputValid]);
+  const handleConvertA1c = useCallback(() => {
+    if (inputNumber === null) return;
+    const conversion = convertA1c(inputNumber, selectedA1cQuantity);
+    const timestamp = readingTime ?? Date.now();
+    const timeError = validateReadingTime(timestamp);
+    if (timeError) {
+      showError(timeError, 'Invalid Time');
+      return;
+    }
 
-  const handleClearHistory = useCallback(() => {
-    // Use window.confirm for confirmation
-    const userConfirmed = window.confirm(
-      'Are you sure you want to delete all conversion history? This action cannot be undone.'
-    );
+    setHistory(prevHistory => addHistoryItem(prevHistory, createA1cHistoryItem(conversion, { timestamp, note })));
 
-    // Proceed only if the user clicked "OK"
-    if (userConfirmed) {
-      setHistory([]);
-      setInputValue('');
-      try {
-          localStorage.removeItem(HISTORY_STORAGE_KEY);
-      } catch (e) {
-          console.error("Failed to clear history from localStorage.", e);
-          // Optionally alert the user about the failure
-          window.alert("Error: Could not clear history from storage.");
-      }
+    setResult(summarizeA1cConversion(conversion, settings));
+    setInputValue('');
+    setNote('');
+    setReadingTime(null);
+  }, [inputNumber, selectedA1cQuantity, note, readingTime, settings, setHistory, showError]);
+
+  const handleConvertGlucose = useCallback(() => {
+    if (inputNumber === null) return;
+    const timestamp = readingTime ?? Date.now();
+    const timeError = validateReadingTime(timestamp);
+    if (timeError) {
+      showError(timeError, 'Invalid Time');
+      return;
     }
-  }, []); // No dependencies needed
 
-  const renderHistoryItem = (item: HistoryItem) => (
-    <View key={item.id} style={styles.historyItem}>
-      <Text style={styles.historyTextTime} numberOfLines={1} ellipsizeMode="tail">
-        {formatTimestamp(item.timestamp)}
-      </Text>
-      <Text style={styles.historyTextValue}>{item.mgdlValue.toFixed(0)}</Text>
-      <Text style={styles.historyTextValue}>{item.mmolValue.toFixed(2)}</Text>
-    </View>
-  );
+    const conversion = convertGlucose(inputNumber, selectedUnit);
 
-  const historyListMaxHeight = useMemo(() => {
-      return (HISTORY_ITEM_APPROX_HEIGHT * HISTORY_MAX_VISIBLE_ITEMS) + moderateScale(30);
-  }, []);
+    const newEntry = createHistoryItem(conversion, { timestamp, context: mealContext, note });
 
-  const chartYUnit: Unit = selectedUnit === 'mg/dL' ? 'mmol/L' : 'mg/dL';
-  const chartYAxisSuffix = chartYUnit === 'mg/dL' ? ' mg/dL' : ' mmol/L';
-  const chartTitleText = `Glucose Trend (${chartYUnit})`;
-  const chartDecimalPlaces = chartYUnit === 'mg/dL' ? 0 : 1;
+    setHistory(prevHistory => addHistoryItem(prevHistory, newEntry));
 
-  const rechartsData = useMemo((): ChartDataPoint[] | null => {
-    if (history.length < MIN_POINTS_FOR_CHART) {
-      return null;
-    }
-    const sortedHistory = [...history].sort((a, b) => a.timestamp - b.timestamp);
+    setResult(summarizeGlucoseConversion(conversion, selectedUnit, targetRanges, settings, mealContext));
+    setInputValue('');
+    setMealContext(undefined);
+    setNote('');
+    setReadingTime(null);
+  }, [inputNumber, selectedUnit, mealContext, note, readingTime, targetRanges, settings, setHistory, showError]);
+
+  const handleConvert = mode === 'glucose' ? handleConvertGlucose : handleConvertA1c;
 
-    return sortedHistory.map(item => ({
-      timestamp: item.timestamp,
-      timeLabel: formatTimestampForChart(item.timestamp),
-      mgdlValue: item.mgdlValue,
-      mmolValue: item.mmolValue,
-      yValue: chartYUnit === 'mg/dL' ? item.mgdlValue : item.mmolValue,
-    }));
-  }, [history, formatTimestampForChart, chartYUnit]);
+  const radioOptions = mode === 'glucose'
+    ? UNITS.map(unit => ({ value: unit as A1cQuantity, label: unit }))
+    : A1C_QUANTITIES.map(quantity => ({ value: quantity, label: A1C_QUANTITY_LABELS[quantity] }));
+  const selectedOption: A1cQuantity = mode === 'glucose' ? selectedUnit : selectedA1cQuantity;
+  const unitLabel = (unit: A1cQuantity) => (mode === 'glucose' ? unit : A1C_QUANTITY_LABELS[unit]);
 
   return (
     <View style={styles.webContainer}>
@@ -222,146 +179,131 @@ export default function GlucoSwapScreenWeb() {
           contentContainerStyle={styles.container}
       >
         <View style={styles.card}>
-          <Text style={styles.title}>GlucoSwap</Text>
-          <View style={styles.section}>
-            <Text style={styles.label}>Convert From:</Text>
-            <View style={styles.radioContainer}>
-               <TouchableOpacity
-                 style={styles.radioButton}
-                 onPress={() => handleUnitChange('mg/dL')}
-                 activeOpacity={0.7}
-               >
-                 <View style={[styles.radioOuter, selectedUnit === 'mg/dL' && styles.radioOuterSelected]}>
-                   {selectedUnit === 'mg/dL' && <View style={styles.radioInnerSelected} />}
-                 </View>
-                 <Text style={styles.radioLabel}>mg/dL</Text>
-               </TouchableOpacity>
+          <View style={styles.header}>
+            <Text style={styles.title} accessibilityRole="header">GlucoSwap</Text>
+            <ProfileSwitcher />
+          </View>
+          <View style={styles.modeContainer} accessibilityRole="tablist">
+             {(['glucose', 'a1c'] as ConversionMode[]).map(option => (
                <TouchableOpacity
-                 style={styles.radioButton}
-                 onPress={() => handleUnitChange('mmol/L')}
+                 key={option}
+                 style={[styles.modeButton, mode === option && styles.modeButtonSelected]}
+                 onPress={() => handleModeChange(option)}
                  activeOpacity={0.7}
+                 accessibilityRole="tab"
+                 accessibilityState={{ selected: mode === option }}
                >
-                 <View style={[styles.radioOuter, selectedUnit === 'mmol/L' && styles.radioOuterSelected]}>
-                   {selectedUnit === 'mmol/L' && <View style={styles.radioInnerSelected} />}
-                 </View>
-                 <Text style={styles.radioLabel}>mmol/L</Text>
+                 <Text style={[styles.modeButtonText, mode === option && styles.modeButtonTextSelected]}>
+                   {option === 'glucose' ? 'Glucose' : 'HbA1c ↔ eAG'}
+                 </Text>
                </TouchableOpacity>
+             ))}
+          </View>
+          <View style={styles.section}>
+            <Text style={styles.label}>Convert From:</Text>
+            <View style={styles.radioContainer} accessibilityRole="radiogroup" accessibilityLabel="Convert from">
+               {radioOptions.map(option => (
+                 <TouchableOpacity
+                   key={option.value}
+                   style={styles.radioButton}
+                   onPress={() => handleUnitChange(option.value)}
+                   activeOpacity={0.7}
+                   accessibilityRole="radio"
+                   accessibilityState={{ checked: selectedOption === option.value }}
+                 >
+                   <View style={[styles.radioOuter, selectedOption === option.value && styles.radioOuterSelected]}>
+                     {selectedOption === option.value && <View style={styles.radioInnerSelected} />}
+                   </View>
+                   <Text style={styles.radioLabel}>{option.label}</Text>
+                 </TouchableOpacity>
+               ))}
             </View>
           </View>
           <View style={styles.section}>
              <Text style={styles.label}>Enter Value:</Text>
              <TextInput
                style={styles.input}
-               placeholder={`Enter ${selectedUnit} value`}
-               placeholderTextColor="#888"
+               placeholder={`Enter ${unitLabel(selectedOption)} value`}
+               placeholderTextColor={colors.placeholder}
+               accessibilityLabel={`Value in ${unitLabel(selectedOption)}`}
                keyboardType="numeric"
                value={inputValue}
-               onChangeText={setInputValue}
+               onChangeText={handleInputChange}
                maxLength={MAX_INPUT_LENGTH}
                autoCorrect={false}
                spellCheck={false}
              />
+             <InputValidationMessage validation={validation} onSwitchUnit={selectUnit} unitLabel={unitLabel} />
+           </View>
+           {mode === 'glucose' && (
+             <View style={styles.section}>
+               <Text style={styles.label}>Context (optional):</Text>
+               <MealContextPicker value={mealContext} onChange={setMealContext} />
+             </View>
+           )}
+           <View style={styles.section}>
+             <Text style={styles.label}>Note (optional):</Text>
+             <TextInput
+               style={styles.input}
+               placeholder="e.g. after pasta dinner"
+               placeholderTextColor={colors.placeholder}
+               accessibilityLabel="Note"
+               value={note}
+               onChangeText={setNote}
+               maxLength={MAX_NOTE_LENGTH}
+             />
+             <ReadingTimePicker value={readingTime} onChange={setReadingTime} />
            </View>
            <TouchableOpacity
              style={[styles.convertButton, !isInputValid && styles.convertButtonDisabled]}
              onPress={handleConvert}
              disabled={!isInputValid}
              activeOpacity={isInputValid ? 0.8 : 1.0}
+             accessibilityRole="button"
+             accessibilityState={{ disabled: !isInputValid }}
            >
              <Text style={styles.convertButtonText}>Convert</Text>
            </TouchableOpacity>
+           <ConversionResultPanel summary={preview ?? result} isPreview={preview !== null} />
         </View>
 
         <View style={[styles.card, styles.historyCard]}>
            <View style={styles.historyHeader}>
-             <Text style={styles.historyTitle}>Conversion History</Text>
-             {!isHistoryLoading && history.length > 0 && (
-               <TouchableOpacity onPress={handleClearHistory} style={styles.clearButton} activeOpacity={0.7}>
-                 <Text style={styles.clearButtonText}>Clear</Text>
-               </TouchableOpacity>
-             )}
+             <Text style={styles.historyTitle} accessibilityRole="header">Recent Entries</Text>
            </View>
-           <View style={[styles.historyListContainer, { maxHeight: historyListMaxHeight }]}>
-             {isHistoryLoading ? (
-               <ActivityIndicator size="large" color="#8A2BE2" style={styles.loadingIndicator} />
-             ) : history.length === 0 ? (
-               <View style={styles.noHistoryContainer}>
-                 <Text style={styles.noHistoryText}>No conversions recorded yet.</Text>
-               </View>
-             ) : (
-               <ScrollView style={styles.innerHistoryScroll}>
-                  <View style={styles.historyItemHeader}>
-                     <Text style={[styles.historyHeaderText, styles.historyHeaderTextTime]}>Time</Text>
-                     <Text style={styles.historyHeaderText}>mg/dL</Text>
-                     <Text style={styles.historyHeaderText}>mmol/L</Text>
-                   </View>
-                 {history.slice(0, MAX_HISTORY_ITEMS_RENDERED).map(item => renderHistoryItem(item))}
-               </ScrollView>
-             )}
-           </View>
-         </View>
-
-        {!isHistoryLoading && rechartsData && (
-            <View style={styles.card}>
-              <Text style={styles.chartTitle}>{chartTitleText}</Text>
-              <View style={styles.chartContainer}>
-                <ResponsiveContainer width="100%" height={moderateScale(280)}>
-                  <LineChart
-                    data={rechartsData}
-                    margin={{ top: 5, right: 15, left: -15, bottom: 25 }}
-                  >
-                    <CartesianGrid strokeDasharray="3 3" stroke="#444" />
-                    <XAxis
-                        dataKey="timeLabel"
-                        stroke="#CCC"
-                        angle={-15}
-                        textAnchor="end"
-                        height={40}
-                        tick={{ fontSize: moderateScale(10) }}
-                     />
-                    <YAxis
-                        stroke="#CCC"
-                        tickFormatter={(value) => value.toFixed(chartDecimalPlaces)}
-                        domain={['auto', 'auto']}
-                        tick={{ fontSize: moderateScale(10) }}
-                     />
-                    <Tooltip
-                      contentStyle={{ backgroundColor: '#2C2C3E', border: 'none', borderRadius: moderateScale(5)}}
-                      labelStyle={{ color: '#DDD', fontWeight: 'bold' }}
-                      itemStyle={{ color: '#FFF' }}
-                      formatter={(value: number) => [value.toFixed(chartDecimalPlaces), chartYUnit]}
-                      labelFormatter={(label) => `Time: ${label}`}
-                    />
-                    <Legend wrapperStyle={{ paddingTop: 20 }}/>
-                    <Line
-                      type="monotone"
-                      dataKey="yValue"
-                      stroke="#8A2BE2"
-                      strokeWidth={3}
-                      activeDot={{ r: 6, stroke: "#A040FF", strokeWidth: 2 }}
-                      dot={{ r: 4, stroke: "#A040FF", fill: '#1E1E2E', strokeWidth: 2 }}
-                      name={chartYUnit}
-                    />
-                  </LineChart>
-                </ResponsiveContainer>
-              </View>
-            </View>
-          )}
-         {!isHistoryLoading && history.length < MIN_POINTS_FOR_CHART && (
-             <View style={styles.card}>
-               <Text style={styles.noHistoryText}>Need at least {MIN_POINTS_FOR_CHART} history entries to display chart.</Text>
+           {isHistoryLoading ? (
+             <ActivityIndicator size="large" color={colors.primary} style={styles.loadingIndicator} />
+           ) : history.length === 0 ? (
+             <View style={styles.noHistoryContainer}>
+               <Text style={styles.noHistoryText}>No conversions recorded yet.</Text>
+             </View>
+           ) : (
+             <View>
+               <HistoryHeaderRow />
+               {history.slice(0, HISTORY_PREVIEW_ITEMS).map(item => (
+                 <HistoryRowActions key={item.id} onEdit={() => setEditingItem(item)} onDelete={() => removeEntry(item.id)}>
+                   <HistoryRow item={item} targetRanges={targetRanges} />
+                 </HistoryRowActions>
+               ))}
+               <Link href="/history" asChild>
+                 <TouchableOpacity style={styles.viewAllButton} activeOpacity={0.7}>
+                   <Text style={styles.viewAllButtonText}>View all {history.length} entries</Text>
+                 </TouchableOpacity>
+               </Link>
              </View>
            )}
+         </View>
 
       </ScrollView>
+      <HistoryEntryEditor item={editingItem} onClose={() => setEditingItem(null)} />
     </View>
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   webContainer: {
       flex: 1,
-      backgroundColor: '#121212',
+      backgroundColor: colors.background,
       height: '100%',
       overflow: 'hidden',
   },
@@ -374,12 +316,12 @@ const styles = StyleSheet.create({
       paddingTop: height * 0.05,
       paddingBottom: height * 0.05,
       paddingHorizontal: '5%',
-      backgroundColor: '#121212',
+      backgroundColor: colors.background,
       alignItems: 'center',
       minHeight: '95%',
   },
   card: {
-      backgroundColor: '#1E1E2E',
+      backgroundColor: colors.card,
       borderRadius: moderateScale(12),
       padding: '5%',
       marginBottom: height * 0.03,
@@ -387,22 +329,50 @@ const styles = StyleSheet.create({
       width: '95%',
       maxWidth: 600,
       borderWidth: 1,
-      borderColor: '#9370DB',
+      borderColor: colors.cardBorder,
       alignSelf: 'center',
   },
+  header: {
+      marginBottom: height * 0.03,
+  },
   title: {
       fontSize: moderateScale(28, 0.4),
       fontWeight: 'bold',
-      color: '#FFF',
+      color: colors.text,
       textAlign: 'center',
-      marginBottom: height * 0.03,
+      marginBottom: height * 0.01,
   },
   section: {
       marginBottom: height * 0.025,
   },
+  modeContainer: {
+      flexDirection: 'row',
+      borderRadius: moderateScale(8),
+      borderWidth: 1,
+      borderColor: colors.primary,
+      overflow: 'hidden',
+      marginBottom: height * 0.025,
+  },
+  modeButton: {
+      flex: 1,
+      paddingVertical: moderateScale(8),
+      alignItems: 'center',
+      cursor: 'pointer',
+  },
+  modeButtonSelected: {
+      backgroundColor: colors.primary,
+  },
+  modeButtonText: {
+      color: colors.text,
+      fontSize: moderateScale(14, 0.3),
+      fontWeight: 'bold',
+  },
+  modeButtonTextSelected: {
+      color: colors.onPrimary,
+  },
   label: {
       fontSize: moderateScale(16, 0.3),
-      color: '#DDD',
+      color: colors.textSecondary,
       marginBottom: height * 0.01,
       fontWeight: '500',
   },
@@ -423,37 +393,37 @@ const styles = StyleSheet.create({
       height: moderateScale(20),
       borderRadius: moderateScale(10),
       borderWidth: 2,
-      borderColor: '#8A2BE2',
+      borderColor: colors.primary,
       marginRight: width * 0.02,
       justifyContent: 'center',
       alignItems: 'center',
   },
   radioOuterSelected: {
-      borderColor: '#A040FF',
+      borderColor: colors.accent,
   },
   radioInnerSelected: {
       width: moderateScale(10),
       height: moderateScale(10),
       borderRadius: moderateScale(5),
-      backgroundColor: '#8A2BE2',
+      backgroundColor: colors.primary,
   },
   radioLabel: {
       fontSize: moderateScale(16, 0.3),
-      color: '#FFF',
+      color: colors.text,
   },
   input: {
-      backgroundColor: '#2C2C3E',
-      color: '#FFF',
+      backgroundColor: colors.surface,
+      color: colors.text,
       paddingHorizontal: width * 0.04,
       paddingVertical: height * 0.015,
       borderRadius: moderateScale(8),
       fontSize: moderateScale(16, 0.3),
       borderWidth: 1,
-      borderColor: '#BDB0D0',
+      borderColor: colors.inputBorder,
       width: '100%',
   },
   convertButton: {
-      backgroundColor: '#8A2BE2',
+      backgroundColor: colors.primary,
       paddingVertical: height * 0.018,
       borderRadius: moderateScale(8),
       alignItems: 'center',
@@ -462,12 +432,12 @@ const styles = StyleSheet.create({
       cursor: 'pointer',
   },
   convertButtonDisabled: {
-      backgroundColor: '#5A1D9A',
+      backgroundColor: colors.primaryDisabled,
       opacity: 0.6,
       cursor: 'not-allowed',
   },
   convertButtonText: {
-      color: '#FFF',
+      color: colors.onPrimary,
       fontSize: moderateScale(16, 0.3),
       fontWeight: 'bold',
   },
@@ -481,31 +451,13 @@ const styles = StyleSheet.create({
       alignItems: 'center',
       paddingBottom: height * 0.015,
       borderBottomWidth: 1,
-      borderBottomColor: '#444',
+      borderBottomColor: colors.divider,
       marginBottom: height * 0.01,
   },
   historyTitle: {
       fontSize: moderateScale(24, 0.4),
       fontWeight: 'bold',
-      color: '#DDD',
-  },
-  clearButton: {
-      paddingVertical: moderateScale(4),
-      paddingHorizontal: moderateScale(10),
-      borderRadius: moderateScale(5),
-      backgroundColor: '#333',
-      cursor: 'pointer',
-  },
-  clearButtonText: {
-      color: '#FF6B6B',
-      fontSize: moderateScale(14, 0.3),
-      fontWeight: 'bold',
-  },
-  historyListContainer: {
-      overflow: 'hidden',
-  },
-  innerHistoryScroll: {
-
+      color: colors.textSecondary,
   },
   loadingIndicator: {
       marginTop: height * 0.05,
@@ -516,70 +468,19 @@ const styles = StyleSheet.create({
       alignItems: 'center',
       paddingVertical: moderateScale(30),
   },
-  noHistoryText: {
-      color: '#AAA',
-      textAlign: 'center',
-      fontSize: moderateScale(16, 0.3),
-      fontStyle: 'italic',
-  },
-  historyItemHeader: {
-      flexDirection: 'row',
-      justifyContent: 'space-between',
-      paddingBottom: height * 0.01,
-      paddingHorizontal: '1%',
-      backgroundColor: '#1E1E2E',
-      borderBottomWidth: 1,
-      borderBottomColor: '#444',
-      marginBottom: 5,
-  },
-  historyHeaderText: {
-      color: '#BBB',
-      fontWeight: 'bold',
-      fontSize: moderateScale(14, 0.3),
-      flex: 1,
-      textAlign: 'left',
-      paddingHorizontal: moderateScale(2),
-  },
-  historyHeaderTextTime: {
-      flex: 1.5,
-  },
-  historyItem: {
-      flexDirection: 'row',
-      justifyContent: 'space-between',
+  viewAllButton: {
+      paddingVertical: moderateScale(10),
       alignItems: 'center',
-      paddingVertical: height * 0.015,
-      paddingHorizontal: '1%',
-      borderBottomWidth: 1,
-      borderBottomColor: '#3a3a4a',
-      minHeight: HISTORY_ITEM_APPROX_HEIGHT - moderateScale(10),
-  },
-  historyTextTime: {
-      color: '#CCC',
-      fontSize: moderateScale(13, 0.3),
-      flex: 1.5,
-      textAlign: 'left',
-      paddingRight: moderateScale(5),
-      overflow: 'hidden',
-      textOverflow: 'ellipsis',
   },
-  historyTextValue: {
-      color: '#FFF',
+  viewAllButtonText: {
+      color: colors.accent,
       fontSize: moderateScale(14, 0.3),
-      flex: 1,
-      textAlign: 'left',
-      paddingHorizontal: moderateScale(2),
-  },
-  chartTitle: {
-      fontSize: moderateScale(18, 0.3),
       fontWeight: 'bold',
-      color: '#DDD',
-      textAlign: 'center',
-      marginBottom: height * 0.02,
   },
-  chartContainer: {
-      alignItems: 'center',
-      justifyContent: 'center',
-      width: '100%',
-      minHeight: moderateScale(280),
+  noHistoryText: {
+      color: colors.textMuted,
+      textAlign: 'center',
+      fontSize: moderateScale(16, 0.3),
+      fontStyle: 'italic',
   },
 });
@@ -0,0 +1,131 @@
+import { ActivityIndicator, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { A1cTrendChart } from '@/components/A1cTrendChart';
+import { AgpChart } from '@/components/AgpChart';
+import { ClinicianReportCard } from '@/components/ClinicianReportCard';
+import { GlucoseTrendChart } from '@/components/GlucoseTrendChart';
+import { StatisticsCard } from '@/components/StatisticsCard';
+import { useBottomTabOverflow } from '@/components/ui/TabBarBackground';
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale, width } from '@/constants/Layout';
+import { useDialog } from '@/hooks/useDialog';
+import { useHistory } from '@/hooks/useHistory';
+import { useSettings } from '@/hooks/useSettings';
+import { useTargetRanges } from '@/hooks/useTargetRanges';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { buildA1cChartPoints } from '@/lib/a1c';
+import { AGP_MIN_READINGS } from '@/lib/agp';
+import { MIN_POINTS_FOR_CHART, glucoseReadings } from '@/lib/glucose';
+
+/**
+ * Charts, statistics and the clinician report, all in the preferred unit from Settings.
+ */
+export default function InsightsScreen() {
+  const { history, isLoading } = useHistory();
+  const [targetRanges] = useTargetRanges();
+  const { settings } = useSettings();
+  const { showError } = useDialog();
+  const chartUnit = settings.preferredUnit;
+  const readingCount = glucoseReadings(history).length;
+  const bottom = useBottomTabOverflow();
+  const colors = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  if (isLoading) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color={colors.primary} style={styles.loadingIndicator} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      contentInset={{ bottom }}
+      scrollIndicatorInsets={{ bottom }}
+    >
+      {readingCount >= MIN_POINTS_FOR_CHART ? (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle} accessibilityRole="header">Glucose Trend ({chartUnit})</Text>
+          <View style={styles.chartContainer}>
+            <GlucoseTrendChart history={history} unit={chartUnit} targetRanges={targetRanges} />
+          </View>
+        </View>
+      ) : (
+        <View style={styles.card}>
+          <Text style={styles.emptyText}>Need at least {MIN_POINTS_FOR_CHART} history entries to display chart.</Text>
+        </View>
+      )}
+      {readingCount >= AGP_MIN_READINGS && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle} accessibilityRole="header">Daily Profile (AGP, {chartUnit})</Text>
+          <View style={styles.chartContainer}>
+            <AgpChart history={history} unit={chartUnit} targetRanges={targetRanges} />
+          </View>
+        </View>
+      )}
+      {buildA1cChartPoints(history) && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle} accessibilityRole="header">HbA1c Trend (%)</Text>
+          <View style={styles.chartContainer}>
+            <A1cTrendChart history={history} />
+          </View>
+        </View>
+      )}
+      {history.length > 0 && (
+        <View style={styles.card}>
+          <StatisticsCard history={history} targetRanges={targetRanges} unit={chartUnit} />
+        </View>
+      )}
+      {history.length > 0 && (
+        <View style={styles.card}>
+          <ClinicianReportCard history={history} targetRanges={targetRanges} unit={chartUnit} onError={showError} />
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    paddingHorizontal: width * 0.05,
+    paddingVertical: moderateScale(20),
+  },
+  loadingIndicator: {
+    marginTop: moderateScale(40),
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: moderateScale(12),
+    padding: moderateScale(16),
+    marginBottom: moderateScale(20),
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    width: '100%',
+    maxWidth: 600,
+    alignSelf: 'center',
+  },
+  cardTitle: {
+    fontSize: moderateScale(18, 0.3),
+    fontWeight: 'bold',
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: moderateScale(12),
+  },
+  chartContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyText: {
+    color: colors.textMuted,
+    textAlign: 'center',
+    fontSize: moderateScale(16, 0.3),
+    fontStyle: 'italic',
+  },
+});
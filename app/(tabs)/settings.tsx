@@ -0,0 +1,70 @@
+import { ScrollView, StyleSheet, View } from 'react-native';
+
+import { AppLockSettingsCard } from '@/components/AppLockSettingsCard';
+import { DataManagementCard } from '@/components/DataManagementCard';
+import { DisplaySettingsEditor } from '@/components/DisplaySettingsEditor';
+import { ReminderSettingsCard } from '@/components/ReminderSettingsCard';
+import { TargetRangeEditor } from '@/components/TargetRangeEditor';
+import { useBottomTabOverflow } from '@/components/ui/TabBarBackground';
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale, width } from '@/constants/Layout';
+import { useTargetRanges } from '@/hooks/useTargetRanges';
+import { useThemedStyles } from '@/hooks/useTheme';
+
+/**
+ * Preferences and data management: display units and format, target ranges, reminders, app lock,
+ * export/import.
+ */
+export default function SettingsScreen() {
+  const [targetRanges, setTargetRanges] = useTargetRanges();
+  const bottom = useBottomTabOverflow();
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      contentInset={{ bottom }}
+      scrollIndicatorInsets={{ bottom }}
+      keyboardShouldPersistTaps="handled"
+    >
+      <View style={styles.card}>
+        <DisplaySettingsEditor />
+      </View>
+      <View style={styles.card}>
+        <TargetRangeEditor value={targetRanges} onSave={setTargetRanges} />
+      </View>
+      <View style={styles.card}>
+        <ReminderSettingsCard />
+      </View>
+      <View style={styles.card}>
+        <AppLockSettingsCard />
+      </View>
+      <View style={styles.card}>
+        <DataManagementCard />
+      </View>
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    paddingHorizontal: width * 0.05,
+    paddingVertical: moderateScale(20),
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: moderateScale(12),
+    padding: moderateScale(16),
+    marginBottom: moderateScale(20),
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    width: '100%',
+    maxWidth: 600,
+    alignSelf: 'center',
+  },
+});
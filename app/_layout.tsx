@@ -1,18 +1,31 @@
-import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
+import { ThemeProvider } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
 import { Stack } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
-import { useEffect } from 'react';
+import { useEffect, useMemo } from 'react';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import 'react-native-reanimated';
 
+import { DialogHost } from '@/components/DialogHost';
+import { LockScreen } from '@/components/LockScreen';
+import { ToastHost } from '@/components/ToastHost';
+import { UndoSnackbar } from '@/components/UndoSnackbar';
+import { AppLockProvider, useAppLock } from '@/hooks/useAppLock';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { DialogProvider } from '@/hooks/useDialog';
+import { HistoryProvider } from '@/hooks/useHistory';
+import { ProfilesProvider, useProfiles } from '@/hooks/useProfiles';
+import { RemindersProvider } from '@/hooks/useReminders';
+import { SettingsProvider, useSettings } from '@/hooks/useSettings';
+import { TargetRangesProvider } from '@/hooks/useTargetRanges';
+import { AppThemeProvider, navigationTheme } from '@/hooks/useTheme';
+import { resolveThemeName } from '@/lib/settings';
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
 
 export default function RootLayout() {
-  const colorScheme = useColorScheme();
   const [loaded] = useFonts({
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
@@ -28,12 +41,70 @@ export default function RootLayout() {
   }
 
   return (
-    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="+not-found" />
-      </Stack>
-      <StatusBar style="auto" />
-    </ThemeProvider>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <AppLockProvider>
+        <LockGate />
+      </AppLockProvider>
+    </GestureHandlerRootView>
+  );
+}
+
+// Nothing that reads stored data is mounted while the app is locked, so unlocking loads every
+// profile afresh through the decrypting storage.
+function LockGate() {
+  const { isLoading, isLocked } = useAppLock();
+
+  if (isLoading) {
+    return null;
+  }
+  if (isLocked) {
+    return <LockScreen />;
+  }
+  return (
+    <ProfilesProvider>
+      <ProfileScope />
+    </ProfilesProvider>
+  );
+}
+
+// Keyed by profile so switching remounts every per-profile provider and reloads its data,
+// rather than letting one profile's state be saved into another's storage.
+function ProfileScope() {
+  const { activeProfile } = useProfiles();
+
+  return (
+    <SettingsProvider key={activeProfile.id}>
+      <ThemedApp />
+    </SettingsProvider>
+  );
+}
+
+function ThemedApp() {
+  const { settings } = useSettings();
+  const systemScheme = useColorScheme();
+  const themeName = resolveThemeName(settings.themePreference, systemScheme);
+  const theme = useMemo(() => navigationTheme(themeName), [themeName]);
+
+  return (
+    <AppThemeProvider themeName={themeName}>
+      <ThemeProvider value={theme}>
+        <DialogProvider>
+          <TargetRangesProvider>
+            <HistoryProvider>
+              <RemindersProvider>
+                <Stack>
+                  <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                  <Stack.Screen name="+not-found" />
+                </Stack>
+                <UndoSnackbar />
+                <ToastHost />
+                <DialogHost />
+              </RemindersProvider>
+            </HistoryProvider>
+          </TargetRangesProvider>
+        </DialogProvider>
+        <StatusBar style={themeName === 'light' ? 'dark' : 'light'} />
+      </ThemeProvider>
+    </AppThemeProvider>
   );
 }
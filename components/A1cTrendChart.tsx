@@ -0,0 +1,95 @@
+import { useMemo } from 'react';
+import { View } from 'react-native';
+import { LineChart } from 'react-native-chart-kit';
+
+import { ChartDataTable } from '@/components/ChartDataTable';
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale, width as screenWidth } from '@/constants/Layout';
+import { useFontScale } from '@/hooks/useFontScale';
+import { useSettings } from '@/hooks/useSettings';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { buildA1cChartPoints } from '@/lib/a1c';
+import { buildA1cTable, describeA1cTrend } from '@/lib/chartTable';
+import { HistoryItem, downsamplePoints, formatChartDate } from '@/lib/glucose';
+
+const MAX_CHART_LABELS = 6;
+const AXIS_FONT_SIZE = 10;
+
+// chart-kit asks for colours as functions of opacity; tokens are `#RRGGBB`.
+const withOpacity = (hex: string) => (opacity = 1) => {
+  const [r, g, b] = [1, 3, 5].map(start => parseInt(hex.slice(start, start + 2), 16));
+  return `rgba(${r}, ${g}, ${b}, ${opacity})`;
+};
+
+const createChartConfig = (colors: ThemeColors) => ({
+  backgroundColor: colors.card,
+  backgroundGradientFrom: colors.card,
+  backgroundGradientTo: colors.surface,
+  decimalPlaces: 1,
+  color: withOpacity(colors.textSecondary),
+  labelColor: withOpacity(colors.chartAxis),
+  style: {
+    borderRadius: moderateScale(12),
+  },
+  propsForDots: {
+    r: '4',
+    strokeWidth: '2',
+    stroke: colors.a1cSeries,
+  },
+});
+
+export type A1cTrendChartProps = {
+  history: HistoryItem[];
+  width?: number;
+};
+
+/**
+ * HbA1c results over time. Renders nothing until there are enough HbA1c entries to draw a line.
+ */
+export function A1cTrendChart({ history, width = screenWidth * 0.85 }: A1cTrendChartProps) {
+  const { settings } = useSettings();
+  const colors = useTheme();
+  const chartConfig = useThemedStyles(createChartConfig);
+  const fontScale = useFontScale();
+  const points = useMemo(() => buildA1cChartPoints(history), [history]);
+  const data = useMemo(() => {
+    if (!points) {
+      return null;
+    }
+    const sampled = downsamplePoints(points, MAX_CHART_LABELS);
+    return {
+      labels: sampled.map(point => formatChartDate(point.timestamp)),
+      datasets: [
+        {
+          data: sampled.map(point => point.a1cPercent),
+          color: withOpacity(colors.a1cSeries),
+          strokeWidth: 3,
+        },
+      ],
+      legend: ['HbA1c (%)'],
+    };
+  }, [points, colors]);
+
+  if (!points || !data) {
+    return null;
+  }
+
+  return (
+    <View>
+      <View accessible accessibilityRole="image" accessibilityLabel={`HbA1c trend: ${describeA1cTrend(points, settings)}`}>
+        <LineChart
+          data={data}
+          width={width}
+          height={moderateScale(200)}
+          yAxisSuffix="%"
+          // Axis labels are SVG text, which doesn't follow the system text size on its own.
+          chartConfig={{ ...chartConfig, propsForLabels: { fontSize: AXIS_FONT_SIZE * fontScale } }}
+          formatYLabel={label => label.replace('.', settings.decimalSeparator)}
+          style={{ marginVertical: 8, borderRadius: moderateScale(12) }}
+          verticalLabelRotation={-15}
+        />
+      </View>
+      <ChartDataTable table={buildA1cTable(points, settings)} caption="HbA1c trend" />
+    </View>
+  );
+}
@@ -0,0 +1,89 @@
+import { useMemo } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+
+import { ChartDataTable } from '@/components/ChartDataTable';
+import { moderateScale } from '@/constants/Layout';
+import { useSettings } from '@/hooks/useSettings';
+import { useTheme } from '@/hooks/useTheme';
+import { A1cChartPoint, buildA1cChartPoints, formatA1cPercent } from '@/lib/a1c';
+import { buildA1cTable, describeA1cTrend } from '@/lib/chartTable';
+import { HistoryItem, formatChartDate, formatDecimal } from '@/lib/glucose';
+
+interface A1cChartDataPoint extends A1cChartPoint {
+  timeLabel: string;
+}
+
+export type A1cTrendChartProps = {
+  history: HistoryItem[];
+  width?: number;
+};
+
+/**
+ * HbA1c results over time. Renders nothing until there are enough HbA1c entries to draw a line.
+ */
+export function A1cTrendChart({ history }: A1cTrendChartProps) {
+  const { settings } = useSettings();
+  const colors = useTheme();
+  const points = useMemo(() => buildA1cChartPoints(history), [history]);
+  const data = useMemo(
+    (): A1cChartDataPoint[] | null => points?.map(point => ({ ...point, timeLabel: formatChartDate(point.timestamp) })) ?? null,
+    [points]
+  );
+
+  if (!points || !data) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <View accessible accessibilityRole="image" accessibilityLabel={`HbA1c trend: ${describeA1cTrend(points, settings)}`}>
+        <ResponsiveContainer width="100%" height={moderateScale(220)}>
+          <LineChart data={data} margin={{ top: 5, right: 15, left: -15, bottom: 25 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={colors.chartGrid} />
+            <XAxis
+              dataKey="timeLabel"
+              stroke={colors.chartAxis}
+              angle={-15}
+              textAnchor="end"
+              height={40}
+              tick={{ fontSize: moderateScale(10) }}
+            />
+            <YAxis
+              stroke={colors.chartAxis}
+              tickFormatter={(value: number) => formatDecimal(value, 1, settings.decimalSeparator)}
+              domain={['auto', 'auto']}
+              tick={{ fontSize: moderateScale(10) }}
+            />
+            <Tooltip
+              contentStyle={{ backgroundColor: colors.surface, border: 'none', borderRadius: moderateScale(5) }}
+              labelStyle={{ color: colors.textSecondary, fontWeight: 'bold' }}
+              itemStyle={{ color: colors.text }}
+              formatter={(value: number) => [formatA1cPercent(value, settings), 'HbA1c']}
+              labelFormatter={(label, payload) => {
+                const point = payload?.[0]?.payload as A1cChartDataPoint | undefined;
+                return point?.note ? `Time: ${label} (${point.note})` : `Time: ${label}`;
+              }}
+            />
+            <Legend wrapperStyle={{ paddingTop: 20 }} />
+            <Line
+              type="monotone"
+              dataKey="a1cPercent"
+              stroke={colors.a1cSeries}
+              strokeWidth={3}
+              dot={{ r: 4, stroke: colors.a1cSeries, fill: colors.surface, strokeWidth: 2 }}
+              name="HbA1c (%)"
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </View>
+      <ChartDataTable table={buildA1cTable(points, settings)} caption="HbA1c trend" />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+});
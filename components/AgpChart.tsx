@@ -0,0 +1,144 @@
+import { useMemo } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import Svg, { G, Line, Path, Rect, Text as SvgText } from 'react-native-svg';
+
+import { ChartDataTable } from '@/components/ChartDataTable';
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale, width as screenWidth } from '@/constants/Layout';
+import { useFontScale } from '@/hooks/useFontScale';
+import { useSettings } from '@/hooks/useSettings';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { AgpHourBin, HOURS_PER_DAY, buildAgpProfile, formatHourLabel } from '@/lib/agp';
+import { AGP_DESCRIPTION, buildAgpTable } from '@/lib/chartTable';
+import { valueDomain } from '@/lib/chartWindow';
+import { CHART_DECIMALS, HistoryItem, Unit, formatGlucose } from '@/lib/glucose';
+import { TargetRangeSettings, convertTargetRange, targetRangeFor } from '@/lib/targetRange';
+
+const CHART_HEIGHT = moderateScale(220);
+const PADDING = { top: 10, right: 12, bottom: 24, left: 40 };
+const AXIS_FONT_SIZE = 10;
+const HOUR_TICKS = [0, 6, 12, 18, 24];
+
+export type AgpChartProps = {
+  history: HistoryItem[];
+  unit: Unit;
+  targetRanges: TargetRangeSettings;
+  width?: number;
+};
+
+/**
+ * Ambulatory Glucose Profile: every reading folded into one day, drawn as the hourly median with
+ * shaded 25–75th and 5–95th percentile bands over the default target range.
+ */
+export function AgpChart({ history, unit, targetRanges, width = screenWidth * 0.85 }: AgpChartProps) {
+  const { settings } = useSettings();
+  const colors = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const fontScale = useFontScale();
+  const profile = useMemo(() => buildAgpProfile(history, unit), [history, unit]);
+
+  if (!profile) {
+    return null;
+  }
+
+  // Axis labels are SVG text, which doesn't follow the system text size on its own.
+  const labelSize = AXIS_FONT_SIZE * fontScale;
+  const padding = { ...PADDING, left: PADDING.left * fontScale, bottom: PADDING.bottom * fontScale };
+
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = CHART_HEIGHT - padding.top - padding.bottom;
+  const band = convertTargetRange(targetRangeFor(targetRanges), 'mg/dL', unit);
+  const [minValue, maxValue] = valueDomain(profile.flatMap(bin => [bin.p5, bin.p95]), band);
+
+  // Bins sit at the middle of their hour so the curve spans the whole day.
+  const x = (hour: number) => padding.left + (hour / HOURS_PER_DAY) * plotWidth;
+  const y = (value: number) => padding.top + (1 - (value - minValue) / (maxValue - minValue)) * plotHeight;
+
+  const linePath = (pick: (bin: AgpHourBin) => number, bins: AgpHourBin[] = profile) =>
+    bins.map((bin, index) => `${index === 0 ? 'M' : 'L'}${x(bin.hour + 0.5).toFixed(1)},${y(pick(bin)).toFixed(1)}`).join(' ');
+  const bandPath = (low: (bin: AgpHourBin) => number, high: (bin: AgpHourBin) => number) =>
+    `${linePath(high)} ${linePath(low, [...profile].reverse()).replace(/^M/, 'L')} Z`;
+
+  const valueTicks = [0, 1, 2, 3].map(step => minValue + ((maxValue - minValue) * step) / 3);
+
+  return (
+    <View>
+      <View
+        accessible
+        accessibilityRole="image"
+        accessibilityLabel={AGP_DESCRIPTION}
+      >
+        <Svg width={width} height={CHART_HEIGHT}>
+          <Rect x={0} y={0} width={width} height={CHART_HEIGHT} rx={moderateScale(12)} fill={colors.surface} />
+          {valueTicks.map(value => (
+            <G key={`y-${value}`}>
+              <Line x1={padding.left} x2={padding.left + plotWidth} y1={y(value)} y2={y(value)} stroke={colors.chartGrid} strokeDasharray="3 3" />
+              <SvgText x={padding.left - 4} y={y(value) + 3} fill={colors.chartAxis} fontSize={labelSize} textAnchor="end">
+                {formatGlucose(value, unit, settings, CHART_DECIMALS[unit])}
+              </SvgText>
+            </G>
+          ))}
+          {HOUR_TICKS.map((hour, index) => (
+            <SvgText
+              key={`x-${hour}`}
+              x={x(hour)}
+              y={CHART_HEIGHT - 8}
+              fill={colors.chartAxis}
+              fontSize={labelSize}
+              textAnchor={index === 0 ? 'start' : index === HOUR_TICKS.length - 1 ? 'end' : 'middle'}
+            >
+              {formatHourLabel(hour, settings.timeFormat)}
+            </SvgText>
+          ))}
+
+          <Line x1={padding.left} x2={padding.left + plotWidth} y1={y(band.low)} y2={y(band.low)} stroke={colors.rangeInRange} strokeWidth={1.5} />
+          <Line x1={padding.left} x2={padding.left + plotWidth} y1={y(band.high)} y2={y(band.high)} stroke={colors.rangeInRange} strokeWidth={1.5} />
+          <Path d={bandPath(bin => bin.p5, bin => bin.p95)} fill={colors.primary} opacity={0.2} />
+          <Path d={bandPath(bin => bin.p25, bin => bin.p75)} fill={colors.primary} opacity={0.45} />
+          <Path d={linePath(bin => bin.median)} stroke={colors.text} strokeWidth={2.5} fill="none" />
+        </Svg>
+      </View>
+      <View style={styles.legendRow}>
+        <LegendItem color={colors.text} label="Median" />
+        <LegendItem color={colors.primary} opacity={0.6} label="25–75%" />
+        <LegendItem color={colors.primary} opacity={0.25} label="5–95%" />
+        <LegendItem color={colors.rangeInRange} label="Target" />
+      </View>
+      <ChartDataTable table={buildAgpTable(profile, unit, settings)} caption="Daily profile" />
+    </View>
+  );
+}
+
+function LegendItem({ color, opacity = 1, label }: { color: string; opacity?: number; label: string }) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.legendItem}>
+      <View style={[styles.legendSwatch, { backgroundColor: color, opacity }]} />
+      <Text style={styles.legendText}>{label}</Text>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  legendRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: moderateScale(12),
+    marginTop: moderateScale(8),
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendSwatch: {
+    width: moderateScale(12),
+    height: moderateScale(12),
+    borderRadius: moderateScale(3),
+    marginRight: moderateScale(4),
+  },
+  legendText: {
+    color: colors.textSecondary,
+    fontSize: moderateScale(12, 0.3),
+  },
+});
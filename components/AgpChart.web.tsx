@@ -0,0 +1,164 @@
+import { useMemo } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  TooltipProps,
+  XAxis,
+  YAxis,
+} from 'recharts';
+
+import { ChartDataTable } from '@/components/ChartDataTable';
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useSettings } from '@/hooks/useSettings';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { AgpHourBin, HOURS_PER_DAY, buildAgpProfile, formatHourLabel } from '@/lib/agp';
+import { AGP_DESCRIPTION, buildAgpTable } from '@/lib/chartTable';
+import { valueDomain } from '@/lib/chartWindow';
+import { CHART_DECIMALS, HistoryItem, Unit, formatGlucose } from '@/lib/glucose';
+import { TargetRangeSettings, convertTargetRange, targetRangeFor } from '@/lib/targetRange';
+
+const HOUR_TICKS = [0, 6, 12, 18, 24];
+
+// Recharts draws a range area from a `[low, high]` pair per row.
+interface AgpChartDataPoint extends AgpHourBin {
+  x: number;
+  outer: [number, number];
+  inner: [number, number];
+}
+
+export type AgpChartProps = {
+  history: HistoryItem[];
+  unit: Unit;
+  targetRanges: TargetRangeSettings;
+  width?: number;
+};
+
+/**
+ * Ambulatory Glucose Profile: every reading folded into one day, drawn as the hourly median with
+ * shaded 25–75th and 5–95th percentile bands over the default target range.
+ */
+export function AgpChart({ history, unit, targetRanges }: AgpChartProps) {
+  const { settings } = useSettings();
+  const colors = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const profile = useMemo(() => buildAgpProfile(history, unit), [history, unit]);
+  const data = useMemo(
+    (): AgpChartDataPoint[] | null =>
+      // Bins sit at the middle of their hour so the curve spans the whole day.
+      profile?.map(bin => ({ ...bin, x: bin.hour + 0.5, outer: [bin.p5, bin.p95], inner: [bin.p25, bin.p75] })) ?? null,
+    [profile]
+  );
+
+  if (!profile || !data) {
+    return null;
+  }
+
+  const band = convertTargetRange(targetRangeFor(targetRanges), 'mg/dL', unit);
+  const yDomain = valueDomain(data.flatMap(bin => [bin.p5, bin.p95]), band);
+
+  const renderTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+    const bin = payload?.[0]?.payload as AgpChartDataPoint | undefined;
+    if (!active || !bin) {
+      return null;
+    }
+    const glucose = (value: number) => formatGlucose(value, unit, settings);
+    return (
+      <View style={styles.tooltip}>
+        <Text style={styles.tooltipTitle}>
+          {formatHourLabel(bin.hour, settings.timeFormat)}–{formatHourLabel(bin.hour + 1, settings.timeFormat)} · {bin.count} readings
+        </Text>
+        <Text style={styles.tooltipText}>Median: {glucose(bin.median)} {unit}</Text>
+        <Text style={styles.tooltipText}>25–75%: {glucose(bin.p25)}–{glucose(bin.p75)}</Text>
+        <Text style={styles.tooltipText}>5–95%: {glucose(bin.p5)}–{glucose(bin.p95)}</Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View accessible accessibilityRole="image" accessibilityLabel={AGP_DESCRIPTION}>
+        <ResponsiveContainer width="100%" height={moderateScale(260)}>
+          <ComposedChart data={data} margin={{ top: 5, right: 15, left: -15, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={colors.chartGrid} />
+            <XAxis
+              dataKey="x"
+              type="number"
+              domain={[0, HOURS_PER_DAY]}
+              ticks={HOUR_TICKS}
+              stroke={colors.chartAxis}
+              tickFormatter={(value: number) => formatHourLabel(value, settings.timeFormat)}
+              tick={{ fontSize: moderateScale(10) }}
+            />
+            <YAxis
+              stroke={colors.chartAxis}
+              domain={yDomain}
+              tickFormatter={(value: number) => formatGlucose(value, unit, settings, CHART_DECIMALS[unit])}
+              tick={{ fontSize: moderateScale(10) }}
+            />
+            <ReferenceLine y={band.low} stroke={colors.rangeInRange} strokeWidth={1.5} />
+            <ReferenceLine y={band.high} stroke={colors.rangeInRange} strokeWidth={1.5} />
+            <Tooltip content={renderTooltip} />
+            <Legend wrapperStyle={{ paddingTop: 10 }} />
+            <Area
+              type="monotone"
+              dataKey="outer"
+              stroke="none"
+              fill={colors.primary}
+              fillOpacity={0.2}
+              isAnimationActive={false}
+              name="5–95%"
+            />
+            <Area
+              type="monotone"
+              dataKey="inner"
+              stroke="none"
+              fill={colors.primary}
+              fillOpacity={0.45}
+              isAnimationActive={false}
+              name="25–75%"
+            />
+            <Line
+              type="monotone"
+              dataKey="median"
+              stroke={colors.text}
+              strokeWidth={2.5}
+              dot={false}
+              isAnimationActive={false}
+              name="Median"
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </View>
+      <ChartDataTable table={buildAgpTable(profile, unit, settings)} caption="Daily profile" />
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+  tooltip: {
+    backgroundColor: colors.surface,
+    borderRadius: moderateScale(5),
+    padding: moderateScale(8),
+  },
+  tooltipTitle: {
+    color: colors.text,
+    fontWeight: 'bold',
+    fontSize: moderateScale(14, 0.3),
+  },
+  tooltipText: {
+    color: colors.textSecondary,
+    fontSize: moderateScale(12, 0.3),
+    marginTop: moderateScale(2),
+  },
+});
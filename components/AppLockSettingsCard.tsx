@@ -0,0 +1,309 @@
+import { useState } from 'react';
+import { StyleSheet, Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useAppLock } from '@/hooks/useAppLock';
+import { useDialog } from '@/hooks/useDialog';
+import { useProfiles } from '@/hooks/useProfiles';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { PIN_MAX_LENGTH, validatePin } from '@/lib/appLock';
+
+/**
+ * Collapsible editor for the app lock: turn it on with a PIN, change the PIN, allow biometric
+ * unlock and turn it off again. While the lock is on, history is stored encrypted, and changing
+ * the PIN or turning the lock off asks for the current PIN.
+ */
+export function AppLockSettingsCard() {
+  const { isEnabled, biometricsEnabled, isBiometricsAvailable, enableLock, changePin, disableLock, setBiometricsEnabled, lock } =
+    useAppLock();
+  const { profiles } = useProfiles();
+  const { confirmDestructive, showError, showToast } = useDialog();
+  const colors = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [isOpen, setIsOpen] = useState(false);
+  const [currentPin, setCurrentPin] = useState('');
+  const [pin, setPin] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const profileIds = profiles.map(profile => profile.id);
+
+  const resetForm = () => {
+    setCurrentPin('');
+    setPin('');
+    setConfirmation('');
+    setError(null);
+  };
+
+  const currentPinError = () => (currentPin === '' ? 'Enter your current PIN.' : null);
+
+  const handleSavePin = async () => {
+    const pinError =
+      (isEnabled ? currentPinError() : null) ??
+      validatePin(pin) ??
+      (pin !== confirmation ? 'The PINs do not match.' : null);
+    if (pinError) {
+      setError(pinError);
+      return;
+    }
+    setIsBusy(true);
+    try {
+      if (isEnabled) {
+        const changeError = await changePin(currentPin, pin);
+        if (changeError) {
+          setError(changeError);
+          setCurrentPin('');
+          return;
+        }
+        showToast('PIN changed.', 'success');
+      } else {
+        await enableLock(pin, profileIds);
+        showToast('App lock on. History is now encrypted.', 'success');
+      }
+      resetForm();
+    } catch (e) {
+      console.error('Failed to save the PIN.', e);
+      showError(isEnabled ? 'Could not change the PIN.' : 'Could not turn on the app lock.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    const pinError = currentPinError();
+    if (pinError) {
+      setError(pinError);
+      return;
+    }
+    const confirmed = await confirmDestructive({
+      title: 'Turn off the app lock?',
+      message: 'Anyone with this device will be able to open GlucoSwap, and history will be stored unencrypted.',
+      confirmLabel: 'Turn off',
+    });
+    if (!confirmed) {
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const disableError = await disableLock(currentPin, profileIds);
+      if (disableError) {
+        setError(disableError);
+        setCurrentPin('');
+        return;
+      }
+      resetForm();
+      showToast('App lock off.');
+    } catch (e) {
+      console.error('Failed to turn off the app lock.', e);
+      showError('Could not turn off the app lock.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleBiometricsChange = async (enabled: boolean) => {
+    try {
+      await setBiometricsEnabled(enabled);
+    } catch (e) {
+      console.error('Failed to update biometric unlock.', e);
+      showError('Could not update biometric unlock.');
+    }
+  };
+
+  const pinInputProps = {
+    style: styles.input,
+    placeholderTextColor: colors.placeholder,
+    keyboardType: 'number-pad' as const,
+    secureTextEntry: true,
+    maxLength: PIN_MAX_LENGTH,
+  };
+
+  return (
+    <View>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setIsOpen(open => !open)}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityState={{ expanded: isOpen }}
+      >
+        <Text style={styles.title}>App Lock</Text>
+        <Text style={styles.summary}>{isOpen ? 'Close' : isEnabled ? 'On' : 'Off'}</Text>
+      </TouchableOpacity>
+      {isOpen && (
+        <View style={styles.body}>
+          <Text style={[styles.description, styles.section]}>
+            {isEnabled
+              ? 'GlucoSwap asks for your PIN when opened and stores history encrypted. A forgotten PIN cannot be recovered.'
+              : 'Ask for a PIN when GlucoSwap is opened and store history encrypted with it. A forgotten PIN cannot be recovered.'}
+          </Text>
+          {isEnabled && (
+            <>
+              <Text style={styles.rowTitle}>Current PIN</Text>
+              <TextInput
+                {...pinInputProps}
+                value={currentPin}
+                onChangeText={text => {
+                  setCurrentPin(text.replace(/\D/g, ''));
+                  setError(null);
+                }}
+                placeholder="Needed for changes"
+                accessibilityLabel="Current PIN"
+              />
+            </>
+          )}
+          <Text style={styles.rowTitle}>{isEnabled ? 'Change PIN' : 'Choose a PIN'}</Text>
+          <TextInput
+            {...pinInputProps}
+            value={pin}
+            onChangeText={text => {
+              setPin(text.replace(/\D/g, ''));
+              setError(null);
+            }}
+            placeholder={isEnabled ? 'New PIN' : 'PIN'}
+            accessibilityLabel={isEnabled ? 'New PIN' : 'PIN'}
+          />
+          <TextInput
+            {...pinInputProps}
+            value={confirmation}
+            onChangeText={text => {
+              setConfirmation(text.replace(/\D/g, ''));
+              setError(null);
+            }}
+            placeholder="Repeat PIN"
+            accessibilityLabel="Repeat PIN"
+            onSubmitEditing={handleSavePin}
+          />
+          {error && <Text style={styles.error} accessibilityRole="alert">{error}</Text>}
+          <TouchableOpacity
+            style={[styles.button, isBusy && styles.buttonDisabled]}
+            onPress={handleSavePin}
+            disabled={isBusy}
+            activeOpacity={0.8}
+            accessibilityRole="button"
+          >
+            <Text style={styles.buttonText}>{isBusy ? 'Saving…' : isEnabled ? 'Change PIN' : 'Turn on app lock'}</Text>
+          </TouchableOpacity>
+
+          {isEnabled && (
+            <>
+              {isBiometricsAvailable && (
+                <View style={[styles.switchRow, styles.section]}>
+                  <Text style={styles.rowTitle}>Unlock with biometrics</Text>
+                  <Switch
+                    value={biometricsEnabled}
+                    onValueChange={handleBiometricsChange}
+                    trackColor={{ false: colors.inputBorder, true: colors.primary }}
+                    accessibilityLabel="Unlock with biometrics"
+                  />
+                </View>
+              )}
+              <View style={[styles.actionRow, styles.section]}>
+                <TouchableOpacity style={styles.secondaryButton} onPress={lock} activeOpacity={0.7} accessibilityRole="button">
+                  <Text style={styles.secondaryButtonText}>Lock now</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.secondaryButton}
+                  onPress={handleDisable}
+                  disabled={isBusy}
+                  activeOpacity={0.7}
+                  accessibilityRole="button"
+                >
+                  <Text style={[styles.secondaryButtonText, styles.dangerText]}>Turn off</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: moderateScale(18, 0.3),
+    fontWeight: 'bold',
+    color: colors.textSecondary,
+  },
+  summary: {
+    color: colors.accent,
+    fontSize: moderateScale(14, 0.3),
+  },
+  body: {
+    marginTop: moderateScale(12),
+  },
+  section: {
+    marginBottom: moderateScale(12),
+  },
+  description: {
+    color: colors.textMuted,
+    fontSize: moderateScale(13, 0.3),
+  },
+  rowTitle: {
+    flexShrink: 1,
+    color: colors.textSecondary,
+    fontSize: moderateScale(15, 0.3),
+    fontWeight: '500',
+    marginBottom: moderateScale(6),
+  },
+  input: {
+    backgroundColor: colors.surface,
+    color: colors.text,
+    paddingHorizontal: moderateScale(10),
+    paddingVertical: moderateScale(6),
+    borderRadius: moderateScale(6),
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    fontSize: moderateScale(15, 0.3),
+    marginBottom: moderateScale(8),
+  },
+  button: {
+    backgroundColor: colors.primary,
+    paddingVertical: moderateScale(10),
+    borderRadius: moderateScale(8),
+    alignItems: 'center',
+    marginBottom: moderateScale(12),
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: colors.onPrimary,
+    fontSize: moderateScale(15, 0.3),
+    fontWeight: 'bold',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: moderateScale(8),
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  secondaryButton: {
+    paddingVertical: moderateScale(6),
+  },
+  secondaryButtonText: {
+    color: colors.accent,
+    fontSize: moderateScale(15, 0.3),
+    fontWeight: 'bold',
+  },
+  dangerText: {
+    color: colors.danger,
+  },
+  error: {
+    color: colors.danger,
+    fontSize: moderateScale(13, 0.3),
+    marginBottom: moderateScale(8),
+  },
+});
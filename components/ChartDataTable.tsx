@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors, rangeColor } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { ChartTable } from '@/lib/chartTable';
+
+// Longer tables are cut to the first rows; the chart presets narrow down the rest.
+const MAX_ROWS = 100;
+
+export type ChartDataTableProps = {
+  table: ChartTable;
+  caption: string;
+};
+
+/**
+ * Collapsible table with the data behind a chart, so its content is available to screen readers
+ * and to anyone who prefers numbers over a drawing. Each row reads as "column: value" pairs.
+ */
+export function ChartDataTable({ table, caption }: ChartDataTableProps) {
+  const colors = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [isOpen, setIsOpen] = useState(false);
+  const rows = table.rows.slice(0, MAX_ROWS);
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.toggle}
+        onPress={() => setIsOpen(open => !open)}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityState={{ expanded: isOpen }}
+        accessibilityLabel={`${isOpen ? 'Hide' : 'Show'} ${caption} as a table`}
+      >
+        <Text style={styles.toggleText}>{isOpen ? 'Hide data table' : 'Show data table'}</Text>
+      </TouchableOpacity>
+      {isOpen && (
+        <View accessibilityLabel={caption}>
+          <View style={styles.headerRow} importantForAccessibility="no-hide-descendants" accessibilityElementsHidden>
+            {table.columns.map(column => (
+              <Text key={column} style={[styles.cell, styles.headerCell]}>{column}</Text>
+            ))}
+          </View>
+          {rows.map(row => (
+            <View
+              key={row.key}
+              style={styles.row}
+              accessible
+              accessibilityLabel={table.columns.map((column, index) => `${column}: ${row.cells[index]}`).join(', ')}
+            >
+              {row.cells.map((cell, index) => (
+                <Text
+                  key={table.columns[index]}
+                  style={[
+                    styles.cell,
+                    row.range && index === row.cells.length - 1 && { color: rangeColor(colors, row.range), fontWeight: 'bold' },
+                  ]}
+                >
+                  {cell}
+                </Text>
+              ))}
+            </View>
+          ))}
+          {table.rows.length > rows.length && (
+            <Text style={styles.footer}>Showing the first {rows.length} of {table.rows.length} rows.</Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    alignSelf: 'stretch',
+    marginTop: moderateScale(8),
+  },
+  toggle: {
+    alignSelf: 'center',
+    paddingVertical: moderateScale(6),
+    paddingHorizontal: moderateScale(12),
+  },
+  toggleText: {
+    color: colors.accent,
+    fontSize: moderateScale(14, 0.3),
+    fontWeight: 'bold',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: colors.divider,
+    paddingBottom: moderateScale(4),
+  },
+  row: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: colors.divider,
+    paddingVertical: moderateScale(6),
+  },
+  cell: {
+    flex: 1,
+    color: colors.text,
+    fontSize: moderateScale(13, 0.3),
+    paddingRight: moderateScale(4),
+  },
+  headerCell: {
+    color: colors.textMuted,
+    fontWeight: 'bold',
+  },
+  footer: {
+    color: colors.textMuted,
+    fontSize: moderateScale(12, 0.3),
+    fontStyle: 'italic',
+    textAlign: 'center',
+    marginTop: moderateScale(6),
+  },
+});
@@ -0,0 +1,77 @@
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useThemedStyles } from '@/hooks/useTheme';
+
+export type ChipOption<T> = {
+  value: T;
+  label: string;
+};
+
+export type ChipRowProps<T> = {
+  title: string;
+  options: ChipOption<T>[];
+  selected: T;
+  onSelect: (value: T) => void;
+};
+
+/**
+ * A titled single-choice row of chips, used throughout Settings.
+ */
+export function ChipRow<T extends string | number>({ title, options, selected, onSelect }: ChipRowProps<T>) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.row}>
+      <Text style={styles.rowTitle}>{title}</Text>
+      <View style={styles.chipRow} accessibilityRole="radiogroup" accessibilityLabel={title}>
+        {options.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.chip, selected === option.value && styles.chipSelected]}
+            onPress={() => onSelect(option.value)}
+            activeOpacity={0.7}
+            accessibilityRole="radio"
+            accessibilityState={{ checked: selected === option.value }}
+          >
+            <Text style={[styles.chipText, selected === option.value && styles.chipTextSelected]}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  row: {
+    marginBottom: moderateScale(12),
+  },
+  rowTitle: {
+    color: colors.textSecondary,
+    fontSize: moderateScale(15, 0.3),
+    fontWeight: '500',
+    marginBottom: moderateScale(6),
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: moderateScale(8),
+  },
+  chip: {
+    paddingVertical: moderateScale(6),
+    paddingHorizontal: moderateScale(12),
+    borderRadius: moderateScale(16),
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    color: colors.text,
+    fontSize: moderateScale(13, 0.3),
+  },
+  chipTextSelected: {
+    color: colors.onPrimary,
+  },
+});
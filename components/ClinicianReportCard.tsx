@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useSettings } from '@/hooks/useSettings';
+import { useThemedStyles } from '@/hooks/useTheme';
+import { REPORT_WINDOWS_DAYS, buildClinicianReport, reportFileName } from '@/lib/clinicianReport';
+import { HistoryItem, Unit } from '@/lib/glucose';
+import { printReport } from '@/lib/printReport';
+import { TargetRangeSettings } from '@/lib/targetRange';
+
+export type ClinicianReportCardProps = {
+  history: HistoryItem[];
+  targetRanges: TargetRangeSettings;
+  unit: Unit;
+  onError: (message: string) => void;
+};
+
+/**
+ * Builds a printable clinician summary on-device and hands it to the platform's print/share flow.
+ */
+export function ClinicianReportCard({ history, targetRanges, unit, onError }: ClinicianReportCardProps) {
+  const { settings } = useSettings();
+  const styles = useThemedStyles(createStyles);
+  const [windowDays, setWindowDays] = useState<number>(REPORT_WINDOWS_DAYS[0]);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const html = buildClinicianReport(history, { unit, targetRanges, days: windowDays, format: settings });
+      await printReport(html, reportFileName());
+    } catch (e) {
+      console.error('Failed to generate report.', e);
+      onError('Could not generate the report.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <View>
+      <Text style={styles.title} accessibilityRole="header">Clinician Report</Text>
+      <Text style={styles.description}>
+        Statistics, time in range, daily profile, trend and every entry, ready to print or save as PDF.
+      </Text>
+      <View style={styles.windowRow} accessibilityRole="radiogroup" accessibilityLabel="Period">
+        {REPORT_WINDOWS_DAYS.map(days => (
+          <TouchableOpacity
+            key={days}
+            style={[styles.windowChip, windowDays === days && styles.windowChipSelected]}
+            onPress={() => setWindowDays(days)}
+            activeOpacity={0.7}
+            accessibilityRole="radio"
+            accessibilityState={{ checked: windowDays === days }}
+            accessibilityLabel={`${days} days`}
+          >
+            <Text style={[styles.windowChipText, windowDays === days && styles.windowChipTextSelected]}>{days}d</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <TouchableOpacity
+        style={[styles.button, isGenerating && styles.buttonDisabled]}
+        onPress={handleGenerate}
+        disabled={isGenerating || history.length === 0}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.buttonText}>{isGenerating ? 'Generating…' : 'Generate report'}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  title: {
+    fontSize: moderateScale(18, 0.3),
+    fontWeight: 'bold',
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: moderateScale(8),
+  },
+  description: {
+    color: colors.textMuted,
+    fontSize: moderateScale(13, 0.3),
+    textAlign: 'center',
+    marginBottom: moderateScale(12),
+  },
+  windowRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: moderateScale(8),
+    marginBottom: moderateScale(12),
+  },
+  windowChip: {
+    paddingVertical: moderateScale(4),
+    paddingHorizontal: moderateScale(12),
+    borderRadius: moderateScale(14),
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  windowChipSelected: {
+    backgroundColor: colors.primary,
+  },
+  windowChipText: {
+    color: colors.text,
+    fontSize: moderateScale(13, 0.3),
+  },
+  windowChipTextSelected: {
+    color: colors.onPrimary,
+  },
+  button: {
+    backgroundColor: colors.primary,
+    paddingVertical: moderateScale(12),
+    borderRadius: moderateScale(8),
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: colors.onPrimary,
+    fontSize: moderateScale(16, 0.3),
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,112 @@
+import * as Clipboard from 'expo-clipboard';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Animated, { FadeInDown, FadeOut } from 'react-native-reanimated';
+
+import { RangeBadge } from '@/components/RangeBadge';
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useDialog } from '@/hooks/useDialog';
+import { useThemedStyles } from '@/hooks/useTheme';
+import { ConversionSummary, formatSummary } from '@/lib/conversionResult';
+
+export type ConversionResultPanelProps = {
+  summary: ConversionSummary | null;
+  // A preview follows the input as it is typed; a result has been saved to history.
+  isPreview: boolean;
+};
+
+/**
+ * Inline conversion result under the Convert button: both values, the range status and a copy
+ * action. Slides in when a preview or result appears.
+ */
+export function ConversionResultPanel({ summary, isPreview }: ConversionResultPanelProps) {
+  const styles = useThemedStyles(createStyles);
+  const { showToast } = useDialog();
+
+  if (!summary) {
+    return null;
+  }
+
+  const handleCopy = async () => {
+    try {
+      await Clipboard.setStringAsync(formatSummary(summary));
+      showToast('Result copied.', 'success');
+    } catch (e) {
+      console.error('Failed to copy result.', e);
+      showToast('Could not copy the result.', 'error');
+    }
+  };
+
+  return (
+    <Animated.View
+      // Re-keying replays the entrance when a preview turns into a saved result.
+      key={isPreview ? 'preview' : 'result'}
+      entering={FadeInDown.duration(200)}
+      exiting={FadeOut.duration(150)}
+      style={[styles.panel, isPreview && styles.panelPreview]}
+      accessibilityLiveRegion={isPreview ? 'none' : 'polite'}
+    >
+      <View style={styles.header}>
+        <Text style={styles.caption}>{isPreview ? 'Preview' : 'Saved to history'}</Text>
+        <TouchableOpacity onPress={handleCopy} activeOpacity={0.7} accessibilityRole="button" accessibilityLabel="Copy result">
+          <Text style={styles.copyText}>Copy</Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.text} selectable>{summary.text}</Text>
+      {summary.detail && (
+        <View style={styles.detailRow}>
+          {summary.range && <RangeBadge range={summary.range} compact />}
+          <Text style={styles.detail}>{summary.detail}</Text>
+        </View>
+      )}
+    </Animated.View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  panel: {
+    marginTop: moderateScale(12),
+    padding: moderateScale(12),
+    borderRadius: moderateScale(8),
+    borderWidth: 1,
+    borderColor: colors.primary,
+    backgroundColor: colors.surface,
+  },
+  panelPreview: {
+    borderColor: colors.inputBorder,
+    borderStyle: 'dashed',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: moderateScale(6),
+  },
+  caption: {
+    color: colors.textMuted,
+    fontSize: moderateScale(12, 0.3),
+    fontWeight: 'bold',
+    textTransform: 'uppercase',
+  },
+  copyText: {
+    color: colors.accent,
+    fontSize: moderateScale(14, 0.3),
+    fontWeight: 'bold',
+  },
+  text: {
+    color: colors.text,
+    fontSize: moderateScale(18, 0.3),
+    fontWeight: 'bold',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: moderateScale(6),
+    marginTop: moderateScale(6),
+  },
+  detail: {
+    flexShrink: 1,
+    color: colors.textSecondary,
+    fontSize: moderateScale(14, 0.3),
+  },
+});
@@ -0,0 +1,76 @@
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { HistoryExportButtons } from '@/components/HistoryExportButtons';
+import { ImportHistoryPanel } from '@/components/ImportHistoryPanel';
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useDialog } from '@/hooks/useDialog';
+import { useHistory } from '@/hooks/useHistory';
+import { useProfiles } from '@/hooks/useProfiles';
+import { useThemedStyles } from '@/hooks/useTheme';
+
+/**
+ * Export, import and delete-all actions for the active profile's stored history.
+ */
+export function DataManagementCard() {
+  const { history, setHistory, isLoading, clearAll } = useHistory();
+  const { activeProfile } = useProfiles();
+  const { confirmDestructive, showError } = useDialog();
+  const styles = useThemedStyles(createStyles);
+
+  const handleClearHistory = async () => {
+    const confirmed = await confirmDestructive({
+      title: 'Confirm Delete',
+      message: `Are you sure you want to delete all conversion history of ${activeProfile.name}?`,
+    });
+    if (confirmed) {
+      clearAll();
+    }
+  };
+
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <View>
+      <Text style={styles.title} accessibilityRole="header">Data</Text>
+      <Text style={styles.description}>
+        {history.length} {history.length === 1 ? 'entry' : 'entries'} stored for {activeProfile.name} on this device.
+      </Text>
+      {history.length > 0 && <HistoryExportButtons history={history} onError={showError} />}
+      <ImportHistoryPanel history={history} onImport={setHistory} onError={showError} />
+      {history.length > 0 && (
+        <TouchableOpacity style={styles.clearButton} onPress={handleClearHistory} activeOpacity={0.7}>
+          <Text style={styles.clearButtonText}>Delete all history</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  title: {
+    fontSize: moderateScale(18, 0.3),
+    fontWeight: 'bold',
+    color: colors.textSecondary,
+    marginBottom: moderateScale(4),
+  },
+  description: {
+    color: colors.textMuted,
+    fontSize: moderateScale(13, 0.3),
+    marginBottom: moderateScale(8),
+  },
+  clearButton: {
+    marginTop: moderateScale(12),
+    paddingVertical: moderateScale(10),
+    borderRadius: moderateScale(8),
+    backgroundColor: colors.mutedSurface,
+    alignItems: 'center',
+  },
+  clearButtonText: {
+    color: colors.danger,
+    fontSize: moderateScale(14, 0.3),
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,116 @@
+import { Modal, Pressable, StyleSheet, Text, TextStyle, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useDialogHost } from '@/hooks/useDialog';
+import { useThemedStyles } from '@/hooks/useTheme';
+import { DialogButtonRole, dialogButtons, dismissResult } from '@/lib/dialogs';
+
+/**
+ * Renders the dialog at the front of the `useDialog` queue. Rendered once above all screens.
+ */
+export function DialogHost() {
+  const { dialog, resolveDialog } = useDialogHost();
+  const styles = useThemedStyles(createStyles);
+
+  if (!dialog) {
+    return null;
+  }
+
+  const dismiss = () => resolveDialog(dismissResult(dialog.kind));
+  const buttonTextStyle: Record<DialogButtonRole, TextStyle> = {
+    cancel: styles.cancelText,
+    confirm: styles.confirmText,
+    destructive: styles.destructiveText,
+  };
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={dismiss}>
+      <Pressable style={styles.backdrop} onPress={dismiss} accessibilityLabel="Dismiss" accessibilityRole="button">
+        {/* Swallows presses so tapping the dialog itself doesn't dismiss it. */}
+        <Pressable style={styles.dialog} accessibilityRole="alert" accessibilityViewIsModal>
+          <Text style={[styles.title, dialog.kind === 'error' && styles.errorTitle]} accessibilityRole="header">
+            {dialog.title}
+          </Text>
+          <Text style={styles.message}>{dialog.message}</Text>
+          <View style={styles.buttonRow}>
+            {dialogButtons(dialog).map(button => (
+              <TouchableOpacity
+                key={button.role}
+                style={[styles.button, button.role === 'destructive' && styles.destructiveButton]}
+                onPress={() => resolveDialog(button.result)}
+                activeOpacity={0.7}
+                accessibilityRole="button"
+              >
+                <Text style={buttonTextStyle[button.role]}>{button.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.overlay,
+    padding: moderateScale(24),
+  },
+  dialog: {
+    width: '100%',
+    maxWidth: 420,
+    backgroundColor: colors.card,
+    borderRadius: moderateScale(12),
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    padding: moderateScale(20),
+  },
+  title: {
+    color: colors.text,
+    fontSize: moderateScale(18, 0.3),
+    fontWeight: 'bold',
+    marginBottom: moderateScale(8),
+  },
+  errorTitle: {
+    color: colors.danger,
+  },
+  message: {
+    color: colors.textSecondary,
+    fontSize: moderateScale(15, 0.3),
+    lineHeight: moderateScale(21, 0.3),
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    flexWrap: 'wrap',
+    gap: moderateScale(8),
+    marginTop: moderateScale(20),
+  },
+  button: {
+    paddingVertical: moderateScale(8),
+    paddingHorizontal: moderateScale(16),
+    borderRadius: moderateScale(8),
+  },
+  destructiveButton: {
+    backgroundColor: colors.destructive,
+  },
+  cancelText: {
+    color: colors.textSecondary,
+    fontSize: moderateScale(15, 0.3),
+    fontWeight: 'bold',
+  },
+  confirmText: {
+    color: colors.accent,
+    fontSize: moderateScale(15, 0.3),
+    fontWeight: 'bold',
+  },
+  destructiveText: {
+    color: colors.onDestructive,
+    fontSize: moderateScale(15, 0.3),
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { ChipRow } from '@/components/ChipRow';
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useSettings } from '@/hooks/useSettings';
+import { useThemedStyles } from '@/hooks/useTheme';
+import { UNITS, formatDecimal } from '@/lib/glucose';
+import {
+  DECIMAL_OPTIONS,
+  DECIMAL_SEPARATORS,
+  THEME_PREFERENCES,
+  THEME_PREFERENCE_LABELS,
+  TIME_FORMATS,
+} from '@/lib/settings';
+
+/**
+ * Collapsible editor for the preferred unit, decimals per unit, decimal separator, clock and theme.
+ * Changes apply and persist immediately.
+ */
+export function DisplaySettingsEditor() {
+  const { settings, updateSettings } = useSettings();
+  const styles = useThemedStyles(createStyles);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const summary = [
+    settings.preferredUnit,
+    formatDecimal(5.6, 1, settings.decimalSeparator),
+    settings.timeFormat,
+    THEME_PREFERENCE_LABELS[settings.themePreference],
+  ].join(' · ');
+
+  return (
+    <View>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setIsOpen(open => !open)}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityState={{ expanded: isOpen }}
+      >
+        <Text style={styles.title}>Display</Text>
+        <Text style={styles.summary}>{isOpen ? 'Close' : summary}</Text>
+      </TouchableOpacity>
+      {isOpen && (
+        <View style={styles.body}>
+          <ChipRow
+            title="Preferred unit"
+            options={UNITS.map(unit => ({ value: unit, label: unit }))}
+            selected={settings.preferredUnit}
+            onSelect={preferredUnit => updateSettings({ preferredUnit })}
+          />
+          {UNITS.map(unit => (
+            <ChipRow
+              key={unit}
+              title={`Decimals (${unit})`}
+              options={DECIMAL_OPTIONS[unit].map(decimals => ({
+                value: decimals,
+                label: formatDecimal(unit === 'mg/dL' ? 100 : 5.6, decimals, settings.decimalSeparator),
+              }))}
+              selected={settings.decimals[unit]}
+              onSelect={decimals => updateSettings({ decimals: { ...settings.decimals, [unit]: decimals } })}
+            />
+          ))}
+          <ChipRow
+            title="Decimal separator"
+            options={DECIMAL_SEPARATORS.map(separator => ({ value: separator, label: formatDecimal(5.6, 1, separator) }))}
+            selected={settings.decimalSeparator}
+            onSelect={decimalSeparator => updateSettings({ decimalSeparator })}
+          />
+          <ChipRow
+            title="Time format"
+            options={TIME_FORMATS.map(timeFormat => ({ value: timeFormat, label: timeFormat === '12h' ? '1:30 PM' : '13:30' }))}
+            selected={settings.timeFormat}
+            onSelect={timeFormat => updateSettings({ timeFormat })}
+          />
+          <ChipRow
+            title="Theme"
+            options={THEME_PREFERENCES.map(themePreference => ({
+              value: themePreference,
+              label: THEME_PREFERENCE_LABELS[themePreference],
+            }))}
+            selected={settings.themePreference}
+            onSelect={themePreference => updateSettings({ themePreference })}
+          />
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: moderateScale(18, 0.3),
+    fontWeight: 'bold',
+    color: colors.textSecondary,
+  },
+  summary: {
+    color: colors.accent,
+    fontSize: moderateScale(14, 0.3),
+  },
+  body: {
+    marginTop: moderateScale(12),
+  },
+});
@@ -0,0 +1,370 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Svg, { Circle, ClipPath, Defs, G, Line, Path, Rect, Text as SvgText } from 'react-native-svg';
+
+import { ChartDataTable } from '@/components/ChartDataTable';
+import { TreatmentIcon } from '@/components/TreatmentIcon';
+import { ThemeColors, rangeColor } from '@/constants/Colors';
+import { moderateScale, width as screenWidth } from '@/constants/Layout';
+import { useFontScale } from '@/hooks/useFontScale';
+import { useSettings } from '@/hooks/useSettings';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { buildTrendTable, describeRange, describeTrend } from '@/lib/chartTable';
+import {
+  CHART_RANGE_PRESETS,
+  CHART_RANGE_PRESET_LABELS,
+  ChartRangePreset,
+  TimeDomain,
+  chartBounds,
+  formatTimeTick,
+  nearestPoint,
+  panDomain,
+  pointsInDomain,
+  presetDomain,
+  timeTicks,
+  valueDomain,
+  zoomDomain,
+} from '@/lib/chartWindow';
+import {
+  CHART_DECIMALS,
+  ChartPoint,
+  HistoryItem,
+  TREATMENT_TYPES,
+  Unit,
+  buildChartPoints,
+  describeHistoryDetails,
+  formatGlucose,
+  formatTimestamp,
+} from '@/lib/glucose';
+import { TargetRangeSettings, classifyGlucose, convertTargetRange, targetRangeFor } from '@/lib/targetRange';
+import {
+  TREATMENT_LABELS,
+  TreatmentMarker,
+  buildTreatmentMarkers,
+  describeTreatmentMarkers,
+  markersInDomain,
+} from '@/lib/treatments';
+
+const CHART_HEIGHT = moderateScale(250);
+const PADDING = { top: 10, right: 12, bottom: 28, left: 40 };
+const AXIS_FONT_SIZE = 10;
+// Individual dots are dropped when zoomed out this far; the line alone stays readable.
+const MAX_DOTS = 150;
+// Marker labels are dropped past this many; the lines alone still show when treatments happened.
+const MAX_MARKER_LABELS = 30;
+const MARKER_RADIUS = 4;
+
+export type GlucoseTrendChartProps = {
+  history: HistoryItem[];
+  unit: Unit;
+  targetRanges: TargetRangeSettings;
+  width?: number;
+};
+
+/**
+ * Time-axis glucose chart with range presets, pinch-to-zoom, drag-to-pan, a shaded target band
+ * and tap-to-inspect readings. Insulin doses are marked along the top edge and carbs along the
+ * bottom, so their effect on the readings that follow is easy to see.
+ */
+export function GlucoseTrendChart({ history, unit, targetRanges, width = screenWidth * 0.85 }: GlucoseTrendChartProps) {
+  const { settings } = useSettings();
+  const colors = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const points = useMemo(() => buildChartPoints(history, unit) ?? [], [history, unit]);
+  const [preset, setPreset] = useState<ChartRangePreset | null>('all');
+  const [domain, setDomain] = useState<TimeDomain>(() => presetDomain(points, 'all'));
+  const [selectedPoint, setSelectedPoint] = useState<ChartPoint | null>(null);
+  const [selectedMarker, setSelectedMarker] = useState<TreatmentMarker | null>(null);
+  const markers = useMemo(() => buildTreatmentMarkers(history, settings), [history, settings]);
+  const gestureStartDomain = useRef<TimeDomain>(domain);
+  const fontScale = useFontScale();
+
+  useEffect(() => {
+    if (preset) {
+      setDomain(presetDomain(points, preset));
+    }
+  }, [points, preset]);
+
+  // Axis labels are SVG text, which doesn't follow the system text size on its own.
+  const labelSize = AXIS_FONT_SIZE * fontScale;
+  const padding = { ...PADDING, left: PADDING.left * fontScale, bottom: PADDING.bottom * fontScale };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = CHART_HEIGHT - padding.top - padding.bottom;
+  const bounds = chartBounds(points);
+  const span = domain[1] - domain[0];
+
+  const band = convertTargetRange(targetRangeFor(targetRanges), 'mg/dL', unit);
+  const visible = pointsInDomain(points, domain);
+  const visibleMarkers = markersInDomain(markers, domain);
+  const [minValue, maxValue] = valueDomain(visible.map(point => point.yValue), band);
+
+  const x = (timestamp: number) => padding.left + ((timestamp - domain[0]) / span) * plotWidth;
+  const y = (value: number) => padding.top + (1 - (value - minValue) / (maxValue - minValue)) * plotHeight;
+  const timeAt = (pixelX: number) => domain[0] + ((pixelX - padding.left) / plotWidth) * span;
+  const focusAt = (pixelX: number) => Math.min(1, Math.max(0, (pixelX - padding.left) / plotWidth));
+
+  const linePath = visible
+    .map((point, index) => `${index === 0 ? 'M' : 'L'}${x(point.timestamp).toFixed(1)},${y(point.yValue).toFixed(1)}`)
+    .join(' ');
+  const valueTicks = timeTicks([minValue, maxValue], 4);
+
+  const beginGesture = () => {
+    gestureStartDomain.current = domain;
+    setPreset(null);
+  };
+
+  const pinch = Gesture.Pinch()
+    .runOnJS(true)
+    .onStart(beginGesture)
+    .onUpdate(event => setDomain(zoomDomain(gestureStartDomain.current, event.scale, focusAt(event.focalX), bounds)));
+
+  const pan = Gesture.Pan()
+    .runOnJS(true)
+    .activeOffsetX([-10, 10])
+    .failOffsetY([-10, 10])
+    .onStart(beginGesture)
+    .onUpdate(event => {
+      const startSpan = gestureStartDomain.current[1] - gestureStartDomain.current[0];
+      setDomain(panDomain(gestureStartDomain.current, (-event.translationX / plotWidth) * startSpan, bounds));
+    });
+
+  // A tap inspects whichever is closer in time: a reading or a treatment marker.
+  const handleTap = (pixelX: number) => {
+    const time = timeAt(pixelX);
+    const point = nearestPoint(visible, time);
+    const marker = nearestPoint(visibleMarkers, time);
+    const isMarkerCloser = marker && (!point || Math.abs(marker.timestamp - time) < Math.abs(point.timestamp - time));
+    setSelectedPoint(isMarkerCloser ? null : point);
+    setSelectedMarker(isMarkerCloser ? marker : null);
+  };
+
+  const tap = Gesture.Tap()
+    .runOnJS(true)
+    .onEnd(event => handleTap(event.x));
+
+  const markerSummary = describeTreatmentMarkers(visibleMarkers);
+
+  const gesture = Gesture.Race(Gesture.Simultaneous(pinch, pan), tap);
+
+  return (
+    <View>
+      <View style={styles.presetRow} accessibilityRole="radiogroup" accessibilityLabel="Period">
+        {CHART_RANGE_PRESETS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.presetChip, preset === option && styles.presetChipSelected]}
+            onPress={() => setPreset(option)}
+            activeOpacity={0.7}
+            accessibilityRole="radio"
+            accessibilityState={{ checked: preset === option }}
+          >
+            <Text style={[styles.presetChipText, preset === option && styles.presetChipTextSelected]}>{CHART_RANGE_PRESET_LABELS[option]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <GestureDetector gesture={gesture}>
+        <View
+          collapsable={false}
+          accessible
+          accessibilityRole="image"
+          accessibilityLabel={`Glucose trend: ${describeTrend(visible, unit, settings)}${markerSummary ? `. ${markerSummary}` : ''}`}
+        >
+          <Svg width={width} height={CHART_HEIGHT}>
+            <Defs>
+              <ClipPath id="plotArea">
+                <Rect x={padding.left} y={padding.top} width={plotWidth} height={plotHeight} />
+              </ClipPath>
+            </Defs>
+            <Rect x={0} y={0} width={width} height={CHART_HEIGHT} rx={moderateScale(12)} fill={colors.surface} />
+
+            {valueTicks.map(value => (
+              <G key={`y-${value}`}>
+                <Line x1={padding.left} x2={padding.left + plotWidth} y1={y(value)} y2={y(value)} stroke={colors.chartGrid} strokeDasharray="3 3" />
+                <SvgText x={padding.left - 4} y={y(value) + 3} fill={colors.chartAxis} fontSize={labelSize} textAnchor="end">
+                  {formatGlucose(value, unit, settings, CHART_DECIMALS[unit])}
+                </SvgText>
+              </G>
+            ))}
+            {timeTicks(domain).map((timestamp, index, ticks) => (
+              <SvgText
+                key={`x-${timestamp}`}
+                x={x(timestamp)}
+                y={CHART_HEIGHT - 10}
+                fill={colors.chartAxis}
+                fontSize={labelSize}
+                textAnchor={index === 0 ? 'start' : index === ticks.length - 1 ? 'end' : 'middle'}
+              >
+                {formatTimeTick(timestamp, span, settings.timeFormat)}
+              </SvgText>
+            ))}
+
+            <G clipPath="url(#plotArea)">
+              <Rect
+                x={padding.left}
+                y={y(band.high)}
+                width={plotWidth}
+                height={Math.max(0, y(band.low) - y(band.high))}
+                fill={colors.rangeInRange}
+                opacity={0.15}
+              />
+              {visibleMarkers.map(marker => {
+                const markerX = x(marker.timestamp);
+                const isInsulin = marker.type === 'insulin';
+                const markerY = isInsulin ? padding.top + MARKER_RADIUS + 1 : padding.top + plotHeight - MARKER_RADIUS - 1;
+                return (
+                  <G key={marker.id}>
+                    <Line
+                      x1={markerX}
+                      x2={markerX}
+                      y1={padding.top}
+                      y2={padding.top + plotHeight}
+                      stroke={colors[marker.type]}
+                      strokeDasharray="2 3"
+                      opacity={0.6}
+                    />
+                    <Circle cx={markerX} cy={markerY} r={MARKER_RADIUS} fill={colors[marker.type]} />
+                    {visibleMarkers.length <= MAX_MARKER_LABELS && (
+                      <SvgText
+                        x={markerX + MARKER_RADIUS + 2}
+                        y={markerY + labelSize / 3}
+                        fill={colors[marker.type]}
+                        fontSize={labelSize}
+                        fontWeight="bold"
+                      >
+                        {marker.label}
+                      </SvgText>
+                    )}
+                  </G>
+                );
+              })}
+              <Path d={linePath} stroke={colors.primary} strokeWidth={2.5} fill="none" />
+              {visible.length <= MAX_DOTS &&
+                visible.map(point => (
+                  <Circle
+                    key={point.timestamp}
+                    cx={x(point.timestamp)}
+                    cy={y(point.yValue)}
+                    r={3.5}
+                    fill={colors.surface}
+                    stroke={rangeColor(colors, classifyGlucose(point, targetRanges))}
+                    strokeWidth={2}
+                  />
+                ))}
+              {selectedPoint && (
+                <Circle cx={x(selectedPoint.timestamp)} cy={y(selectedPoint.yValue)} r={6} fill="none" stroke={colors.text} strokeWidth={2} />
+              )}
+              {selectedMarker && (
+                <Line
+                  x1={x(selectedMarker.timestamp)}
+                  x2={x(selectedMarker.timestamp)}
+                  y1={padding.top}
+                  y2={padding.top + plotHeight}
+                  stroke={colors.text}
+                  strokeWidth={2}
+                />
+              )}
+            </G>
+          </Svg>
+        </View>
+      </GestureDetector>
+      {visibleMarkers.length > 0 && (
+        <View style={styles.legend}>
+          {TREATMENT_TYPES.map(type => (
+            <View key={type} style={styles.legendItem}>
+              <TreatmentIcon type={type} size={moderateScale(13, 0.3)} />
+              <Text style={styles.legendText}>{TREATMENT_LABELS[type]}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+      <Text style={styles.hint}>Pinch to zoom, drag to pan, tap a point or marker for details.</Text>
+
+      {selectedPoint && (
+        <View style={styles.tooltip}>
+          <Text style={styles.tooltipTitle}>
+            {formatGlucose(selectedPoint.yValue, unit, settings)} {unit} · {formatTimestamp(selectedPoint.timestamp, settings.timeFormat)}
+          </Text>
+          <Text style={styles.tooltipText}>{describeRange(classifyGlucose(selectedPoint, targetRanges))}</Text>
+          {describeHistoryDetails(selectedPoint) !== '' && (
+            <Text style={styles.tooltipText}>{describeHistoryDetails(selectedPoint)}</Text>
+          )}
+        </View>
+      )}
+      {selectedMarker && (
+        <View style={styles.tooltip}>
+          <Text style={styles.tooltipTitle}>
+            {selectedMarker.description} · {formatTimestamp(selectedMarker.timestamp, settings.timeFormat)}
+          </Text>
+          {selectedMarker.note && <Text style={styles.tooltipText}>{selectedMarker.note}</Text>}
+        </View>
+      )}
+      <ChartDataTable table={buildTrendTable(visible, unit, targetRanges, settings)} caption="Glucose trend" />
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  presetRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: moderateScale(8),
+    marginBottom: moderateScale(10),
+  },
+  presetChip: {
+    paddingVertical: moderateScale(4),
+    paddingHorizontal: moderateScale(12),
+    borderRadius: moderateScale(14),
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  presetChipSelected: {
+    backgroundColor: colors.primary,
+  },
+  presetChipText: {
+    color: colors.text,
+    fontSize: moderateScale(12, 0.3),
+  },
+  presetChipTextSelected: {
+    color: colors.onPrimary,
+  },
+  legend: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: moderateScale(16),
+    marginTop: moderateScale(6),
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: moderateScale(4),
+  },
+  legendText: {
+    color: colors.textSecondary,
+    fontSize: moderateScale(12, 0.3),
+  },
+  hint: {
+    color: colors.placeholder,
+    fontSize: moderateScale(11, 0.3),
+    fontStyle: 'italic',
+    textAlign: 'center',
+    marginTop: moderateScale(6),
+  },
+  tooltip: {
+    backgroundColor: colors.surface,
+    borderRadius: moderateScale(8),
+    padding: moderateScale(10),
+    marginTop: moderateScale(8),
+  },
+  tooltipTitle: {
+    color: colors.text,
+    fontWeight: 'bold',
+    fontSize: moderateScale(14, 0.3),
+  },
+  tooltipText: {
+    color: colors.textSecondary,
+    fontSize: moderateScale(13, 0.3),
+    marginTop: moderateScale(4),
+  },
+});
@@ -0,0 +1,319 @@
+import { useEffect, useMemo, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import {
+  Brush,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  TooltipProps,
+  XAxis,
+  YAxis,
+} from 'recharts';
+
+import { ChartDataTable } from '@/components/ChartDataTable';
+import { TreatmentIcon } from '@/components/TreatmentIcon';
+import { ThemeColors, rangeColor } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useSettings } from '@/hooks/useSettings';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { buildTrendTable, describeRange, describeTrend } from '@/lib/chartTable';
+import {
+  CHART_RANGE_PRESETS,
+  CHART_RANGE_PRESET_LABELS,
+  ChartRangePreset,
+  TimeDomain,
+  formatTimeTick,
+  pointsInDomain,
+  presetDomain,
+  valueDomain,
+} from '@/lib/chartWindow';
+import {
+  CHART_DECIMALS,
+  ChartPoint,
+  HistoryItem,
+  TREATMENT_TYPES,
+  Unit,
+  buildChartPoints,
+  describeHistoryDetails,
+  formatGlucose,
+  formatTimestamp,
+} from '@/lib/glucose';
+import { TargetRangeSettings, classifyGlucose, convertTargetRange, targetRangeFor } from '@/lib/targetRange';
+import { TREATMENT_LABELS, buildTreatmentMarkers, describeTreatmentMarkers, markersInDomain } from '@/lib/treatments';
+
+// Individual dots are dropped when zoomed out this far; the line alone stays readable.
+const MAX_DOTS = 150;
+// Marker labels are dropped past this many; the lines alone still show when treatments happened.
+const MAX_MARKER_LABELS = 30;
+
+type BrushSelection = { startIndex: number; endIndex: number };
+
+interface RangeDotProps {
+  cx?: number;
+  cy?: number;
+  index?: number;
+  payload?: ChartPoint & { rangeColor: string };
+}
+
+const rangeDotRenderer = (fill: string) =>
+  function RangeDot({ cx, cy, index, payload }: RangeDotProps) {
+    return <circle key={index} cx={cx} cy={cy} r={4} stroke={payload?.rangeColor} fill={fill} strokeWidth={2} />;
+  };
+
+export type GlucoseTrendChartProps = {
+  history: HistoryItem[];
+  unit: Unit;
+  targetRanges: TargetRangeSettings;
+  width?: number;
+};
+
+/**
+ * Time-axis glucose chart with range presets, a brush for selecting a sub-range, a shaded target
+ * band and hover tooltips showing each reading's value, time and note. Insulin doses are marked
+ * along the top edge and carbs along the bottom.
+ */
+export function GlucoseTrendChart({ history, unit, targetRanges }: GlucoseTrendChartProps) {
+  const { settings } = useSettings();
+  const colors = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [preset, setPreset] = useState<ChartRangePreset>('all');
+  const [selection, setSelection] = useState<BrushSelection | null>(null);
+  const markers = useMemo(() => buildTreatmentMarkers(history, settings), [history, settings]);
+
+  const windowDomain = useMemo<TimeDomain>(
+    () => presetDomain(buildChartPoints(history, unit) ?? [], preset),
+    [history, unit, preset]
+  );
+  const data = useMemo(
+    () =>
+      pointsInDomain(buildChartPoints(history, unit) ?? [], windowDomain).map(point => ({
+        ...point,
+        rangeColor: rangeColor(colors, classifyGlucose(point, targetRanges)),
+      })),
+    [history, unit, windowDomain, targetRanges, colors]
+  );
+
+  useEffect(() => {
+    setSelection(null);
+  }, [data]);
+
+  // A brush covering every point (or left over from previous data) means no narrower selection.
+  const brushed =
+    selection && selection.endIndex < data.length && selection.endIndex - selection.startIndex < data.length - 1
+      ? selection
+      : null;
+  const domain: TimeDomain = brushed
+    ? [data[brushed.startIndex].timestamp, data[brushed.endIndex].timestamp]
+    : windowDomain;
+  const band = convertTargetRange(targetRangeFor(targetRanges), 'mg/dL', unit);
+  const selected = brushed ? data.slice(brushed.startIndex, brushed.endIndex + 1) : data;
+  const yDomain = valueDomain(selected.map(point => point.yValue), band);
+  const span = domain[1] - domain[0];
+  const visibleMarkers = markersInDomain(markers, domain);
+  const markerSummary = describeTreatmentMarkers(visibleMarkers);
+
+  const renderTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+    const point = payload?.[0]?.payload as ChartPoint | undefined;
+    if (!active || !point) {
+      return null;
+    }
+    const details = describeHistoryDetails(point);
+    return (
+      <View style={styles.tooltip}>
+        <Text style={styles.tooltipTitle}>
+          {formatGlucose(point.yValue, unit, settings)} {unit}
+        </Text>
+        <Text style={styles.tooltipText}>{formatTimestamp(point.timestamp, settings.timeFormat)}</Text>
+        <Text style={styles.tooltipText}>{describeRange(classifyGlucose(point, targetRanges))}</Text>
+        {details !== '' && <Text style={styles.tooltipText}>{details}</Text>}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.presetRow} accessibilityRole="radiogroup" accessibilityLabel="Period">
+        {CHART_RANGE_PRESETS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.presetChip, preset === option && styles.presetChipSelected]}
+            onPress={() => setPreset(option)}
+            activeOpacity={0.7}
+            accessibilityRole="radio"
+            accessibilityState={{ checked: preset === option }}
+          >
+            <Text style={[styles.presetChipText, preset === option && styles.presetChipTextSelected]}>{CHART_RANGE_PRESET_LABELS[option]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View
+        accessible
+        accessibilityRole="image"
+        accessibilityLabel={`Glucose trend: ${describeTrend(selected, unit, settings)}${markerSummary ? `. ${markerSummary}` : ''}`}
+      >
+        <ResponsiveContainer width="100%" height={moderateScale(300)}>
+          <LineChart data={data} margin={{ top: 5, right: 15, left: -15, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={colors.chartGrid} />
+            <XAxis
+              dataKey="timestamp"
+              type="number"
+              scale="time"
+              domain={domain}
+              allowDataOverflow
+              stroke={colors.chartAxis}
+              tickFormatter={(value: number) => formatTimeTick(value, span, settings.timeFormat)}
+              tick={{ fontSize: moderateScale(10) }}
+            />
+            <YAxis
+              stroke={colors.chartAxis}
+              domain={yDomain}
+              allowDataOverflow
+              tickFormatter={(value: number) => formatGlucose(value, unit, settings, CHART_DECIMALS[unit])}
+              tick={{ fontSize: moderateScale(10) }}
+            />
+            <ReferenceArea
+              y1={band.low}
+              y2={band.high}
+              fill={colors.rangeInRange}
+              fillOpacity={0.15}
+              stroke="none"
+              ifOverflow="hidden"
+            />
+            {visibleMarkers.map(marker => (
+              <ReferenceLine
+                key={marker.id}
+                x={marker.timestamp}
+                stroke={colors[marker.type]}
+                strokeDasharray="2 3"
+                strokeOpacity={0.7}
+                ifOverflow="hidden"
+                label={
+                  visibleMarkers.length <= MAX_MARKER_LABELS
+                    ? {
+                        value: marker.label,
+                        position: marker.type === 'insulin' ? 'insideTopLeft' : 'insideBottomLeft',
+                        fill: colors[marker.type],
+                        fontSize: moderateScale(10),
+                        fontWeight: 'bold',
+                      }
+                    : undefined
+                }
+              />
+            ))}
+            <Tooltip content={renderTooltip} />
+            <Line
+              type="monotone"
+              dataKey="yValue"
+              stroke={colors.primary}
+              strokeWidth={3}
+              activeDot={{ r: 6, stroke: colors.accent, strokeWidth: 2 }}
+              dot={selected.length <= MAX_DOTS ? rangeDotRenderer(colors.surface) : false}
+              isAnimationActive={false}
+              name={unit}
+            />
+            {data.length > 1 && (
+              <Brush
+                dataKey="timestamp"
+                height={24}
+                stroke={colors.primary}
+                fill={colors.surface}
+                travellerWidth={8}
+                startIndex={brushed?.startIndex}
+                endIndex={brushed?.endIndex}
+                tickFormatter={(value: number) => formatTimeTick(value, windowDomain[1] - windowDomain[0], settings.timeFormat)}
+                onChange={({ startIndex, endIndex }) =>
+                  setSelection(
+                    startIndex === undefined || endIndex === undefined ? null : { startIndex, endIndex }
+                  )
+                }
+              />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </View>
+      {visibleMarkers.length > 0 && (
+        <View style={styles.legend}>
+          {TREATMENT_TYPES.map(type => (
+            <View key={type} style={styles.legendItem}>
+              <TreatmentIcon type={type} size={moderateScale(13, 0.3)} />
+              <Text style={styles.legendText}>{TREATMENT_LABELS[type]}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+      <Text style={styles.hint}>Drag the handles below the chart to focus on a period.</Text>
+      <ChartDataTable table={buildTrendTable(selected, unit, targetRanges, settings)} caption="Glucose trend" />
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+  presetRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: moderateScale(8),
+    marginBottom: moderateScale(10),
+  },
+  presetChip: {
+    paddingVertical: moderateScale(4),
+    paddingHorizontal: moderateScale(12),
+    borderRadius: moderateScale(14),
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  presetChipSelected: {
+    backgroundColor: colors.primary,
+  },
+  presetChipText: {
+    color: colors.text,
+    fontSize: moderateScale(12, 0.3),
+  },
+  presetChipTextSelected: {
+    color: colors.onPrimary,
+  },
+  legend: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: moderateScale(16),
+    marginTop: moderateScale(6),
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: moderateScale(4),
+  },
+  legendText: {
+    color: colors.textSecondary,
+    fontSize: moderateScale(12, 0.3),
+  },
+  hint: {
+    color: colors.placeholder,
+    fontSize: moderateScale(11, 0.3),
+    fontStyle: 'italic',
+    textAlign: 'center',
+    marginTop: moderateScale(6),
+  },
+  tooltip: {
+    backgroundColor: colors.surface,
+    borderRadius: moderateScale(5),
+    padding: moderateScale(8),
+  },
+  tooltipTitle: {
+    color: colors.text,
+    fontWeight: 'bold',
+    fontSize: moderateScale(14, 0.3),
+  },
+  tooltipText: {
+    color: colors.textSecondary,
+    fontSize: moderateScale(12, 0.3),
+    marginTop: moderateScale(2),
+  },
+});
@@ -0,0 +1,262 @@
+import { useEffect, useState } from 'react';
+import { Modal, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ChipRow } from '@/components/ChipRow';
+import { MealContextPicker } from '@/components/MealContextPicker';
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useHistory } from '@/hooks/useHistory';
+import { useSettings } from '@/hooks/useSettings';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import {
+  HistoryItem,
+  INSULIN_KINDS,
+  MAX_NOTE_LENGTH,
+  TREATMENT_UNITS,
+  UNITS,
+  Unit,
+  convertGlucose,
+  formatGlucose,
+  isA1cEntry,
+  isCarbEntry,
+  isInsulinEntry,
+  parseGlucoseInput,
+  valueInUnit,
+} from '@/lib/glucose';
+import { HistoryEditDraft, applyHistoryEdit, draftFromItem, validateHistoryEdit } from '@/lib/historyEdit';
+import { INSULIN_KIND_LABELS } from '@/lib/treatments';
+
+export type HistoryEntryEditorProps = {
+  item: HistoryItem | null;
+  onClose: () => void;
+};
+
+/**
+ * Modal form for correcting an entry's value, time, meal context and note, or a treatment's
+ * amount, insulin type, time and note.
+ */
+export function HistoryEntryEditor({ item, onClose }: HistoryEntryEditorProps) {
+  const { updateEntry } = useHistory();
+  const { settings } = useSettings();
+  const colors = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [draft, setDraft] = useState<HistoryEditDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(item ? draftFromItem(item, settings.preferredUnit, settings) : null);
+    setError(null);
+  }, [item, settings]);
+
+  if (!item || !draft) {
+    return null;
+  }
+
+  const isA1c = isA1cEntry(item);
+  const isInsulin = isInsulinEntry(item);
+  const isCarbs = isCarbEntry(item);
+  const isReading = !isA1c && !isInsulin && !isCarbs;
+  const title = isA1c ? 'Edit HbA1c Entry' : isInsulin ? 'Edit Insulin Dose' : isCarbs ? 'Edit Carb Entry' : 'Edit Entry';
+  const valueLabel = isA1c
+    ? 'HbA1c (%)'
+    : isInsulin
+      ? `Dose (${TREATMENT_UNITS.insulin})`
+      : isCarbs
+        ? `Carbohydrate (${TREATMENT_UNITS.carbs})`
+        : `Value (${draft.unit})`;
+
+  const updateDraft = (changes: Partial<HistoryEditDraft>) => {
+    setDraft(current => (current ? { ...current, ...changes } : current));
+    setError(null);
+  };
+
+  const handleUnitChange = (unit: Unit) => {
+    if (unit === draft.unit) {
+      return;
+    }
+    if (!draft.valueDirty) {
+      updateDraft({ unit, value: draftFromItem(item, unit, settings).value });
+      return;
+    }
+    const value = parseGlucoseInput(draft.value);
+    updateDraft({
+      unit,
+      value: value === null ? draft.value : formatGlucose(valueInUnit(convertGlucose(value, draft.unit), unit), unit, settings),
+    });
+  };
+
+  const handleSave = () => {
+    const validationError = validateHistoryEdit(item, draft, settings);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    updateEntry(applyHistoryEdit(item, draft));
+    onClose();
+  };
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.dialog}>
+          <Text style={styles.title}>{title}</Text>
+
+          {isReading && (
+            <View style={styles.unitRow}>
+              {UNITS.map(unit => (
+                <TouchableOpacity
+                  key={unit}
+                  style={[styles.unitChip, draft.unit === unit && styles.unitChipSelected]}
+                  onPress={() => handleUnitChange(unit)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.unitChipText, draft.unit === unit && styles.unitChipTextSelected]}>{unit}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          <Text style={styles.label}>{valueLabel}</Text>
+          <TextInput
+            style={styles.input}
+            value={draft.value}
+            onChangeText={value => updateDraft({ value, valueDirty: true })}
+            keyboardType="numeric"
+            placeholderTextColor={colors.placeholder}
+          />
+
+          <Text style={styles.label}>Date and time</Text>
+          <TextInput
+            style={styles.input}
+            value={draft.dateTime}
+            onChangeText={dateTime => updateDraft({ dateTime })}
+            placeholder="YYYY-MM-DD HH:MM"
+            placeholderTextColor={colors.placeholder}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+
+          {isInsulin && (
+            <ChipRow
+              title="Insulin"
+              options={INSULIN_KINDS.map(kind => ({ value: kind, label: INSULIN_KIND_LABELS[kind] }))}
+              selected={draft.insulinKind ?? item.insulinKind}
+              onSelect={insulinKind => updateDraft({ insulinKind })}
+            />
+          )}
+          {isReading && <MealContextPicker value={draft.context} onChange={context => updateDraft({ context })} />}
+          <TextInput
+            style={styles.input}
+            value={draft.note}
+            onChangeText={note => updateDraft({ note })}
+            placeholder="Note (optional)"
+            placeholderTextColor={colors.placeholder}
+            maxLength={MAX_NOTE_LENGTH}
+          />
+
+          {error && <Text style={styles.error}>{error}</Text>}
+          <View style={styles.actionRow}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose} activeOpacity={0.7}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSave} activeOpacity={0.8}>
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: moderateScale(20),
+  },
+  dialog: {
+    width: '100%',
+    maxWidth: 420,
+    backgroundColor: colors.card,
+    borderRadius: moderateScale(12),
+    padding: moderateScale(18),
+  },
+  title: {
+    fontSize: moderateScale(18, 0.3),
+    fontWeight: 'bold',
+    color: colors.textSecondary,
+    marginBottom: moderateScale(12),
+  },
+  unitRow: {
+    flexDirection: 'row',
+    gap: moderateScale(8),
+    marginBottom: moderateScale(10),
+  },
+  unitChip: {
+    paddingVertical: moderateScale(6),
+    paddingHorizontal: moderateScale(12),
+    borderRadius: moderateScale(16),
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  unitChipSelected: {
+    backgroundColor: colors.primary,
+  },
+  unitChipText: {
+    color: colors.text,
+    fontSize: moderateScale(13, 0.3),
+  },
+  unitChipTextSelected: {
+    color: colors.onPrimary,
+  },
+  label: {
+    color: colors.textMuted,
+    fontSize: moderateScale(13, 0.3),
+    marginBottom: moderateScale(4),
+  },
+  input: {
+    backgroundColor: colors.surface,
+    color: colors.text,
+    paddingHorizontal: moderateScale(10),
+    paddingVertical: moderateScale(8),
+    borderRadius: moderateScale(8),
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    fontSize: moderateScale(15, 0.3),
+    marginBottom: moderateScale(10),
+  },
+  error: {
+    color: colors.danger,
+    fontSize: moderateScale(13, 0.3),
+    marginBottom: moderateScale(8),
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: moderateScale(10),
+    marginTop: moderateScale(4),
+  },
+  cancelButton: {
+    paddingVertical: moderateScale(10),
+    paddingHorizontal: moderateScale(16),
+    borderRadius: moderateScale(8),
+    backgroundColor: colors.mutedSurface,
+  },
+  cancelButtonText: {
+    color: colors.textSecondary,
+    fontSize: moderateScale(15, 0.3),
+  },
+  saveButton: {
+    paddingVertical: moderateScale(10),
+    paddingHorizontal: moderateScale(20),
+    borderRadius: moderateScale(8),
+    backgroundColor: colors.primary,
+  },
+  saveButtonText: {
+    color: colors.onPrimary,
+    fontSize: moderateScale(15, 0.3),
+    fontWeight: 'bold',
+  },
+});
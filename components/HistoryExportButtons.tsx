@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useProfiles } from '@/hooks/useProfiles';
+import { useThemedStyles } from '@/hooks/useTheme';
+import { ExportFormat, buildExportFile } from '@/lib/exportHistory';
+import { HistoryItem } from '@/lib/glucose';
+import { shareFile } from '@/lib/shareFile';
+
+export type HistoryExportButtonsProps = {
+  history: HistoryItem[];
+  onError: (message: string) => void;
+};
+
+const EXPORT_LABELS: Record<ExportFormat, string> = {
+  csv: 'Export CSV',
+  json: 'Backup JSON',
+};
+
+/**
+ * Export actions for the history card: a CSV for clinicians and a JSON backup for moving devices.
+ * Both cover the active profile only and carry its name.
+ */
+export function HistoryExportButtons({ history, onError }: HistoryExportButtonsProps) {
+  const { activeProfile } = useProfiles();
+  const styles = useThemedStyles(createStyles);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      await shareFile(buildExportFile(history, format, new Date(), activeProfile.name));
+    } catch (e) {
+      console.error('Failed to export history.', e);
+      onError('Could not export conversion history.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {(['csv', 'json'] as ExportFormat[]).map(format => (
+        <TouchableOpacity
+          key={format}
+          style={[styles.button, isExporting && styles.buttonDisabled]}
+          onPress={() => handleExport(format)}
+          disabled={isExporting || history.length === 0}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.buttonText}>{EXPORT_LABELS[format]}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    gap: moderateScale(8),
+    marginBottom: moderateScale(8),
+  },
+  button: {
+    paddingVertical: moderateScale(4),
+    paddingHorizontal: moderateScale(10),
+    borderRadius: moderateScale(5),
+    backgroundColor: colors.mutedSurface,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: colors.accent,
+    fontSize: moderateScale(13, 0.3),
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,167 @@
+import { StyleSheet, Text, View } from 'react-native';
+
+import { RangeBadge } from '@/components/RangeBadge';
+import { TreatmentIcon } from '@/components/TreatmentIcon';
+import { ThemeColors } from '@/constants/Colors';
+import { height, moderateScale, width } from '@/constants/Layout';
+import { useSettings } from '@/hooks/useSettings';
+import { useThemedStyles } from '@/hooks/useTheme';
+import { describeA1cEntry } from '@/lib/a1c';
+import {
+  HistoryItem,
+  TimeFormat,
+  describeHistoryDetails,
+  formatGlucose,
+  formatTimestamp,
+  isA1cEntry,
+  isCarbEntry,
+  isInsulinEntry,
+} from '@/lib/glucose';
+import { GLUCOSE_RANGE_LABELS, TargetRangeSettings, classifyGlucose } from '@/lib/targetRange';
+import { INSULIN_KIND_LABELS, TREATMENT_LABELS, describeTreatment, treatmentAmount } from '@/lib/treatments';
+
+export type HistoryRowProps = {
+  item: HistoryItem;
+  targetRanges: TargetRangeSettings;
+  formatTime?: (timestamp: number, timeFormat: TimeFormat) => string;
+};
+
+export function HistoryHeaderRow() {
+  const styles = useThemedStyles(createStyles);
+  return (
+    // Rows announce their own units, so the column titles are only for sighted users.
+    <View style={styles.header} importantForAccessibility="no-hide-descendants" accessibilityElementsHidden>
+      <View style={styles.badge} />
+      <Text style={[styles.headerText, styles.headerTextTime]}>Time</Text>
+      <Text style={styles.headerText}>mg/dL</Text>
+      <Text style={styles.headerText}>mmol/L</Text>
+    </View>
+  );
+}
+
+/**
+ * One history entry: range badge (or HbA1c tag), time, both units and any details. Insulin and
+ * carb entries show their icon and amount in place of the glucose values.
+ */
+export function HistoryRow({ item, targetRanges, formatTime = formatTimestamp }: HistoryRowProps) {
+  const { settings } = useSettings();
+  const styles = useThemedStyles(createStyles);
+
+  if (isInsulinEntry(item) || isCarbEntry(item)) {
+    const time = formatTime(item.timestamp, settings.timeFormat);
+    const details = describeHistoryDetails(item);
+    const amount = isInsulinEntry(item)
+      ? `${treatmentAmount(item, settings)} · ${INSULIN_KIND_LABELS[item.insulinKind]}`
+      : treatmentAmount(item, settings);
+    return (
+      <View
+        style={styles.item}
+        accessible
+        accessibilityLabel={[TREATMENT_LABELS[item.type], time, describeTreatment(item, settings), details].filter(Boolean).join(', ')}
+      >
+        <View style={styles.row}>
+          <View style={styles.badge}>
+            <TreatmentIcon type={item.type} />
+          </View>
+          <Text style={styles.textTime} numberOfLines={1} ellipsizeMode="tail">{time}</Text>
+          <Text style={[styles.textValue, styles.textTreatment]}>{amount}</Text>
+        </View>
+        {details !== '' && <Text style={styles.textDetails} numberOfLines={2}>{details}</Text>}
+      </View>
+    );
+  }
+
+  const isA1c = isA1cEntry(item);
+  const details = isA1c
+    ? [describeA1cEntry(item, settings), describeHistoryDetails(item)].filter(Boolean).join(' · ')
+    : describeHistoryDetails(item);
+  const time = formatTime(item.timestamp, settings.timeFormat);
+  const mgdl = formatGlucose(item.mgdlValue, 'mg/dL', settings);
+  const mmol = formatGlucose(item.mmolValue, 'mmol/L', settings);
+  const status = isA1c ? 'HbA1c' : GLUCOSE_RANGE_LABELS[classifyGlucose(item, targetRanges)];
+  return (
+    <View
+      style={styles.item}
+      accessible
+      accessibilityLabel={[status, time, `${mgdl} mg/dL`, `${mmol} mmol/L`, details].filter(Boolean).join(', ')}
+    >
+      <View style={styles.row}>
+        <View style={styles.badge}>
+          {isA1c
+            ? <Text style={styles.a1cTag}>A1c</Text>
+            : <RangeBadge range={classifyGlucose(item, targetRanges)} compact />}
+        </View>
+        <Text style={styles.textTime} numberOfLines={1} ellipsizeMode="tail">{time}</Text>
+        <Text style={styles.textValue}>{mgdl}</Text>
+        <Text style={styles.textValue}>{mmol}</Text>
+      </View>
+      {details !== '' && <Text style={styles.textDetails} numberOfLines={2}>{details}</Text>}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingBottom: height * 0.01,
+    paddingHorizontal: width * 0.01,
+    backgroundColor: colors.card,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.divider,
+    marginBottom: 5,
+  },
+  headerText: {
+    color: colors.textMuted,
+    fontWeight: 'bold',
+    fontSize: moderateScale(14, 0.3),
+    flex: 1,
+    textAlign: 'left',
+  },
+  headerTextTime: {
+    flex: 1.5,
+  },
+  item: {
+    justifyContent: 'center',
+    paddingVertical: height * 0.015,
+    paddingHorizontal: width * 0.01,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.divider,
+    minHeight: moderateScale(45),
+  },
+  badge: {
+    minWidth: moderateScale(18),
+  },
+  a1cTag: {
+    color: colors.a1cSeries,
+    fontSize: moderateScale(9, 0.3),
+    fontWeight: 'bold',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  textDetails: {
+    color: colors.textMuted,
+    fontSize: moderateScale(12, 0.3),
+    fontStyle: 'italic',
+    marginTop: moderateScale(4),
+  },
+  textTime: {
+    color: colors.textSecondary,
+    fontSize: moderateScale(13, 0.3),
+    flex: 1.5,
+    textAlign: 'left',
+  },
+  textValue: {
+    color: colors.text,
+    fontSize: moderateScale(14, 0.3),
+    flex: 1,
+    textAlign: 'left',
+  },
+  // Spans both unit columns.
+  textTreatment: {
+    flex: 2,
+  },
+});
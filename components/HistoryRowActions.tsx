@@ -0,0 +1,96 @@
+import { ReactNode } from 'react';
+import { AccessibilityActionEvent, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import ReanimatedSwipeable from 'react-native-gesture-handler/ReanimatedSwipeable';
+
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useThemedStyles } from '@/hooks/useTheme';
+
+export type HistoryRowActionsProps = {
+  children: ReactNode;
+  onEdit: () => void;
+  onDelete: () => void;
+};
+
+const ACCESSIBILITY_ACTIONS = [
+  { name: 'edit', label: 'Edit' },
+  { name: 'delete', label: 'Delete' },
+];
+
+/**
+ * Swipe a history row left to reveal its Edit and Delete actions. Screen readers and switch
+ * access get the same actions from the row's actions menu, since they cannot swipe.
+ */
+export function HistoryRowActions({ children, onEdit, onDelete }: HistoryRowActionsProps) {
+  const styles = useThemedStyles(createStyles);
+
+  const handleAccessibilityAction = (event: AccessibilityActionEvent) => {
+    if (event.nativeEvent.actionName === 'edit') {
+      onEdit();
+    } else if (event.nativeEvent.actionName === 'delete') {
+      onDelete();
+    }
+  };
+
+  return (
+    <ReanimatedSwipeable
+      friction={2}
+      rightThreshold={40}
+      overshootRight={false}
+      renderRightActions={(_progress, _drag, swipeable) => (
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.action, styles.editAction]}
+            onPress={() => {
+              swipeable.close();
+              onEdit();
+            }}
+          >
+            <Text style={styles.actionText}>Edit</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.action, styles.deleteAction]} onPress={onDelete}>
+            <Text style={[styles.actionText, styles.deleteActionText]}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    >
+      <View
+        style={styles.row}
+        accessible
+        accessibilityActions={ACCESSIBILITY_ACTIONS}
+        onAccessibilityAction={handleAccessibilityAction}
+        accessibilityHint="Edit and delete are in the actions menu"
+      >
+        {children}
+      </View>
+    </ReanimatedSwipeable>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  row: {
+    backgroundColor: colors.card,
+  },
+  actions: {
+    flexDirection: 'row',
+  },
+  action: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: moderateScale(70),
+  },
+  editAction: {
+    backgroundColor: colors.primary,
+  },
+  deleteAction: {
+    backgroundColor: colors.destructive,
+  },
+  actionText: {
+    color: colors.onPrimary,
+    fontSize: moderateScale(14, 0.3),
+    fontWeight: 'bold',
+  },
+  deleteActionText: {
+    color: colors.onDestructive,
+  },
+});
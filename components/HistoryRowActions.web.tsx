@@ -0,0 +1,87 @@
+import { ComponentType, ReactNode, useState } from 'react';
+import { Pressable, StyleSheet, Text, TouchableOpacity, View, ViewProps } from 'react-native';
+
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useThemedStyles } from '@/hooks/useTheme';
+
+// react-native-web forwards onContextMenu to the DOM, but React Native's types don't declare it.
+type WebViewProps = ViewProps & {
+  onContextMenu?: (event: { preventDefault: () => void }) => void;
+};
+
+const WebView = View as ComponentType<WebViewProps>;
+
+export type HistoryRowActionsProps = {
+  children: ReactNode;
+  onEdit: () => void;
+  onDelete: () => void;
+};
+
+/**
+ * Click or right-click a history row to open its Edit / Delete menu.
+ */
+export function HistoryRowActions({ children, onEdit, onDelete }: HistoryRowActionsProps) {
+  const styles = useThemedStyles(createStyles);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+
+  const runAction = (action: () => void) => {
+    setIsMenuOpen(false);
+    action();
+  };
+
+  return (
+    <WebView
+      onContextMenu={event => {
+        event.preventDefault();
+        setIsMenuOpen(true);
+      }}
+    >
+      <Pressable onPress={() => setIsMenuOpen(open => !open)} accessibilityHint="Opens edit and delete actions">
+        {children}
+      </Pressable>
+      {isMenuOpen && (
+        <View style={styles.menu}>
+          <TouchableOpacity style={styles.menuItem} onPress={() => runAction(onEdit)} activeOpacity={0.7}>
+            <Text style={styles.menuItemText}>Edit</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.menuItem} onPress={() => runAction(onDelete)} activeOpacity={0.7}>
+            <Text style={[styles.menuItemText, styles.deleteText]}>Delete</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.menuItem} onPress={() => setIsMenuOpen(false)} activeOpacity={0.7}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </WebView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  menu: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: moderateScale(6),
+    paddingVertical: moderateScale(6),
+    borderBottomWidth: 1,
+    borderBottomColor: colors.divider,
+  },
+  menuItem: {
+    paddingVertical: moderateScale(4),
+    paddingHorizontal: moderateScale(10),
+    borderRadius: moderateScale(5),
+    backgroundColor: colors.mutedSurface,
+  },
+  menuItemText: {
+    color: colors.accent,
+    fontSize: moderateScale(13, 0.3),
+    fontWeight: 'bold',
+  },
+  deleteText: {
+    color: colors.danger,
+  },
+  cancelText: {
+    color: colors.textMuted,
+    fontSize: moderateScale(13, 0.3),
+  },
+});
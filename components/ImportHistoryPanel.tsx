@@ -0,0 +1,281 @@
+import { useMemo, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useThemedStyles } from '@/hooks/useTheme';
+import { HistoryItem, UNITS, Unit } from '@/lib/glucose';
+import {
+  CsvColumnMapping,
+  IMPORT_FORMAT_LABELS,
+  ParsedImport,
+  RejectedRow,
+  detectImportFormat,
+  guessColumnMapping,
+  mergeImportedHistory,
+  parseCsv,
+  parseImport,
+} from '@/lib/importHistory';
+import { pickTextFile } from '@/lib/pickTextFile';
+
+type MappedColumn = 'timestamp' | 'value' | 'note';
+
+const MAPPED_COLUMN_TITLES: Record<MappedColumn, string> = {
+  timestamp: 'Date / time',
+  value: 'Glucose',
+  note: 'Note (optional)',
+};
+
+const MAX_REJECTED_ROWS_SHOWN = 5;
+
+type PendingImport = {
+  text: string;
+  header?: string[];
+};
+
+type ImportSummary = {
+  added: number;
+  duplicates: number;
+  rejected: RejectedRow[];
+};
+
+export type ImportHistoryPanelProps = {
+  history: HistoryItem[];
+  onImport: (history: HistoryItem[]) => void;
+  onError: (message: string) => void;
+};
+
+/**
+ * Imports backups and meter/CGM exports into history. Unknown CSVs get a column-mapping step;
+ * every import shows a preview first and a summary of skipped duplicates and rejected rows after.
+ */
+export function ImportHistoryPanel({ history, onImport, onError }: ImportHistoryPanelProps) {
+  const styles = useThemedStyles(createStyles);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const preview = useMemo<ParsedImport | null>(() => {
+    if (!pending) {
+      return null;
+    }
+    try {
+      return parseImport(pending.text, mapping ?? undefined);
+    } catch {
+      return null;
+    }
+  }, [pending, mapping]);
+
+  const handlePick = async () => {
+    setSummary(null);
+    try {
+      const text = await pickTextFile();
+      if (text === null) {
+        return;
+      }
+      const format = detectImportFormat(text);
+      const header = format === 'generic-csv' ? parseCsv(text.trim())[0] : undefined;
+      const suggested = header ? guessColumnMapping(header) : null;
+      // Parse once up front so unreadable files are reported instead of previewed.
+      parseImport(text, suggested ?? undefined);
+      setPending({ text, header });
+      setMapping(suggested);
+    } catch (e) {
+      console.error('Failed to read import file.', e);
+      onError(e instanceof Error ? `Could not import history. ${e.message}` : 'Could not import history.');
+    }
+  };
+
+  const handleCancel = () => {
+    setPending(null);
+    setMapping(null);
+  };
+
+  const handleConfirm = () => {
+    if (!preview) {
+      return;
+    }
+    const result = mergeImportedHistory(history, preview.items);
+    onImport(result.history);
+    setSummary({ added: result.added, duplicates: result.duplicates, rejected: preview.rejected });
+    handleCancel();
+  };
+
+  const updateMapping = (changes: Partial<CsvColumnMapping>) => {
+    setMapping(current => (current ? { ...current, ...changes } : current));
+  };
+
+  return (
+    <View style={styles.container}>
+      {!pending && (
+        <TouchableOpacity style={styles.button} onPress={handlePick} activeOpacity={0.7}>
+          <Text style={styles.buttonText}>Import</Text>
+        </TouchableOpacity>
+      )}
+
+      {pending && (
+        <View style={styles.panel}>
+          {preview && <Text style={styles.title}>{IMPORT_FORMAT_LABELS[preview.format]}</Text>}
+          {pending.header && mapping && (
+            <View>
+              {(['timestamp', 'value', 'note'] as MappedColumn[]).map(column => (
+                <View key={column} style={styles.mappingRow}>
+                  <Text style={styles.mappingTitle}>{MAPPED_COLUMN_TITLES[column]}</Text>
+                  <View style={styles.chipRow}>
+                    {pending.header?.map((name, index) => (
+                      <TouchableOpacity
+                        key={`${column}-${index}`}
+                        style={[styles.chip, mapping[column] === index && styles.chipSelected]}
+                        onPress={() => updateMapping({ [column]: column === 'note' && mapping.note === index ? undefined : index })}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={[styles.chipText, mapping[column] === index && styles.chipTextSelected]}>{name || `Column ${index + 1}`}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              ))}
+              <View style={styles.mappingRow}>
+                <Text style={styles.mappingTitle}>Unit</Text>
+                <View style={styles.chipRow}>
+                  {(['auto', ...UNITS] as (Unit | 'auto')[]).map(unit => (
+                    <TouchableOpacity
+                      key={unit}
+                      style={[styles.chip, mapping.unit === unit && styles.chipSelected]}
+                      onPress={() => updateMapping({ unit })}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.chipText, mapping.unit === unit && styles.chipTextSelected]}>{unit === 'auto' ? 'Detect' : unit}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            </View>
+          )}
+          <Text style={styles.detail}>
+            {preview
+              ? `${preview.items.length} entries found, ${preview.rejected.length} rows rejected.`
+              : 'These columns could not be read.'}
+          </Text>
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={[styles.button, styles.confirmButton, !preview?.items.length && styles.buttonDisabled]}
+              onPress={handleConfirm}
+              disabled={!preview?.items.length}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.confirmButtonText}>Import {preview?.items.length ?? 0}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.button} onPress={handleCancel} activeOpacity={0.7}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {summary && (
+        <View style={styles.panel}>
+          <Text style={styles.detail}>
+            Imported {summary.added}, skipped {summary.duplicates} duplicates, rejected {summary.rejected.length} rows.
+          </Text>
+          {summary.rejected.slice(0, MAX_REJECTED_ROWS_SHOWN).map(rejected => (
+            <Text key={rejected.row} style={styles.rejected}>
+              Row {rejected.row}: {rejected.reason}
+            </Text>
+          ))}
+          {summary.rejected.length > MAX_REJECTED_ROWS_SHOWN && (
+            <Text style={styles.rejected}>…and {summary.rejected.length - MAX_REJECTED_ROWS_SHOWN} more</Text>
+          )}
+          <TouchableOpacity onPress={() => setSummary(null)} activeOpacity={0.7}>
+            <Text style={styles.buttonText}>Dismiss</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    marginBottom: moderateScale(8),
+  },
+  panel: {
+    backgroundColor: colors.surface,
+    borderRadius: moderateScale(8),
+    padding: moderateScale(10),
+    marginTop: moderateScale(8),
+  },
+  title: {
+    color: colors.textSecondary,
+    fontSize: moderateScale(15, 0.3),
+    fontWeight: 'bold',
+    marginBottom: moderateScale(8),
+  },
+  mappingRow: {
+    marginBottom: moderateScale(8),
+  },
+  mappingTitle: {
+    color: colors.textMuted,
+    fontSize: moderateScale(13, 0.3),
+    marginBottom: moderateScale(4),
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: moderateScale(6),
+  },
+  chip: {
+    paddingVertical: moderateScale(4),
+    paddingHorizontal: moderateScale(10),
+    borderRadius: moderateScale(14),
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    color: colors.text,
+    fontSize: moderateScale(12, 0.3),
+  },
+  chipTextSelected: {
+    color: colors.onPrimary,
+  },
+  detail: {
+    color: colors.textSecondary,
+    fontSize: moderateScale(13, 0.3),
+    marginBottom: moderateScale(8),
+  },
+  rejected: {
+    color: colors.danger,
+    fontSize: moderateScale(12, 0.3),
+    marginBottom: moderateScale(2),
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: moderateScale(8),
+  },
+  button: {
+    alignSelf: 'flex-start',
+    paddingVertical: moderateScale(4),
+    paddingHorizontal: moderateScale(10),
+    borderRadius: moderateScale(5),
+    backgroundColor: colors.mutedSurface,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: colors.accent,
+    fontSize: moderateScale(13, 0.3),
+    fontWeight: 'bold',
+  },
+  confirmButton: {
+    backgroundColor: colors.primary,
+  },
+  confirmButtonText: {
+    color: colors.onPrimary,
+    fontSize: moderateScale(13, 0.3),
+    fontWeight: 'bold',
+  },
+});
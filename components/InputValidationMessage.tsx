@@ -0,0 +1,80 @@
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useThemedStyles } from '@/hooks/useTheme';
+import { A1cQuantity } from '@/lib/a1c';
+import { InputValidation } from '@/lib/validation';
+
+export type InputValidationMessageProps = {
+  validation: InputValidation<A1cQuantity>;
+  // Switches the selected unit while keeping what was typed.
+  onSwitchUnit: (unit: A1cQuantity) => void;
+  unitLabel: (unit: A1cQuantity) => string;
+};
+
+/**
+ * Inline error or "did you mean" warning under the value input, with a one-tap switch to the
+ * suggested unit.
+ */
+export function InputValidationMessage({ validation, onSwitchUnit, unitLabel }: InputValidationMessageProps) {
+  const styles = useThemedStyles(createStyles);
+  const { message, severity, suggestedUnit } = validation;
+
+  if (!message) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container} accessibilityLiveRegion="polite">
+      <Text
+        style={[styles.message, severity === 'warning' ? styles.warning : styles.error]}
+        accessibilityRole={severity === 'error' ? 'alert' : 'text'}
+      >
+        {message}
+      </Text>
+      {suggestedUnit && (
+        <TouchableOpacity
+          style={styles.switchButton}
+          onPress={() => onSwitchUnit(suggestedUnit)}
+          activeOpacity={0.7}
+          accessibilityRole="button"
+        >
+          <Text style={styles.switchButtonText}>Switch to {unitLabel(suggestedUnit)}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    marginTop: moderateScale(6),
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: moderateScale(8),
+  },
+  message: {
+    flexShrink: 1,
+    fontSize: moderateScale(13, 0.3),
+  },
+  error: {
+    color: colors.danger,
+  },
+  warning: {
+    color: colors.accent,
+  },
+  switchButton: {
+    paddingVertical: moderateScale(4),
+    paddingHorizontal: moderateScale(10),
+    borderRadius: moderateScale(14),
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  switchButtonText: {
+    color: colors.text,
+    fontSize: moderateScale(13, 0.3),
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, SafeAreaView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useAppLock } from '@/hooks/useAppLock';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { PIN_MAX_LENGTH } from '@/lib/appLock';
+
+/**
+ * Full-screen PIN entry shown instead of the app while it is locked. Offers biometrics first
+ * when the user has turned them on.
+ */
+export function LockScreen() {
+  const { unlockWithPin, unlockWithBiometrics, biometricsEnabled, loadError, retryLoad, resetLock } = useAppLock();
+  const colors = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isConfirmingReset, setIsConfirmingReset] = useState(false);
+  const hasPromptedBiometrics = useRef(false);
+
+  const handleBiometrics = useCallback(() => {
+    unlockWithBiometrics()
+      .then(setError)
+      .catch(e => console.error('Biometric unlock failed.', e));
+  }, [unlockWithBiometrics]);
+
+  // Prompt once on arrival; a cancelled prompt falls back to the PIN or the button below.
+  useEffect(() => {
+    if (biometricsEnabled && !hasPromptedBiometrics.current) {
+      hasPromptedBiometrics.current = true;
+      handleBiometrics();
+    }
+  }, [biometricsEnabled, handleBiometrics]);
+
+  const handleUnlock = async () => {
+    if (pin === '' || isChecking) {
+      return;
+    }
+    setIsChecking(true);
+    try {
+      const unlockError = await unlockWithPin(pin);
+      setError(unlockError);
+      if (unlockError) {
+        setPin('');
+      }
+    } catch (e) {
+      console.error('Failed to unlock.', e);
+      setError('Could not unlock. Try again.');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsChecking(true);
+    try {
+      await resetLock();
+    } catch (e) {
+      console.error('Failed to reset the app lock.', e);
+      setError('Could not reset the app lock.');
+      setIsChecking(false);
+    }
+  };
+
+  if (loadError) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.content}>
+          <Text style={styles.title} accessibilityRole="header">GlucoSwap is locked</Text>
+          <Text style={styles.error} accessibilityRole="alert">{error ?? loadError}</Text>
+          {isConfirmingReset ? (
+            <>
+              <Text style={styles.description}>
+                Without its settings the lock cannot be opened, even with the right PIN. Resetting turns the lock off
+                and erases all encrypted history for good. This cannot be undone.
+              </Text>
+              <TouchableOpacity
+                style={[styles.button, styles.dangerButton, isChecking && styles.buttonDisabled]}
+                onPress={handleReset}
+                disabled={isChecking}
+                activeOpacity={0.8}
+                accessibilityRole="button"
+                accessibilityState={{ disabled: isChecking, busy: isChecking }}
+              >
+                {isChecking ? <ActivityIndicator color={colors.onPrimary} /> : <Text style={styles.buttonText}>Erase history and reset</Text>}
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.linkButton} onPress={() => setIsConfirmingReset(false)} activeOpacity={0.7} accessibilityRole="button">
+                <Text style={styles.linkButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <Text style={styles.description}>
+                If trying again does not help, the lock can be reset.
+              </Text>
+              <TouchableOpacity style={styles.button} onPress={retryLoad} activeOpacity={0.8} accessibilityRole="button">
+                <Text style={styles.buttonText}>Try again</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.linkButton} onPress={() => setIsConfirmingReset(true)} activeOpacity={0.7} accessibilityRole="button">
+                <Text style={[styles.linkButtonText, styles.dangerText]}>Reset app lock…</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <Text style={styles.title} accessibilityRole="header">GlucoSwap is locked</Text>
+        <Text style={styles.description}>Enter your PIN to see your readings.</Text>
+        <TextInput
+          style={styles.input}
+          value={pin}
+          onChangeText={text => {
+            setPin(text.replace(/\D/g, ''));
+            setError(null);
+          }}
+          placeholder="PIN"
+          placeholderTextColor={colors.placeholder}
+          accessibilityLabel="PIN"
+          keyboardType="number-pad"
+          secureTextEntry
+          maxLength={PIN_MAX_LENGTH}
+          autoFocus={!biometricsEnabled}
+          onSubmitEditing={handleUnlock}
+        />
+        {error && <Text style={styles.error} accessibilityRole="alert">{error}</Text>}
+        <TouchableOpacity
+          style={[styles.button, (pin === '' || isChecking) && styles.buttonDisabled]}
+          onPress={handleUnlock}
+          disabled={pin === '' || isChecking}
+          activeOpacity={0.8}
+          accessibilityRole="button"
+          accessibilityState={{ disabled: pin === '' || isChecking, busy: isChecking }}
+        >
+          {isChecking ? <ActivityIndicator color={colors.onPrimary} /> : <Text style={styles.buttonText}>Unlock</Text>}
+        </TouchableOpacity>
+        {biometricsEnabled && (
+          <TouchableOpacity style={styles.linkButton} onPress={handleBiometrics} activeOpacity={0.7} accessibilityRole="button">
+            <Text style={styles.linkButtonText}>Use biometrics</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: moderateScale(24),
+  },
+  content: {
+    width: '100%',
+    maxWidth: 360,
+  },
+  title: {
+    fontSize: moderateScale(24, 0.4),
+    fontWeight: 'bold',
+    color: colors.text,
+    textAlign: 'center',
+    marginBottom: moderateScale(8),
+  },
+  description: {
+    color: colors.textMuted,
+    fontSize: moderateScale(14, 0.3),
+    textAlign: 'center',
+    marginBottom: moderateScale(20),
+  },
+  input: {
+    backgroundColor: colors.surface,
+    color: colors.text,
+    paddingHorizontal: moderateScale(12),
+    paddingVertical: moderateScale(10),
+    borderRadius: moderateScale(8),
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    fontSize: moderateScale(20, 0.3),
+    textAlign: 'center',
+    letterSpacing: moderateScale(6),
+    marginBottom: moderateScale(12),
+  },
+  error: {
+    color: colors.danger,
+    fontSize: moderateScale(13, 0.3),
+    textAlign: 'center',
+    marginBottom: moderateScale(12),
+  },
+  button: {
+    backgroundColor: colors.primary,
+    paddingVertical: moderateScale(12),
+    borderRadius: moderateScale(8),
+    alignItems: 'center',
+  },
+  dangerButton: {
+    backgroundColor: colors.danger,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: colors.onPrimary,
+    fontSize: moderateScale(16, 0.3),
+    fontWeight: 'bold',
+  },
+  linkButton: {
+    paddingVertical: moderateScale(12),
+    alignItems: 'center',
+  },
+  linkButtonText: {
+    color: colors.accent,
+    fontSize: moderateScale(14, 0.3),
+    fontWeight: 'bold',
+  },
+  dangerText: {
+    color: colors.danger,
+  },
+});
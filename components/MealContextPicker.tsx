@@ -0,0 +1,65 @@
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useThemedStyles } from '@/hooks/useTheme';
+import { MEAL_CONTEXTS, MEAL_CONTEXT_LABELS, MealContext } from '@/lib/glucose';
+
+export type MealContextPickerProps = {
+  value?: MealContext;
+  onChange: (context: MealContext | undefined) => void;
+};
+
+/**
+ * Row of toggle chips for tagging a reading. Pressing the selected chip again clears the tag.
+ */
+export function MealContextPicker({ value, onChange }: MealContextPickerProps) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.container}>
+      {MEAL_CONTEXTS.map(context => {
+        const selected = value === context;
+        return (
+          <TouchableOpacity
+            key={context}
+            style={[styles.chip, selected && styles.chipSelected]}
+            onPress={() => onChange(selected ? undefined : context)}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityState={{ selected }}
+          >
+            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{MEAL_CONTEXT_LABELS[context]}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: moderateScale(8),
+  },
+  chip: {
+    paddingVertical: moderateScale(6),
+    paddingHorizontal: moderateScale(12),
+    borderRadius: moderateScale(16),
+    borderWidth: 1,
+    borderColor: colors.primary,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.accent,
+  },
+  chipText: {
+    color: colors.textSecondary,
+    fontSize: moderateScale(13, 0.3),
+  },
+  chipTextSelected: {
+    color: colors.onPrimary,
+    fontWeight: 'bold',
+  },
+});
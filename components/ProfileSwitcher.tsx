@@ -0,0 +1,259 @@
+import { useState } from 'react';
+import { Modal, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useDialog } from '@/hooks/useDialog';
+import { useProfiles } from '@/hooks/useProfiles';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { MAX_PROFILE_NAME_LENGTH, Profile, validateProfileName } from '@/lib/profiles';
+
+/**
+ * Header control showing whose readings are on screen. Opens a sheet to switch, add or delete
+ * profiles; every profile keeps its own history, target ranges and settings.
+ */
+export function ProfileSwitcher() {
+  const { profiles, activeProfile, switchProfile, addProfile, removeProfile } = useProfiles();
+  const { confirmDestructive } = useDialog();
+  const colors = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const close = () => {
+    setIsOpen(false);
+    setName('');
+    setError(null);
+  };
+
+  const handleSelect = (profile: Profile) => {
+    close();
+    if (profile.id !== activeProfile.id) {
+      switchProfile(profile.id);
+    }
+  };
+
+  const handleAdd = () => {
+    const nameError = validateProfileName(name, profiles);
+    if (nameError) {
+      setError(nameError);
+      return;
+    }
+    close();
+    addProfile(name);
+  };
+
+  const handleDelete = async (profile: Profile) => {
+    // Close first so the confirmation is not stacked on top of this modal.
+    close();
+    const confirmed = await confirmDestructive({
+      title: `Delete ${profile.name}?`,
+      message: 'All history, target ranges and settings of this profile will be deleted from this device.',
+    });
+    if (confirmed) {
+      removeProfile(profile.id);
+    }
+  };
+
+  return (
+    <>
+      <TouchableOpacity
+        style={styles.trigger}
+        onPress={() => setIsOpen(true)}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityLabel={`Profile: ${activeProfile.name}. Switch profile`}
+      >
+        <Text style={styles.triggerText} numberOfLines={1}>{activeProfile.name} ▾</Text>
+      </TouchableOpacity>
+      <Modal visible={isOpen} transparent animationType="fade" onRequestClose={close}>
+        <View style={styles.backdrop}>
+          <View style={styles.dialog}>
+            <Text style={styles.title} accessibilityRole="header">Profiles</Text>
+            <View accessibilityRole="radiogroup" accessibilityLabel="Profile">
+              {profiles.map(profile => {
+                const isActive = profile.id === activeProfile.id;
+                return (
+                  <View key={profile.id} style={styles.profileRow}>
+                    <TouchableOpacity
+                      style={styles.profileButton}
+                      onPress={() => handleSelect(profile)}
+                      activeOpacity={0.7}
+                      accessibilityRole="radio"
+                      accessibilityState={{ checked: isActive }}
+                    >
+                      <View style={[styles.radioOuter, isActive && styles.radioOuterSelected]}>
+                        {isActive && <View style={styles.radioInner} />}
+                      </View>
+                      <Text style={styles.profileName} numberOfLines={1}>{profile.name}</Text>
+                    </TouchableOpacity>
+                    {profiles.length > 1 && (
+                      <TouchableOpacity
+                        style={styles.deleteButton}
+                        onPress={() => handleDelete(profile)}
+                        activeOpacity={0.7}
+                        accessibilityRole="button"
+                        accessibilityLabel={`Delete ${profile.name}`}
+                      >
+                        <Text style={styles.deleteButtonText}>✕</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+            <View style={styles.addRow}>
+              <TextInput
+                style={styles.input}
+                value={name}
+                onChangeText={text => {
+                  setName(text);
+                  setError(null);
+                }}
+                placeholder="New profile name"
+                placeholderTextColor={colors.placeholder}
+                accessibilityLabel="New profile name"
+                maxLength={MAX_PROFILE_NAME_LENGTH}
+                onSubmitEditing={handleAdd}
+              />
+              <TouchableOpacity style={styles.addButton} onPress={handleAdd} activeOpacity={0.8} accessibilityRole="button">
+                <Text style={styles.addButtonText}>Add</Text>
+              </TouchableOpacity>
+            </View>
+            {error && <Text style={styles.error} accessibilityRole="alert">{error}</Text>}
+            <TouchableOpacity style={styles.closeButton} onPress={close} activeOpacity={0.7} accessibilityRole="button">
+              <Text style={styles.closeButtonText}>Close</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  trigger: {
+    alignSelf: 'center',
+    maxWidth: '80%',
+    paddingVertical: moderateScale(4),
+    paddingHorizontal: moderateScale(12),
+    borderRadius: moderateScale(14),
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  triggerText: {
+    color: colors.text,
+    fontSize: moderateScale(14, 0.3),
+    fontWeight: '500',
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: moderateScale(20),
+  },
+  dialog: {
+    width: '100%',
+    maxWidth: 420,
+    backgroundColor: colors.card,
+    borderRadius: moderateScale(12),
+    padding: moderateScale(18),
+  },
+  title: {
+    fontSize: moderateScale(18, 0.3),
+    fontWeight: 'bold',
+    color: colors.textSecondary,
+    marginBottom: moderateScale(12),
+  },
+  profileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: 1,
+    borderBottomColor: colors.divider,
+  },
+  profileButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: moderateScale(10),
+  },
+  radioOuter: {
+    width: moderateScale(20),
+    height: moderateScale(20),
+    borderRadius: moderateScale(10),
+    borderWidth: 2,
+    borderColor: colors.primary,
+    marginRight: moderateScale(10),
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  radioOuterSelected: {
+    borderColor: colors.accent,
+  },
+  radioInner: {
+    width: moderateScale(10),
+    height: moderateScale(10),
+    borderRadius: moderateScale(5),
+    backgroundColor: colors.primary,
+  },
+  profileName: {
+    flexShrink: 1,
+    color: colors.text,
+    fontSize: moderateScale(16, 0.3),
+  },
+  deleteButton: {
+    padding: moderateScale(10),
+  },
+  deleteButtonText: {
+    color: colors.destructive,
+    fontSize: moderateScale(16, 0.3),
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: moderateScale(8),
+    marginTop: moderateScale(14),
+    marginBottom: moderateScale(8),
+  },
+  input: {
+    flex: 1,
+    backgroundColor: colors.surface,
+    color: colors.text,
+    paddingHorizontal: moderateScale(10),
+    paddingVertical: moderateScale(8),
+    borderRadius: moderateScale(8),
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    fontSize: moderateScale(15, 0.3),
+  },
+  addButton: {
+    backgroundColor: colors.primary,
+    paddingVertical: moderateScale(10),
+    paddingHorizontal: moderateScale(16),
+    borderRadius: moderateScale(8),
+  },
+  addButtonText: {
+    color: colors.onPrimary,
+    fontSize: moderateScale(15, 0.3),
+    fontWeight: 'bold',
+  },
+  error: {
+    color: colors.danger,
+    fontSize: moderateScale(13, 0.3),
+    marginBottom: moderateScale(8),
+  },
+  closeButton: {
+    alignSelf: 'flex-end',
+    paddingVertical: moderateScale(10),
+    paddingHorizontal: moderateScale(16),
+    borderRadius: moderateScale(8),
+    backgroundColor: colors.mutedSurface,
+    marginTop: moderateScale(4),
+  },
+  closeButtonText: {
+    color: colors.textSecondary,
+    fontSize: moderateScale(15, 0.3),
+  },
+});
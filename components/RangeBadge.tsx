@@ -0,0 +1,41 @@
+import { StyleSheet, Text, View } from 'react-native';
+
+import { rangeColor } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useTheme } from '@/hooks/useTheme';
+import { GLUCOSE_RANGE_LABELS, GLUCOSE_RANGE_SYMBOLS, GlucoseRange } from '@/lib/targetRange';
+
+export type RangeBadgeProps = {
+  range: GlucoseRange;
+  compact?: boolean;
+};
+
+/**
+ * Range status as a coloured symbol (↓, ✓, ↑ …) plus its label, or the symbol alone when compact.
+ * The symbol carries the status for anyone who can't tell the colours apart.
+ */
+export function RangeBadge({ range, compact = false }: RangeBadgeProps) {
+  const color = rangeColor(useTheme(), range);
+  return (
+    <View style={styles.container} accessible accessibilityLabel={GLUCOSE_RANGE_LABELS[range]}>
+      <Text style={[styles.symbol, { color }]}>{GLUCOSE_RANGE_SYMBOLS[range]}</Text>
+      {!compact && <Text style={[styles.label, { color }]}>{GLUCOSE_RANGE_LABELS[range]}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  symbol: {
+    fontSize: moderateScale(14, 0.3),
+    fontWeight: 'bold',
+  },
+  label: {
+    marginLeft: moderateScale(6),
+    fontSize: moderateScale(13, 0.3),
+    fontWeight: 'bold',
+  },
+});
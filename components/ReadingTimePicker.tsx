@@ -0,0 +1,104 @@
+import DateTimePicker, { DateTimePickerAndroid, DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { Platform, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useSettings } from '@/hooks/useSettings';
+import { useThemeName, useThemedStyles } from '@/hooks/useTheme';
+import { formatTimeOfDay } from '@/lib/historySections';
+
+export type ReadingTimePickerProps = {
+  // null means "now": the entry is stamped when it is saved.
+  value: number | null;
+  onChange: (timestamp: number | null) => void;
+};
+
+/**
+ * Optional reading time for backdated entries: compact pickers on iOS, date and time dialogs on Android.
+ */
+export function ReadingTimePicker({ value, onChange }: ReadingTimePickerProps) {
+  const { settings } = useSettings();
+  const styles = useThemedStyles(createStyles);
+  const themeName = useThemeName();
+  const date = new Date(value ?? Date.now());
+
+  const handleChange = (event: DateTimePickerEvent, selected?: Date) => {
+    if (event.type === 'set' && selected) {
+      onChange(selected.getTime());
+    }
+  };
+
+  const openAndroidPicker = (mode: 'date' | 'time') => {
+    DateTimePickerAndroid.open({
+      value: date,
+      mode,
+      is24Hour: settings.timeFormat === '24h',
+      maximumDate: new Date(),
+      onChange: handleChange,
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Reading time</Text>
+      {Platform.OS === 'ios' ? (
+        <DateTimePicker
+          value={date}
+          mode="datetime"
+          display="compact"
+          maximumDate={new Date()}
+          onChange={handleChange}
+          themeVariant={themeName === 'light' ? 'light' : 'dark'}
+        />
+      ) : (
+        <View style={styles.row}>
+          <TouchableOpacity style={styles.chip} onPress={() => openAndroidPicker('date')} activeOpacity={0.7}>
+            <Text style={styles.chipText}>{value === null ? 'Today' : date.toLocaleDateString()}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.chip} onPress={() => openAndroidPicker('time')} activeOpacity={0.7}>
+            <Text style={styles.chipText}>{value === null ? 'Now' : formatTimeOfDay(date.getTime(), settings.timeFormat)}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      {value !== null && (
+        <TouchableOpacity onPress={() => onChange(null)} activeOpacity={0.7}>
+          <Text style={styles.resetText}>Use now</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: moderateScale(8),
+    marginTop: moderateScale(10),
+  },
+  label: {
+    color: colors.textMuted,
+    fontSize: moderateScale(14, 0.3),
+  },
+  row: {
+    flexDirection: 'row',
+    gap: moderateScale(8),
+  },
+  chip: {
+    paddingVertical: moderateScale(6),
+    paddingHorizontal: moderateScale(12),
+    borderRadius: moderateScale(16),
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    color: colors.text,
+    fontSize: moderateScale(13, 0.3),
+  },
+  resetText: {
+    color: colors.accent,
+    fontSize: moderateScale(13, 0.3),
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,78 @@
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useTheme, useThemeName, useThemedStyles } from '@/hooks/useTheme';
+import { formatDateTimeInput, parseDateTimeInput } from '@/lib/historyEdit';
+
+export type ReadingTimePickerProps = {
+  // null means "now": the entry is stamped when it is saved.
+  value: number | null;
+  onChange: (timestamp: number | null) => void;
+};
+
+// datetime-local inputs use "YYYY-MM-DDTHH:MM" in local time.
+const toInputValue = (timestamp: number) => formatDateTimeInput(timestamp).replace(' ', 'T');
+
+/**
+ * Optional reading time for backdated entries, using the browser's datetime-local input.
+ */
+export function ReadingTimePicker({ value, onChange }: ReadingTimePickerProps) {
+  const styles = useThemedStyles(createStyles);
+  const colors = useTheme();
+  const themeName = useThemeName();
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Reading time</Text>
+      <input
+        type="datetime-local"
+        value={value === null ? '' : toInputValue(value)}
+        max={toInputValue(Date.now())}
+        onChange={event => onChange(event.target.value ? parseDateTimeInput(event.target.value) : null)}
+        aria-label="Reading time"
+        style={inputStyle(colors, themeName === 'light' ? 'light' : 'dark')}
+      />
+      {value === null ? (
+        <Text style={styles.hint}>Leave empty to use the current time</Text>
+      ) : (
+        <TouchableOpacity onPress={() => onChange(null)} activeOpacity={0.7}>
+          <Text style={styles.resetText}>Use now</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const inputStyle = (colors: ThemeColors, colorScheme: 'light' | 'dark') => ({
+  backgroundColor: colors.surface,
+  color: colors.text,
+  colorScheme,
+  border: `1px solid ${colors.inputBorder}`,
+  borderRadius: moderateScale(8),
+  padding: `${moderateScale(6)}px ${moderateScale(10)}px`,
+  fontSize: moderateScale(14, 0.3),
+});
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: moderateScale(8),
+    marginTop: moderateScale(10),
+  },
+  label: {
+    color: colors.textMuted,
+    fontSize: moderateScale(14, 0.3),
+  },
+  hint: {
+    color: colors.placeholder,
+    fontSize: moderateScale(12, 0.3),
+    fontStyle: 'italic',
+  },
+  resetText: {
+    color: colors.accent,
+    fontSize: moderateScale(13, 0.3),
+    fontWeight: 'bold',
+  },
+});
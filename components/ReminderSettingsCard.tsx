@@ -0,0 +1,245 @@
+import { useState } from 'react';
+import { StyleSheet, Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ChipRow } from '@/components/ChipRow';
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useReminders } from '@/hooks/useReminders';
+import { useSettings } from '@/hooks/useSettings';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import {
+  AFTER_MEAL_DELAY_OPTIONS,
+  MAX_DAILY_REMINDERS,
+  NO_READING_HOURS_OPTIONS,
+  addDailyTime,
+  formatDelay,
+  formatTimeOfDay,
+  parseTimeOfDay,
+  removeDailyTime,
+} from '@/lib/reminders';
+
+/**
+ * Collapsible editor for glucose-check reminders: daily times, a follow-up after post-meal
+ * readings and a nudge when nothing has been logged for a while. Changes apply immediately.
+ */
+export function ReminderSettingsCard() {
+  const { reminders, updateReminders, isSupported, isPermissionDenied } = useReminders();
+  const { settings } = useSettings();
+  const colors = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [isOpen, setIsOpen] = useState(false);
+  const [timeInput, setTimeInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const activeCount =
+    reminders.dailyTimes.length + (reminders.afterMeal.enabled ? 1 : 0) + (reminders.noReading.enabled ? 1 : 0);
+  const summary = !isSupported ? 'Mobile only' : activeCount > 0 ? `${activeCount} on` : 'Off';
+
+  const handleAddTime = () => {
+    const time = parseTimeOfDay(timeInput);
+    if (!time) {
+      setError('Enter a time as HH:MM, e.g. 08:30.');
+      return;
+    }
+    if (reminders.dailyTimes.length >= MAX_DAILY_REMINDERS) {
+      setError(`Up to ${MAX_DAILY_REMINDERS} daily reminders.`);
+      return;
+    }
+    updateReminders(addDailyTime(reminders, time));
+    setTimeInput('');
+    setError(null);
+  };
+
+  const switchColors = { false: colors.inputBorder, true: colors.primary };
+
+  return (
+    <View>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setIsOpen(open => !open)}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityState={{ expanded: isOpen }}
+      >
+        <Text style={styles.title}>Reminders</Text>
+        <Text style={styles.summary}>{isOpen ? 'Close' : summary}</Text>
+      </TouchableOpacity>
+      {isOpen && !isSupported && (
+        <Text style={[styles.body, styles.description]}>Reminders are available in the iOS and Android apps.</Text>
+      )}
+      {isOpen && isSupported && (
+        <View style={styles.body}>
+          {isPermissionDenied && (
+            <Text style={styles.error} accessibilityRole="alert">
+              Notifications are turned off for GlucoSwap. Allow them in the system settings to get reminders.
+            </Text>
+          )}
+          <Text style={[styles.description, styles.section]}>
+            Reminders belong to this profile and follow its readings. They are scheduled while this profile is open.
+          </Text>
+          <Text style={styles.rowTitle}>Daily checks</Text>
+          <View style={styles.timeList}>
+            {reminders.dailyTimes.map(time => {
+              const label = formatTimeOfDay(time, settings.timeFormat);
+              return (
+                <TouchableOpacity
+                  key={label}
+                  style={styles.timeChip}
+                  onPress={() => updateReminders(removeDailyTime(reminders, time))}
+                  activeOpacity={0.7}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Remove the ${label} reminder`}
+                >
+                  <Text style={styles.timeChipText}>{label} ✕</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <View style={styles.addRow}>
+            <TextInput
+              style={styles.input}
+              value={timeInput}
+              onChangeText={setTimeInput}
+              placeholder="HH:MM"
+              placeholderTextColor={colors.placeholder}
+              accessibilityLabel="Daily reminder time, 24-hour clock"
+              keyboardType="numbers-and-punctuation"
+              maxLength={5}
+              onSubmitEditing={handleAddTime}
+            />
+            <TouchableOpacity style={styles.addButton} onPress={handleAddTime} activeOpacity={0.8} accessibilityRole="button">
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+          {error && <Text style={styles.error} accessibilityRole="alert">{error}</Text>}
+
+          <View style={styles.switchRow}>
+            <Text style={styles.rowTitle}>Follow up after a post-meal reading</Text>
+            <Switch
+              value={reminders.afterMeal.enabled}
+              onValueChange={enabled => updateReminders({ ...reminders, afterMeal: { ...reminders.afterMeal, enabled } })}
+              trackColor={switchColors}
+              accessibilityLabel="Follow up after a post-meal reading"
+            />
+          </View>
+          {reminders.afterMeal.enabled && (
+            <ChipRow
+              title="Remind me after"
+              options={AFTER_MEAL_DELAY_OPTIONS.map(minutes => ({ value: minutes, label: formatDelay(minutes) }))}
+              selected={reminders.afterMeal.delayMinutes}
+              onSelect={delayMinutes => updateReminders({ ...reminders, afterMeal: { ...reminders.afterMeal, delayMinutes } })}
+            />
+          )}
+
+          <View style={styles.switchRow}>
+            <Text style={styles.rowTitle}>Remind me when nothing is logged</Text>
+            <Switch
+              value={reminders.noReading.enabled}
+              onValueChange={enabled => updateReminders({ ...reminders, noReading: { ...reminders.noReading, enabled } })}
+              trackColor={switchColors}
+              accessibilityLabel="Remind me when nothing is logged"
+            />
+          </View>
+          {reminders.noReading.enabled && (
+            <ChipRow
+              title="No reading for"
+              options={NO_READING_HOURS_OPTIONS.map(hours => ({ value: hours, label: `${hours} h` }))}
+              selected={reminders.noReading.hours}
+              onSelect={hours => updateReminders({ ...reminders, noReading: { ...reminders.noReading, hours } })}
+            />
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: moderateScale(18, 0.3),
+    fontWeight: 'bold',
+    color: colors.textSecondary,
+  },
+  summary: {
+    color: colors.accent,
+    fontSize: moderateScale(14, 0.3),
+  },
+  body: {
+    marginTop: moderateScale(12),
+  },
+  description: {
+    color: colors.textMuted,
+    fontSize: moderateScale(13, 0.3),
+  },
+  section: {
+    marginBottom: moderateScale(12),
+  },
+  rowTitle: {
+    flexShrink: 1,
+    color: colors.textSecondary,
+    fontSize: moderateScale(15, 0.3),
+    fontWeight: '500',
+    marginBottom: moderateScale(6),
+  },
+  timeList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: moderateScale(8),
+  },
+  timeChip: {
+    paddingVertical: moderateScale(6),
+    paddingHorizontal: moderateScale(12),
+    borderRadius: moderateScale(16),
+    backgroundColor: colors.primary,
+    marginBottom: moderateScale(8),
+  },
+  timeChipText: {
+    color: colors.onPrimary,
+    fontSize: moderateScale(13, 0.3),
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: moderateScale(8),
+    marginBottom: moderateScale(12),
+  },
+  input: {
+    flex: 1,
+    backgroundColor: colors.surface,
+    color: colors.text,
+    paddingHorizontal: moderateScale(10),
+    paddingVertical: moderateScale(6),
+    borderRadius: moderateScale(6),
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    fontSize: moderateScale(15, 0.3),
+  },
+  addButton: {
+    backgroundColor: colors.primary,
+    paddingVertical: moderateScale(8),
+    paddingHorizontal: moderateScale(16),
+    borderRadius: moderateScale(8),
+  },
+  addButtonText: {
+    color: colors.onPrimary,
+    fontSize: moderateScale(15, 0.3),
+    fontWeight: 'bold',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: moderateScale(8),
+    marginBottom: moderateScale(6),
+  },
+  error: {
+    color: colors.danger,
+    fontSize: moderateScale(13, 0.3),
+    marginBottom: moderateScale(8),
+  },
+});
@@ -0,0 +1,203 @@
+import { useMemo, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors, rangeColor } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useSettings } from '@/hooks/useSettings';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { HistoryItem, Unit, convertGlucose, formatDecimal, formatGlucose, valueInUnit } from '@/lib/glucose';
+import { STATS_WINDOWS_DAYS, computeGlycemicStats, filterByWindow } from '@/lib/statistics';
+import { GLUCOSE_RANGES, GLUCOSE_RANGE_LABELS, GLUCOSE_RANGE_SYMBOLS, TargetRangeSettings } from '@/lib/targetRange';
+
+export type StatisticsCardProps = {
+  history: HistoryItem[];
+  targetRanges: TargetRangeSettings;
+  unit: Unit;
+};
+
+const formatPercent = (value: number) => `${value.toFixed(0)}%`;
+
+export function StatisticsCard({ history, targetRanges, unit }: StatisticsCardProps) {
+  const { settings } = useSettings();
+  const colors = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [windowDays, setWindowDays] = useState<number>(STATS_WINDOWS_DAYS[1]);
+
+  const stats = useMemo(
+    () => computeGlycemicStats(filterByWindow(history, windowDays), targetRanges),
+    [history, windowDays, targetRanges]
+  );
+
+  // Statistics are computed in mg/dL; show glucose-valued metrics in the requested unit.
+  const glucose = (mgdl: number) => `${formatGlucose(valueInUnit(convertGlucose(mgdl, 'mg/dL'), unit), unit, settings)} ${unit}`;
+  const percent = (value: number) => `${formatDecimal(value, 1, settings.decimalSeparator)}%`;
+
+  return (
+    <View>
+      <Text style={styles.title} accessibilityRole="header">Statistics</Text>
+      <View style={styles.windowRow} accessibilityRole="radiogroup" accessibilityLabel="Period">
+        {STATS_WINDOWS_DAYS.map(days => (
+          <TouchableOpacity
+            key={days}
+            style={[styles.windowChip, windowDays === days && styles.windowChipSelected]}
+            onPress={() => setWindowDays(days)}
+            activeOpacity={0.7}
+            accessibilityRole="radio"
+            accessibilityState={{ checked: windowDays === days }}
+            accessibilityLabel={`${days} days`}
+          >
+            <Text style={[styles.windowChipText, windowDays === days && styles.windowChipTextSelected]}>{days}d</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {stats === null ? (
+        <Text style={styles.emptyText}>No readings in the last {windowDays} days.</Text>
+      ) : (
+        <>
+          <View style={styles.grid}>
+            <Metric label="Readings" value={stats.count.toString()} />
+            <Metric label="Mean" value={glucose(stats.mean)} />
+            <Metric label="Median" value={glucose(stats.median)} />
+            <Metric label="Std. deviation" value={glucose(stats.standardDeviation)} />
+            <Metric label="CV" value={formatPercent(stats.coefficientOfVariation)} />
+            <Metric label="GMI" value={percent(stats.gmi)} />
+            <Metric label="Est. A1c" value={percent(stats.estimatedA1c)} />
+          </View>
+          <Text style={styles.subtitle} accessibilityRole="header">Time in Range</Text>
+          <View
+            style={styles.rangeBar}
+            accessible
+            accessibilityRole="image"
+            accessibilityLabel={GLUCOSE_RANGES.map(
+              range => `${GLUCOSE_RANGE_LABELS[range]} ${formatPercent(stats.rangePercentages[range])}`
+            ).join(', ')}
+          >
+            {GLUCOSE_RANGES.map(range => stats.rangePercentages[range] > 0 && (
+              <View key={range} style={{ flex: stats.rangePercentages[range], backgroundColor: rangeColor(colors, range) }} />
+            ))}
+          </View>
+          <View style={styles.rangeSummary}>
+            <Metric label="Below" value={formatPercent(stats.timeBelowRange)} />
+            <Metric label="In range" value={formatPercent(stats.timeInRange)} />
+            <Metric label="Above" value={formatPercent(stats.timeAboveRange)} />
+          </View>
+          <View style={styles.legend}>
+            {GLUCOSE_RANGES.map(range => (
+              <View key={range} style={styles.legendItem}>
+                <Text style={[styles.legendSymbol, { color: rangeColor(colors, range) }]}>{GLUCOSE_RANGE_SYMBOLS[range]}</Text>
+                <Text style={styles.legendText}>
+                  {GLUCOSE_RANGE_LABELS[range]} {formatPercent(stats.rangePercentages[range])}
+                </Text>
+              </View>
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+function Metric({ label, value }: { label: string; value: string }) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.metric}>
+      <Text style={styles.metricValue}>{value}</Text>
+      <Text style={styles.metricLabel}>{label}</Text>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  title: {
+    fontSize: moderateScale(18, 0.3),
+    fontWeight: 'bold',
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: moderateScale(12),
+  },
+  subtitle: {
+    fontSize: moderateScale(15, 0.3),
+    fontWeight: 'bold',
+    color: colors.textSecondary,
+    marginTop: moderateScale(12),
+    marginBottom: moderateScale(8),
+  },
+  windowRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: moderateScale(8),
+    marginBottom: moderateScale(12),
+  },
+  windowChip: {
+    paddingVertical: moderateScale(4),
+    paddingHorizontal: moderateScale(12),
+    borderRadius: moderateScale(14),
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  windowChipSelected: {
+    backgroundColor: colors.primary,
+  },
+  windowChipText: {
+    color: colors.text,
+    fontSize: moderateScale(13, 0.3),
+  },
+  windowChipTextSelected: {
+    color: colors.onPrimary,
+  },
+  emptyText: {
+    color: colors.textMuted,
+    textAlign: 'center',
+    fontSize: moderateScale(15, 0.3),
+    fontStyle: 'italic',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  metric: {
+    minWidth: '30%',
+    alignItems: 'center',
+    marginBottom: moderateScale(10),
+  },
+  metricValue: {
+    color: colors.text,
+    fontSize: moderateScale(16, 0.3),
+    fontWeight: 'bold',
+  },
+  metricLabel: {
+    color: colors.textMuted,
+    fontSize: moderateScale(12, 0.3),
+  },
+  rangeBar: {
+    flexDirection: 'row',
+    height: moderateScale(16),
+    borderRadius: moderateScale(8),
+    overflow: 'hidden',
+    backgroundColor: colors.surface,
+    marginBottom: moderateScale(10),
+  },
+  rangeSummary: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: moderateScale(10),
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendSymbol: {
+    fontSize: moderateScale(12, 0.3),
+    fontWeight: 'bold',
+    marginRight: moderateScale(4),
+  },
+  legendText: {
+    color: colors.textSecondary,
+    fontSize: moderateScale(12, 0.3),
+  },
+});
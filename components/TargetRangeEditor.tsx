@@ -0,0 +1,282 @@
+import { useEffect, useState } from 'react';
+import { StyleSheet, Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useSettings } from '@/hooks/useSettings';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { DecimalSeparator, UNITS, Unit, formatDecimal, parseDecimalInput } from '@/lib/glucose';
+import {
+  TargetRange,
+  TargetRangeSettings,
+  convertTargetRange,
+  formatTargetRange,
+  validateTargetRange,
+} from '@/lib/targetRange';
+
+type RangeKey = 'default' | 'fasting' | 'postMeal';
+
+type DraftRange = {
+  enabled: boolean;
+  low: string;
+  high: string;
+};
+
+const RANGE_KEYS: RangeKey[] = ['default', 'fasting', 'postMeal'];
+
+const RANGE_TITLES: Record<RangeKey, string> = {
+  default: 'Default',
+  fasting: 'Fasting',
+  postMeal: 'Post-meal',
+};
+
+const draftValue = (value: number, unit: Unit, separator: DecimalSeparator): string =>
+  formatDecimal(value, unit === 'mg/dL' ? 0 : 1, separator);
+
+function toDraft(settings: TargetRangeSettings, separator: DecimalSeparator): Record<RangeKey, DraftRange> {
+  const fallback = settings.default;
+  return RANGE_KEYS.reduce((draft, key) => {
+    const range = settings[key];
+    draft[key] = {
+      enabled: range !== undefined,
+      low: draftValue((range ?? fallback).low, settings.unit, separator),
+      high: draftValue((range ?? fallback).high, settings.unit, separator),
+    };
+    return draft;
+  }, {} as Record<RangeKey, DraftRange>);
+}
+
+export type TargetRangeEditorProps = {
+  value: TargetRangeSettings;
+  onSave: (settings: TargetRangeSettings) => void;
+};
+
+/**
+ * Collapsible editor for the default, fasting and post-meal target ranges.
+ */
+export function TargetRangeEditor({ value, onSave }: TargetRangeEditorProps) {
+  const { settings: displaySettings } = useSettings();
+  const separator = displaySettings.decimalSeparator;
+  const colors = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [isOpen, setIsOpen] = useState(false);
+  const [unit, setUnit] = useState<Unit>(value.unit);
+  const [draft, setDraft] = useState(() => toDraft(value, separator));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUnit(value.unit);
+    setDraft(toDraft(value, separator));
+  }, [value, separator]);
+
+  const updateDraft = (key: RangeKey, changes: Partial<DraftRange>) => {
+    setDraft(current => ({ ...current, [key]: { ...current[key], ...changes } }));
+    setError(null);
+  };
+
+  const handleUnitChange = (newUnit: Unit) => {
+    if (newUnit === unit) {
+      return;
+    }
+    setDraft(current => RANGE_KEYS.reduce((next, key) => {
+      const converted = convertTargetRange(
+        { low: parseDecimalInput(current[key].low), high: parseDecimalInput(current[key].high) },
+        unit,
+        newUnit
+      );
+      next[key] = { ...current[key], low: draftValue(converted.low, newUnit, separator), high: draftValue(converted.high, newUnit, separator) };
+      return next;
+    }, {} as Record<RangeKey, DraftRange>));
+    setUnit(newUnit);
+  };
+
+  const handleSave = () => {
+    const settings: TargetRangeSettings = { unit, default: value.default };
+    for (const key of RANGE_KEYS) {
+      if (key !== 'default' && !draft[key].enabled) {
+        continue;
+      }
+      const range: TargetRange = { low: parseDecimalInput(draft[key].low), high: parseDecimalInput(draft[key].high) };
+      const rangeError = validateTargetRange(range);
+      if (rangeError) {
+        setError(`${RANGE_TITLES[key]}: ${rangeError}`);
+        return;
+      }
+      settings[key] = range;
+    }
+    onSave(settings);
+    setIsOpen(false);
+  };
+
+  return (
+    <View>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setIsOpen(open => !open)}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityState={{ expanded: isOpen }}
+      >
+        <Text style={styles.title}>Target Range</Text>
+        <Text style={styles.summary}>{isOpen ? 'Close' : formatTargetRange(value.default, value.unit, displaySettings)}</Text>
+      </TouchableOpacity>
+      {isOpen && (
+        <View style={styles.body}>
+          <View style={styles.unitRow} accessibilityRole="radiogroup" accessibilityLabel="Target unit">
+            {UNITS.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.unitChip, unit === option && styles.unitChipSelected]}
+                onPress={() => handleUnitChange(option)}
+                activeOpacity={0.7}
+                accessibilityRole="radio"
+                accessibilityState={{ checked: unit === option }}
+              >
+                <Text style={[styles.unitChipText, unit === option && styles.unitChipTextSelected]}>{option}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {RANGE_KEYS.map(key => (
+            <View key={key} style={styles.rangeRow}>
+              <View style={styles.rangeTitleRow}>
+                <Text style={styles.rangeTitle}>{RANGE_TITLES[key]}</Text>
+                {key !== 'default' && (
+                  <Switch
+                    value={draft[key].enabled}
+                    onValueChange={enabled => updateDraft(key, { enabled })}
+                    accessibilityLabel={`Use a separate ${RANGE_TITLES[key].toLowerCase()} range`}
+                    trackColor={{ true: colors.primary, false: colors.divider }}
+                  />
+                )}
+              </View>
+              {draft[key].enabled && (
+                <View style={styles.inputRow}>
+                  <TextInput
+                    style={styles.input}
+                    value={draft[key].low}
+                    onChangeText={low => updateDraft(key, { low })}
+                    keyboardType="numeric"
+                    placeholder="Low"
+                    placeholderTextColor={colors.placeholder}
+                    accessibilityLabel={`${RANGE_TITLES[key]} low, ${unit}`}
+                  />
+                  <Text style={styles.separator}>–</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={draft[key].high}
+                    onChangeText={high => updateDraft(key, { high })}
+                    keyboardType="numeric"
+                    placeholder="High"
+                    placeholderTextColor={colors.placeholder}
+                    accessibilityLabel={`${RANGE_TITLES[key]} high, ${unit}`}
+                  />
+                  <Text style={styles.unitLabel}>{unit}</Text>
+                </View>
+              )}
+            </View>
+          ))}
+          {error && <Text style={styles.error} accessibilityRole="alert">{error}</Text>}
+          <TouchableOpacity style={styles.saveButton} onPress={handleSave} activeOpacity={0.8}>
+            <Text style={styles.saveButtonText}>Save Targets</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: moderateScale(18, 0.3),
+    fontWeight: 'bold',
+    color: colors.textSecondary,
+  },
+  summary: {
+    color: colors.accent,
+    fontSize: moderateScale(14, 0.3),
+  },
+  body: {
+    marginTop: moderateScale(12),
+  },
+  unitRow: {
+    flexDirection: 'row',
+    gap: moderateScale(8),
+    marginBottom: moderateScale(12),
+  },
+  unitChip: {
+    paddingVertical: moderateScale(6),
+    paddingHorizontal: moderateScale(12),
+    borderRadius: moderateScale(16),
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  unitChipSelected: {
+    backgroundColor: colors.primary,
+  },
+  unitChipText: {
+    color: colors.text,
+    fontSize: moderateScale(13, 0.3),
+  },
+  unitChipTextSelected: {
+    color: colors.onPrimary,
+  },
+  rangeRow: {
+    marginBottom: moderateScale(12),
+  },
+  rangeTitleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: moderateScale(6),
+  },
+  rangeTitle: {
+    color: colors.textSecondary,
+    fontSize: moderateScale(15, 0.3),
+    fontWeight: '500',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    backgroundColor: colors.surface,
+    color: colors.text,
+    paddingHorizontal: moderateScale(10),
+    paddingVertical: moderateScale(8),
+    borderRadius: moderateScale(8),
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    fontSize: moderateScale(15, 0.3),
+  },
+  separator: {
+    color: colors.textSecondary,
+    marginHorizontal: moderateScale(8),
+  },
+  unitLabel: {
+    color: colors.textMuted,
+    marginLeft: moderateScale(8),
+    fontSize: moderateScale(13, 0.3),
+  },
+  error: {
+    color: colors.danger,
+    fontSize: moderateScale(13, 0.3),
+    marginBottom: moderateScale(8),
+  },
+  saveButton: {
+    backgroundColor: colors.primary,
+    paddingVertical: moderateScale(10),
+    borderRadius: moderateScale(8),
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: colors.onPrimary,
+    fontSize: moderateScale(15, 0.3),
+    fontWeight: 'bold',
+  },
+});
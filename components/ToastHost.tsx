@@ -0,0 +1,81 @@
+import { useEffect } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Animated, { FadeInUp, FadeOutUp } from 'react-native-reanimated';
+
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useDialogHost } from '@/hooks/useDialog';
+import { useThemedStyles } from '@/hooks/useTheme';
+import { TOAST_DURATION_MS } from '@/lib/dialogs';
+
+/**
+ * Shows the latest `showToast` message at the top of the screen until it times out or is
+ * tapped. Rendered once above all screens.
+ */
+export function ToastHost() {
+  const { toast, dismissToast } = useDialogHost();
+  const styles = useThemedStyles(createStyles);
+
+  useEffect(() => {
+    if (!toast) {
+      return;
+    }
+    const timer = setTimeout(dismissToast, TOAST_DURATION_MS[toast.kind]);
+    return () => clearTimeout(timer);
+  }, [toast, dismissToast]);
+
+  if (!toast) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <Animated.View key={toast.id} entering={FadeInUp.duration(200)} exiting={FadeOutUp.duration(150)}>
+        <TouchableOpacity
+          style={[styles.toast, toast.kind === 'error' && styles.errorToast]}
+          onPress={dismissToast}
+          activeOpacity={0.8}
+          accessibilityRole="alert"
+          accessibilityHint="Dismisses the message"
+        >
+          <Text style={[styles.message, toast.kind === 'error' && styles.errorMessage]}>{toast.message}</Text>
+        </TouchableOpacity>
+      </Animated.View>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    top: moderateScale(50),
+    alignItems: 'center',
+  },
+  toast: {
+    maxWidth: 480,
+    marginHorizontal: moderateScale(16),
+    paddingVertical: moderateScale(10),
+    paddingHorizontal: moderateScale(16),
+    borderRadius: moderateScale(20),
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    shadowColor: colors.shadow,
+    shadowOpacity: 0.4,
+    shadowRadius: 6,
+    elevation: 6,
+  },
+  errorToast: {
+    borderColor: colors.danger,
+  },
+  message: {
+    color: colors.text,
+    fontSize: moderateScale(14, 0.3),
+    textAlign: 'center',
+  },
+  errorMessage: {
+    color: colors.danger,
+  },
+});
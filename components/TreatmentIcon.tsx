@@ -0,0 +1,23 @@
+import { IconSymbol, IconSymbolName } from '@/components/ui/IconSymbol';
+import { moderateScale } from '@/constants/Layout';
+import { useTheme } from '@/hooks/useTheme';
+import { TreatmentType } from '@/lib/glucose';
+
+const TREATMENT_ICONS: Record<TreatmentType, IconSymbolName> = {
+  insulin: 'syringe.fill',
+  carbs: 'fork.knife',
+};
+
+export type TreatmentIconProps = {
+  type: TreatmentType;
+  size?: number;
+};
+
+/**
+ * Syringe for insulin, knife and fork for carbs, in the colour the trend chart uses for the same
+ * markers.
+ */
+export function TreatmentIcon({ type, size = moderateScale(16, 0.3) }: TreatmentIconProps) {
+  const colors = useTheme();
+  return <IconSymbol name={TREATMENT_ICONS[type]} size={size} color={colors[type]} />;
+}
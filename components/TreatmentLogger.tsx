@@ -0,0 +1,245 @@
+import { useEffect, useState } from 'react';
+import { Modal, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ChipRow } from '@/components/ChipRow';
+import { ReadingTimePicker } from '@/components/ReadingTimePicker';
+import { TreatmentIcon } from '@/components/TreatmentIcon';
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useDialog } from '@/hooks/useDialog';
+import { useHistory } from '@/hooks/useHistory';
+import { useSettings } from '@/hooks/useSettings';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import {
+  INSULIN_KINDS,
+  InsulinKind,
+  MAX_NOTE_LENGTH,
+  TREATMENT_TYPES,
+  TREATMENT_UNITS,
+  TreatmentType,
+  addHistoryItem,
+  validateReadingTime,
+} from '@/lib/glucose';
+import { INSULIN_KIND_LABELS, TREATMENT_LABELS, createCarbEntry, createInsulinEntry, describeTreatment } from '@/lib/treatments';
+import { INVALID_VALUE_MESSAGE, validateTreatmentInput } from '@/lib/validation';
+
+export type TreatmentLoggerProps = {
+  visible: boolean;
+  onClose: () => void;
+};
+
+/**
+ * Modal form for logging an insulin dose or carbohydrate intake on the history timeline.
+ */
+export function TreatmentLogger({ visible, onClose }: TreatmentLoggerProps) {
+  const { setHistory } = useHistory();
+  const { settings } = useSettings();
+  const { showToast } = useDialog();
+  const colors = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [type, setType] = useState<TreatmentType>('insulin');
+  const [insulinKind, setInsulinKind] = useState<InsulinKind>('rapid');
+  const [amount, setAmount] = useState('');
+  const [time, setTime] = useState<number | null>(null);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setAmount('');
+      setTime(null);
+      setNote('');
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleTypeChange = (next: TreatmentType) => {
+    setType(next);
+    setAmount('');
+    setError(null);
+  };
+
+  const handleSave = () => {
+    const validation = validateTreatmentInput(amount, type, settings);
+    if (validation.value === null) {
+      setError(validation.message ?? INVALID_VALUE_MESSAGE);
+      return;
+    }
+    const timestamp = time ?? Date.now();
+    const timeError = validateReadingTime(timestamp);
+    if (timeError) {
+      setError(timeError);
+      return;
+    }
+    const entry = type === 'insulin'
+      ? createInsulinEntry(validation.value, insulinKind, { timestamp, note })
+      : createCarbEntry(validation.value, { timestamp, note });
+    setHistory(current => addHistoryItem(current, entry));
+    showToast(`Logged ${describeTreatment(entry, settings)}.`, 'success');
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.dialog}>
+          <Text style={styles.title} accessibilityRole="header">Log Insulin or Carbs</Text>
+
+          <View style={styles.typeRow} accessibilityRole="radiogroup" accessibilityLabel="Entry type">
+            {TREATMENT_TYPES.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.typeChip, type === option && styles.typeChipSelected]}
+                onPress={() => handleTypeChange(option)}
+                activeOpacity={0.7}
+                accessibilityRole="radio"
+                accessibilityState={{ checked: type === option }}
+              >
+                <TreatmentIcon type={option} />
+                <Text style={styles.typeChipText}>{TREATMENT_LABELS[option]}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>{type === 'insulin' ? 'Dose' : 'Carbohydrate'} ({TREATMENT_UNITS[type]})</Text>
+          <TextInput
+            style={styles.input}
+            value={amount}
+            onChangeText={text => {
+              setAmount(text);
+              setError(null);
+            }}
+            keyboardType="decimal-pad"
+            placeholder={type === 'insulin' ? 'e.g. 4' : 'e.g. 45'}
+            placeholderTextColor={colors.placeholder}
+            accessibilityLabel={type === 'insulin' ? 'Insulin dose in units' : 'Carbohydrate in grams'}
+            onSubmitEditing={handleSave}
+          />
+
+          {type === 'insulin' && (
+            <ChipRow
+              title="Insulin"
+              options={INSULIN_KINDS.map(kind => ({ value: kind, label: INSULIN_KIND_LABELS[kind] }))}
+              selected={insulinKind}
+              onSelect={setInsulinKind}
+            />
+          )}
+
+          <TextInput
+            style={styles.input}
+            value={note}
+            onChangeText={setNote}
+            placeholder="Note (optional)"
+            placeholderTextColor={colors.placeholder}
+            maxLength={MAX_NOTE_LENGTH}
+          />
+          <ReadingTimePicker value={time} onChange={setTime} />
+
+          {error && <Text style={styles.error} accessibilityRole="alert">{error}</Text>}
+          <View style={styles.actionRow}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose} activeOpacity={0.7} accessibilityRole="button">
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSave} activeOpacity={0.8} accessibilityRole="button">
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: moderateScale(20),
+  },
+  dialog: {
+    width: '100%',
+    maxWidth: 420,
+    backgroundColor: colors.card,
+    borderRadius: moderateScale(12),
+    padding: moderateScale(18),
+  },
+  title: {
+    fontSize: moderateScale(18, 0.3),
+    fontWeight: 'bold',
+    color: colors.textSecondary,
+    marginBottom: moderateScale(12),
+  },
+  typeRow: {
+    flexDirection: 'row',
+    gap: moderateScale(8),
+    marginBottom: moderateScale(12),
+  },
+  typeChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: moderateScale(6),
+    paddingVertical: moderateScale(6),
+    paddingHorizontal: moderateScale(12),
+    borderRadius: moderateScale(16),
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+  },
+  typeChipSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.selection,
+  },
+  typeChipText: {
+    color: colors.text,
+    fontSize: moderateScale(14, 0.3),
+  },
+  label: {
+    color: colors.textMuted,
+    fontSize: moderateScale(13, 0.3),
+    marginBottom: moderateScale(4),
+  },
+  input: {
+    backgroundColor: colors.surface,
+    color: colors.text,
+    paddingHorizontal: moderateScale(10),
+    paddingVertical: moderateScale(8),
+    borderRadius: moderateScale(8),
+    borderWidth: 1,
+    borderColor: colors.inputBorder,
+    fontSize: moderateScale(15, 0.3),
+    marginBottom: moderateScale(10),
+  },
+  error: {
+    color: colors.danger,
+    fontSize: moderateScale(13, 0.3),
+    marginTop: moderateScale(8),
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: moderateScale(10),
+    marginTop: moderateScale(14),
+  },
+  cancelButton: {
+    paddingVertical: moderateScale(10),
+    paddingHorizontal: moderateScale(16),
+    borderRadius: moderateScale(8),
+    backgroundColor: colors.mutedSurface,
+  },
+  cancelButtonText: {
+    color: colors.textSecondary,
+    fontSize: moderateScale(15, 0.3),
+  },
+  saveButton: {
+    paddingVertical: moderateScale(10),
+    paddingHorizontal: moderateScale(20),
+    borderRadius: moderateScale(8),
+    backgroundColor: colors.primary,
+  },
+  saveButtonText: {
+    color: colors.onPrimary,
+    fontSize: moderateScale(15, 0.3),
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,75 @@
+import { useEffect } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/Colors';
+import { moderateScale } from '@/constants/Layout';
+import { useHistory } from '@/hooks/useHistory';
+import { useThemedStyles } from '@/hooks/useTheme';
+
+const UNDO_TIMEOUT_MS = 6000;
+
+/**
+ * Offers to undo the most recent history deletion for a few seconds. Rendered once above all screens.
+ */
+export function UndoSnackbar() {
+  const { pendingUndo, undo, dismissUndo } = useHistory();
+  const styles = useThemedStyles(createStyles);
+
+  useEffect(() => {
+    if (!pendingUndo) {
+      return;
+    }
+    const timer = setTimeout(dismissUndo, UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [pendingUndo, dismissUndo]);
+
+  if (!pendingUndo) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <View style={styles.snackbar} accessibilityRole="alert">
+        <Text style={styles.message}>{pendingUndo.message}</Text>
+        <TouchableOpacity onPress={undo} activeOpacity={0.7}>
+          <Text style={styles.undoText}>UNDO</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: moderateScale(30),
+    alignItems: 'center',
+  },
+  snackbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: moderateScale(16),
+    maxWidth: 480,
+    marginHorizontal: moderateScale(16),
+    paddingVertical: moderateScale(12),
+    paddingHorizontal: moderateScale(16),
+    borderRadius: moderateScale(8),
+    backgroundColor: colors.surface,
+    shadowColor: colors.shadow,
+    shadowOpacity: 0.4,
+    shadowRadius: 6,
+    elevation: 6,
+  },
+  message: {
+    flex: 1,
+    color: colors.text,
+    fontSize: moderateScale(14, 0.3),
+  },
+  undoText: {
+    color: colors.accent,
+    fontSize: moderateScale(14, 0.3),
+    fontWeight: 'bold',
+  },
+});
@@ -13,6 +13,12 @@ const MAPPING = {
   'paperplane.fill': 'send',
   'chevron.left.forwardslash.chevron.right': 'code',
   'chevron.right': 'chevron-right',
+  'arrow.left.arrow.right': 'swap-horiz',
+  'clock.fill': 'history',
+  'chart.xyaxis.line': 'show-chart',
+  'gearshape.fill': 'settings',
+  'syringe.fill': 'vaccines',
+  'fork.knife': 'restaurant',
 } as Partial<
   Record<
     import('expo-symbols').SymbolViewProps['name'],
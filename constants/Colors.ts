@@ -1,26 +1,183 @@
 /**
- * Below are the colors that are used in the app. The colors are defined in the light and dark mode.
- * There are many other ways to style your app. For example, [Nativewind](https://www.nativewind.dev/), [Tamagui](https://tamagui.dev/), [unistyles](https://reactnativeunistyles.vercel.app), etc.
+ * Design tokens for every theme the app can render in. Components read them through `useTheme`
+ * (or `useThemedStyles`) rather than hardcoding hex values, so adding a token means adding it to
+ * each theme below.
  */
 
-const tintColorLight = '#0a7ea4';
-const tintColorDark = '#fff';
+import type { GlucoseRange } from '@/lib/targetRange';
 
-export const Colors = {
+export interface ThemeColors {
+  // Template tokens, also used by ThemedText/ThemedView and the tab bar.
+  text: string;
+  background: string;
+  tint: string;
+  icon: string;
+  tabIconDefault: string;
+  tabIconSelected: string;
+  // Secondary and de-emphasised text.
+  textSecondary: string;
+  textMuted: string;
+  placeholder: string;
+  // Cards, inputs and menus layered on the background.
+  card: string;
+  cardBorder: string;
+  surface: string;
+  inputBorder: string;
+  divider: string;
+  // Brand colour for buttons, chips and selection, and the text drawn on top of it.
+  primary: string;
+  primaryDisabled: string;
+  onPrimary: string;
+  accent: string;
+  selection: string;
+  // Secondary buttons.
+  mutedSurface: string;
+  // Destructive actions: `danger` text, or `onDestructive` text on `destructive`.
+  danger: string;
+  destructive: string;
+  onDestructive: string;
+  // Chart chrome and series that are not range-coloured.
+  chartAxis: string;
+  chartGrid: string;
+  a1cSeries: string;
+  // Glucose range colour coding shared by results, history rows and chart points; see `rangeColor`.
+  rangeVeryLow: string;
+  rangeLow: string;
+  rangeInRange: string;
+  rangeHigh: string;
+  rangeVeryHigh: string;
+  // Treatment markers on the trend chart and icons in history.
+  insulin: string;
+  carbs: string;
+  shadow: string;
+  overlay: string;
+}
+
+export type ThemeName = 'light' | 'dark' | 'highContrast';
+
+export const Colors: Record<ThemeName, ThemeColors> = {
   light: {
     text: '#11181C',
-    background: '#fff',
-    tint: tintColorLight,
+    background: '#F4F2F8',
+    tint: '#8A2BE2',
     icon: '#687076',
     tabIconDefault: '#687076',
-    tabIconSelected: tintColorLight,
+    tabIconSelected: '#8A2BE2',
+    textSecondary: '#333844',
+    textMuted: '#5F6670',
+    placeholder: '#8A8F98',
+    card: '#FFFFFF',
+    cardBorder: '#C5B3E6',
+    surface: '#EFEAF7',
+    inputBorder: '#B9A9D3',
+    divider: '#DDD6E8',
+    primary: '#8A2BE2',
+    primaryDisabled: '#C9A8EE',
+    onPrimary: '#FFFFFF',
+    accent: '#6A1BB5',
+    selection: 'rgba(138, 43, 226, 0.15)',
+    mutedSurface: '#E6E1EE',
+    danger: '#C62828',
+    destructive: '#D32F2F',
+    onDestructive: '#FFFFFF',
+    chartAxis: '#5F6670',
+    chartGrid: '#DDD6E8',
+    a1cSeries: '#00838F',
+    rangeVeryLow: '#B71C1C',
+    rangeLow: '#E53935',
+    rangeInRange: '#2E7D32',
+    rangeHigh: '#A86B00',
+    rangeVeryHigh: '#E65100',
+    insulin: '#1565C0',
+    carbs: '#B45309',
+    shadow: '#000000',
+    overlay: 'rgba(0, 0, 0, 0.4)',
   },
   dark: {
-    text: '#ECEDEE',
-    background: '#151718',
-    tint: tintColorDark,
+    text: '#FFFFFF',
+    background: '#121212',
+    tint: '#A040FF',
     icon: '#9BA1A6',
     tabIconDefault: '#9BA1A6',
-    tabIconSelected: tintColorDark,
+    tabIconSelected: '#A040FF',
+    textSecondary: '#DDDDDD',
+    textMuted: '#AAAAAA',
+    placeholder: '#888888',
+    card: '#1E1E2E',
+    cardBorder: '#9370DB',
+    surface: '#2C2C3E',
+    inputBorder: '#BDB0D0',
+    divider: '#444444',
+    primary: '#8A2BE2',
+    primaryDisabled: '#5A1D9A',
+    onPrimary: '#FFFFFF',
+    accent: '#A040FF',
+    selection: 'rgba(138, 43, 226, 0.25)',
+    mutedSurface: '#333333',
+    danger: '#FF6B6B',
+    destructive: '#D32F2F',
+    onDestructive: '#FFFFFF',
+    chartAxis: '#CCCCCC',
+    chartGrid: '#444444',
+    a1cSeries: '#00BCD4',
+    rangeVeryLow: '#FF5252',
+    rangeLow: '#FF8A65',
+    rangeInRange: '#66BB6A',
+    rangeHigh: '#FFD54F',
+    rangeVeryHigh: '#FFA726',
+    insulin: '#64B5F6',
+    carbs: '#FFB74D',
+    shadow: '#000000',
+    overlay: 'rgba(0, 0, 0, 0.6)',
+  },
+  // Pure black and white with a yellow accent, for low vision and bright sunlight.
+  highContrast: {
+    text: '#FFFFFF',
+    background: '#000000',
+    tint: '#FFEB3B',
+    icon: '#FFFFFF',
+    tabIconDefault: '#FFFFFF',
+    tabIconSelected: '#FFEB3B',
+    textSecondary: '#FFFFFF',
+    textMuted: '#E0E0E0',
+    placeholder: '#BDBDBD',
+    card: '#000000',
+    cardBorder: '#FFFFFF',
+    surface: '#1A1A1A',
+    inputBorder: '#FFFFFF',
+    divider: '#FFFFFF',
+    primary: '#FFEB3B',
+    primaryDisabled: '#757575',
+    onPrimary: '#000000',
+    accent: '#FFEB3B',
+    selection: 'rgba(255, 235, 59, 0.3)',
+    mutedSurface: '#333333',
+    danger: '#FF8A80',
+    destructive: '#FF8A80',
+    onDestructive: '#000000',
+    chartAxis: '#FFFFFF',
+    chartGrid: '#757575',
+    a1cSeries: '#18FFFF',
+    rangeVeryLow: '#FF5252',
+    rangeLow: '#FF9E80',
+    rangeInRange: '#69F0AE',
+    rangeHigh: '#FFFF00',
+    rangeVeryHigh: '#FFAB40',
+    insulin: '#82B1FF',
+    carbs: '#FFD180',
+    shadow: '#000000',
+    overlay: 'rgba(0, 0, 0, 0.8)',
   },
 };
+
+const RANGE_TOKENS: Record<GlucoseRange, keyof ThemeColors> = {
+  'very-low': 'rangeVeryLow',
+  low: 'rangeLow',
+  'in-range': 'rangeInRange',
+  high: 'rangeHigh',
+  'very-high': 'rangeVeryHigh',
+};
+
+export function rangeColor(colors: ThemeColors, range: GlucoseRange): string {
+  return colors[RANGE_TOKENS[range]];
+}
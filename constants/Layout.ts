@@ -0,0 +1,7 @@
+import { Dimensions } from 'react-native';
+
+export const { width, height } = Dimensions.get('window');
+
+const guidelineBaseWidth = 375;
+export const scale = (size: number): number => (width / guidelineBaseWidth) * size;
+export const moderateScale = (size: number, factor = 0.5): number => size + (scale(size) - size) * factor;
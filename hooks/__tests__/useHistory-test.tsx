@@ -0,0 +1,65 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+
+import { convertGlucose, createHistoryItem } from '@/lib/glucose';
+import { HISTORY_STORAGE_KEY, saveHistory } from '@/lib/historyStore';
+import { StorageAdapter, createMemoryStorageAdapter } from '@/lib/storage';
+
+import { HistoryProvider, useHistory } from '../useHistory';
+
+let mockStorage: StorageAdapter;
+
+jest.mock('../useProfiles', () => ({
+  useProfiles: () => ({ storage: mockStorage }),
+}));
+
+async function renderHistory() {
+  const context: { current: ReturnType<typeof useHistory> | null } = { current: null };
+  function Probe() {
+    context.current = useHistory();
+    return null;
+  }
+  await act(async () => {
+    renderer.create(
+      <HistoryProvider>
+        <Probe />
+      </HistoryProvider>
+    );
+  });
+  return context.current!;
+}
+
+describe('HistoryProvider', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('does not overwrite stored history after a failed load', async () => {
+    const memory = createMemoryStorageAdapter();
+    await saveHistory(memory, [createHistoryItem(convertGlucose(120, 'mg/dL'), { timestamp: 1 })]);
+    const stored = await memory.getItem(HISTORY_STORAGE_KEY);
+    const setItem = jest.fn(memory.setItem);
+    mockStorage = {
+      ...memory,
+      getItem: jest.fn().mockRejectedValueOnce(new Error('read failed')),
+      setItem,
+    };
+
+    const history = await renderHistory();
+
+    expect(history).toMatchObject({ history: [], isLoading: false, storageError: 'Could not load conversion history.' });
+    expect(setItem).not.toHaveBeenCalled();
+    expect(await memory.getItem(HISTORY_STORAGE_KEY)).toBe(stored);
+  });
+
+  it('saves changes after a successful load', async () => {
+    mockStorage = createMemoryStorageAdapter();
+    const history = await renderHistory();
+    expect(history.storageError).toBeNull();
+    expect(await mockStorage.getItem(HISTORY_STORAGE_KEY)).not.toBeNull();
+  });
+});
@@ -0,0 +1,264 @@
+import { ReactNode, createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+
+import {
+  BACKGROUND_LOCK_DELAY_MS,
+  LockConfig,
+  MAX_FAILED_ATTEMPTS,
+  changePin as rekey,
+  clearLockConfig,
+  createLockConfig,
+  decryptStoredData,
+  encryptStoredData,
+  loadLockConfig,
+  lockoutRemainingMs,
+  registerFailedAttempt,
+  registerSuccessfulUnlock,
+  resetLock as eraseLock,
+  saveLockConfig,
+  unwrapDataKey,
+} from '@/lib/appLock';
+import { biometricKeyStore } from '@/lib/biometricKeyStore';
+import { defaultStorage } from '@/lib/defaultStorage';
+import { DEFAULT_PROFILE_REGISTRY, loadProfiles } from '@/lib/profiles';
+import { secureRandomBytes } from '@/lib/secureRandom';
+
+type AppLockContextValue = {
+  isLoading: boolean;
+  isEnabled: boolean;
+  isLocked: boolean;
+  // Decrypts the stored history; null while locked or when the lock is off.
+  dataKey: Uint8Array | null;
+  biometricsEnabled: boolean;
+  isBiometricsAvailable: boolean;
+  loadError: string | null;
+  // Resolves to an error message, or null once unlocked.
+  unlockWithPin: (pin: string) => Promise<string | null>;
+  // Resolves to a message for the lock screen, or null once unlocked or when the prompt is cancelled.
+  unlockWithBiometrics: () => Promise<string | null>;
+  enableLock: (pin: string, profileIds: string[]) => Promise<void>;
+  // Both check the current PIN first, like unlocking, and resolve to its error message or null.
+  changePin: (currentPin: string, pin: string) => Promise<string | null>;
+  disableLock: (currentPin: string, profileIds: string[]) => Promise<string | null>;
+  setBiometricsEnabled: (enabled: boolean) => Promise<void>;
+  lock: () => void;
+  // Reads the lock settings again after `loadError`.
+  retryLoad: () => void;
+  // Removes unreadable lock settings and erases the history encrypted under them.
+  resetLock: () => Promise<void>;
+};
+
+const AppLockContext = createContext<AppLockContextValue | null>(null);
+
+type PinCheck = { error: string } | { key: Uint8Array; config: LockConfig };
+
+function lockoutMessage(config: LockConfig): string {
+  const seconds = Math.ceil(lockoutRemainingMs(config) / 1000);
+  return `Too many wrong PINs. Try again in ${seconds < 60 ? `${seconds} s` : `${Math.ceil(seconds / 60)} min`}.`;
+}
+
+/**
+ * Owns the optional PIN/biometric lock and the key that decrypts the stored history. The app
+ * locks again when it returns after more than `BACKGROUND_LOCK_DELAY_MS` in the background.
+ */
+export function AppLockProvider({ children }: { children: ReactNode }) {
+  const [config, setConfig] = useState<LockConfig | null>(null);
+  const [dataKey, setDataKey] = useState<Uint8Array | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isBiometricsAvailable, setIsBiometricsAvailable] = useState(false);
+  const backgroundedAt = useRef<number | null>(null);
+
+  const loadConfig = useCallback(() => {
+    // Stay in the loading state until the result is known so the app is never shown unlocked
+    // over encrypted data in between.
+    setIsLoading(true);
+    setLoadError(null);
+    loadLockConfig(defaultStorage)
+      .then(setConfig)
+      .catch(e => {
+        console.error('Failed to load app lock.', e);
+        setLoadError('The app lock settings could not be read.');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadConfig();
+    biometricKeyStore?.isAvailable()
+      .then(setIsBiometricsAvailable)
+      .catch(e => console.error('Failed to check biometrics.', e));
+  }, [loadConfig]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'background') {
+        backgroundedAt.current ??= Date.now();
+      } else if (state === 'active' && backgroundedAt.current !== null) {
+        if (Date.now() - backgroundedAt.current > BACKGROUND_LOCK_DELAY_MS) {
+          setDataKey(null);
+        }
+        backgroundedAt.current = null;
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  const persist = useCallback(async (next: LockConfig) => {
+    await saveLockConfig(defaultStorage, next);
+    setConfig(next);
+  }, []);
+
+  // Checks `pin` against the lock, counting wrong PINs towards the lockout.
+  const checkPin = useCallback(async (current: LockConfig, pin: string): Promise<PinCheck> => {
+    if (lockoutRemainingMs(current) > 0) {
+      return { error: lockoutMessage(current) };
+    }
+    const key = await unwrapDataKey(current, pin);
+    if (!key) {
+      const next = registerFailedAttempt(current);
+      await persist(next);
+      const attemptsLeft = MAX_FAILED_ATTEMPTS - next.failedAttempts;
+      return {
+        error: attemptsLeft > 0 ? `Wrong PIN. ${attemptsLeft} ${attemptsLeft === 1 ? 'attempt' : 'attempts'} left.` : lockoutMessage(next),
+      };
+    }
+    const next = registerSuccessfulUnlock(current);
+    if (current.failedAttempts > 0) {
+      await persist(next);
+    }
+    return { key, config: next };
+  }, [persist]);
+
+  const unlockWithPin = useCallback(async (pin: string) => {
+    if (!config) {
+      return null;
+    }
+    const result = await checkPin(config, pin);
+    if ('error' in result) {
+      return result.error;
+    }
+    setDataKey(result.key);
+    return null;
+  }, [config, checkPin]);
+
+  const unlockWithBiometrics = useCallback(async () => {
+    if (!config?.biometricsEnabled || !biometricKeyStore) {
+      return null;
+    }
+    // Biometrics must not become a way around a PIN lockout.
+    if (lockoutRemainingMs(config) > 0) {
+      return lockoutMessage(config);
+    }
+    const result = await biometricKeyStore.unlockKey('Unlock GlucoSwap');
+    if (result.status === 'cancelled') {
+      return null;
+    }
+    if (result.status === 'invalidated') {
+      await biometricKeyStore.deleteKey();
+      await persist({ ...config, biometricsEnabled: false });
+      return 'Biometrics on this device have changed. Unlock with your PIN, then turn biometric unlock on again.';
+    }
+    if (config.failedAttempts > 0) {
+      await persist(registerSuccessfulUnlock(config));
+    }
+    setDataKey(result.dataKey);
+    return null;
+  }, [config, persist]);
+
+  const enableLock = useCallback(async (pin: string, profileIds: string[]) => {
+    const created = await createLockConfig(pin, secureRandomBytes);
+    // The lock is saved before anything is encrypted: if this is interrupted, plaintext history
+    // is still readable and gets encrypted on its next save, whereas data encrypted under a key
+    // that was never saved would be lost.
+    await saveLockConfig(defaultStorage, created.config);
+    await encryptStoredData(defaultStorage, profileIds, created.dataKey, secureRandomBytes);
+    setConfig(created.config);
+    setDataKey(created.dataKey);
+  }, []);
+
+  const changePin = useCallback(async (currentPin: string, pin: string) => {
+    if (!config) {
+      return null;
+    }
+    const result = await checkPin(config, currentPin);
+    if ('error' in result) {
+      return result.error;
+    }
+    await persist(await rekey(result.config, result.key, pin, secureRandomBytes));
+    return null;
+  }, [config, checkPin, persist]);
+
+  const disableLock = useCallback(async (currentPin: string, profileIds: string[]) => {
+    if (!config) {
+      return null;
+    }
+    const result = await checkPin(config, currentPin);
+    if ('error' in result) {
+      return result.error;
+    }
+    // Decrypt first so the key is only discarded once nothing depends on it.
+    await decryptStoredData(defaultStorage, profileIds, result.key, secureRandomBytes);
+    await biometricKeyStore?.deleteKey();
+    await clearLockConfig(defaultStorage);
+    setConfig(null);
+    setDataKey(null);
+    return null;
+  }, [config, checkPin]);
+
+  const setBiometricsEnabled = useCallback(async (enabled: boolean) => {
+    if (!config || !dataKey || !biometricKeyStore) {
+      return;
+    }
+    if (enabled) {
+      await biometricKeyStore.saveKey(dataKey);
+    } else {
+      await biometricKeyStore.deleteKey();
+    }
+    await persist({ ...config, biometricsEnabled: enabled });
+  }, [config, dataKey, persist]);
+
+  const lock = useCallback(() => setDataKey(null), []);
+
+  const resetLock = useCallback(async () => {
+    const registry = await loadProfiles(defaultStorage).catch(() => DEFAULT_PROFILE_REGISTRY);
+    await eraseLock(defaultStorage, registry.profiles.map(profile => profile.id));
+    await biometricKeyStore?.deleteKey();
+    setConfig(null);
+    setDataKey(null);
+    setLoadError(null);
+  }, []);
+
+  return (
+    <AppLockContext.Provider
+      value={{
+        isLoading,
+        isEnabled: config !== null,
+        isLocked: loadError !== null || (config !== null && dataKey === null),
+        dataKey,
+        biometricsEnabled: config?.biometricsEnabled ?? false,
+        isBiometricsAvailable,
+        loadError,
+        unlockWithPin,
+        unlockWithBiometrics,
+        enableLock,
+        changePin,
+        disableLock,
+        setBiometricsEnabled,
+        lock,
+        retryLoad: loadConfig,
+        resetLock,
+      }}
+    >
+      {children}
+    </AppLockContext.Provider>
+  );
+}
+
+export function useAppLock(): AppLockContextValue {
+  const context = useContext(AppLockContext);
+  if (!context) {
+    throw new Error('useAppLock must be used within an AppLockProvider.');
+  }
+  return context;
+}
@@ -0,0 +1,100 @@
+import { ReactNode, createContext, useCallback, useContext, useMemo, useRef, useState } from 'react';
+
+import { DialogKind, DialogOptions, DialogRequest, Toast, ToastKind } from '@/lib/dialogs';
+
+type DialogContextValue = {
+  confirm: (options: DialogOptions) => Promise<boolean>;
+  confirmDestructive: (options: DialogOptions) => Promise<boolean>;
+  showInfo: (title: string, message: string) => Promise<void>;
+  showError: (message: string, title?: string) => Promise<void>;
+  showToast: (message: string, kind?: ToastKind) => void;
+};
+
+type DialogHostValue = {
+  dialog: DialogRequest | null;
+  resolveDialog: (result: boolean) => void;
+  toast: Toast | null;
+  dismissToast: () => void;
+};
+
+const DialogContext = createContext<DialogContextValue | null>(null);
+const DialogHostContext = createContext<DialogHostValue | null>(null);
+
+/**
+ * In-app replacement for `Alert.alert`, `window.alert` and `window.confirm` that looks and
+ * behaves the same on every platform. Dialogs queue up and are shown one at a time by
+ * `DialogHost`; each call resolves once its dialog is answered. A newer toast replaces the
+ * current one in `ToastHost`.
+ */
+export function DialogProvider({ children }: { children: ReactNode }) {
+  const [queue, setQueue] = useState<DialogRequest[]>([]);
+  const [toast, setToast] = useState<Toast | null>(null);
+  const resolvers = useRef(new Map<number, (result: boolean) => void>());
+  const nextId = useRef(0);
+
+  const open = useCallback((kind: DialogKind, options: DialogOptions) => {
+    const id = nextId.current++;
+    return new Promise<boolean>(resolve => {
+      resolvers.current.set(id, resolve);
+      setQueue(current => [...current, { ...options, id, kind }]);
+    });
+  }, []);
+
+  const resolveDialog = useCallback((result: boolean) => {
+    const current = queue[0];
+    if (!current) {
+      return;
+    }
+    resolvers.current.get(current.id)?.(result);
+    resolvers.current.delete(current.id);
+    setQueue(pending => pending.filter(request => request.id !== current.id));
+  }, [queue]);
+
+  const showToast = useCallback((message: string, kind: ToastKind = 'info') => {
+    setToast({ id: nextId.current++, kind, message });
+  }, []);
+
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  const api = useMemo<DialogContextValue>(() => ({
+    confirm: options => open('confirm', options),
+    confirmDestructive: options => open('destructive', options),
+    showInfo: async (title, message) => {
+      await open('info', { title, message });
+    },
+    showError: async (message, title = 'Error') => {
+      await open('error', { title, message });
+    },
+    showToast,
+  }), [open, showToast]);
+
+  const host = useMemo<DialogHostValue>(
+    () => ({ dialog: queue[0] ?? null, resolveDialog, toast, dismissToast }),
+    [queue, resolveDialog, toast, dismissToast]
+  );
+
+  return (
+    <DialogContext.Provider value={api}>
+      <DialogHostContext.Provider value={host}>{children}</DialogHostContext.Provider>
+    </DialogContext.Provider>
+  );
+}
+
+export function useDialog(): DialogContextValue {
+  const context = useContext(DialogContext);
+  if (!context) {
+    throw new Error('useDialog must be used within a DialogProvider.');
+  }
+  return context;
+}
+
+/**
+ * State for the components that render dialogs and toasts; screens use `useDialog` instead.
+ */
+export function useDialogHost(): DialogHostValue {
+  const context = useContext(DialogHostContext);
+  if (!context) {
+    throw new Error('useDialogHost must be used within a DialogProvider.');
+  }
+  return context;
+}
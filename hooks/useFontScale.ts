@@ -0,0 +1,12 @@
+import { useWindowDimensions } from 'react-native';
+
+// Beyond this the charts run out of room for their labels.
+const MAX_FONT_SCALE = 2;
+
+/**
+ * The system text size multiplier. `Text` applies it by itself; text drawn in SVG and layout
+ * sized around text (chart padding, label widths) have to apply it explicitly.
+ */
+export function useFontScale(): number {
+  return Math.min(useWindowDimensions().fontScale, MAX_FONT_SCALE);
+}
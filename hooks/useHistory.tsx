@@ -0,0 +1,109 @@
+import { Dispatch, ReactNode, SetStateAction, createContext, useCallback, useContext, useEffect, useState } from 'react';
+
+import { useProfiles } from '@/hooks/useProfiles';
+import { HistoryItem } from '@/lib/glucose';
+import { removeHistoryItem, replaceHistoryItem, restoreHistoryItems } from '@/lib/historyEdit';
+import { loadHistory, saveHistory } from '@/lib/historyStore';
+import { isStorageFullError } from '@/lib/storage';
+
+export type PendingUndo = {
+  message: string;
+  removed: HistoryItem[];
+};
+
+type HistoryContextValue = {
+  history: HistoryItem[];
+  setHistory: Dispatch<SetStateAction<HistoryItem[]>>;
+  isLoading: boolean;
+  storageError: string | null;
+  updateEntry: (item: HistoryItem) => void;
+  removeEntry: (id: string) => void;
+  clearAll: () => void;
+  pendingUndo: PendingUndo | null;
+  undo: () => void;
+  dismissUndo: () => void;
+};
+
+const HistoryContext = createContext<HistoryContextValue | null>(null);
+
+/**
+ * Owns the active profile's persisted history so the converter and the full-history screen share one copy.
+ * Loads once on mount and saves after every change; failures surface through `storageError`.
+ * Saving stays off after a failed load so the empty in-memory list never overwrites stored data.
+ * Deletions are kept in `pendingUndo` until the next deletion or until the undo is dismissed.
+ */
+export function HistoryProvider({ children }: { children: ReactNode }) {
+  const { storage } = useProfiles();
+  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [pendingUndo, setPendingUndo] = useState<PendingUndo | null>(null);
+
+  useEffect(() => {
+    loadHistory(storage)
+      .then(setHistory)
+      .catch(e => {
+        console.error('Failed to load history.', e);
+        setLoadFailed(true);
+        setStorageError('Could not load conversion history.');
+      })
+      .finally(() => setIsLoading(false));
+  }, [storage]);
+
+  useEffect(() => {
+    if (!isLoading && !loadFailed) {
+      saveHistory(storage, history)
+        // Cleared on success so a later failure is reported again.
+        .then(() => setStorageError(null))
+        .catch(e => {
+          console.error('Failed to save history.', e);
+          setStorageError(
+            isStorageFullError(e)
+              ? 'Storage is full, so new entries are not being saved. Export your history, then delete old entries to free space.'
+              : 'Could not save conversion history.'
+          );
+        });
+    }
+  }, [history, isLoading, loadFailed, storage]);
+
+  const updateEntry = useCallback((item: HistoryItem) => {
+    setHistory(current => replaceHistoryItem(current, item));
+  }, []);
+
+  const removeEntry = useCallback((id: string) => {
+    const removed = history.filter(item => item.id === id);
+    setHistory(current => removeHistoryItem(current, id));
+    setPendingUndo({ message: 'Entry deleted.', removed });
+  }, [history]);
+
+  const clearAll = useCallback(() => {
+    setPendingUndo({ message: `${history.length} ${history.length === 1 ? 'entry' : 'entries'} deleted.`, removed: history });
+    setHistory([]);
+  }, [history]);
+
+  const undo = useCallback(() => {
+    if (pendingUndo) {
+      setHistory(current => restoreHistoryItems(current, pendingUndo.removed));
+      setPendingUndo(null);
+    }
+  }, [pendingUndo]);
+
+  const dismissUndo = useCallback(() => setPendingUndo(null), []);
+
+  return (
+    <HistoryContext.Provider
+      value={{ history, setHistory, isLoading, storageError, updateEntry, removeEntry, clearAll, pendingUndo, undo, dismissUndo }}
+    >
+      {children}
+    </HistoryContext.Provider>
+  );
+}
+
+export function useHistory(): HistoryContextValue {
+  const context = useContext(HistoryContext);
+  if (!context) {
+    throw new Error('useHistory must be used within a HistoryProvider.');
+  }
+  return context;
+}
@@ -0,0 +1,109 @@
+import { ReactNode, createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+
+import { useAppLock } from '@/hooks/useAppLock';
+import { createEncryptedStorageAdapter } from '@/lib/appLock';
+import { defaultStorage } from '@/lib/defaultStorage';
+import {
+  DEFAULT_PROFILE_REGISTRY,
+  Profile,
+  ProfileRegistry,
+  activeProfile as findActiveProfile,
+  addProfile as addToRegistry,
+  createProfile,
+  deleteProfileData,
+  loadProfiles,
+  profileStorage,
+  removeProfile as removeFromRegistry,
+  saveProfiles,
+} from '@/lib/profiles';
+import { secureRandomBytes } from '@/lib/secureRandom';
+import { StorageAdapter } from '@/lib/storage';
+
+type ProfilesContextValue = {
+  profiles: Profile[];
+  activeProfile: Profile;
+  // Scoped to the active profile, and decrypting while the app lock is on; per-profile data
+  // must be read and written through it.
+  storage: StorageAdapter;
+  switchProfile: (id: string) => void;
+  addProfile: (name: string) => void;
+  removeProfile: (id: string) => void;
+};
+
+const ProfilesContext = createContext<ProfilesContextValue | null>(null);
+
+/**
+ * Owns the persisted profile list and the active profile. Nothing below it renders until the
+ * list is loaded, because that is also when data from before profiles is migrated.
+ */
+export function ProfilesProvider({ children }: { children: ReactNode }) {
+  const { dataKey } = useAppLock();
+  const [registry, setRegistry] = useState<ProfileRegistry | null>(null);
+
+  useEffect(() => {
+    loadProfiles(defaultStorage)
+      .then(setRegistry)
+      .catch(e => {
+        console.error('Failed to load profiles.', e);
+        // The unreadable list has been backed up; carry on with the default profile.
+        setRegistry(DEFAULT_PROFILE_REGISTRY);
+      });
+  }, []);
+
+  const update = useCallback((change: (current: ProfileRegistry) => ProfileRegistry) => {
+    setRegistry(current => {
+      if (!current) {
+        return current;
+      }
+      const next = change(current);
+      saveProfiles(defaultStorage, next).catch(e => console.error('Failed to save profiles.', e));
+      return next;
+    });
+  }, []);
+
+  const switchProfile = useCallback((id: string) => update(current => ({ ...current, activeProfileId: id })), [update]);
+
+  const addProfile = useCallback((name: string) => {
+    const profile = createProfile(name);
+    update(current => ({ ...addToRegistry(current, profile), activeProfileId: profile.id }));
+  }, [update]);
+
+  const removeProfile = useCallback((id: string) => {
+    // The last profile stays, and so does its data.
+    if (!registry || registry.profiles.length <= 1) {
+      return;
+    }
+    update(current => removeFromRegistry(current, id));
+    deleteProfileData(defaultStorage, id).catch(e => console.error('Failed to delete profile data.', e));
+  }, [registry, update]);
+
+  const active = registry ? findActiveProfile(registry) : null;
+  const activeId = active?.id;
+  const storage = useMemo(() => {
+    if (!activeId) {
+      return null;
+    }
+    const scoped = profileStorage(defaultStorage, activeId);
+    return dataKey ? createEncryptedStorageAdapter(scoped, dataKey, secureRandomBytes) : scoped;
+  }, [activeId, dataKey]);
+
+  if (!registry || !active || !storage) {
+    return null;
+  }
+
+  return (
+    <ProfilesContext.Provider
+      value={{ profiles: registry.profiles, activeProfile: active, storage, switchProfile, addProfile, removeProfile }}
+    >
+      {children}
+    </ProfilesContext.Provider>
+  );
+}
+
+export function useProfiles(): ProfilesContextValue {
+  const context = useContext(ProfilesContext);
+  if (!context) {
+    throw new Error('useProfiles must be used within a ProfilesProvider.');
+  }
+  return context;
+}
@@ -0,0 +1,71 @@
+import { ReactNode, createContext, useCallback, useContext, useEffect, useState } from 'react';
+
+import { useHistory } from '@/hooks/useHistory';
+import { useProfiles } from '@/hooks/useProfiles';
+import { reminderScheduler } from '@/lib/reminderScheduler';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  ReminderSettings,
+  loadReminderSettings,
+  planReminders,
+  saveReminderSettings,
+  syncReminders,
+} from '@/lib/reminders';
+
+type RemindersContextValue = {
+  reminders: ReminderSettings;
+  updateReminders: (settings: ReminderSettings) => void;
+  // False on web, where nothing can be scheduled.
+  isSupported: boolean;
+  isPermissionDenied: boolean;
+};
+
+const RemindersContext = createContext<RemindersContextValue | null>(null);
+
+/**
+ * Owns the active profile's reminder settings and keeps the OS notifications in line with them,
+ * re-planning whenever the settings or the history change. Only the open profile's reminders are
+ * scheduled, since they depend on its readings.
+ */
+export function RemindersProvider({ children }: { children: ReactNode }) {
+  const { storage } = useProfiles();
+  const { history, isLoading: isHistoryLoading } = useHistory();
+  const [reminders, setReminders] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPermissionDenied, setIsPermissionDenied] = useState(false);
+
+  useEffect(() => {
+    loadReminderSettings(storage)
+      .then(setReminders)
+      .catch(e => console.error('Failed to load reminders.', e))
+      .finally(() => setIsLoading(false));
+  }, [storage]);
+
+  useEffect(() => {
+    if (!reminderScheduler || isLoading || isHistoryLoading) {
+      return;
+    }
+    syncReminders(reminderScheduler, planReminders(reminders, history))
+      .then(isGranted => setIsPermissionDenied(!isGranted))
+      .catch(e => console.error('Failed to schedule reminders.', e));
+  }, [reminders, history, isLoading, isHistoryLoading]);
+
+  const updateReminders = useCallback((settings: ReminderSettings) => {
+    setReminders(settings);
+    saveReminderSettings(storage, settings).catch(e => console.error('Failed to save reminders.', e));
+  }, [storage]);
+
+  return (
+    <RemindersContext.Provider value={{ reminders, updateReminders, isSupported: reminderScheduler !== null, isPermissionDenied }}>
+      {children}
+    </RemindersContext.Provider>
+  );
+}
+
+export function useReminders(): RemindersContextValue {
+  const context = useContext(RemindersContext);
+  if (!context) {
+    throw new Error('useReminders must be used within a RemindersProvider.');
+  }
+  return context;
+}
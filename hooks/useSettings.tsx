@@ -0,0 +1,49 @@
+import { ReactNode, createContext, useCallback, useContext, useEffect, useState } from 'react';
+
+import { useProfiles } from '@/hooks/useProfiles';
+import { AppSettings, DEFAULT_SETTINGS, loadSettings, localeDisplayDefaults, saveSettings } from '@/lib/settings';
+
+type SettingsContextValue = {
+  settings: AppSettings;
+  updateSettings: (changes: Partial<AppSettings>) => void;
+  isLoading: boolean;
+};
+
+const SettingsContext = createContext<SettingsContextValue | null>(null);
+
+/**
+ * Owns the persisted app settings. Until the user changes them, the decimal separator and
+ * clock follow the device locale.
+ */
+export function SettingsProvider({ children }: { children: ReactNode }) {
+  const { storage } = useProfiles();
+  const [settings, setSettings] = useState<AppSettings>(() => ({ ...DEFAULT_SETTINGS, ...localeDisplayDefaults() }));
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadSettings(storage, { ...DEFAULT_SETTINGS, ...localeDisplayDefaults() })
+      .then(setSettings)
+      .catch(e => console.error('Failed to load settings.', e))
+      .finally(() => setIsLoading(false));
+  }, [storage]);
+
+  const updateSettings = useCallback((changes: Partial<AppSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveSettings(storage, next).catch(e => console.error('Failed to save settings.', e));
+  }, [settings, storage]);
+
+  return (
+    <SettingsContext.Provider value={{ settings, updateSettings, isLoading }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+export function useSettings(): SettingsContextValue {
+  const context = useContext(SettingsContext);
+  if (!context) {
+    throw new Error('useSettings must be used within a SettingsProvider.');
+  }
+  return context;
+}
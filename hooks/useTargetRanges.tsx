@@ -0,0 +1,44 @@
+import { ReactNode, createContext, useCallback, useContext, useEffect, useState } from 'react';
+
+import { useProfiles } from '@/hooks/useProfiles';
+import { DEFAULT_TARGET_RANGES, TargetRangeSettings, loadTargetRanges, saveTargetRanges } from '@/lib/targetRange';
+
+type TargetRangesContextValue = [TargetRangeSettings, (settings: TargetRangeSettings) => void];
+
+const TargetRangesContext = createContext<TargetRangesContextValue | null>(null);
+
+/**
+ * Owns the persisted target ranges so every tab classifies readings against the same ranges.
+ */
+export function TargetRangesProvider({ children }: { children: ReactNode }) {
+  const { storage } = useProfiles();
+  const [targetRanges, setTargetRanges] = useState<TargetRangeSettings>(DEFAULT_TARGET_RANGES);
+
+  useEffect(() => {
+    loadTargetRanges(storage)
+      .then(setTargetRanges)
+      .catch(e => console.error('Failed to load target ranges.', e));
+  }, [storage]);
+
+  const updateTargetRanges = useCallback((settings: TargetRangeSettings) => {
+    setTargetRanges(settings);
+    saveTargetRanges(storage, settings).catch(e => console.error('Failed to save target ranges.', e));
+  }, [storage]);
+
+  return (
+    <TargetRangesContext.Provider value={[targetRanges, updateTargetRanges]}>
+      {children}
+    </TargetRangesContext.Provider>
+  );
+}
+
+/**
+ * The current target ranges and a setter that updates and persists them.
+ */
+export function useTargetRanges(): TargetRangesContextValue {
+  const context = useContext(TargetRangesContext);
+  if (!context) {
+    throw new Error('useTargetRanges must be used within a TargetRangesProvider.');
+  }
+  return context;
+}
@@ -0,0 +1,57 @@
+import { DarkTheme, DefaultTheme, Theme } from '@react-navigation/native';
+import { ReactNode, createContext, useContext, useMemo } from 'react';
+
+import { Colors, ThemeColors, ThemeName } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { resolveThemeName } from '@/lib/settings';
+
+const ThemeNameContext = createContext<ThemeName | null>(null);
+
+/**
+ * Applies the resolved theme (see `resolveThemeName`) to everything below it.
+ */
+export function AppThemeProvider({ themeName, children }: { themeName: ThemeName; children: ReactNode }) {
+  return <ThemeNameContext.Provider value={themeName}>{children}</ThemeNameContext.Provider>;
+}
+
+/**
+ * The active theme. Outside an `AppThemeProvider` (e.g. components rendered in isolation) this
+ * follows the device scheme.
+ */
+export function useThemeName(): ThemeName {
+  const themeName = useContext(ThemeNameContext);
+  const systemScheme = useColorScheme();
+  return themeName ?? resolveThemeName('system', systemScheme);
+}
+
+export function useTheme(): ThemeColors {
+  return Colors[useThemeName()];
+}
+
+/**
+ * Builds a component's styles from the active theme, rebuilding them only when the theme changes.
+ * `factory` should be defined at module level so its identity is stable.
+ */
+export function useThemedStyles<T>(factory: (colors: ThemeColors) => T): T {
+  const colors = useTheme();
+  return useMemo(() => factory(colors), [colors, factory]);
+}
+
+/**
+ * React Navigation theme (headers, tab bar, screen background) derived from the app tokens.
+ */
+export function navigationTheme(themeName: ThemeName): Theme {
+  const colors = Colors[themeName];
+  const base = themeName === 'light' ? DefaultTheme : DarkTheme;
+  return {
+    ...base,
+    colors: {
+      ...base.colors,
+      primary: colors.tint,
+      background: colors.background,
+      card: colors.card,
+      text: colors.text,
+      border: colors.divider,
+    },
+  };
+}
@@ -3,15 +3,16 @@
  * https://docs.expo.dev/guides/color-schemes/
  */
 
-import { Colors } from '@/constants/Colors';
-import { useColorScheme } from '@/hooks/useColorScheme';
+import { Colors, ThemeColors } from '@/constants/Colors';
+import { useThemeName } from '@/hooks/useTheme';
 
 export function useThemeColor(
   props: { light?: string; dark?: string },
-  colorName: keyof typeof Colors.light & keyof typeof Colors.dark
+  colorName: keyof ThemeColors
 ) {
-  const theme = useColorScheme() ?? 'light';
-  const colorFromProps = props[theme];
+  const theme = useThemeName();
+  // High contrast is a dark theme, so it honours dark overrides.
+  const colorFromProps = props[theme === 'light' ? 'light' : 'dark'];
 
   if (colorFromProps) {
     return colorFromProps;
@@ -0,0 +1,64 @@
+import {
+  a1cToEag,
+  buildA1cChartPoints,
+  convertA1c,
+  createA1cHistoryItem,
+  eagToA1c,
+  formatA1cResult,
+  ifccToNgsp,
+  ngspToIfcc,
+  parseA1cInput,
+} from '../a1c';
+import { HistoryItem, buildChartPoints, convertGlucose, createHistoryItem, sanitizeHistory } from '../glucose';
+
+describe('HbA1c formulas', () => {
+  it('applies the ADAG regression in both directions', () => {
+    expect(a1cToEag(7)).toBeCloseTo(154.2, 1);
+    expect(eagToA1c(a1cToEag(8.3))).toBeCloseTo(8.3, 10);
+  });
+
+  it('converts between NGSP and IFCC units', () => {
+    expect(ngspToIfcc(7)).toBeCloseTo(53, 0);
+    expect(ifccToNgsp(ngspToIfcc(6.5))).toBeCloseTo(6.5, 10);
+  });
+});
+
+describe('convertA1c', () => {
+  it.each([
+    ['%', 7],
+    ['mmol/mol', ngspToIfcc(7)],
+    ['mg/dL', a1cToEag(7)],
+    ['mmol/L', convertGlucose(a1cToEag(7), 'mg/dL').mmolValue],
+  ] as const)('derives every quantity from %s', (from, value) => {
+    const result = convertA1c(value, from);
+    expect(result.a1cPercent).toBeCloseTo(7, 6);
+    expect(result.a1cMmolMol).toBeCloseTo(53, 0);
+    expect(result.mgdlValue).toBeCloseTo(154.2, 1);
+    expect(result.mmolValue).toBeCloseTo(8.56, 2);
+  });
+
+  it('formats the result with HbA1c first', () => {
+    expect(formatA1cResult(convertA1c(7, '%'))).toBe('HbA1c 7.0% (53 mmol/mol) ≈ eAG 154 mg/dL / 8.56 mmol/L');
+  });
+
+  it('rejects values the formulas cannot represent', () => {
+    expect(parseA1cInput('1', '%')).toBeNull();
+    expect(parseA1cInput('abc', '%')).toBeNull();
+    expect(parseA1cInput('6.5', '%')).not.toBeNull();
+  });
+});
+
+describe('HbA1c history entries', () => {
+  const a1c = createA1cHistoryItem(convertA1c(7, '%'), { timestamp: 1 });
+  const glucose = (timestamp: number): HistoryItem => createHistoryItem(convertGlucose(120, 'mg/dL'), { timestamp });
+
+  it('survive sanitising with their type', () => {
+    expect(sanitizeHistory([a1c])).toEqual([a1c]);
+  });
+
+  it('are kept out of the glucose series and plotted in their own', () => {
+    const history = [a1c, glucose(2), glucose(3), createA1cHistoryItem(convertA1c(6.5, '%'), { timestamp: 4 })];
+    expect(buildChartPoints(history, 'mg/dL')).toHaveLength(2);
+    expect(buildA1cChartPoints(history)?.map(point => point.a1cPercent)).toEqual([7, 6.5]);
+  });
+});
@@ -0,0 +1,54 @@
+import { AGP_MIN_READINGS, buildAgpProfile, formatHourLabel } from '../agp';
+import { HistoryItem, convertGlucose } from '../glucose';
+
+const at = (hour: number, day: number) => new Date(2024, 0, day, hour, 15).getTime();
+
+const reading = (mgdl: number, timestamp: number): HistoryItem => ({
+  id: `${timestamp}-${mgdl}`,
+  timestamp,
+  ...convertGlucose(mgdl, 'mg/dL'),
+});
+
+describe('buildAgpProfile', () => {
+  it('returns null with too few readings', () => {
+    const history = Array.from({ length: AGP_MIN_READINGS - 1 }, (_, i) => reading(100, at(8, i + 1)));
+    expect(buildAgpProfile(history, 'mg/dL')).toBeNull();
+  });
+
+  it('folds readings from different days into hourly percentiles', () => {
+    const history = [
+      ...[80, 90, 100, 110, 120].map((mgdl, i) => reading(mgdl, at(7, i + 1))),
+      ...[150, 160, 170, 180, 190].map((mgdl, i) => reading(mgdl, at(19, i + 1))),
+    ];
+    const profile = buildAgpProfile(history, 'mg/dL')!;
+
+    expect(profile.map(bin => bin.hour)).toEqual([7, 19]);
+    expect(profile[0]).toEqual({ hour: 7, count: 5, p5: 82, p25: 90, median: 100, p75: 110, p95: 118 });
+    expect(profile[1].median).toBe(170);
+  });
+
+  it('reports values in the requested unit and skips HbA1c entries', () => {
+    const history = [
+      ...Array.from({ length: AGP_MIN_READINGS }, (_, i) => reading(180, at(12, i + 1))),
+      { ...reading(154, at(12, 20)), type: 'a1c' as const, a1cPercent: 7 },
+    ];
+    const [bin] = buildAgpProfile(history, 'mmol/L')!;
+
+    expect(bin.count).toBe(AGP_MIN_READINGS);
+    expect(bin.median).toBeCloseTo(9.99, 2);
+  });
+});
+
+describe('formatHourLabel', () => {
+  it('formats hours on a 24-hour clock', () => {
+    expect(formatHourLabel(0, '24h')).toBe('00:00');
+    expect(formatHourLabel(13, '24h')).toBe('13:00');
+    expect(formatHourLabel(24, '24h')).toBe('00:00');
+  });
+
+  it('formats hours on a 12-hour clock', () => {
+    expect(formatHourLabel(0, '12h')).toBe('12 AM');
+    expect(formatHourLabel(12, '12h')).toBe('12 PM');
+    expect(formatHourLabel(18, '12h')).toBe('6 PM');
+  });
+});
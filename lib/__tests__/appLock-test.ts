@@ -0,0 +1,174 @@
+import {
+  LOCK_STORAGE_KEY,
+  MAX_FAILED_ATTEMPTS,
+  changePin,
+  createEncryptedStorageAdapter,
+  createLockConfig,
+  decryptStoredData,
+  encryptStoredData,
+  loadLockConfig,
+  lockoutRemainingMs,
+  registerFailedAttempt,
+  registerSuccessfulUnlock,
+  resetLock,
+  saveLockConfig,
+  unwrapDataKey,
+  validatePin,
+} from '../appLock';
+import { KEY_LENGTH, parseEncryptedPayload } from '../encryption';
+import { HISTORY_STORAGE_KEY, loadHistory } from '../historyStore';
+import { profileStorage } from '../profiles';
+import { SETTINGS_STORAGE_KEY } from '../settings';
+import { createMemoryStorageAdapter } from '../storage';
+import { StorageFormatError, backupKey } from '../versionedStore';
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+// Far below the real work factor so the suite stays fast.
+const ITERATIONS = 1000;
+
+const history = JSON.stringify({ version: 2, data: [{ id: '1', timestamp: 1, mgdlValue: 180, mmolValue: 9.99 }] });
+
+describe('validatePin', () => {
+  it('accepts 4 to 8 digits', () => {
+    expect(validatePin('1234')).toBeNull();
+    expect(validatePin('12345678')).toBeNull();
+    expect(validatePin('123')).toMatch(/4 to 8/);
+    expect(validatePin('123456789')).toMatch(/4 to 8/);
+    expect(validatePin('12a4')).toMatch(/digits only/);
+  });
+});
+
+describe('createLockConfig', () => {
+  it('unwraps the data key with the right PIN only', async () => {
+    const { config, dataKey } = await createLockConfig('2468', randomBytes, ITERATIONS);
+
+    expect(dataKey).toHaveLength(KEY_LENGTH);
+    expect(JSON.stringify(config)).not.toContain('2468');
+    expect(await unwrapDataKey(config, '2468')).toEqual(dataKey);
+    expect(await unwrapDataKey(config, '1357')).toBeNull();
+  });
+});
+
+describe('changePin', () => {
+  it('re-wraps the same data key so stored data stays readable', async () => {
+    const { config, dataKey } = await createLockConfig('2468', randomBytes, ITERATIONS);
+    const changed = await changePin(registerFailedAttempt(config), dataKey, '97531', randomBytes, ITERATIONS);
+
+    expect(changed.salt).not.toBe(config.salt);
+    expect(changed.failedAttempts).toBe(0);
+    expect(await unwrapDataKey(changed, '97531')).toEqual(dataKey);
+    expect(await unwrapDataKey(changed, '2468')).toBeNull();
+  });
+});
+
+describe('registerFailedAttempt', () => {
+  it('pauses unlocking after repeated failures, doubling each time', async () => {
+    const { config } = await createLockConfig('2468', randomBytes, ITERATIONS);
+    let next = config;
+    for (let i = 1; i < MAX_FAILED_ATTEMPTS; i++) {
+      next = registerFailedAttempt(next, 0);
+    }
+    expect(lockoutRemainingMs(next, 0)).toBe(0);
+
+    next = registerFailedAttempt(next, 0);
+    expect(lockoutRemainingMs(next, 0)).toBe(30_000);
+    expect(lockoutRemainingMs(next, 30_000)).toBe(0);
+
+    next = registerFailedAttempt(next, 30_000);
+    expect(lockoutRemainingMs(next, 30_000)).toBe(60_000);
+
+    for (let i = 0; i < 20; i++) {
+      next = registerFailedAttempt(next, 0);
+    }
+    expect(lockoutRemainingMs(next, 0)).toBe(60 * 60 * 1000);
+
+    expect(registerSuccessfulUnlock(next)).toMatchObject({ failedAttempts: 0, lockedUntil: null });
+  });
+});
+
+describe('createEncryptedStorageAdapter', () => {
+  const dataKey = randomBytes(KEY_LENGTH);
+
+  it('encrypts history and leaves other keys alone', async () => {
+    const storage = createMemoryStorageAdapter();
+    const encrypted = createEncryptedStorageAdapter(storage, dataKey, randomBytes);
+
+    await encrypted.setItem(HISTORY_STORAGE_KEY, history);
+    await encrypted.setItem(SETTINGS_STORAGE_KEY, '{}');
+
+    expect(parseEncryptedPayload((await storage.getItem(HISTORY_STORAGE_KEY))!)).not.toBeNull();
+    expect(await encrypted.getItem(HISTORY_STORAGE_KEY)).toBe(history);
+    expect(await storage.getItem(SETTINGS_STORAGE_KEY)).toBe('{}');
+  });
+
+  it('reads plaintext written before the lock was turned on', async () => {
+    const storage = createMemoryStorageAdapter({ [HISTORY_STORAGE_KEY]: history });
+    expect(await createEncryptedStorageAdapter(storage, dataKey, randomBytes).getItem(HISTORY_STORAGE_KEY)).toBe(history);
+  });
+
+  it('backs up ciphertext it cannot decrypt before the load fails', async () => {
+    const storage = createMemoryStorageAdapter();
+    await createEncryptedStorageAdapter(storage, dataKey, randomBytes).setItem(HISTORY_STORAGE_KEY, history);
+    const raw = (await storage.getItem(HISTORY_STORAGE_KEY))!;
+
+    const wrongKey = createEncryptedStorageAdapter(storage, randomBytes(KEY_LENGTH), randomBytes);
+    await expect(loadHistory(wrongKey)).rejects.toBeInstanceOf(StorageFormatError);
+    expect(await storage.getItem(HISTORY_STORAGE_KEY)).toBe(raw);
+    expect(await storage.getItem(backupKey(HISTORY_STORAGE_KEY))).toBe(raw);
+    // The backup is still readable with the right key.
+    expect(await createEncryptedStorageAdapter(storage, dataKey, randomBytes).getItem(backupKey(HISTORY_STORAGE_KEY))).toBe(history);
+  });
+});
+
+describe('encryptStoredData', () => {
+  it('encrypts and decrypts every profile in place', async () => {
+    const storage = createMemoryStorageAdapter();
+    const dataKey = randomBytes(KEY_LENGTH);
+    await profileStorage(storage, 'default').setItem(HISTORY_STORAGE_KEY, history);
+    await profileStorage(storage, 'p2').setItem(HISTORY_STORAGE_KEY, '[]');
+
+    await encryptStoredData(storage, ['default', 'p2', 'empty'], dataKey, randomBytes);
+    for (const id of ['default', 'p2']) {
+      expect(parseEncryptedPayload((await profileStorage(storage, id).getItem(HISTORY_STORAGE_KEY))!)).not.toBeNull();
+    }
+    expect(await profileStorage(storage, 'empty').getItem(HISTORY_STORAGE_KEY)).toBeNull();
+
+    // Running again does not encrypt twice.
+    await encryptStoredData(storage, ['default'], dataKey, randomBytes);
+    await decryptStoredData(storage, ['default', 'p2', 'empty'], dataKey, randomBytes);
+    expect(await profileStorage(storage, 'default').getItem(HISTORY_STORAGE_KEY)).toBe(history);
+    expect(await profileStorage(storage, 'p2').getItem(HISTORY_STORAGE_KEY)).toBe('[]');
+  });
+});
+
+describe('loadLockConfig', () => {
+  it('round-trips the saved lock', async () => {
+    const storage = createMemoryStorageAdapter();
+    const { config } = await createLockConfig('2468', randomBytes, ITERATIONS);
+
+    expect(await loadLockConfig(storage)).toBeNull();
+    await saveLockConfig(storage, config);
+    expect(await loadLockConfig(storage)).toEqual(config);
+  });
+
+  it('refuses to treat a damaged lock as no lock', async () => {
+    const storage = createMemoryStorageAdapter({ [LOCK_STORAGE_KEY]: JSON.stringify({ version: 1, data: { salt: 1 } }) });
+    await expect(loadLockConfig(storage)).rejects.toThrow(StorageFormatError);
+  });
+});
+
+describe('resetLock', () => {
+  it('removes the lock and the history encrypted under it, keeping plaintext', async () => {
+    const storage = createMemoryStorageAdapter({ [LOCK_STORAGE_KEY]: '{damaged' });
+    await profileStorage(storage, 'default').setItem(HISTORY_STORAGE_KEY, history);
+    await profileStorage(storage, 'p2').setItem(HISTORY_STORAGE_KEY, history);
+    await encryptStoredData(storage, ['p2'], randomBytes(KEY_LENGTH), randomBytes);
+
+    await resetLock(storage, ['default', 'p2']);
+
+    expect(await loadLockConfig(storage)).toBeNull();
+    expect(await profileStorage(storage, 'default').getItem(HISTORY_STORAGE_KEY)).toBe(history);
+    expect(await profileStorage(storage, 'p2').getItem(HISTORY_STORAGE_KEY)).toBeNull();
+  });
+});
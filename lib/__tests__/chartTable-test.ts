@@ -0,0 +1,65 @@
+import { AgpHourBin } from '../agp';
+import { buildA1cTable, buildAgpTable, buildTrendTable, describeA1cTrend, describeTrend } from '../chartTable';
+import { ChartPoint, DEFAULT_DISPLAY_FORMAT, formatChartDate, formatTimestamp } from '../glucose';
+import { DEFAULT_TARGET_RANGES } from '../targetRange';
+
+const point = (timestamp: number, yValue: number): ChartPoint => ({ timestamp, mgdlValue: yValue, mmolValue: yValue / 18, yValue });
+const points = [point(1_000, 60), point(2_000, 120), point(3_000, 200)];
+
+describe('buildTrendTable', () => {
+  it('lists readings newest first with a range status that does not rely on colour', () => {
+    const table = buildTrendTable(points, 'mg/dL', DEFAULT_TARGET_RANGES);
+
+    expect(table.columns).toEqual(['Time', 'mg/dL', 'Range']);
+    expect(table.rows.map(row => row.range)).toEqual(['high', 'in-range', 'low']);
+    expect(table.rows[0].cells).toEqual([formatTimestamp(3_000), '200', '↑ High']);
+    expect(table.rows[2].cells[2]).toBe('↓ Low');
+  });
+
+  it('uses the display format for values', () => {
+    const table = buildTrendTable([point(1_000, 5.56)], 'mmol/L', DEFAULT_TARGET_RANGES, {
+      ...DEFAULT_DISPLAY_FORMAT,
+      decimalSeparator: ',',
+    });
+    expect(table.rows[0].cells[1]).toBe('5,56');
+  });
+});
+
+describe('buildAgpTable', () => {
+  it('shows the median and both percentile bands per hour', () => {
+    const bin: AgpHourBin = { hour: 7, count: 5, p5: 82, p25: 90, median: 100, p75: 110, p95: 118 };
+    const table = buildAgpTable([bin], 'mg/dL', { ...DEFAULT_DISPLAY_FORMAT, timeFormat: '24h' });
+
+    expect(table.columns).toEqual(['Hour', 'Median (mg/dL)', '25–75%', '5–95%']);
+    expect(table.rows).toEqual([{ key: '7', cells: ['07:00', '100', '90–110', '82–118'] }]);
+  });
+});
+
+describe('describeTrend', () => {
+  it('summarises the span and extremes of the readings', () => {
+    expect(describeTrend(points, 'mg/dL')).toBe(
+      `3 readings from ${formatTimestamp(1_000)} to ${formatTimestamp(3_000)}, lowest 60, highest 200, latest 200 mg/dL.`
+    );
+  });
+
+  it('handles an empty window', () => {
+    expect(describeTrend([], 'mg/dL')).toBe('No readings in this period.');
+  });
+});
+
+describe('HbA1c table', () => {
+  const results = [{ timestamp: 1_000, a1cPercent: 7.2 }, { timestamp: 2_000, a1cPercent: 6.8, note: 'lab' }];
+
+  it('lists results newest first', () => {
+    expect(buildA1cTable(results).rows.map(row => row.cells)).toEqual([
+      [formatChartDate(2_000), '6.8%', 'lab'],
+      [formatChartDate(1_000), '7.2%', ''],
+    ]);
+  });
+
+  it('describes the first and latest result', () => {
+    expect(describeA1cTrend(results, { ...DEFAULT_DISPLAY_FORMAT, decimalSeparator: ',' })).toBe(
+      `2 HbA1c results, from 7,2% on ${formatChartDate(1_000)} to 6,8% on ${formatChartDate(2_000)}.`
+    );
+  });
+});
@@ -0,0 +1,71 @@
+import {
+  MIN_CHART_SPAN_MS,
+  TimeDomain,
+  chartBounds,
+  clampDomain,
+  nearestPoint,
+  panDomain,
+  pointsInDomain,
+  presetDomain,
+  timeTicks,
+  valueDomain,
+  zoomDomain,
+} from '../chartWindow';
+import { ChartPoint } from '../glucose';
+import { DAY_MS } from '../statistics';
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = 100 * DAY_MS;
+const point = (timestamp: number, yValue: number = 100): ChartPoint => ({ timestamp, mgdlValue: yValue, mmolValue: yValue / 18, yValue });
+const points = [point(now - 40 * DAY_MS), point(now - 5 * DAY_MS), point(now - 2 * HOUR_MS), point(now - HOUR_MS)];
+
+describe('presets', () => {
+  it('ends fixed windows at now and spans all data for "all"', () => {
+    expect(presetDomain(points, '24h', now)).toEqual([now - DAY_MS, now]);
+    expect(presetDomain(points, '7d', now)).toEqual([now - 7 * DAY_MS, now]);
+    expect(presetDomain(points, 'all', now)).toEqual([now - 40 * DAY_MS, now]);
+  });
+
+  it('never produces an empty domain', () => {
+    expect(chartBounds([point(now)], now)).toEqual([now - MIN_CHART_SPAN_MS, now]);
+  });
+});
+
+describe('zoom and pan', () => {
+  const bounds: TimeDomain = [0, 10 * DAY_MS];
+
+  it('zooms around the gesture focus', () => {
+    expect(zoomDomain([0, 4 * DAY_MS], 2, 0.5, bounds)).toEqual([DAY_MS, 3 * DAY_MS]);
+    expect(zoomDomain([0, 4 * DAY_MS], 2, 0, bounds)).toEqual([0, 2 * DAY_MS]);
+  });
+
+  it('stops at the minimum span and the data bounds', () => {
+    expect(zoomDomain([0, 2 * HOUR_MS], 100, 0.5, bounds)).toEqual([HOUR_MS / 2, HOUR_MS * 1.5]);
+    expect(zoomDomain([0, 4 * DAY_MS], 0.1, 0.5, bounds)).toEqual(bounds);
+  });
+
+  it('pans without leaving the bounds or changing the span', () => {
+    expect(panDomain([DAY_MS, 2 * DAY_MS], DAY_MS, bounds)).toEqual([2 * DAY_MS, 3 * DAY_MS]);
+    expect(panDomain([DAY_MS, 2 * DAY_MS], -5 * DAY_MS, bounds)).toEqual([0, DAY_MS]);
+    expect(clampDomain([9 * DAY_MS, 12 * DAY_MS], bounds)).toEqual([7 * DAY_MS, 10 * DAY_MS]);
+  });
+});
+
+describe('plotting helpers', () => {
+  it('keeps one point beyond each edge of the window', () => {
+    const visible = pointsInDomain(points, [now - 3 * DAY_MS, now - 90 * 60 * 1000]);
+    expect(visible).toEqual([points[1], points[2], points[3]]);
+  });
+
+  it('covers the target band in the value axis', () => {
+    const [min, max] = valueDomain([100, 120], { low: 70, high: 180 });
+    expect(min).toBeLessThan(70);
+    expect(max).toBeGreaterThan(180);
+  });
+
+  it('spaces ticks evenly and finds the nearest reading', () => {
+    expect(timeTicks([0, 400], 5)).toEqual([0, 100, 200, 300, 400]);
+    expect(nearestPoint(points, now - 100 * 60 * 1000)).toBe(points[2]);
+    expect(nearestPoint([], now)).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import { createChunkedStorageAdapter, splitValue } from '../chunkedStorage';
+import { StorageAdapter, createMemoryStorageAdapter } from '../storage';
+import { StorageFormatError } from '../versionedStore';
+
+// Records what reaches the backend so tests can inspect the stored rows.
+function createRecordingStorage(): StorageAdapter & { rows: Map<string, string> } {
+  const rows = new Map<string, string>();
+  return {
+    rows,
+    getItem: async key => rows.get(key) ?? null,
+    setItem: async (key, value) => {
+      rows.set(key, value);
+    },
+    removeItem: async key => {
+      rows.delete(key);
+    },
+  };
+}
+
+describe('splitValue', () => {
+  it('splits into pieces of at most the given length', () => {
+    expect(splitValue('abcdefg', 3)).toEqual(['abc', 'def', 'g']);
+    expect(splitValue('', 3)).toEqual([]);
+  });
+
+  it('keeps surrogate pairs together', () => {
+    const pieces = splitValue('ab😀cd', 3);
+    expect(pieces).toEqual(['ab', '😀c', 'd']);
+    expect(pieces.join('')).toBe('ab😀cd');
+  });
+});
+
+describe('createChunkedStorageAdapter', () => {
+  it('stores short values as is', async () => {
+    const backend = createRecordingStorage();
+    await createChunkedStorageAdapter(backend, 10).setItem('key', 'short');
+    expect([...backend.rows]).toEqual([['key', 'short']]);
+  });
+
+  it('splits long values across rows and reads them back whole', async () => {
+    const backend = createRecordingStorage();
+    const storage = createChunkedStorageAdapter(backend, 10);
+    const value = 'x'.repeat(95);
+    await storage.setItem('key', value);
+
+    expect(backend.rows.size).toBe(11);
+    const pieces = [...backend.rows].filter(([key]) => key !== 'key').map(([, row]) => row);
+    expect(Math.max(...pieces.map(piece => piece.length))).toBeLessThanOrEqual(10);
+    expect(await storage.getItem('key')).toBe(value);
+  });
+
+  it('removes the old pieces when a value is overwritten or removed', async () => {
+    const backend = createRecordingStorage();
+    const storage = createChunkedStorageAdapter(backend, 10);
+    await storage.setItem('key', 'x'.repeat(95));
+    await storage.setItem('key', 'y'.repeat(25));
+    expect(backend.rows.size).toBe(4);
+    expect(await storage.getItem('key')).toBe('y'.repeat(25));
+
+    await storage.setItem('key', 'short');
+    expect([...backend.rows]).toEqual([['key', 'short']]);
+
+    await storage.setItem('key', 'z'.repeat(25));
+    await storage.removeItem('key');
+    expect(backend.rows.size).toBe(0);
+  });
+
+  it('keeps the previous value when a write is interrupted', async () => {
+    const backend = createRecordingStorage();
+    const storage = createChunkedStorageAdapter(backend, 10);
+    await storage.setItem('key', 'x'.repeat(25));
+    let writes = 0;
+    const failing = createChunkedStorageAdapter(
+      {
+        ...backend,
+        setItem: async (key, value) => {
+          if (++writes > 2) {
+            throw new Error('Process killed.');
+          }
+          await backend.setItem(key, value);
+        },
+      },
+      10
+    );
+
+    await expect(failing.setItem('key', 'y'.repeat(25))).rejects.toThrow('Process killed.');
+    expect(await storage.getItem('key')).toBe('x'.repeat(25));
+  });
+
+  it('rejects with a format error when a piece is missing', async () => {
+    const backend = createMemoryStorageAdapter();
+    const storage = createChunkedStorageAdapter(backend, 10);
+    await storage.setItem('key', 'x'.repeat(25));
+    await backend.removeItem('key:chunk:a1');
+
+    await expect(storage.getItem('key')).rejects.toThrow(StorageFormatError);
+  });
+});
@@ -0,0 +1,63 @@
+import { convertA1c, createA1cHistoryItem } from '../a1c';
+import { buildClinicianReport, escapeHtml, reportFileName } from '../clinicianReport';
+import { convertGlucose, createHistoryItem } from '../glucose';
+import { DAY_MS } from '../statistics';
+import { DEFAULT_TARGET_RANGES } from '../targetRange';
+
+const now = new Date('2026-03-01T12:00:00.000Z');
+const options = { unit: 'mg/dL' as const, targetRanges: DEFAULT_TARGET_RANGES, days: 14, now };
+
+const readings = Array.from({ length: 12 }, (_, i) =>
+  createHistoryItem(convertGlucose(90 + i * 10, 'mg/dL'), { timestamp: now.getTime() - (i + 1) * 3 * 60 * 60 * 1000 })
+);
+
+describe('buildClinicianReport', () => {
+  it('includes statistics, time in range, both charts and the entry table', () => {
+    const html = buildClinicianReport(readings, options);
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<h2>Statistics</h2>');
+    expect(html).toContain('<td>Readings</td><td>12</td>');
+    expect(html).toContain('<h2>Time in Range</h2>');
+    expect(html.match(/<svg /g)).toHaveLength(2);
+    expect(html.match(/<tr><td>/g)?.length).toBeGreaterThanOrEqual(12);
+  });
+
+  it('only covers entries within the selected window', () => {
+    const old = createHistoryItem(convertGlucose(400, 'mg/dL'), { timestamp: now.getTime() - 20 * DAY_MS });
+    const html = buildClinicianReport([...readings, old], options);
+
+    expect(html).toContain('<td>Readings</td><td>12</td>');
+    expect(html).not.toContain('400 mg/dL');
+  });
+
+  it('lists HbA1c results and escapes notes', () => {
+    const html = buildClinicianReport(
+      [
+        createA1cHistoryItem(convertA1c(7, '%'), { timestamp: now.getTime() - DAY_MS }),
+        createHistoryItem(convertGlucose(120, 'mg/dL'), { timestamp: now.getTime() - DAY_MS, note: '<b>cake</b>' }),
+      ],
+      options
+    );
+
+    expect(html).toContain('HbA1c 7.0%');
+    expect(html).toContain('&lt;b&gt;cake&lt;/b&gt;');
+    expect(html).toContain('Not enough readings for a daily profile.');
+  });
+
+  it('still renders when the window is empty', () => {
+    const html = buildClinicianReport([], options);
+    expect(html).toContain('No glucose readings in this period.');
+    expect(html).toContain('No entries in this period.');
+  });
+});
+
+describe('report helpers', () => {
+  it('escapes HTML special characters', () => {
+    expect(escapeHtml(`<a href="x">Tom & Jerry's</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;');
+  });
+
+  it('names the PDF after the generation date', () => {
+    expect(reportFileName(now)).toBe('glucoswap-report-2026-03-01.pdf');
+  });
+});
@@ -0,0 +1,35 @@
+import { convertA1c } from '../a1c';
+import { formatSummary, summarizeA1cConversion, summarizeGlucoseConversion } from '../conversionResult';
+import { convertGlucose } from '../glucose';
+import { DEFAULT_TARGET_RANGES, TargetRangeSettings } from '../targetRange';
+
+describe('summarizeGlucoseConversion', () => {
+  it('shows both units and the range status', () => {
+    const summary = summarizeGlucoseConversion(convertGlucose(200, 'mg/dL'), 'mg/dL', DEFAULT_TARGET_RANGES);
+
+    expect(summary).toEqual({
+      text: '200 mg/dL ≈ 11.10 mmol/L',
+      detail: 'High (target 70–180 mg/dL)',
+      range: 'high',
+    });
+    expect(formatSummary(summary)).toBe('200 mg/dL ≈ 11.10 mmol/L\nHigh (target 70–180 mg/dL)');
+  });
+
+  it('classifies against the meal context target', () => {
+    const targets: TargetRangeSettings = { ...DEFAULT_TARGET_RANGES, fasting: { low: 80, high: 100 } };
+    const summary = summarizeGlucoseConversion(convertGlucose(120, 'mg/dL'), 'mg/dL', targets, undefined, 'fasting');
+
+    expect(summary.range).toBe('high');
+    expect(summary.detail).toBe('High (target 80–100 mg/dL)');
+  });
+});
+
+describe('summarizeA1cConversion', () => {
+  it('has no range status', () => {
+    const summary = summarizeA1cConversion(convertA1c(7, '%'));
+
+    expect(summary.range).toBeUndefined();
+    expect(formatSummary(summary)).toBe(summary.text);
+    expect(summary.text).toMatch(/^HbA1c 7\.0% /);
+  });
+});
@@ -0,0 +1,30 @@
+import { dialogButtons, dismissResult } from '../dialogs';
+
+describe('dialogButtons', () => {
+  it('puts Cancel before the action of a confirmation', () => {
+    expect(dialogButtons({ kind: 'confirm' })).toEqual([
+      { label: 'Cancel', role: 'cancel', result: false },
+      { label: 'OK', role: 'confirm', result: true },
+    ]);
+  });
+
+  it('marks the action of a destructive confirmation', () => {
+    expect(dialogButtons({ kind: 'destructive', confirmLabel: 'Delete all', cancelLabel: 'Keep' })).toEqual([
+      { label: 'Keep', role: 'cancel', result: false },
+      { label: 'Delete all', role: 'destructive', result: true },
+    ]);
+  });
+
+  it('gives messages a single button', () => {
+    expect(dialogButtons({ kind: 'error' })).toEqual([{ label: 'OK', role: 'confirm', result: true }]);
+    expect(dialogButtons({ kind: 'info', confirmLabel: 'Got it' })).toEqual([{ label: 'Got it', role: 'confirm', result: true }]);
+  });
+});
+
+describe('dismissResult', () => {
+  it('never confirms an action when the dialog is dismissed', () => {
+    expect(dismissResult('confirm')).toBe(false);
+    expect(dismissResult('destructive')).toBe(false);
+    expect(dismissResult('error')).toBe(true);
+  });
+});
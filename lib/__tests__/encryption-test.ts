@@ -0,0 +1,67 @@
+import {
+  DecryptionError,
+  KEY_LENGTH,
+  base64ToBytes,
+  bytesToBase64,
+  decryptString,
+  deriveKey,
+  encryptString,
+  parseEncryptedPayload,
+} from '../encryption';
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+describe('bytesToBase64', () => {
+  it('round-trips arbitrary bytes', () => {
+    const bytes = Uint8Array.from({ length: 300 }, (_, i) => i % 256);
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+  });
+});
+
+describe('deriveKey', () => {
+  it('derives the same key from the same PIN and salt only', async () => {
+    const salt = new Uint8Array(16).fill(1);
+    const key = await deriveKey('1234', salt, 1000);
+
+    expect(key).toHaveLength(KEY_LENGTH);
+    expect(await deriveKey('1234', salt, 1000)).toEqual(key);
+    expect(await deriveKey('1235', salt, 1000)).not.toEqual(key);
+    expect(await deriveKey('1234', new Uint8Array(16).fill(2), 1000)).not.toEqual(key);
+  });
+});
+
+describe('encryptString', () => {
+  const key = randomBytes(KEY_LENGTH);
+
+  it('round-trips text and never stores it in the clear', () => {
+    const raw = encryptString(key, '[{"mgdlValue":180}]', randomBytes);
+
+    expect(raw).not.toContain('mgdlValue');
+    expect(parseEncryptedPayload(raw)).not.toBeNull();
+    expect(decryptString(key, raw)).toBe('[{"mgdlValue":180}]');
+  });
+
+  it('uses a fresh nonce each time', () => {
+    expect(encryptString(key, 'same', randomBytes)).not.toBe(encryptString(key, 'same', randomBytes));
+  });
+
+  it('rejects the wrong key and tampered data', () => {
+    const raw = encryptString(key, 'secret', randomBytes);
+    const payload = parseEncryptedPayload(raw)!;
+    const ciphertext = base64ToBytes(payload.ciphertext);
+    ciphertext[0] ^= 1;
+
+    expect(() => decryptString(randomBytes(KEY_LENGTH), raw)).toThrow(DecryptionError);
+    expect(() => decryptString(key, JSON.stringify({ ...payload, ciphertext: bytesToBase64(ciphertext) }))).toThrow(
+      DecryptionError
+    );
+  });
+});
+
+describe('parseEncryptedPayload', () => {
+  it('returns null for plaintext', () => {
+    expect(parseEncryptedPayload('[]')).toBeNull();
+    expect(parseEncryptedPayload('{corrupt')).toBeNull();
+    expect(parseEncryptedPayload('{"version":1,"data":[]}')).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import { convertA1c, createA1cHistoryItem } from '../a1c';
+import { BACKUP_FORMAT, buildExportFile, escapeCsvField, historyToCsv } from '../exportHistory';
+import { convertGlucose, createHistoryItem } from '../glucose';
+import { historySchema } from '../historyStore';
+import { createCarbEntry, createInsulinEntry } from '../treatments';
+
+const now = new Date('2026-03-01T12:00:00.000Z');
+const history = [
+  createHistoryItem(convertGlucose(180, 'mg/dL'), {
+    timestamp: Date.parse('2026-02-02T08:30:00.000Z'),
+    context: 'post-meal',
+    note: 'pasta, "large"',
+  }),
+  createHistoryItem(convertGlucose(5.5, 'mmol/L'), { timestamp: Date.parse('2026-02-01T07:00:00.000Z') }),
+  createA1cHistoryItem(convertA1c(7, '%'), { timestamp: Date.parse('2026-02-03T10:00:00.000Z') }),
+];
+
+describe('historyToCsv', () => {
+  it('writes a header and oldest-first rows with ISO timestamps and tags', () => {
+    const lines = historyToCsv(history).split('\r\n');
+    expect(lines[0]).toBe('timestamp,type,mg/dL,mmol/L,hba1c_percent,context,note,insulin_units,insulin_kind,carb_grams');
+    expect(lines[1]).toMatch(/^2026-02-01T07:00:00.000Z,glucose,99\.1\d*,5\.5,,,,,,$/);
+    expect(lines[2]).toMatch(/^2026-02-02T08:30:00.000Z,glucose,180,9\.98\d*,,post-meal,"pasta, ""large""",,,$/);
+    expect(lines[3]).toMatch(/^2026-02-03T10:00:00.000Z,a1c,154\.\d+,8\.5\d*,7,,,,,$/);
+  });
+
+  it('writes treatment amounts without glucose values', () => {
+    const lines = historyToCsv([
+      createInsulinEntry(4.5, 'rapid', { timestamp: Date.parse('2026-02-01T07:05:00.000Z'), note: 'breakfast' }),
+      createCarbEntry(45, { timestamp: Date.parse('2026-02-01T07:10:00.000Z') }),
+    ]).split('\r\n');
+    expect(lines[1]).toBe('2026-02-01T07:05:00.000Z,insulin,,,,,breakfast,4.5,rapid,');
+    expect(lines[2]).toBe('2026-02-01T07:10:00.000Z,carbs,,,,,,,,45');
+  });
+
+  it('only quotes fields that need it', () => {
+    expect(escapeCsvField('plain')).toBe('plain');
+    expect(escapeCsvField('line\nbreak')).toBe('"line\nbreak"');
+  });
+});
+
+describe('buildExportFile', () => {
+  it('names files by date and format', () => {
+    expect(buildExportFile(history, 'csv', now)).toMatchObject({ fileName: 'glucoswap-history-2026-03-01.csv', mimeType: 'text/csv' });
+  });
+
+  it('produces a versioned JSON backup with every field', () => {
+    const file = buildExportFile(history, 'json', now);
+    expect(JSON.parse(file.contents)).toEqual({
+      format: BACKUP_FORMAT,
+      version: historySchema.version,
+      exportedAt: now.toISOString(),
+      data: history,
+    });
+  });
+
+  it('names the profile in the file name and backup', () => {
+    const file = buildExportFile(history, 'json', now, 'Grandpa Jürgen');
+    expect(file.fileName).toBe('glucoswap-history-grandpa-jurgen-2026-03-01.json');
+    expect(JSON.parse(file.contents).profile).toBe('Grandpa Jürgen');
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  CONVERSION_FACTOR,
+  HistoryItem,
+  addHistoryItem,
+  buildChartPoints,
+  convertGlucose,
+  createHistoryItem,
+  describeHistoryDetails,
+  downsamplePoints,
+  formatConversionResult,
+  formatDecimal,
+  formatGlucose,
+  glucoseReadings,
+  otherUnit,
+  parseGlucoseInput,
+  sanitizeHistory,
+  validateReadingTime,
+} from '../glucose';
+
+const item = (timestamp: number, mgdlValue: number): HistoryItem => ({
+  id: timestamp.toString(),
+  timestamp,
+  mgdlValue,
+  mmolValue: mgdlValue / CONVERSION_FACTOR,
+});
+
+describe('convertGlucose', () => {
+  it('converts mg/dL to mmol/L', () => {
+    const result = convertGlucose(180, 'mg/dL');
+    expect(result.mgdlValue).toBe(180);
+    expect(result.mmolValue).toBeCloseTo(9.99, 2);
+  });
+
+  it('converts mmol/L to mg/dL', () => {
+    const result = convertGlucose(5.5, 'mmol/L');
+    expect(result.mmolValue).toBe(5.5);
+    expect(result.mgdlValue).toBeCloseTo(99.1, 1);
+  });
+
+  it('round-trips without drift', () => {
+    const there = convertGlucose(123, 'mg/dL');
+    expect(convertGlucose(there.mmolValue, 'mmol/L').mgdlValue).toBeCloseTo(123, 10);
+  });
+});
+
+describe('formatting', () => {
+  it('rounds mg/dL to whole numbers and mmol/L to two decimals', () => {
+    expect(formatGlucose(99.6, 'mg/dL')).toBe('100');
+    expect(formatGlucose(5.555, 'mmol/L')).toBe('5.55');
+  });
+
+  it('puts the source unit first in the result text', () => {
+    expect(formatConversionResult(convertGlucose(180, 'mg/dL'), 'mg/dL')).toBe('180 mg/dL ≈ 9.99 mmol/L');
+    expect(formatConversionResult(convertGlucose(10, 'mmol/L'), 'mmol/L')).toBe('10.00 mmol/L ≈ 180 mg/dL');
+  });
+
+  it('honours per-unit decimals and the decimal separator', () => {
+    const format = { decimals: { 'mg/dL': 1, 'mmol/L': 1 }, decimalSeparator: ',' as const, timeFormat: '24h' as const };
+    expect(formatGlucose(99.64, 'mg/dL', format)).toBe('99,6');
+    expect(formatGlucose(5.555, 'mmol/L', format)).toBe('5,6');
+    expect(formatConversionResult(convertGlucose(180, 'mg/dL'), 'mg/dL', format)).toBe('180,0 mg/dL ≈ 10,0 mmol/L');
+    expect(formatDecimal(-3.25, 1, ',')).toBe('-3,3');
+  });
+
+  it('swaps units', () => {
+    expect(otherUnit('mg/dL')).toBe('mmol/L');
+    expect(otherUnit('mmol/L')).toBe('mg/dL');
+  });
+});
+
+describe('parseGlucoseInput', () => {
+  it.each([['120', 120], [' 5.6 ', 5.6], ['7.', 7], ['5,6', 5.6]])('accepts %p', (input, expected) => {
+    expect(parseGlucoseInput(input)).toBe(expected);
+  });
+
+  it.each(['', 'abc', '0', '-4', '.'])('rejects %p', input => {
+    expect(parseGlucoseInput(input)).toBeNull();
+  });
+});
+
+describe('history transforms', () => {
+  it('prepends new entries without a cap unless one is given', () => {
+    const history = Array.from({ length: 150 }, (_, i) => item(i, 100));
+    const next = addHistoryItem(history, createHistoryItem(convertGlucose(90, 'mg/dL'), { timestamp: 5000 }));
+    expect(next).toHaveLength(151);
+    expect(next[0].timestamp).toBe(5000);
+    expect(addHistoryItem(history, next[0], 10)).toHaveLength(10);
+  });
+
+  it('gives entries with the same timestamp distinct ids', () => {
+    const [first, second] = [1, 2].map(() => createHistoryItem(convertGlucose(90, 'mg/dL'), { timestamp: 1000 }));
+    expect(first.id).not.toBe(second.id);
+  });
+
+  it('inserts backdated entries at their chronological position', () => {
+    const history = [item(300, 100), item(200, 100), item(100, 100)];
+    expect(addHistoryItem(history, item(150, 90)).map(entry => entry.timestamp)).toEqual([300, 200, 150, 100]);
+    expect(addHistoryItem(history, item(50, 90)).map(entry => entry.timestamp)).toEqual([300, 200, 100, 50]);
+  });
+
+  it('rejects reading times in the future beyond a minute of slack', () => {
+    expect(validateReadingTime(1000, 1000)).toBeNull();
+    expect(validateReadingTime(1000 + 30 * 1000, 1000)).toBeNull();
+    expect(validateReadingTime(1000 + 5 * 60 * 1000, 1000)).toMatch(/future/);
+  });
+
+  it('stores context and trimmed notes, omitting blank ones', () => {
+    const tagged = createHistoryItem(convertGlucose(180, 'mg/dL'), { context: 'post-meal', note: '  after pasta ' });
+    expect(tagged.context).toBe('post-meal');
+    expect(tagged.note).toBe('after pasta');
+    expect(describeHistoryDetails(tagged)).toBe('Post-meal · after pasta');
+    const plain = createHistoryItem(convertGlucose(180, 'mg/dL'), { note: '   ' });
+    expect('note' in plain).toBe(false);
+    expect('context' in plain).toBe(false);
+  });
+
+  it('strips unknown context tags from stored entries', () => {
+    const stored = { ...item(1, 100), context: 'brunch', note: 'ok' };
+    expect(sanitizeHistory([stored])).toEqual([{ ...item(1, 100), note: 'ok' }]);
+  });
+
+  it('keeps treatment entries and drops those without a valid amount', () => {
+    const dose = { ...item(1, 0), type: 'insulin', insulinUnits: 4, insulinKind: 'rapid' };
+    const carbs = { ...item(2, 0), type: 'carbs', carbGrams: 45 };
+    const broken = [
+      { ...item(3, 0), type: 'insulin', insulinUnits: 4, insulinKind: 'ultra' },
+      { ...item(4, 0), type: 'carbs', carbGrams: -5 },
+    ];
+    const history = sanitizeHistory([dose, carbs, ...broken, item(5, 100)]);
+    expect(history).toEqual([dose, carbs, item(5, 100)]);
+    expect(glucoseReadings(history)).toEqual([item(5, 100)]);
+  });
+
+  it('drops malformed entries and non-array payloads', () => {
+    expect(sanitizeHistory({ not: 'an array' })).toEqual([]);
+    expect(sanitizeHistory([item(1, 100), { id: 2 }, null, 'x'])).toEqual([item(1, 100)]);
+  });
+});
+
+describe('chart series', () => {
+  it('needs at least two entries', () => {
+    expect(buildChartPoints([item(1, 100)], 'mg/dL')).toBeNull();
+  });
+
+  it('sorts oldest first and picks the requested unit', () => {
+    const points = buildChartPoints([item(2, 180), item(1, 90)], 'mmol/L');
+    expect(points?.map(point => point.timestamp)).toEqual([1, 2]);
+    expect(points?.[0].yValue).toBeCloseTo(90 / CONVERSION_FACTOR);
+  });
+
+  it('downsamples while keeping both ends', () => {
+    const points = Array.from({ length: 20 }, (_, i) => i);
+    const sampled = downsamplePoints(points, 6);
+    expect(sampled[0]).toBe(0);
+    expect(sampled[sampled.length - 1]).toBe(19);
+    expect(sampled.length).toBeLessThan(points.length);
+    expect(downsamplePoints([1, 2, 3], 6)).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,104 @@
+import { convertA1c, createA1cHistoryItem } from '../a1c';
+import { DEFAULT_DISPLAY_FORMAT, DisplayFormat, convertGlucose, createHistoryItem } from '../glucose';
+import {
+  applyHistoryEdit,
+  draftFromItem,
+  formatDateTimeInput,
+  removeHistoryItem,
+  replaceHistoryItem,
+  restoreHistoryItems,
+  validateHistoryEdit,
+} from '../historyEdit';
+import { createCarbEntry, createInsulinEntry } from '../treatments';
+
+const at = (day: number, hour: number) => new Date(2026, 2, day, hour).getTime();
+const glucose = createHistoryItem(convertGlucose(180, 'mg/dL'), { timestamp: at(2, 8), context: 'post-meal', note: 'pasta' });
+const a1c = createA1cHistoryItem(convertA1c(7, '%'), { timestamp: at(3, 9) });
+const history = [a1c, glucose, createHistoryItem(convertGlucose(100, 'mg/dL'), { timestamp: at(1, 7) })];
+
+describe('editing entries', () => {
+  it('round-trips an unchanged draft', () => {
+    const draft = draftFromItem(glucose, 'mg/dL');
+    expect(draft).toEqual({
+      value: '180',
+      valueDirty: false,
+      unit: 'mg/dL',
+      dateTime: '2026-03-02 08:00',
+      context: 'post-meal',
+      note: 'pasta',
+    });
+    expect(applyHistoryEdit(glucose, draft)).toEqual(glucose);
+    expect(applyHistoryEdit(glucose, draftFromItem(glucose, 'mmol/L'))).toEqual(glucose);
+  });
+
+  it('recomputes both units and keeps the id when the value and time change', () => {
+    const edited = applyHistoryEdit(glucose, {
+      ...draftFromItem(glucose, 'mmol/L'),
+      value: '6',
+      valueDirty: true,
+      dateTime: '2026-03-04 10:30',
+      note: ' ',
+    });
+    expect(edited).toMatchObject({ id: glucose.id, mmolValue: 6, timestamp: new Date(2026, 2, 4, 10, 30).getTime() });
+    expect(edited.mgdlValue).toBeCloseTo(108.1, 1);
+    expect(edited.note).toBeUndefined();
+  });
+
+  it('keeps the stored value on a note-only edit in a rounded, comma-separated format', () => {
+    const format: DisplayFormat = { ...DEFAULT_DISPLAY_FORMAT, decimals: { 'mg/dL': 0, 'mmol/L': 1 }, decimalSeparator: ',' };
+    const reading = createHistoryItem(convertGlucose(101, 'mg/dL'), { timestamp: at(2, 8) });
+    const draft = { ...draftFromItem(reading, 'mmol/L', format), note: 'after walk' };
+
+    expect(draft.value).toBe('5,6');
+    expect(validateHistoryEdit(reading, draft, format)).toBeNull();
+    expect(applyHistoryEdit(reading, draft)).toEqual({ ...reading, note: 'after walk' });
+    expect(applyHistoryEdit(reading, { ...draft, valueDirty: true }).mmolValue).toBe(5.6);
+  });
+
+  it('edits HbA1c entries as a percentage', () => {
+    const draft = { ...draftFromItem(a1c, 'mg/dL'), value: '6.5', valueDirty: true };
+    expect(draftFromItem(a1c, 'mg/dL').value).toBe('7.0');
+    expect(applyHistoryEdit(a1c, draft)).toMatchObject({ id: a1c.id, type: 'a1c', a1cPercent: 6.5 });
+  });
+
+  it('edits treatment amounts and the insulin type', () => {
+    const dose = createInsulinEntry(4, 'rapid', { timestamp: at(2, 7), note: 'breakfast' });
+    const draft = draftFromItem(dose, 'mg/dL');
+    expect(draft).toMatchObject({ value: '4', insulinKind: 'rapid', note: 'breakfast' });
+    expect(applyHistoryEdit(dose, draft)).toEqual(dose);
+    expect(applyHistoryEdit(dose, { ...draft, value: '5.5', valueDirty: true, insulinKind: 'long' })).toMatchObject({
+      id: dose.id,
+      type: 'insulin',
+      insulinUnits: 5.5,
+      insulinKind: 'long',
+    });
+
+    const carbs = createCarbEntry(45, { timestamp: at(2, 7) });
+    const carbDraft = { ...draftFromItem(carbs, 'mg/dL'), valueDirty: true };
+    expect(applyHistoryEdit(carbs, { ...carbDraft, value: '60' })).toMatchObject({ id: carbs.id, carbGrams: 60 });
+    expect(validateHistoryEdit(carbs, { ...carbDraft, value: '900' })).toMatch(/between 1 and 500 g/);
+  });
+
+  it('validates the value and date format', () => {
+    const draft = { ...draftFromItem(glucose, 'mg/dL'), valueDirty: true };
+    expect(validateHistoryEdit(glucose, draft)).toBeNull();
+    expect(validateHistoryEdit(glucose, { ...draft, value: 'abc' })).toMatch(/valid value/);
+    expect(validateHistoryEdit(glucose, { ...draft, dateTime: '02/03/2026' })).toMatch(/YYYY-MM-DD/);
+    expect(validateHistoryEdit(glucose, { ...draft, dateTime: '2999-01-01 00:00' })).toMatch(/future/);
+    expect(formatDateTimeInput(at(9, 7))).toBe('2026-03-09 07:00');
+  });
+});
+
+describe('list updates', () => {
+  it('re-sorts after an edit moves an entry', () => {
+    const moved = { ...history[2], timestamp: at(5, 7) };
+    expect(replaceHistoryItem(history, moved).map(item => item.id)).toEqual([moved.id, a1c.id, glucose.id]);
+  });
+
+  it('restores removed entries alongside newer ones', () => {
+    const removed = removeHistoryItem(history, glucose.id);
+    const newer = createHistoryItem(convertGlucose(90, 'mg/dL'), { timestamp: at(6, 7) });
+    expect(restoreHistoryItems([newer, ...removed], [glucose])).toEqual([newer, a1c, glucose, history[2]]);
+    expect(restoreHistoryItems(history, [glucose])).toHaveLength(3);
+  });
+});
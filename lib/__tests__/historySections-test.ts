@@ -0,0 +1,31 @@
+import { convertGlucose, createHistoryItem } from '../glucose';
+import { dayKey, formatSectionTitle, groupHistoryByDay } from '../historySections';
+
+const now = new Date(2026, 2, 10, 15, 0).getTime();
+const at = (day: number, hour: number) =>
+  createHistoryItem(convertGlucose(100, 'mg/dL'), { timestamp: new Date(2026, 2, day, hour).getTime() });
+
+describe('groupHistoryByDay', () => {
+  it('creates one section per local day in history order', () => {
+    const history = [at(10, 9), at(10, 7), at(9, 23), at(1, 8)];
+    const sections = groupHistoryByDay(history, now);
+    expect(sections.map(section => section.key)).toEqual(['2026-03-10', '2026-03-09', '2026-03-01']);
+    expect(sections.map(section => section.data.length)).toEqual([2, 1, 1]);
+    expect(sections.slice(0, 2).map(section => section.title)).toEqual(['Today', 'Yesterday']);
+  });
+
+  it('returns no sections for empty history', () => {
+    expect(groupHistoryByDay([], now)).toEqual([]);
+  });
+});
+
+describe('formatSectionTitle', () => {
+  it('only shows the year for other years', () => {
+    expect(formatSectionTitle(new Date(2026, 0, 5).getTime(), now)).not.toMatch(/2026/);
+    expect(formatSectionTitle(new Date(2025, 11, 31).getTime(), now)).toMatch(/2025/);
+  });
+
+  it('keys days by local calendar date', () => {
+    expect(dayKey(new Date(2026, 0, 5, 23, 59).getTime())).toBe('2026-01-05');
+  });
+});
@@ -0,0 +1,117 @@
+import { createEncryptedStorageAdapter } from '../appLock';
+import { MAX_STORED_VALUE_LENGTH, createChunkedStorageAdapter } from '../chunkedStorage';
+import { KEY_LENGTH } from '../encryption';
+import { HistoryItem, convertGlucose, createHistoryItem } from '../glucose';
+import { HISTORY_STORAGE_KEY, clearHistory, historySchema, loadHistory, saveHistory } from '../historyStore';
+import { createMemoryStorageAdapter, isStorageFullError } from '../storage';
+import { StorageFormatError, backupKey, migrate } from '../versionedStore';
+
+const entry: HistoryItem = { id: '1', timestamp: 1, mgdlValue: 180, mmolValue: 9.99 };
+
+describe('history store', () => {
+  it('returns an empty list when nothing is stored', async () => {
+    expect(await loadHistory(createMemoryStorageAdapter())).toEqual([]);
+  });
+
+  it('round-trips through a versioned envelope', async () => {
+    const storage = createMemoryStorageAdapter();
+    await saveHistory(storage, [entry]);
+    expect(JSON.parse((await storage.getItem(HISTORY_STORAGE_KEY))!)).toEqual({
+      version: historySchema.version,
+      data: [entry],
+    });
+    expect(await loadHistory(storage)).toEqual([entry]);
+  });
+
+  it('upgrades the legacy bare array and rewrites it in the current format', async () => {
+    const storage = createMemoryStorageAdapter({ [HISTORY_STORAGE_KEY]: JSON.stringify([entry]) });
+    expect(await loadHistory(storage)).toEqual([entry]);
+    expect(JSON.parse((await storage.getItem(HISTORY_STORAGE_KEY))!).version).toBe(historySchema.version);
+  });
+
+  it.each([
+    ['corrupt JSON', '{not json'],
+    ['a newer schema version', JSON.stringify({ version: historySchema.version + 1, data: [entry] })],
+    ['a legacy payload that is not a list', JSON.stringify({ items: [entry] })],
+    ['an envelope whose data is not a list', JSON.stringify({ version: historySchema.version, data: { 0: entry } })],
+  ])('backs up %s instead of discarding it', async (_, raw) => {
+    const storage = createMemoryStorageAdapter({ [HISTORY_STORAGE_KEY]: raw });
+    await expect(loadHistory(storage)).rejects.toBeInstanceOf(StorageFormatError);
+    expect(await storage.getItem(backupKey(HISTORY_STORAGE_KEY))).toBe(raw);
+  });
+
+  it.each([
+    ['a legacy array', [entry, { id: 'broken' }]],
+    ['a current envelope', { version: historySchema.version, data: [entry, { id: 'broken' }] }],
+  ])('backs up %s before dropping malformed rows', async (_, payload) => {
+    const raw = JSON.stringify(payload);
+    const storage = createMemoryStorageAdapter({ [HISTORY_STORAGE_KEY]: raw });
+
+    expect(await loadHistory(storage)).toEqual([entry]);
+    expect(await storage.getItem(backupKey(HISTORY_STORAGE_KEY))).toBe(raw);
+    expect(JSON.parse((await storage.getItem(HISTORY_STORAGE_KEY))!).data).toEqual([entry]);
+  });
+
+  it('makes no backup when every row is valid', async () => {
+    const storage = createMemoryStorageAdapter({ [HISTORY_STORAGE_KEY]: JSON.stringify([entry]) });
+    await loadHistory(storage);
+    expect(await storage.getItem(backupKey(HISTORY_STORAGE_KEY))).toBeNull();
+  });
+
+  it('clears the stored history', async () => {
+    const storage = createMemoryStorageAdapter();
+    await saveHistory(storage, [entry]);
+    await clearHistory(storage);
+    expect(await storage.getItem(HISTORY_STORAGE_KEY)).toBeNull();
+  });
+
+  // Three years of hourly readings, the size of a long sensor export.
+  const large = Array.from({ length: 3 * 365 * 24 }, (_, i) =>
+    createHistoryItem(convertGlucose(70 + (i % 150), 'mg/dL'), { timestamp: Date.UTC(2023, 0, 1) + i * 60 * 60 * 1000 })
+  );
+
+  it('round-trips years of imported readings', async () => {
+    const storage = createMemoryStorageAdapter();
+    await saveHistory(storage, large);
+    expect(await loadHistory(storage)).toEqual(large);
+  });
+
+  it('keeps every stored row of years of encrypted readings under the Android row limit', async () => {
+    const backend = createMemoryStorageAdapter();
+    const setItem = jest.spyOn(backend, 'setItem');
+    const dataKey = crypto.getRandomValues(new Uint8Array(KEY_LENGTH));
+    const storage = createEncryptedStorageAdapter(createChunkedStorageAdapter(backend), dataKey, length =>
+      crypto.getRandomValues(new Uint8Array(length))
+    );
+    await saveHistory(storage, large);
+
+    const rowBytes = setItem.mock.calls.map(([, value]) => new TextEncoder().encode(value).length);
+    expect(rowBytes.length).toBeGreaterThan(1);
+    expect(Math.max(...rowBytes)).toBeLessThanOrEqual(MAX_STORED_VALUE_LENGTH);
+    // AsyncStorage cannot read back a row of 2 MB or more on Android.
+    expect(Math.max(...rowBytes)).toBeLessThan(2 * 1024 * 1024);
+    expect(await loadHistory(storage)).toEqual(large);
+  });
+
+  it('rejects with a recognisable error when the backend is full', async () => {
+    const quotaError = Object.assign(new Error('The quota has been exceeded.'), { name: 'QuotaExceededError' });
+    const storage = { ...createMemoryStorageAdapter(), setItem: jest.fn().mockRejectedValue(quotaError) };
+    const failure = await saveHistory(storage, [entry]).catch((e: unknown) => e);
+
+    expect(isStorageFullError(failure)).toBe(true);
+    expect(isStorageFullError(new Error('database or disk is full (code 13 SQLITE_FULL)'))).toBe(true);
+    expect(isStorageFullError(new Error('Network request failed'))).toBe(false);
+  });
+});
+
+describe('migrate', () => {
+  it('applies each step in order', () => {
+    const migrations = { 1: (d: unknown) => `${d}a`, 2: (d: unknown) => `${d}b` };
+    expect(migrate('', 0, migrations, 2)).toBe('ab');
+    expect(migrate('x', 1, migrations, 2)).toBe('xb');
+  });
+
+  it('fails when a step is missing', () => {
+    expect(() => migrate('', 0, {}, 1)).toThrow(StorageFormatError);
+  });
+});
@@ -0,0 +1,147 @@
+import { convertA1c, createA1cHistoryItem } from '../a1c';
+import { buildExportFile } from '../exportHistory';
+import { convertGlucose, createHistoryItem } from '../glucose';
+import {
+  detectDateOrder,
+  detectImportFormat,
+  guessColumnMapping,
+  mergeImportedHistory,
+  parseCsv,
+  parseImport,
+  parseTimestamp,
+} from '../importHistory';
+import { createCarbEntry, createInsulinEntry } from '../treatments';
+
+const history = [
+  createHistoryItem(convertGlucose(180, 'mg/dL'), { timestamp: Date.parse('2026-02-02T08:30:00.000Z'), context: 'post-meal', note: 'pasta, "large"' }),
+  createA1cHistoryItem(convertA1c(7, '%'), { timestamp: Date.parse('2026-02-03T10:00:00.000Z') }),
+];
+
+const libreView = [
+  'Glucose Data,Generated on,02-03-2026 10:00 UTC,Generated by,Jane Doe',
+  'Device,Serial Number,Device Timestamp,Record Type,Historic Glucose mmol/L,Scan Glucose mmol/L,Strip Glucose mmol/L,Notes',
+  'FreeStyle LibreLink,ABC,25-02-2026 07:15,0,5.6,,,',
+  'FreeStyle LibreLink,ABC,25-02-2026 07:20,1,,6.1,,after walk',
+  'FreeStyle LibreLink,ABC,25-02-2026 07:25,5,,,,',
+  'FreeStyle LibreLink,ABC,31-02-2026 07:30,0,5.9,,,',
+].join('\n');
+
+const dexcom = [
+  'Index,Timestamp (YYYY-MM-DDThh:mm:ss),Event Type,Event Subtype,Glucose Value (mg/dL),Insulin Value (u)',
+  '1,,FirstName,,,',
+  '2,2026-02-25T08:00:00,EGV,,112,',
+  '3,2026-02-25T08:05:00,EGV,,Low,',
+  '4,2026-02-25T08:10:00,Insulin,Fast-Acting,,4',
+].join('\n');
+
+describe('parseCsv', () => {
+  it('handles quotes, escaped quotes and embedded line breaks', () => {
+    expect(parseCsv('a,"b, c","say ""hi""\nthere"\r\n1,2,3')).toEqual([
+      ['a', 'b, c', 'say "hi"\nthere'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('detects semicolon-delimited files', () => {
+    expect(parseCsv('date;value\n2026-01-01;5,6')).toEqual([['date', 'value'], ['2026-01-01', '5,6']]);
+  });
+});
+
+describe('timestamps', () => {
+  it('infers day-first or month-first dates from unambiguous values', () => {
+    expect(detectDateOrder(['01-02-2026', '25-02-2026'])).toBe('DMY');
+    expect(detectDateOrder(['01-02-2026', '02-25-2026'])).toBe('MDY');
+    expect(detectDateOrder(['2026-02-25'])).toBe('YMD');
+  });
+
+  it('parses meter layouts as local time and rejects impossible dates', () => {
+    expect(parseTimestamp('02/25/2026 7:15 PM', 'MDY')).toBe(new Date(2026, 1, 25, 19, 15).getTime());
+    expect(parseTimestamp('31-02-2026 07:30', 'DMY')).toBeNull();
+    expect(parseTimestamp('2026-02-25T08:00:00.000Z')).toBe(Date.parse('2026-02-25T08:00:00.000Z'));
+  });
+});
+
+describe('parseImport', () => {
+  it('round-trips our own CSV export and JSON backup', () => {
+    for (const format of ['csv', 'json'] as const) {
+      const result = parseImport(buildExportFile(history, format).contents);
+      expect(result.rejected).toEqual([]);
+      expect(result.items).toHaveLength(2);
+      expect(result.items.find(item => item.type === 'a1c')?.a1cPercent).toBe(7);
+      expect(result.items.find(item => item.context === 'post-meal')?.note).toBe('pasta, "large"');
+    }
+  });
+
+  it('round-trips treatments and still reads CSV exports from before them', () => {
+    const treatments = [
+      createInsulinEntry(12, 'long', { timestamp: Date.parse('2026-02-02T22:00:00.000Z') }),
+      createCarbEntry(60, { timestamp: Date.parse('2026-02-02T08:30:00.000Z'), note: 'pasta' }),
+    ];
+    for (const format of ['csv', 'json'] as const) {
+      const result = parseImport(buildExportFile(treatments, format).contents);
+      expect(result.rejected).toEqual([]);
+      expect(result.items).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ type: 'insulin', insulinUnits: 12, insulinKind: 'long' }),
+          expect.objectContaining({ type: 'carbs', carbGrams: 60, note: 'pasta' }),
+        ])
+      );
+    }
+
+    const legacyCsv = 'timestamp,type,mg/dL,mmol/L,hba1c_percent,context,note\r\n2026-02-01T07:00:00.000Z,glucose,99,5.5,,,';
+    expect(parseImport(legacyCsv)).toMatchObject({ format: 'glucoswap-csv', items: [{ mgdlValue: 99 }] });
+
+    const header = 'timestamp,type,mg/dL,mmol/L,hba1c_percent,context,note,insulin_units,insulin_kind,carb_grams';
+    expect(parseImport(`${header}\r\n2026-02-01T07:00:00.000Z,insulin,,,,,,4,`)).toMatchObject({ items: [], rejected: [{ row: 2 }] });
+  });
+
+  it('upgrades old backups and rejects foreign JSON', () => {
+    const legacy = JSON.stringify({ format: 'glucoswap-backup', version: 1, exportedAt: '', data: [{ id: '1', timestamp: 1, mgdlValue: 90, mmolValue: 5 }, { bad: true }] });
+    expect(parseImport(legacy)).toMatchObject({ format: 'backup', items: [{ mgdlValue: 90 }], rejected: [{ row: 2 }] });
+    expect(() => parseImport('{"hello":1}')).toThrow('not a GlucoSwap backup');
+  });
+
+  it('reads LibreView historic and scan readings in the header unit', () => {
+    const result = parseImport(libreView);
+    expect(result.format).toBe('libreview');
+    expect(result.items.map(item => item.mmolValue)).toEqual([5.6, 6.1]);
+    expect(result.items[1]).toMatchObject({ note: 'after walk', timestamp: new Date(2026, 1, 25, 7, 20).getTime() });
+    expect(result.rejected).toEqual([{ row: 6, reason: 'Unrecognised date "31-02-2026 07:30"' }]);
+  });
+
+  it('reads Dexcom Clarity sensor readings and reports Low/High values', () => {
+    const result = parseImport(dexcom);
+    expect(result.format).toBe('dexcom-clarity');
+    expect(result.items.map(item => item.mgdlValue)).toEqual([112]);
+    expect(result.rejected).toEqual([{ row: 4, reason: 'Out-of-range sensor reading "Low"' }]);
+  });
+
+  it('maps generic CSV columns and infers the unit from the values', () => {
+    const csv = 'Reading,When,Comment\n5.4,2026-02-25 08:00,\n,2026-02-25 09:00,missing\n7.2,2026-02-25 10:00,lunch';
+    expect(detectImportFormat(csv)).toBe('generic-csv');
+    const mapping = guessColumnMapping(parseCsv(csv)[0]);
+    expect(mapping).toEqual({ timestamp: 1, value: 0, unit: 'auto', note: 2 });
+    const result = parseImport(csv, mapping);
+    expect(result.items.map(item => item.mmolValue)).toEqual([5.4, 7.2]);
+    expect(result.rejected).toEqual([{ row: 3, reason: 'Not a glucose value: ""' }]);
+    expect(parseImport(csv, { ...mapping, unit: 'mg/dL' }).items[0].mgdlValue).toBe(5.4);
+  });
+});
+
+describe('mergeImportedHistory', () => {
+  it('skips timestamps already in history and keeps newest first', () => {
+    const imported = [
+      createHistoryItem(convertGlucose(100, 'mg/dL'), { timestamp: history[0].timestamp }),
+      createHistoryItem(convertGlucose(110, 'mg/dL'), { timestamp: 5 }),
+      createHistoryItem(convertGlucose(120, 'mg/dL'), { timestamp: 5 }),
+    ];
+    const result = mergeImportedHistory(history, imported);
+    expect(result).toMatchObject({ added: 1, duplicates: 2 });
+    expect(result.history.map(item => item.timestamp)).toEqual([history[1].timestamp, history[0].timestamp, 5]);
+  });
+
+  it('keeps a treatment logged at the same time as a reading', () => {
+    const dose = createInsulinEntry(4, 'rapid', { timestamp: history[0].timestamp });
+    expect(mergeImportedHistory(history, [dose])).toMatchObject({ added: 1, duplicates: 0 });
+  });
+});
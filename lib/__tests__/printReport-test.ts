@@ -0,0 +1,51 @@
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+
+import { printReport } from '../printReport';
+
+jest.mock('expo-file-system', () => ({
+  cacheDirectory: 'file:///cache/',
+  moveAsync: jest.fn().mockResolvedValue(undefined),
+  deleteAsync: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('expo-print', () => ({
+  printAsync: jest.fn().mockResolvedValue(undefined),
+  printToFileAsync: jest.fn().mockResolvedValue({ uri: 'file:///cache/Print/1234.pdf' }),
+}));
+
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: jest.fn().mockResolvedValue(true),
+  shareAsync: jest.fn(),
+}));
+
+describe('printReport', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('deletes the PDF once the share sheet closes', async () => {
+    jest.mocked(Sharing.shareAsync).mockResolvedValue(undefined);
+    await printReport('<html></html>', 'report.pdf');
+
+    expect(Sharing.shareAsync).toHaveBeenCalledWith('file:///cache/report.pdf', expect.anything());
+    expect(FileSystem.deleteAsync).toHaveBeenCalledWith('file:///cache/report.pdf', { idempotent: true });
+    expect(FileSystem.deleteAsync).toHaveBeenCalledWith('file:///cache/Print/1234.pdf', { idempotent: true });
+  });
+
+  it('deletes the PDF when sharing fails', async () => {
+    jest.mocked(Sharing.shareAsync).mockRejectedValue(new Error('Share failed.'));
+
+    await expect(printReport('<html></html>', 'report.pdf')).rejects.toThrow('Share failed.');
+    expect(FileSystem.deleteAsync).toHaveBeenCalledWith('file:///cache/report.pdf', { idempotent: true });
+  });
+
+  it('prints directly without writing a file where sharing is unavailable', async () => {
+    jest.mocked(Sharing.isAvailableAsync).mockResolvedValueOnce(false);
+    await printReport('<html></html>', 'report.pdf');
+
+    expect(Print.printAsync).toHaveBeenCalledWith({ html: '<html></html>' });
+    expect(Print.printToFileAsync).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+import { HISTORY_STORAGE_KEY, loadHistory } from '../historyStore';
+import {
+  DEFAULT_PROFILE_ID,
+  DEFAULT_PROFILE_REGISTRY,
+  PROFILES_STORAGE_KEY,
+  addProfile,
+  createProfile,
+  deleteProfileData,
+  loadProfiles,
+  profileStorage,
+  removeProfile,
+  sanitizeProfiles,
+  saveProfiles,
+  validateProfileName,
+} from '../profiles';
+import { SETTINGS_STORAGE_KEY } from '../settings';
+import { createMemoryStorageAdapter } from '../storage';
+import { backupKey } from '../versionedStore';
+
+const legacyHistory = JSON.stringify([{ id: '1', timestamp: 1, mgdlValue: 180, mmolValue: 9.99 }]);
+
+describe('loadProfiles', () => {
+  it('moves data from before profiles into the default profile once', async () => {
+    const storage = createMemoryStorageAdapter({
+      [HISTORY_STORAGE_KEY]: legacyHistory,
+      [backupKey(SETTINGS_STORAGE_KEY)]: '{corrupt',
+      '@glucoSwapReminders': '{}',
+      '@glucoSwapLock': '{}',
+    });
+
+    expect(await loadProfiles(storage)).toEqual(DEFAULT_PROFILE_REGISTRY);
+
+    const defaultStorage = profileStorage(storage, DEFAULT_PROFILE_ID);
+    expect(await loadHistory(defaultStorage)).toEqual(JSON.parse(legacyHistory));
+    expect(await defaultStorage.getItem(backupKey(SETTINGS_STORAGE_KEY))).toBe('{corrupt');
+    expect(await storage.getItem(HISTORY_STORAGE_KEY)).toBeNull();
+    expect(await defaultStorage.getItem('@glucoSwapReminders')).toBe('{}');
+    // Device-wide data stays where it is.
+    expect(await storage.getItem('@glucoSwapLock')).toBe('{}');
+    expect(await storage.getItem(PROFILES_STORAGE_KEY)).not.toBeNull();
+  });
+
+  it('loads a saved registry without migrating again', async () => {
+    const storage = createMemoryStorageAdapter();
+    const registry = addProfile(DEFAULT_PROFILE_REGISTRY, { id: 'p2', name: 'Mia' });
+    await saveProfiles(storage, { ...registry, activeProfileId: 'p2' });
+    await storage.setItem(HISTORY_STORAGE_KEY, legacyHistory);
+
+    expect(await loadProfiles(storage)).toEqual({ ...registry, activeProfileId: 'p2' });
+    expect(await storage.getItem(HISTORY_STORAGE_KEY)).toBe(legacyHistory);
+  });
+
+  it('moves reminders saved device-wide into the default profile', async () => {
+    const storage = createMemoryStorageAdapter({ '@glucoSwapReminders': '{"version":1}' });
+    await saveProfiles(storage, DEFAULT_PROFILE_REGISTRY);
+
+    await loadProfiles(storage);
+    expect(await profileStorage(storage, DEFAULT_PROFILE_ID).getItem('@glucoSwapReminders')).toBe('{"version":1}');
+    expect(await storage.getItem('@glucoSwapReminders')).toBeNull();
+  });
+});
+
+describe('profile storage', () => {
+  it('keeps each profile under its own keys', async () => {
+    const storage = createMemoryStorageAdapter();
+    await profileStorage(storage, 'a').setItem(HISTORY_STORAGE_KEY, 'A');
+    await profileStorage(storage, 'b').setItem(HISTORY_STORAGE_KEY, 'B');
+
+    expect(await profileStorage(storage, 'a').getItem(HISTORY_STORAGE_KEY)).toBe('A');
+    await deleteProfileData(storage, 'a');
+    expect(await profileStorage(storage, 'a').getItem(HISTORY_STORAGE_KEY)).toBeNull();
+    expect(await profileStorage(storage, 'b').getItem(HISTORY_STORAGE_KEY)).toBe('B');
+  });
+});
+
+describe('profile registry', () => {
+  const registry = addProfile(DEFAULT_PROFILE_REGISTRY, { id: 'p2', name: 'Mia' });
+
+  it('activates the first remaining profile when the active one is removed', () => {
+    expect(removeProfile({ ...registry, activeProfileId: 'p2' }, 'p2')).toEqual(DEFAULT_PROFILE_REGISTRY);
+    expect(removeProfile(registry, 'p2').activeProfileId).toBe(DEFAULT_PROFILE_ID);
+  });
+
+  it('never removes the last profile', () => {
+    expect(removeProfile(DEFAULT_PROFILE_REGISTRY, DEFAULT_PROFILE_ID)).toBe(DEFAULT_PROFILE_REGISTRY);
+  });
+
+  it('validates names', () => {
+    expect(validateProfileName('  ', registry.profiles)).toMatch(/Enter a name/);
+    expect(validateProfileName(' mia ', registry.profiles)).toMatch(/already exists/);
+    expect(validateProfileName('Mia', registry.profiles, 'p2')).toBeNull();
+    expect(createProfile('  Grandpa   Joe ').name).toBe('Grandpa Joe');
+  });
+
+  it('sanitizes stored registries', () => {
+    expect(sanitizeProfiles({ profiles: [{ id: 'p2', name: 'Mia' }, { id: 'p2', name: 'Dup' }, { id: 3 }], activeProfileId: 'x' })).toEqual({
+      profiles: [{ id: 'p2', name: 'Mia' }],
+      activeProfileId: 'p2',
+    });
+    expect(sanitizeProfiles({ profiles: [] })).toEqual(DEFAULT_PROFILE_REGISTRY);
+  });
+});
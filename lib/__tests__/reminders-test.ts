@@ -0,0 +1,150 @@
+import { HistoryItem, convertGlucose } from '../glucose';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  PlannedReminder,
+  ReminderScheduler,
+  ReminderSettings,
+  addDailyTime,
+  formatTimeOfDay,
+  loadReminderSettings,
+  parseTimeOfDay,
+  planReminders,
+  sanitizeReminderSettings,
+  saveReminderSettings,
+  syncReminders,
+} from '../reminders';
+import { createMemoryStorageAdapter } from '../storage';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date(2026, 2, 10, 12, 0).getTime();
+
+const reading = (timestamp: number, details: Partial<HistoryItem> = {}): HistoryItem => ({
+  id: `${timestamp}`,
+  timestamp,
+  ...convertGlucose(140, 'mg/dL'),
+  ...details,
+});
+
+const settingsWith = (changes: Partial<ReminderSettings>): ReminderSettings => ({ ...DEFAULT_REMINDER_SETTINGS, ...changes });
+
+function fakeScheduler(isGranted = true) {
+  const scheduled: PlannedReminder[] = [];
+  const scheduler: ReminderScheduler = {
+    requestPermission: jest.fn(async () => isGranted),
+    cancelAll: jest.fn(async () => {
+      scheduled.length = 0;
+    }),
+    schedule: jest.fn(async reminder => {
+      scheduled.push(reminder);
+    }),
+  };
+  return { scheduler, scheduled };
+}
+
+describe('planReminders', () => {
+  it('plans nothing by default', () => {
+    expect(planReminders(DEFAULT_REMINDER_SETTINGS, [reading(NOW - HOUR)], NOW)).toEqual([]);
+  });
+
+  it('repeats each daily time', () => {
+    const settings = addDailyTime(addDailyTime(DEFAULT_REMINDER_SETTINGS, { hour: 20, minute: 0 }), { hour: 7, minute: 30 });
+    expect(planReminders(settings, [], NOW).map(reminder => [reminder.id, reminder.trigger])).toEqual([
+      ['daily-07:30', { type: 'daily', hour: 7, minute: 30 }],
+      ['daily-20:00', { type: 'daily', hour: 20, minute: 0 }],
+    ]);
+  });
+
+  it('follows up after the latest reading when it was post-meal', () => {
+    const settings = settingsWith({ afterMeal: { enabled: true, delayMinutes: 120 } });
+    const history = [reading(NOW - 30 * 60 * 1000, { context: 'post-meal' }), reading(NOW - 5 * HOUR)];
+
+    const [reminder] = planReminders(settings, history, NOW);
+    expect(reminder.kind).toBe('after-meal');
+    expect(reminder.trigger).toEqual({ type: 'date', timestamp: NOW + 90 * 60 * 1000 });
+    expect(reminder.body).toMatch(/2 h/);
+  });
+
+  it('skips the follow-up once a newer reading exists or the moment has passed', () => {
+    const settings = settingsWith({ afterMeal: { enabled: true, delayMinutes: 120 } });
+    expect(planReminders(settings, [reading(NOW - 10 * 60 * 1000), reading(NOW - HOUR, { context: 'post-meal' })], NOW)).toEqual([]);
+    expect(planReminders(settings, [reading(NOW - 3 * HOUR, { context: 'post-meal' })], NOW)).toEqual([]);
+  });
+
+  it('nudges hours after the latest glucose reading, ignoring HbA1c entries', () => {
+    const settings = settingsWith({ noReading: { enabled: true, hours: 6 } });
+    const history = [reading(NOW - HOUR, { type: 'a1c', a1cPercent: 6.5 }), reading(NOW - 2 * HOUR)];
+
+    const [reminder] = planReminders(settings, history, NOW);
+    expect(reminder.id).toBe('no-reading');
+    expect(reminder.trigger).toEqual({ type: 'date', timestamp: NOW + 4 * HOUR });
+  });
+
+  it('pushes an overdue nudge a full interval ahead instead of firing at once', () => {
+    const settings = settingsWith({ noReading: { enabled: true, hours: 6 } });
+    expect(planReminders(settings, [reading(NOW - 10 * HOUR)], NOW)[0].trigger).toEqual({ type: 'date', timestamp: NOW + 6 * HOUR });
+    expect(planReminders(settings, [], NOW)[0].trigger).toEqual({ type: 'date', timestamp: NOW + 6 * HOUR });
+  });
+});
+
+describe('syncReminders', () => {
+  const planned = planReminders(settingsWith({ dailyTimes: [{ hour: 8, minute: 0 }] }), [], NOW);
+
+  it('replaces whatever was scheduled before', async () => {
+    const { scheduler, scheduled } = fakeScheduler();
+    await syncReminders(scheduler, planned);
+    await expect(syncReminders(scheduler, planned)).resolves.toBe(true);
+    expect(scheduled).toEqual(planned);
+  });
+
+  it('cancels without asking for permission when nothing is planned', async () => {
+    const { scheduler } = fakeScheduler();
+    await expect(syncReminders(scheduler, [])).resolves.toBe(true);
+    expect(scheduler.cancelAll).toHaveBeenCalled();
+    expect(scheduler.requestPermission).not.toHaveBeenCalled();
+  });
+
+  it('schedules nothing when notifications are not allowed', async () => {
+    const { scheduler, scheduled } = fakeScheduler(false);
+    await expect(syncReminders(scheduler, planned)).resolves.toBe(false);
+    expect(scheduled).toEqual([]);
+  });
+});
+
+describe('time of day', () => {
+  it('parses 24-hour times', () => {
+    expect(parseTimeOfDay(' 8:05 ')).toEqual({ hour: 8, minute: 5 });
+    expect(parseTimeOfDay('23.30')).toEqual({ hour: 23, minute: 30 });
+    expect(parseTimeOfDay('24:00')).toBeNull();
+    expect(parseTimeOfDay('8')).toBeNull();
+  });
+
+  it('formats on either clock', () => {
+    expect(formatTimeOfDay({ hour: 0, minute: 15 }, '12h')).toBe('12:15 AM');
+    expect(formatTimeOfDay({ hour: 13, minute: 0 }, '12h')).toBe('1:00 PM');
+    expect(formatTimeOfDay({ hour: 7, minute: 5 }, '24h')).toBe('07:05');
+  });
+});
+
+describe('reminder settings storage', () => {
+  it('sanitizes stored settings, sorting times and dropping invalid values', () => {
+    expect(
+      sanitizeReminderSettings({
+        dailyTimes: [{ hour: 20, minute: 0 }, { hour: 25, minute: 0 }, { hour: 8, minute: 0 }, { hour: 20, minute: 0 }],
+        afterMeal: { enabled: true, delayMinutes: 7 },
+        noReading: { enabled: 'yes', hours: 4 },
+      })
+    ).toEqual({
+      dailyTimes: [{ hour: 8, minute: 0 }, { hour: 20, minute: 0 }],
+      afterMeal: { enabled: true, delayMinutes: 120 },
+      noReading: { enabled: false, hours: 4 },
+    });
+    expect(sanitizeReminderSettings(null)).toEqual(DEFAULT_REMINDER_SETTINGS);
+  });
+
+  it('round-trips through storage', async () => {
+    const storage = createMemoryStorageAdapter();
+    const settings = settingsWith({ dailyTimes: [{ hour: 9, minute: 0 }], noReading: { enabled: true, hours: 12 } });
+    await saveReminderSettings(storage, settings);
+    await expect(loadReminderSettings(storage)).resolves.toEqual(settings);
+  });
+});
@@ -0,0 +1,56 @@
+import { createMemoryStorageAdapter } from '../storage';
+import {
+  AppSettings,
+  DEFAULT_SETTINGS,
+  SETTINGS_STORAGE_KEY,
+  loadSettings,
+  resolveThemeName,
+  sanitizeSettings,
+  saveSettings,
+} from '../settings';
+
+describe('sanitizeSettings', () => {
+  it('falls back for missing or unsupported values', () => {
+    expect(sanitizeSettings(null)).toEqual(DEFAULT_SETTINGS);
+    expect(
+      sanitizeSettings({ preferredUnit: 'mmol/L', decimals: { 'mg/dL': 3, 'mmol/L': 1 }, decimalSeparator: ';', timeFormat: '24h' })
+    ).toEqual({ ...DEFAULT_SETTINGS, preferredUnit: 'mmol/L', decimals: { 'mg/dL': 0, 'mmol/L': 1 }, timeFormat: '24h' });
+  });
+
+  it('uses the given fallback for fields that are absent', () => {
+    const fallback: AppSettings = { ...DEFAULT_SETTINGS, decimalSeparator: ',' };
+    expect(sanitizeSettings({ preferredUnit: 'mmol/L' }, fallback)).toEqual({ ...fallback, preferredUnit: 'mmol/L' });
+  });
+});
+
+describe('settings persistence', () => {
+  it('round-trips through storage and defaults when empty', async () => {
+    const storage = createMemoryStorageAdapter();
+    expect(await loadSettings(storage)).toEqual(DEFAULT_SETTINGS);
+    const settings: AppSettings = {
+      preferredUnit: 'mmol/L',
+      decimals: { 'mg/dL': 1, 'mmol/L': 1 },
+      decimalSeparator: ',',
+      timeFormat: '24h',
+      themePreference: 'high-contrast',
+    };
+    await saveSettings(storage, settings);
+    expect(await loadSettings(storage)).toEqual(settings);
+  });
+
+  it('upgrades version 1 settings to follow the system theme', async () => {
+    const storage = createMemoryStorageAdapter();
+    const v1 = { preferredUnit: 'mmol/L', decimals: { 'mg/dL': 0, 'mmol/L': 1 }, decimalSeparator: '.', timeFormat: '12h' };
+    await storage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify({ version: 1, data: v1 }));
+    expect(await loadSettings(storage)).toEqual({ ...v1, themePreference: 'system' });
+  });
+});
+
+describe('resolveThemeName', () => {
+  it('follows the device scheme only for the system preference', () => {
+    expect(resolveThemeName('system', 'dark')).toBe('dark');
+    expect(resolveThemeName('system', null)).toBe('light');
+    expect(resolveThemeName('light', 'dark')).toBe('light');
+    expect(resolveThemeName('high-contrast', 'light')).toBe('highContrast');
+  });
+});
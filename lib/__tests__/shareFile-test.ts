@@ -0,0 +1,39 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+import { shareFile } from '../shareFile';
+
+jest.mock('expo-file-system', () => ({
+  cacheDirectory: 'file:///cache/',
+  EncodingType: { UTF8: 'utf8' },
+  writeAsStringAsync: jest.fn().mockResolvedValue(undefined),
+  deleteAsync: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: jest.fn().mockResolvedValue(true),
+  shareAsync: jest.fn(),
+}));
+
+const file = { fileName: 'glucose-history.csv', mimeType: 'text/csv', contents: 'date,mg/dL\n' };
+
+describe('shareFile', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('deletes the exported file once the share sheet closes', async () => {
+    jest.mocked(Sharing.shareAsync).mockResolvedValue(undefined);
+    await shareFile(file);
+
+    expect(Sharing.shareAsync).toHaveBeenCalledWith('file:///cache/glucose-history.csv', expect.anything());
+    expect(FileSystem.deleteAsync).toHaveBeenCalledWith('file:///cache/glucose-history.csv', { idempotent: true });
+  });
+
+  it('deletes the exported file when sharing fails', async () => {
+    jest.mocked(Sharing.shareAsync).mockRejectedValue(new Error('Share failed.'));
+
+    await expect(shareFile(file)).rejects.toThrow('Share failed.');
+    expect(FileSystem.deleteAsync).toHaveBeenCalledWith('file:///cache/glucose-history.csv', { idempotent: true });
+  });
+});
@@ -0,0 +1,64 @@
+import { HistoryItem, convertGlucose } from '../glucose';
+import {
+  DAY_MS,
+  computeGlycemicStats,
+  estimatedA1cFromMean,
+  filterByWindow,
+  glucoseManagementIndicator,
+  median,
+  percentile,
+  standardDeviation,
+} from '../statistics';
+
+const reading = (mgdl: number, timestamp = 0): HistoryItem => ({
+  id: `${timestamp}-${mgdl}`,
+  timestamp,
+  ...convertGlucose(mgdl, 'mg/dL'),
+});
+
+describe('descriptive statistics', () => {
+  it('computes the median of odd and even length lists', () => {
+    expect(median([3, 1, 2])).toBe(2);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+  });
+
+  it('interpolates percentiles between ranks', () => {
+    expect(percentile([1, 2, 3, 4, 5], 50)).toBe(3);
+    expect(percentile([1, 2, 3, 4, 5], 25)).toBe(2);
+    expect(percentile([10, 20], 75)).toBe(17.5);
+    expect(percentile([7], 95)).toBe(7);
+  });
+
+  it('computes the population standard deviation', () => {
+    expect(standardDeviation([2, 4, 4, 4, 5, 5, 7, 9])).toBe(2);
+  });
+
+  it('derives GMI and estimated A1c from mean glucose', () => {
+    expect(glucoseManagementIndicator(154)).toBeCloseTo(6.99, 2);
+    expect(estimatedA1cFromMean(154)).toBeCloseTo(7.0, 1);
+  });
+});
+
+describe('computeGlycemicStats', () => {
+  it('returns null without readings', () => {
+    expect(computeGlycemicStats([])).toBeNull();
+  });
+
+  it('splits readings into range percentages', () => {
+    const stats = computeGlycemicStats([reading(50), reading(65), reading(100), reading(150), reading(200), reading(300)])!;
+    expect(stats.count).toBe(6);
+    expect(stats.timeBelowRange).toBeCloseTo(100 / 3);
+    expect(stats.timeInRange).toBeCloseTo(100 / 3);
+    expect(stats.timeAboveRange).toBeCloseTo(100 / 3);
+    expect(stats.rangePercentages['very-low']).toBeCloseTo(100 / 6);
+    expect(stats.coefficientOfVariation).toBeCloseTo((stats.standardDeviation / stats.mean) * 100);
+  });
+
+  it('only includes readings inside the selected window', () => {
+    const now = 100 * DAY_MS;
+    const history = [reading(100, now - DAY_MS), reading(120, now - 10 * DAY_MS), reading(140, now - 40 * DAY_MS)];
+    expect(filterByWindow(history, 7, now)).toHaveLength(1);
+    expect(filterByWindow(history, 14, now)).toHaveLength(2);
+    expect(filterByWindow(history, 90, now)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,66 @@
+import { convertGlucose } from '../glucose';
+import { createMemoryStorageAdapter } from '../storage';
+import {
+  DEFAULT_TARGET_RANGES,
+  TargetRangeSettings,
+  classifyGlucose,
+  describeClassification,
+  loadTargetRanges,
+  sanitizeTargetRanges,
+  saveTargetRanges,
+  validateTargetRange,
+} from '../targetRange';
+
+const mgdl = (value: number) => convertGlucose(value, 'mg/dL');
+
+describe('classifyGlucose', () => {
+  it.each([
+    [40, 'very-low'],
+    [60, 'low'],
+    [70, 'in-range'],
+    [180, 'in-range'],
+    [200, 'high'],
+    [300, 'very-high'],
+  ])('classifies %p mg/dL as %p with the default range', (value, expected) => {
+    expect(classifyGlucose(mgdl(value))).toBe(expected);
+  });
+
+  it('uses context-specific ranges stored in mmol/L', () => {
+    const settings: TargetRangeSettings = {
+      unit: 'mmol/L',
+      default: { low: 3.9, high: 10 },
+      fasting: { low: 4, high: 7 },
+    };
+    expect(classifyGlucose({ ...mgdl(150), context: 'fasting' }, settings)).toBe('high');
+    expect(classifyGlucose({ ...mgdl(150), context: 'post-meal' }, settings)).toBe('in-range');
+  });
+
+  it('describes the result against the applicable target', () => {
+    expect(describeClassification(mgdl(100), DEFAULT_TARGET_RANGES, 'mg/dL')).toBe('In range (target 70–180 mg/dL)');
+    expect(describeClassification(mgdl(200), DEFAULT_TARGET_RANGES, 'mmol/L')).toBe('High (target 3.9–10.0 mmol/L)');
+  });
+});
+
+describe('target range settings', () => {
+  it('rejects inverted or empty ranges', () => {
+    expect(validateTargetRange({ low: 180, high: 70 })).not.toBeNull();
+    expect(validateTargetRange({ low: NaN, high: 70 })).not.toBeNull();
+    expect(validateTargetRange({ low: 70, high: 180 })).toBeNull();
+  });
+
+  it('falls back to defaults for invalid payloads and drops invalid optional ranges', () => {
+    expect(sanitizeTargetRanges(null)).toEqual(DEFAULT_TARGET_RANGES);
+    expect(sanitizeTargetRanges({ unit: 'mg/dL', default: { low: 80, high: 160 }, fasting: { low: 9, high: 1 } })).toEqual({
+      unit: 'mg/dL',
+      default: { low: 80, high: 160 },
+    });
+  });
+
+  it('persists through the storage adapter', async () => {
+    const storage = createMemoryStorageAdapter();
+    expect(await loadTargetRanges(storage)).toEqual(DEFAULT_TARGET_RANGES);
+    const settings: TargetRangeSettings = { unit: 'mmol/L', default: { low: 4, high: 10 }, postMeal: { low: 4, high: 8.5 } };
+    await saveTargetRanges(storage, settings);
+    expect(await loadTargetRanges(storage)).toEqual(settings);
+  });
+});
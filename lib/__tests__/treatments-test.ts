@@ -0,0 +1,67 @@
+import { DEFAULT_DISPLAY_FORMAT, convertGlucose, createHistoryItem } from '../glucose';
+import {
+  buildTreatmentMarkers,
+  createCarbEntry,
+  createInsulinEntry,
+  describeTreatment,
+  describeTreatmentMarkers,
+  formatTreatmentAmount,
+  markersInDomain,
+} from '../treatments';
+
+const at = (hour: number, minute = 0) => new Date(2026, 2, 2, hour, minute).getTime();
+
+const dose = createInsulinEntry(4, 'rapid', { timestamp: at(8), note: 'breakfast' });
+const meal = createCarbEntry(45, { timestamp: at(8, 5) });
+const basal = createInsulinEntry(12, 'long', { timestamp: at(22) });
+const reading = createHistoryItem(convertGlucose(180, 'mg/dL'), { timestamp: at(10) });
+
+describe('createInsulinEntry', () => {
+  it('stores the dose without a glucose value', () => {
+    expect(dose).toMatchObject({ type: 'insulin', insulinUnits: 4, insulinKind: 'rapid', mgdlValue: 0, note: 'breakfast' });
+    expect(meal).toMatchObject({ type: 'carbs', carbGrams: 45, mgdlValue: 0 });
+  });
+});
+
+describe('formatTreatmentAmount', () => {
+  it('shows only the decimals an amount needs', () => {
+    expect(formatTreatmentAmount(4, 'insulin')).toBe('4 U');
+    expect(formatTreatmentAmount(1.5, 'insulin', { ...DEFAULT_DISPLAY_FORMAT, decimalSeparator: ',' })).toBe('1,5 U');
+    expect(formatTreatmentAmount(0.05, 'insulin')).toBe('0.05 U');
+    expect(formatTreatmentAmount(45, 'carbs')).toBe('45 g');
+  });
+});
+
+describe('describeTreatment', () => {
+  it('names the amount and insulin type', () => {
+    expect(describeTreatment(dose)).toBe('4 U rapid-acting insulin');
+    expect(describeTreatment(basal)).toBe('12 U long-acting insulin');
+    expect(describeTreatment(meal)).toBe('45 g carbs');
+    expect(describeTreatment(reading)).toBe('');
+  });
+});
+
+describe('buildTreatmentMarkers', () => {
+  it('returns treatments only, oldest first', () => {
+    const markers = buildTreatmentMarkers([basal, reading, meal, dose]);
+    expect(markers.map(marker => [marker.type, marker.label])).toEqual([
+      ['insulin', '4 U'],
+      ['carbs', '45 g'],
+      ['insulin', '12 U'],
+    ]);
+    expect(markers[0]).toMatchObject({ id: dose.id, timestamp: dose.timestamp, note: 'breakfast' });
+  });
+
+  it('keeps only markers inside the visible window and summarises them', () => {
+    const markers = markersInDomain(buildTreatmentMarkers([basal, reading, meal, dose]), [at(7), at(12)]);
+    expect(markers.map(marker => marker.id)).toEqual([dose.id, meal.id]);
+    expect(describeTreatmentMarkers(markers)).toBe('1 insulin dose and 1 carb entry');
+    expect(describeTreatmentMarkers([])).toBe('');
+  });
+
+  it('keeps markers that fall exactly on the domain edges', () => {
+    const markers = buildTreatmentMarkers([basal, meal, dose]);
+    expect(markersInDomain(markers, [at(8), at(8, 5)]).map(marker => marker.id)).toEqual([dose.id, meal.id]);
+    expect(markersInDomain(markers, [at(8) + 1, at(8, 5) - 1])).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+import { DEFAULT_DISPLAY_FORMAT } from '../glucose';
+import { A1C_LIMITS, GLUCOSE_LIMITS, validateA1cInput, validateGlucoseInput, validateTreatmentInput } from '../validation';
+
+describe('validateGlucoseInput', () => {
+  it('accepts plausible readings without a message', () => {
+    expect(validateGlucoseInput('120', 'mg/dL')).toEqual({ value: 120 });
+    expect(validateGlucoseInput('5,6', 'mmol/L')).toEqual({ value: 5.6 });
+  });
+
+  it('stays silent while the input is empty', () => {
+    expect(validateGlucoseInput('  ', 'mg/dL')).toEqual({ value: null });
+  });
+
+  it('rejects input that is not a positive number', () => {
+    expect(validateGlucoseInput('abc', 'mg/dL')).toMatchObject({ value: null, severity: 'error' });
+    expect(validateGlucoseInput('0', 'mmol/L')).toMatchObject({ value: null, severity: 'error' });
+  });
+
+  it('suggests mg/dL for a mg/dL-sized value entered as mmol/L', () => {
+    expect(validateGlucoseInput('180', 'mmol/L')).toEqual({
+      value: null,
+      severity: 'error',
+      message: '180 mmol/L is unusual. Did you mean 180 mg/dL?',
+      suggestedUnit: 'mg/dL',
+    });
+  });
+
+  it('warns but still converts when the value is possible in the selected unit', () => {
+    expect(validateGlucoseInput('8', 'mg/dL')).toMatchObject({ value: null, suggestedUnit: 'mmol/L' });
+    expect(validateGlucoseInput('15', 'mg/dL')).toMatchObject({ value: 15, severity: 'warning', suggestedUnit: 'mmol/L' });
+    expect(validateGlucoseInput('45', 'mmol/L')).toMatchObject({ value: 45, severity: 'warning', suggestedUnit: 'mg/dL' });
+  });
+
+  it('rejects values beyond the physiological limits', () => {
+    const result = validateGlucoseInput('6000', 'mg/dL');
+    expect(result).toEqual({ value: null, severity: 'error', message: 'Enter a value between 10 and 2700 mg/dL.' });
+    expect(validateGlucoseInput('700', 'mmol/L', { ...DEFAULT_DISPLAY_FORMAT, decimalSeparator: ',' }).message).toBe(
+      'Enter a value between 0,6 and 149 mmol/L.'
+    );
+  });
+
+  it('keeps both units on the same physiological scale', () => {
+    expect(GLUCOSE_LIMITS['mmol/L'].plausible.max).toBeCloseTo(33.3, 1);
+    expect(GLUCOSE_LIMITS['mmol/L'].possible.min).toBeCloseTo(0.55, 2);
+  });
+});
+
+describe('validateA1cInput', () => {
+  it('accepts plausible HbA1c values', () => {
+    expect(validateA1cInput('6.5', '%')).toEqual({ value: 6.5 });
+    expect(validateA1cInput('48', 'mmol/mol')).toEqual({ value: 48 });
+  });
+
+  it('suggests the other HbA1c unit for a likely mix-up', () => {
+    expect(validateA1cInput('53', '%')).toEqual({
+      value: null,
+      severity: 'error',
+      message: '53% is unusual. Did you mean 53 mmol/mol?',
+      suggestedUnit: 'mmol/mol',
+    });
+    expect(validateA1cInput('7', 'mmol/mol')).toMatchObject({ value: 7, severity: 'warning', suggestedUnit: '%' });
+  });
+
+  it('only accepts eAG values that convert to a possible HbA1c', () => {
+    expect(A1C_LIMITS['mg/dL'].possible.min).toBeGreaterThan(0);
+    expect(validateA1cInput('15', 'mg/dL')).toMatchObject({ value: null, severity: 'error' });
+    expect(validateA1cInput('154', 'mg/dL')).toEqual({ value: 154 });
+  });
+});
+
+describe('validateTreatmentInput', () => {
+  it('accepts insulin doses and carbohydrate amounts within their limits', () => {
+    expect(validateTreatmentInput('0.5', 'insulin')).toEqual({ value: 0.5 });
+    expect(validateTreatmentInput('45', 'carbs')).toEqual({ value: 45 });
+    expect(validateTreatmentInput('', 'carbs')).toEqual({ value: null });
+  });
+
+  it('rejects amounts outside the limits with the unit in the message', () => {
+    expect(validateTreatmentInput('150', 'insulin')).toMatchObject({ value: null, message: 'Enter a value between 0.1 and 100 U.' });
+    expect(validateTreatmentInput('1000', 'carbs', { ...DEFAULT_DISPLAY_FORMAT, decimalSeparator: ',' })).toMatchObject({
+      message: 'Enter a value between 1 and 500 g.',
+    });
+    expect(validateTreatmentInput('x', 'insulin')).toMatchObject({ value: null, severity: 'error' });
+  });
+});
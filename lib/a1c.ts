@@ -0,0 +1,147 @@
+import {
+  DEFAULT_DISPLAY_FORMAT,
+  DisplayFormat,
+  HistoryItem,
+  HistoryItemDetails,
+  MIN_POINTS_FOR_CHART,
+  Unit,
+  createHistoryItem,
+  formatDecimal,
+  formatGlucose,
+  isA1cEntry,
+  mgdlToMmol,
+  mmolToMgdl,
+  parseGlucoseInput,
+  sortChronologically,
+} from '@/lib/glucose';
+
+/**
+ * The quantities offered by the HbA1c converter: lab HbA1c in NGSP (%) or IFCC (mmol/mol) units,
+ * and estimated average glucose (eAG) in either glucose unit.
+ */
+export type A1cQuantity = '%' | 'mmol/mol' | Unit;
+
+export const A1C_QUANTITIES: A1cQuantity[] = ['%', 'mmol/mol', 'mg/dL', 'mmol/L'];
+
+export const A1C_QUANTITY_LABELS: Record<A1cQuantity, string> = {
+  '%': 'HbA1c %',
+  'mmol/mol': 'HbA1c mmol/mol',
+  'mg/dL': 'eAG mg/dL',
+  'mmol/L': 'eAG mmol/L',
+};
+
+export interface A1cChartPoint {
+  timestamp: number;
+  a1cPercent: number;
+  note?: string;
+}
+
+export interface A1cConversion {
+  a1cPercent: number;
+  a1cMmolMol: number;
+  mgdlValue: number;
+  mmolValue: number;
+}
+
+// NGSP/IFCC master equation.
+export function ngspToIfcc(percent: number): number {
+  return (percent - 2.15) * 10.929;
+}
+
+export function ifccToNgsp(mmolMol: number): number {
+  return mmolMol / 10.929 + 2.15;
+}
+
+// ADAG study regression (Nathan et al. 2008): eAG (mg/dL) = 28.7 × A1c − 46.7.
+export function a1cToEag(percent: number): number {
+  return 28.7 * percent - 46.7;
+}
+
+export function eagToA1c(mgdl: number): number {
+  return (mgdl + 46.7) / 28.7;
+}
+
+function percentFrom(value: number, from: A1cQuantity): number {
+  switch (from) {
+    case '%':
+      return value;
+    case 'mmol/mol':
+      return ifccToNgsp(value);
+    case 'mg/dL':
+      return eagToA1c(value);
+    case 'mmol/L':
+      return eagToA1c(mmolToMgdl(value));
+  }
+}
+
+export function convertA1c(value: number, from: A1cQuantity): A1cConversion {
+  const a1cPercent = percentFrom(value, from);
+  const mgdlValue = from === 'mg/dL' ? value : from === 'mmol/L' ? mmolToMgdl(value) : a1cToEag(a1cPercent);
+  return {
+    a1cPercent,
+    a1cMmolMol: ngspToIfcc(a1cPercent),
+    mgdlValue,
+    mmolValue: from === 'mmol/L' ? value : mgdlToMmol(mgdlValue),
+  };
+}
+
+/**
+ * Parses input for the HbA1c converter. Values whose conversion falls outside what the formulas
+ * can represent (e.g. an HbA1c so low the eAG would be negative) are rejected.
+ */
+export function parseA1cInput(input: string, from: A1cQuantity): A1cConversion | null {
+  const value = parseGlucoseInput(input);
+  if (value === null) {
+    return null;
+  }
+  const conversion = convertA1c(value, from);
+  if (conversion.a1cMmolMol <= 0 || conversion.mgdlValue <= 0) {
+    return null;
+  }
+  return conversion;
+}
+
+export function formatA1cPercent(percent: number, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT): string {
+  return `${formatDecimal(percent, 1, format.decimalSeparator)}%`;
+}
+
+export function formatA1cMmolMol(mmolMol: number): string {
+  return `${mmolMol.toFixed(0)} mmol/mol`;
+}
+
+/**
+ * All four quantities in one line, HbA1c first: "7.0% (53 mmol/mol) ≈ eAG 154 mg/dL / 8.55 mmol/L".
+ */
+export function formatA1cResult(conversion: A1cConversion, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT): string {
+  const a1c = `${formatA1cPercent(conversion.a1cPercent, format)} (${formatA1cMmolMol(conversion.a1cMmolMol)})`;
+  const eag = `${formatGlucose(conversion.mgdlValue, 'mg/dL', format)} mg/dL / ${formatGlucose(conversion.mmolValue, 'mmol/L', format)} mmol/L`;
+  return `HbA1c ${a1c} ≈ eAG ${eag}`;
+}
+
+export function createA1cHistoryItem(conversion: A1cConversion, details: HistoryItemDetails = {}): HistoryItem {
+  return {
+    ...createHistoryItem(conversion, details),
+    type: 'a1c',
+    a1cPercent: conversion.a1cPercent,
+  };
+}
+
+export function describeA1cEntry(item: HistoryItem, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT): string {
+  const percent = item.a1cPercent ?? eagToA1c(item.mgdlValue);
+  return `HbA1c ${formatA1cPercent(percent, format)} · ${formatA1cMmolMol(ngspToIfcc(percent))}`;
+}
+
+/**
+ * Oldest-first HbA1c series for its own chart, or null when fewer than two results are logged.
+ */
+export function buildA1cChartPoints(history: HistoryItem[]): A1cChartPoint[] | null {
+  const entries = history.filter(isA1cEntry);
+  if (entries.length < MIN_POINTS_FOR_CHART) {
+    return null;
+  }
+  return sortChronologically(entries).map(item => ({
+    timestamp: item.timestamp,
+    a1cPercent: item.a1cPercent ?? eagToA1c(item.mgdlValue),
+    note: item.note,
+  }));
+}
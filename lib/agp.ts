@@ -0,0 +1,60 @@
+import { DEFAULT_DISPLAY_FORMAT, HistoryItem, TimeFormat, Unit, glucoseReadings, valueInUnit } from '@/lib/glucose';
+import { percentile } from '@/lib/statistics';
+
+// Fewer readings than this spread over a day don't say anything about daily patterns.
+export const AGP_MIN_READINGS = 10;
+
+export const HOURS_PER_DAY = 24;
+
+/**
+ * Distribution of every reading taken during one hour of the day (0–23, local time), in the
+ * requested unit. Together the bins form an Ambulatory Glucose Profile.
+ */
+export interface AgpHourBin {
+  hour: number;
+  count: number;
+  p5: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p95: number;
+}
+
+/**
+ * Folds all glucose readings into a single 24-hour day and summarises each hour by its median
+ * and 25–75th / 5–95th percentiles. Hours without readings are omitted; returns null when there
+ * are too few readings overall.
+ */
+export function buildAgpProfile(history: HistoryItem[], unit: Unit): AgpHourBin[] | null {
+  const readings = glucoseReadings(history);
+  if (readings.length < AGP_MIN_READINGS) {
+    return null;
+  }
+  const valuesByHour: number[][] = Array.from({ length: HOURS_PER_DAY }, () => []);
+  readings.forEach(item => {
+    valuesByHour[new Date(item.timestamp).getHours()].push(valueInUnit(item, unit));
+  });
+  return valuesByHour.flatMap((values, hour) =>
+    values.length === 0
+      ? []
+      : [
+          {
+            hour,
+            count: values.length,
+            p5: percentile(values, 5),
+            p25: percentile(values, 25),
+            median: percentile(values, 50),
+            p75: percentile(values, 75),
+            p95: percentile(values, 95),
+          },
+        ]
+  );
+}
+
+export function formatHourLabel(hour: number, timeFormat: TimeFormat = DEFAULT_DISPLAY_FORMAT.timeFormat): string {
+  const dayHour = hour % HOURS_PER_DAY;
+  if (timeFormat === '24h') {
+    return `${String(dayHour).padStart(2, '0')}:00`;
+  }
+  return `${dayHour % 12 === 0 ? 12 : dayHour % 12} ${dayHour < 12 ? 'AM' : 'PM'}`;
+}
@@ -0,0 +1,285 @@
+import {
+  DecryptionError,
+  EncryptedPayload,
+  KEY_LENGTH,
+  RandomBytes,
+  SALT_LENGTH,
+  base64ToBytes,
+  bytesToBase64,
+  decryptBytes,
+  decryptString,
+  deriveKey,
+  encryptBytes,
+  encryptString,
+  isEncryptedPayload,
+  parseEncryptedPayload,
+} from '@/lib/encryption';
+import { HISTORY_STORAGE_KEY } from '@/lib/historyStore';
+import { profileStorage } from '@/lib/profiles';
+import { StorageAdapter } from '@/lib/storage';
+import { StorageFormatError, VersionedSchema, backupKey, loadVersioned, saveVersioned } from '@/lib/versionedStore';
+
+export const LOCK_STORAGE_KEY = '@glucoSwapLock';
+
+export const PIN_MIN_LENGTH = 4;
+export const PIN_MAX_LENGTH = 8;
+
+export const PIN_KDF_ITERATIONS = 100_000;
+
+// Wrong PINs allowed before unlocking is paused; each further failure doubles the pause.
+export const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_BASE_MS = 30 * 1000;
+const LOCKOUT_MAX_MS = 60 * 60 * 1000;
+
+// Time in the background before the app locks again. Android also backgrounds the app while the
+// document picker, share sheet or print dialog is open; locking then would unmount the flow.
+export const BACKGROUND_LOCK_DELAY_MS = 2 * 60 * 1000;
+
+// Per-profile keys whose values are encrypted while the lock is on.
+export const ENCRYPTED_STORAGE_KEYS = [HISTORY_STORAGE_KEY, backupKey(HISTORY_STORAGE_KEY)];
+
+/**
+ * Persisted app lock. History is encrypted with a random data key; only that key is encrypted
+ * with the PIN-derived key (`wrappedKey`). Changing the PIN therefore rewrites this record alone
+ * and never touches the history, so an interrupted change cannot leave data unreadable.
+ */
+export interface LockConfig {
+  salt: string;
+  iterations: number;
+  wrappedKey: EncryptedPayload;
+  biometricsEnabled: boolean;
+  failedAttempts: number;
+  lockedUntil: number | null;
+}
+
+export type BiometricUnlockResult =
+  | { status: 'unlocked'; dataKey: Uint8Array }
+  // The user cancelled or failed the check.
+  | { status: 'cancelled' }
+  // No key is stored any more, e.g. the OS discarded it because biometric enrolment changed.
+  | { status: 'invalidated' };
+
+/**
+ * Keeps a copy of the data key in the OS keychain/keystore, released only after a successful
+ * biometric check, so the app can be unlocked without typing the PIN.
+ */
+export interface BiometricKeyStore {
+  isAvailable(): Promise<boolean>;
+  saveKey(dataKey: Uint8Array): Promise<void>;
+  unlockKey(prompt: string): Promise<BiometricUnlockResult>;
+  deleteKey(): Promise<void>;
+}
+
+export function validatePin(pin: string): string | null {
+  if (!/^\d+$/.test(pin)) {
+    return 'Use digits only.';
+  }
+  if (pin.length < PIN_MIN_LENGTH || pin.length > PIN_MAX_LENGTH) {
+    return `Use ${PIN_MIN_LENGTH} to ${PIN_MAX_LENGTH} digits.`;
+  }
+  return null;
+}
+
+async function wrapDataKey(
+  dataKey: Uint8Array,
+  pin: string,
+  randomBytes: RandomBytes,
+  iterations: number
+): Promise<Pick<LockConfig, 'salt' | 'iterations' | 'wrappedKey'>> {
+  const salt = randomBytes(SALT_LENGTH);
+  const pinKey = await deriveKey(pin, salt, iterations);
+  return { salt: bytesToBase64(salt), iterations, wrappedKey: encryptBytes(pinKey, dataKey, randomBytes) };
+}
+
+/**
+ * Turns the lock on: generates the data key and wraps it with `pin`.
+ */
+export async function createLockConfig(
+  pin: string,
+  randomBytes: RandomBytes,
+  iterations: number = PIN_KDF_ITERATIONS
+): Promise<{ config: LockConfig; dataKey: Uint8Array }> {
+  const dataKey = randomBytes(KEY_LENGTH);
+  const wrapped = await wrapDataKey(dataKey, pin, randomBytes, iterations);
+  return { config: { ...wrapped, biometricsEnabled: false, failedAttempts: 0, lockedUntil: null }, dataKey };
+}
+
+/**
+ * The data key, or null when `pin` is wrong.
+ */
+export async function unwrapDataKey(config: LockConfig, pin: string): Promise<Uint8Array | null> {
+  const pinKey = await deriveKey(pin, base64ToBytes(config.salt), config.iterations);
+  try {
+    return decryptBytes(pinKey, config.wrappedKey);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Re-keys for a new PIN with a fresh salt. The data key, and with it the stored history, stays
+ * the same.
+ */
+export async function changePin(
+  config: LockConfig,
+  dataKey: Uint8Array,
+  newPin: string,
+  randomBytes: RandomBytes,
+  iterations: number = PIN_KDF_ITERATIONS
+): Promise<LockConfig> {
+  return { ...config, ...(await wrapDataKey(dataKey, newPin, randomBytes, iterations)), failedAttempts: 0, lockedUntil: null };
+}
+
+export function lockoutRemainingMs(config: LockConfig, now: number = Date.now()): number {
+  return config.lockedUntil === null ? 0 : Math.max(0, config.lockedUntil - now);
+}
+
+export function registerFailedAttempt(config: LockConfig, now: number = Date.now()): LockConfig {
+  const failedAttempts = config.failedAttempts + 1;
+  if (failedAttempts < MAX_FAILED_ATTEMPTS) {
+    return { ...config, failedAttempts };
+  }
+  const pause = Math.min(LOCKOUT_BASE_MS * 2 ** (failedAttempts - MAX_FAILED_ATTEMPTS), LOCKOUT_MAX_MS);
+  return { ...config, failedAttempts, lockedUntil: now + pause };
+}
+
+export function registerSuccessfulUnlock(config: LockConfig): LockConfig {
+  return { ...config, failedAttempts: 0, lockedUntil: null };
+}
+
+/**
+ * Encrypts `keys` on write and decrypts them on read. Plaintext found on read is returned as is,
+ * so data written before the lock was turned on stays readable until it is next saved.
+ * Ciphertext that fails to decrypt is copied to the key's backup as is and reported as a
+ * `StorageFormatError`, the same way `loadVersioned` treats a payload it cannot decode.
+ */
+export function createEncryptedStorageAdapter(
+  storage: StorageAdapter,
+  dataKey: Uint8Array,
+  randomBytes: RandomBytes,
+  keys: string[] = ENCRYPTED_STORAGE_KEYS
+): StorageAdapter {
+  return {
+    getItem: async key => {
+      const raw = await storage.getItem(key);
+      if (raw === null || !keys.includes(key) || parseEncryptedPayload(raw) === null) {
+        return raw;
+      }
+      try {
+        return decryptString(dataKey, raw);
+      } catch (e) {
+        if (!(e instanceof DecryptionError)) {
+          throw e;
+        }
+        // Written to the underlying storage so the ciphertext is kept byte for byte.
+        if (keys.includes(backupKey(key))) {
+          await storage.setItem(backupKey(key), raw);
+        }
+        throw new StorageFormatError('Stored data could not be decrypted.');
+      }
+    },
+    setItem: (key, value) => storage.setItem(key, keys.includes(key) ? encryptString(dataKey, value, randomBytes) : value),
+    removeItem: key => storage.removeItem(key),
+  };
+}
+
+/**
+ * Encrypts every profile's stored history in place, e.g. right after the lock is turned on.
+ */
+export async function encryptStoredData(
+  storage: StorageAdapter,
+  profileIds: string[],
+  dataKey: Uint8Array,
+  randomBytes: RandomBytes
+): Promise<void> {
+  for (const profileId of profileIds) {
+    const plain = profileStorage(storage, profileId);
+    const encrypted = createEncryptedStorageAdapter(plain, dataKey, randomBytes);
+    for (const key of ENCRYPTED_STORAGE_KEYS) {
+      const raw = await plain.getItem(key);
+      if (raw !== null && parseEncryptedPayload(raw) === null) {
+        await encrypted.setItem(key, raw);
+      }
+    }
+  }
+}
+
+/**
+ * Writes every profile's history back as plaintext before the lock is turned off.
+ */
+export async function decryptStoredData(
+  storage: StorageAdapter,
+  profileIds: string[],
+  dataKey: Uint8Array,
+  randomBytes: RandomBytes
+): Promise<void> {
+  for (const profileId of profileIds) {
+    const plain = profileStorage(storage, profileId);
+    const encrypted = createEncryptedStorageAdapter(plain, dataKey, randomBytes);
+    for (const key of ENCRYPTED_STORAGE_KEYS) {
+      const value = await encrypted.getItem(key);
+      if (value !== null) {
+        await plain.setItem(key, value);
+      }
+    }
+  }
+}
+
+/**
+ * Last resort when the lock record cannot be read. Without it the data key is gone for good, so
+ * every profile's encrypted history is erased along with the lock; plaintext data is kept.
+ */
+export async function resetLock(storage: StorageAdapter, profileIds: string[]): Promise<void> {
+  for (const profileId of profileIds) {
+    const plain = profileStorage(storage, profileId);
+    for (const key of ENCRYPTED_STORAGE_KEYS) {
+      const raw = await plain.getItem(key);
+      if (raw !== null && parseEncryptedPayload(raw) !== null) {
+        await plain.removeItem(key);
+      }
+    }
+  }
+  await clearLockConfig(storage);
+}
+
+/**
+ * A damaged record throws rather than reading as "no lock": carrying on unlocked would treat the
+ * encrypted history as empty and overwrite it.
+ */
+export function sanitizeLockConfig(data: unknown): LockConfig | null {
+  if (data === null) {
+    return null;
+  }
+  const candidate = (typeof data === 'object' ? data : {}) as Partial<Record<keyof LockConfig, unknown>>;
+  if (typeof candidate.salt !== 'string' || !Number.isInteger(candidate.iterations) || !isEncryptedPayload(candidate.wrappedKey)) {
+    throw new StorageFormatError('App lock settings are damaged.');
+  }
+  return {
+    salt: candidate.salt,
+    iterations: candidate.iterations as number,
+    wrappedKey: candidate.wrappedKey,
+    biometricsEnabled: candidate.biometricsEnabled === true,
+    failedAttempts: Number.isInteger(candidate.failedAttempts) ? (candidate.failedAttempts as number) : 0,
+    lockedUntil: Number.isFinite(candidate.lockedUntil) ? (candidate.lockedUntil as number) : null,
+  };
+}
+
+export const lockSchema: VersionedSchema<LockConfig | null> = {
+  version: 1,
+  migrations: {
+    1: data => data,
+  },
+  validate: sanitizeLockConfig,
+};
+
+export async function loadLockConfig(storage: StorageAdapter): Promise<LockConfig | null> {
+  return loadVersioned(storage, LOCK_STORAGE_KEY, lockSchema, null);
+}
+
+export async function saveLockConfig(storage: StorageAdapter, config: LockConfig): Promise<void> {
+  await saveVersioned(storage, LOCK_STORAGE_KEY, lockSchema, config);
+}
+
+export async function clearLockConfig(storage: StorageAdapter): Promise<void> {
+  await storage.removeItem(LOCK_STORAGE_KEY);
+}
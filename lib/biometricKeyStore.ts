@@ -0,0 +1,36 @@
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
+
+import { BiometricKeyStore } from '@/lib/appLock';
+import { base64ToBytes, bytesToBase64 } from '@/lib/encryption';
+
+const DATA_KEY_ITEM = 'glucoswap.dataKey';
+
+// The keychain/keystore itself demands the biometric check before releasing the key, so it cannot
+// be read without one. The OS invalidates such an item when biometric enrolment changes.
+const KEY_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+  requireAuthentication: true,
+};
+
+export const biometricKeyStore: BiometricKeyStore | null = {
+  isAvailable: async () =>
+    SecureStore.canUseBiometricAuthentication() &&
+    (await LocalAuthentication.hasHardwareAsync()) &&
+    (await LocalAuthentication.isEnrolledAsync()),
+  saveKey: dataKey =>
+    SecureStore.setItemAsync(DATA_KEY_ITEM, bytesToBase64(dataKey), {
+      ...KEY_OPTIONS,
+      authenticationPrompt: 'Allow biometric unlock',
+    }),
+  unlockKey: async prompt => {
+    let stored: string | null;
+    try {
+      stored = await SecureStore.getItemAsync(DATA_KEY_ITEM, { ...KEY_OPTIONS, authenticationPrompt: prompt });
+    } catch {
+      return { status: 'cancelled' };
+    }
+    return stored === null ? { status: 'invalidated' } : { status: 'unlocked', dataKey: base64ToBytes(stored) };
+  },
+  deleteKey: () => SecureStore.deleteItemAsync(DATA_KEY_ITEM, KEY_OPTIONS),
+};
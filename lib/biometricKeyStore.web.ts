@@ -0,0 +1,4 @@
+import { BiometricKeyStore } from '@/lib/appLock';
+
+// Browsers offer no biometric-protected key storage; the PIN is the only way in.
+export const biometricKeyStore: BiometricKeyStore | null = null;
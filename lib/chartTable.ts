@@ -0,0 +1,120 @@
+import { A1cChartPoint, formatA1cPercent } from '@/lib/a1c';
+import { AgpHourBin, formatHourLabel } from '@/lib/agp';
+import {
+  ChartPoint,
+  DEFAULT_DISPLAY_FORMAT,
+  DisplayFormat,
+  Unit,
+  formatChartDate,
+  formatGlucose,
+  formatTimestamp,
+} from '@/lib/glucose';
+import {
+  GLUCOSE_RANGE_LABELS,
+  GLUCOSE_RANGE_SYMBOLS,
+  GlucoseRange,
+  TargetRangeSettings,
+  classifyGlucose,
+} from '@/lib/targetRange';
+
+/**
+ * A chart's data as plain rows, for the table shown to screen readers (and anyone else) instead
+ * of the drawing. `cells` line up with the table's column titles.
+ */
+export interface ChartTable {
+  columns: string[];
+  rows: ChartTableRow[];
+}
+
+export interface ChartTableRow {
+  key: string;
+  cells: string[];
+  range?: GlucoseRange;
+}
+
+// The AGP always has the same shape, so it is described once and its numbers left to the table.
+export const AGP_DESCRIPTION =
+  'Daily glucose profile: hourly median with 25–75% and 5–95% bands. The data table lists every hour.';
+
+export function describeRange(range: GlucoseRange): string {
+  return `${GLUCOSE_RANGE_SYMBOLS[range]} ${GLUCOSE_RANGE_LABELS[range]}`;
+}
+
+/**
+ * One row per reading, newest first, with its time, value and range status.
+ */
+export function buildTrendTable(
+  points: ChartPoint[],
+  unit: Unit,
+  targetRanges: TargetRangeSettings,
+  format: DisplayFormat = DEFAULT_DISPLAY_FORMAT
+): ChartTable {
+  const rows = [...points].reverse().map(point => {
+    const range = classifyGlucose(point, targetRanges);
+    return {
+      key: String(point.timestamp),
+      cells: [formatTimestamp(point.timestamp, format.timeFormat), formatGlucose(point.yValue, unit, format), describeRange(range)],
+      range,
+    };
+  });
+  return { columns: ['Time', unit, 'Range'], rows };
+}
+
+/**
+ * One row per hour of the Ambulatory Glucose Profile with its median and percentile bands.
+ */
+export function buildAgpTable(profile: AgpHourBin[], unit: Unit, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT): ChartTable {
+  const glucose = (value: number) => formatGlucose(value, unit, format);
+  const rows = profile.map(bin => ({
+    key: String(bin.hour),
+    cells: [
+      formatHourLabel(bin.hour, format.timeFormat),
+      glucose(bin.median),
+      `${glucose(bin.p25)}–${glucose(bin.p75)}`,
+      `${glucose(bin.p5)}–${glucose(bin.p95)}`,
+    ],
+  }));
+  return { columns: ['Hour', `Median (${unit})`, '25–75%', '5–95%'], rows };
+}
+
+/**
+ * One-sentence summary read out in place of the trend chart drawing, e.g. "12 readings from
+ * 01 Mar 08:00 to 05 Mar 21:30, lowest 72, highest 190, latest 110 mg/dL."
+ */
+export function describeTrend(points: ChartPoint[], unit: Unit, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT): string {
+  if (points.length === 0) {
+    return 'No readings in this period.';
+  }
+  const values = points.map(point => point.yValue);
+  const glucose = (value: number) => formatGlucose(value, unit, format);
+  const first = points[0];
+  const last = points[points.length - 1];
+  return (
+    `${points.length} ${points.length === 1 ? 'reading' : 'readings'} from ${formatTimestamp(first.timestamp, format.timeFormat)} ` +
+    `to ${formatTimestamp(last.timestamp, format.timeFormat)}, lowest ${glucose(Math.min(...values))}, ` +
+    `highest ${glucose(Math.max(...values))}, latest ${glucose(last.yValue)} ${unit}.`
+  );
+}
+
+/**
+ * One row per HbA1c result, newest first.
+ */
+export function buildA1cTable(points: A1cChartPoint[], format: DisplayFormat = DEFAULT_DISPLAY_FORMAT): ChartTable {
+  const rows = [...points].reverse().map(point => ({
+    key: String(point.timestamp),
+    cells: [formatChartDate(point.timestamp), formatA1cPercent(point.a1cPercent, format), point.note ?? ''],
+  }));
+  return { columns: ['Date', 'HbA1c', 'Note'], rows };
+}
+
+export function describeA1cTrend(points: A1cChartPoint[], format: DisplayFormat = DEFAULT_DISPLAY_FORMAT): string {
+  if (points.length === 0) {
+    return 'No HbA1c results.';
+  }
+  const first = points[0];
+  const last = points[points.length - 1];
+  return (
+    `${points.length} HbA1c ${points.length === 1 ? 'result' : 'results'}, from ${formatA1cPercent(first.a1cPercent, format)} ` +
+    `on ${formatChartDate(first.timestamp)} to ${formatA1cPercent(last.a1cPercent, format)} on ${formatChartDate(last.timestamp)}.`
+  );
+}
@@ -0,0 +1,125 @@
+import { ChartPoint, DEFAULT_DISPLAY_FORMAT, TimeFormat } from '@/lib/glucose';
+import { DAY_MS } from '@/lib/statistics';
+
+/**
+ * Time-window maths for the interactive trend chart: presets, pinch/brush zoom, panning,
+ * axis ticks and hit-testing. Domains are `[start, end]` epoch milliseconds.
+ */
+export type TimeDomain = [number, number];
+
+export type ChartRangePreset = '24h' | '7d' | '30d' | 'all';
+
+export const CHART_RANGE_PRESETS: ChartRangePreset[] = ['24h', '7d', '30d', 'all'];
+
+export const CHART_RANGE_PRESET_LABELS: Record<ChartRangePreset, string> = {
+  '24h': '24h',
+  '7d': '7d',
+  '30d': '30d',
+  all: 'All',
+};
+
+const PRESET_SPANS_MS: Record<Exclude<ChartRangePreset, 'all'>, number> = {
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+};
+
+// Zooming stops at one hour so a pinch can't collapse the axis onto a single reading.
+export const MIN_CHART_SPAN_MS = 60 * 60 * 1000;
+
+// Above this span the axis shows dates instead of times of day.
+const TIME_OF_DAY_TICKS_MAX_SPAN_MS = 2 * DAY_MS;
+
+/**
+ * The full extent the chart may be zoomed or panned across: the data, extended to `now`.
+ */
+export function chartBounds(points: ChartPoint[], now: number = Date.now()): TimeDomain {
+  const first = points.length > 0 ? points[0].timestamp : now;
+  const last = Math.max(points.length > 0 ? points[points.length - 1].timestamp : now, now);
+  return last - first < MIN_CHART_SPAN_MS ? [last - MIN_CHART_SPAN_MS, last] : [first, last];
+}
+
+export function presetDomain(points: ChartPoint[], preset: ChartRangePreset, now: number = Date.now()): TimeDomain {
+  if (preset === 'all') {
+    return chartBounds(points, now);
+  }
+  return [now - PRESET_SPANS_MS[preset], now];
+}
+
+/**
+ * Keeps a domain inside `bounds` and at least `MIN_CHART_SPAN_MS` wide, resizing around its centre.
+ */
+export function clampDomain([start, end]: TimeDomain, bounds: TimeDomain): TimeDomain {
+  const boundsSpan = bounds[1] - bounds[0];
+  const span = Math.min(Math.max(end - start, MIN_CHART_SPAN_MS), Math.max(boundsSpan, MIN_CHART_SPAN_MS));
+  const centeredStart = (start + end) / 2 - span / 2;
+  const clampedStart = Math.min(Math.max(centeredStart, bounds[0]), bounds[1] - span);
+  return [clampedStart, clampedStart + span];
+}
+
+/**
+ * Zooms by `scale` (>1 zooms in) around `focus`, the 0–1 position of the gesture across the plot.
+ */
+export function zoomDomain(domain: TimeDomain, scale: number, focus: number, bounds: TimeDomain): TimeDomain {
+  const span = domain[1] - domain[0];
+  const focusTime = domain[0] + span * focus;
+  const nextSpan = span / scale;
+  const start = focusTime - nextSpan * focus;
+  return clampDomain([start, start + nextSpan], bounds);
+}
+
+export function panDomain(domain: TimeDomain, deltaMs: number, bounds: TimeDomain): TimeDomain {
+  return clampDomain([domain[0] + deltaMs, domain[1] + deltaMs], bounds);
+}
+
+/**
+ * Points inside the domain plus the nearest one beyond each edge, so the line runs to the plot border.
+ */
+export function pointsInDomain<T extends { timestamp: number }>(points: T[], [start, end]: TimeDomain): T[] {
+  const firstInside = points.findIndex(point => point.timestamp >= start);
+  if (firstInside === -1) {
+    return points.slice(-1);
+  }
+  let lastInside = points.length - 1;
+  while (lastInside >= 0 && points[lastInside].timestamp > end) {
+    lastInside--;
+  }
+  return points.slice(Math.max(0, firstInside - 1), Math.min(points.length, lastInside + 2));
+}
+
+/**
+ * Y-axis extent covering the values and the target band, with 10% headroom.
+ */
+export function valueDomain(values: number[], band?: { low: number; high: number }): [number, number] {
+  const all = band ? [...values, band.low, band.high] : values;
+  const min = Math.min(...all);
+  const max = Math.max(...all);
+  const padding = (max - min || max || 1) * 0.1;
+  return [Math.max(0, min - padding), max + padding];
+}
+
+export function timeTicks([start, end]: TimeDomain, count: number = 5): number[] {
+  const step = (end - start) / (count - 1);
+  return Array.from({ length: count }, (_, index) => start + step * index);
+}
+
+export function formatTimeTick(
+  timestamp: number,
+  spanMs: number,
+  timeFormat: TimeFormat = DEFAULT_DISPLAY_FORMAT.timeFormat
+): string {
+  const date = new Date(timestamp);
+  return spanMs <= TIME_OF_DAY_TICKS_MAX_SPAN_MS
+    ? date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', hour12: timeFormat === '12h' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+export function nearestPoint<T extends { timestamp: number }>(points: T[], timestamp: number): T | null {
+  let nearest: T | null = null;
+  for (const point of points) {
+    if (!nearest || Math.abs(point.timestamp - timestamp) < Math.abs(nearest.timestamp - timestamp)) {
+      nearest = point;
+    }
+  }
+  return nearest;
+}
@@ -0,0 +1,105 @@
+import { StorageAdapter } from '@/lib/storage';
+import { StorageFormatError } from '@/lib/versionedStore';
+
+/**
+ * Android's AsyncStorage cannot read back a row larger than its 2 MB cursor window, which years
+ * of readings easily exceed. Values are stored as UTF-8, at most 3 bytes per UTF-16 code unit,
+ * so this many characters always fits with room to spare.
+ */
+export const MAX_STORED_VALUE_LENGTH = 512 * 1024;
+
+const MANIFEST_PATTERN = /^@glucoSwapChunks:([ab]):(\d+)$/;
+
+// The pieces of a value alternate between two generations, so writing a new value never
+// overwrites a piece the current manifest still points to.
+type Generation = 'a' | 'b';
+
+interface ChunkManifest {
+  generation: Generation;
+  count: number;
+}
+
+function parseManifest(raw: string | null): ChunkManifest | null {
+  const match = raw === null ? null : MANIFEST_PATTERN.exec(raw);
+  return match ? { generation: match[1] as Generation, count: Number(match[2]) } : null;
+}
+
+function formatManifest({ generation, count }: ChunkManifest): string {
+  return `@glucoSwapChunks:${generation}:${count}`;
+}
+
+function chunkKey(key: string, generation: Generation, index: number): string {
+  return `${key}:chunk:${generation}${index}`;
+}
+
+export function splitValue(value: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let start = 0;
+  while (start < value.length) {
+    let end = Math.min(start + maxLength, value.length);
+    // Keep surrogate pairs together; the native bridge replaces half a character.
+    const last = value.charCodeAt(end - 1);
+    if (end < value.length && end - 1 > start && last >= 0xd800 && last <= 0xdbff) {
+      end--;
+    }
+    pieces.push(value.slice(start, end));
+    start = end;
+  }
+  return pieces;
+}
+
+/**
+ * Stores values longer than `maxLength` as numbered pieces under their own keys, with a short
+ * manifest under the original key. Callers read and write whole values as before, so scoping,
+ * encryption and backups work on top of it unchanged. The pieces are written before the
+ * manifest and the old ones removed after it, so an interrupted write keeps the previous value.
+ */
+export function createChunkedStorageAdapter(storage: StorageAdapter, maxLength: number = MAX_STORED_VALUE_LENGTH): StorageAdapter {
+  const removePieces = async (key: string, manifest: ChunkManifest) => {
+    for (let index = 0; index < manifest.count; index++) {
+      await storage.removeItem(chunkKey(key, manifest.generation, index));
+    }
+  };
+
+  return {
+    getItem: async key => {
+      const raw = await storage.getItem(key);
+      const manifest = parseManifest(raw);
+      if (!manifest) {
+        return raw;
+      }
+      const pieces: string[] = [];
+      for (let index = 0; index < manifest.count; index++) {
+        const piece = await storage.getItem(chunkKey(key, manifest.generation, index));
+        if (piece === null) {
+          throw new StorageFormatError(`Stored data is missing part ${index + 1} of ${manifest.count}.`);
+        }
+        pieces.push(piece);
+      }
+      return pieces.join('');
+    },
+    setItem: async (key, value) => {
+      const previous = parseManifest(await storage.getItem(key));
+      if (value.length <= maxLength) {
+        await storage.setItem(key, value);
+      } else {
+        const generation: Generation = previous?.generation === 'a' ? 'b' : 'a';
+        const pieces = splitValue(value, maxLength);
+        for (const [index, piece] of pieces.entries()) {
+          await storage.setItem(chunkKey(key, generation, index), piece);
+        }
+        await storage.setItem(key, formatManifest({ generation, count: pieces.length }));
+      }
+      if (previous) {
+        await removePieces(key, previous);
+      }
+    },
+    removeItem: async key => {
+      const previous = parseManifest(await storage.getItem(key));
+      await storage.removeItem(key);
+      if (previous) {
+        await removePieces(key, previous);
+      }
+    },
+  };
+}
@@ -0,0 +1,292 @@
+import { Colors, rangeColor } from '@/constants/Colors';
+import { AgpHourBin, HOURS_PER_DAY, buildAgpProfile, formatHourLabel } from '@/lib/agp';
+import { valueDomain } from '@/lib/chartWindow';
+import {
+  CHART_DECIMALS,
+  ChartPoint,
+  HistoryItem,
+  Unit,
+  buildChartPoints,
+  convertGlucose,
+  describeHistoryDetails,
+  DEFAULT_DISPLAY_FORMAT,
+  DisplayFormat,
+  TimeFormat,
+  formatDecimal,
+  formatGlucose,
+  isA1cEntry,
+  isTreatmentEntry,
+  sortChronologically,
+  valueInUnit,
+} from '@/lib/glucose';
+import { DAY_MS, GlycemicStats, computeGlycemicStats, filterByWindow } from '@/lib/statistics';
+import {
+  GLUCOSE_RANGES,
+  GLUCOSE_RANGE_LABELS,
+  TargetRange,
+  TargetRangeSettings,
+  classifyGlucose,
+  convertTargetRange,
+  formatTargetRange,
+  targetRangeFor,
+} from '@/lib/targetRange';
+import { describeTreatment } from '@/lib/treatments';
+
+export const REPORT_WINDOWS_DAYS = [14, 30, 90];
+
+export interface ClinicianReportOptions {
+  unit: Unit;
+  targetRanges: TargetRangeSettings;
+  days: number;
+  format?: DisplayFormat;
+  now?: Date;
+}
+
+// The report is printed on white paper, whatever theme the app is in.
+const REPORT_COLORS = Colors.light;
+
+const SVG_WIDTH = 720;
+const SVG_HEIGHT = 260;
+const SVG_PADDING = { top: 12, right: 16, bottom: 28, left: 48 };
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #222; margin: 24px; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 20px 0 8px; border-bottom: 1px solid #ccc; padding-bottom: 4px; }
+  .meta { color: #555; margin: 0 0 2px; }
+  .page-break { break-before: page; page-break-before: always; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #e2e2e2; vertical-align: top; }
+  thead { display: table-header-group; }
+  tr { break-inside: avoid; page-break-inside: avoid; }
+  .stats td:first-child { color: #555; width: 40%; }
+  .tir-bar { display: flex; height: 22px; border-radius: 4px; overflow: hidden; margin-bottom: 8px; }
+  .tir-row { display: flex; align-items: center; margin-bottom: 2px; }
+  .swatch { width: 10px; height: 10px; border-radius: 2px; margin-right: 6px; display: inline-block; }
+  .chart { width: 100%; height: auto; }
+  .empty { color: #777; font-style: italic; }
+`;
+
+// Reports are meant to be read on paper, so dates include the year.
+const formatReportDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+const formatReportDateTime = (timestamp: number, timeFormat: TimeFormat) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: timeFormat === '12h',
+  });
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function reportFileName(now: Date = new Date()): string {
+  return `glucoswap-report-${now.toISOString().slice(0, 10)}.pdf`;
+}
+
+function svgPath(coordinates: [number, number][]): string {
+  return coordinates.map(([x, y], index) => `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+}
+
+// Shared frame for report charts: the target band, horizontal grid lines with value labels and x-axis labels.
+function chartFrame(
+  [minValue, maxValue]: [number, number],
+  band: TargetRange,
+  unit: Unit,
+  format: DisplayFormat,
+  xLabels: { x: number; label: string }[]
+) {
+  const plotWidth = SVG_WIDTH - SVG_PADDING.left - SVG_PADDING.right;
+  const plotHeight = SVG_HEIGHT - SVG_PADDING.top - SVG_PADDING.bottom;
+  const y = (value: number) => SVG_PADDING.top + (1 - (value - minValue) / (maxValue - minValue)) * plotHeight;
+  const grid = [0, 1, 2, 3, 4]
+    .map(step => minValue + ((maxValue - minValue) * step) / 4)
+    .map(
+      value =>
+        `<line x1="${SVG_PADDING.left}" x2="${SVG_PADDING.left + plotWidth}" y1="${y(value)}" y2="${y(value)}" stroke="#ddd" />` +
+        `<text x="${SVG_PADDING.left - 6}" y="${y(value) + 4}" font-size="10" text-anchor="end" fill="#555">${formatGlucose(value, unit, format, CHART_DECIMALS[unit])}</text>`
+    )
+    .join('');
+  const labels = xLabels
+    .map(({ x, label }) => `<text x="${x}" y="${SVG_HEIGHT - 8}" font-size="10" text-anchor="middle" fill="#555">${escapeHtml(label)}</text>`)
+    .join('');
+  const bandRect = `<rect x="${SVG_PADDING.left}" y="${y(band.high)}" width="${plotWidth}" height="${Math.max(0, y(band.low) - y(band.high))}" fill="${REPORT_COLORS.rangeInRange}" fill-opacity="0.15" />`;
+  return { y, markup: bandRect + grid + labels };
+}
+
+/**
+ * AGP as a standalone SVG: hourly median over shaded 25–75th and 5–95th percentile bands.
+ */
+export function renderAgpSvg(
+  profile: AgpHourBin[],
+  band: TargetRange,
+  unit: Unit,
+  format: DisplayFormat = DEFAULT_DISPLAY_FORMAT
+): string {
+  const domain = valueDomain(profile.flatMap(bin => [bin.p5, bin.p95]), band);
+  const plotWidth = SVG_WIDTH - SVG_PADDING.left - SVG_PADDING.right;
+  const x = (hour: number) => SVG_PADDING.left + (hour / HOURS_PER_DAY) * plotWidth;
+  const frame = chartFrame(
+    domain,
+    band,
+    unit,
+    format,
+    [0, 6, 12, 18, 24].map(hour => ({ x: x(hour), label: formatHourLabel(hour, format.timeFormat) }))
+  );
+  const line = (pick: (bin: AgpHourBin) => number, bins: AgpHourBin[] = profile) =>
+    bins.map(bin => [x(bin.hour + 0.5), frame.y(pick(bin))] as [number, number]);
+  const area = (low: (bin: AgpHourBin) => number, high: (bin: AgpHourBin) => number) =>
+    `${svgPath([...line(high), ...line(low, [...profile].reverse())])} Z`;
+
+  return (
+    `<svg class="chart" viewBox="0 0 ${SVG_WIDTH} ${SVG_HEIGHT}" xmlns="http://www.w3.org/2000/svg">${frame.markup}` +
+    `<path d="${area(bin => bin.p5, bin => bin.p95)}" fill="#8A2BE2" fill-opacity="0.18" />` +
+    `<path d="${area(bin => bin.p25, bin => bin.p75)}" fill="#8A2BE2" fill-opacity="0.4" />` +
+    `<path d="${svgPath(line(bin => bin.median))}" stroke="#4B0082" stroke-width="2.5" fill="none" />` +
+    '</svg>'
+  );
+}
+
+/**
+ * Chronological trend as a standalone SVG with range-coloured reading markers.
+ */
+export function renderTrendSvg(
+  points: ChartPoint[],
+  band: TargetRange,
+  unit: Unit,
+  targetRanges: TargetRangeSettings,
+  format: DisplayFormat = DEFAULT_DISPLAY_FORMAT
+): string {
+  const start = points[0].timestamp;
+  const span = Math.max(points[points.length - 1].timestamp - start, 1);
+  const plotWidth = SVG_WIDTH - SVG_PADDING.left - SVG_PADDING.right;
+  const x = (timestamp: number) => SVG_PADDING.left + ((timestamp - start) / span) * plotWidth;
+  const frame = chartFrame(
+    valueDomain(points.map(point => point.yValue), band),
+    band,
+    unit,
+    format,
+    [0, 0.25, 0.5, 0.75, 1].map(fraction => {
+      const timestamp = start + span * fraction;
+      return { x: x(timestamp), label: formatReportDate(timestamp) };
+    })
+  );
+  const markers = points
+    .map(
+      point =>
+        `<circle cx="${x(point.timestamp).toFixed(1)}" cy="${frame.y(point.yValue).toFixed(1)}" r="2.5" fill="${rangeColor(REPORT_COLORS, classifyGlucose(point, targetRanges))}" />`
+    )
+    .join('');
+
+  return (
+    `<svg class="chart" viewBox="0 0 ${SVG_WIDTH} ${SVG_HEIGHT}" xmlns="http://www.w3.org/2000/svg">${frame.markup}` +
+    `<path d="${svgPath(points.map(point => [x(point.timestamp), frame.y(point.yValue)]))}" stroke="#8A2BE2" stroke-width="1.5" fill="none" />` +
+    `${markers}</svg>`
+  );
+}
+
+function renderStatistics(stats: GlycemicStats, unit: Unit, format: DisplayFormat): string {
+  const glucose = (mgdl: number) => `${formatGlucose(valueInUnit(convertGlucose(mgdl, 'mg/dL'), unit), unit, format)} ${unit}`;
+  const percent = (value: number) => `${formatDecimal(value, 1, format.decimalSeparator)}%`;
+  const rows: [string, string][] = [
+    ['Readings', stats.count.toString()],
+    ['Mean glucose', glucose(stats.mean)],
+    ['Median glucose', glucose(stats.median)],
+    ['Standard deviation', glucose(stats.standardDeviation)],
+    ['Coefficient of variation', percent(stats.coefficientOfVariation)],
+    ['Glucose Management Indicator', percent(stats.gmi)],
+    ['Estimated A1c', percent(stats.estimatedA1c)],
+  ];
+  return `<table class="stats"><tbody>${rows.map(([label, value]) => `<tr><td>${label}</td><td>${value}</td></tr>`).join('')}</tbody></table>`;
+}
+
+function renderTimeInRange(stats: GlycemicStats): string {
+  const bar = GLUCOSE_RANGES.filter(range => stats.rangePercentages[range] > 0)
+    .map(range => `<div style="flex: ${stats.rangePercentages[range]}; background: ${rangeColor(REPORT_COLORS, range)};"></div>`)
+    .join('');
+  const legend = [...GLUCOSE_RANGES]
+    .reverse()
+    .map(
+      range =>
+        `<div class="tir-row"><span class="swatch" style="background: ${rangeColor(REPORT_COLORS, range)};"></span>` +
+        `${GLUCOSE_RANGE_LABELS[range]}: ${stats.rangePercentages[range].toFixed(0)}%</div>`
+    )
+    .join('');
+  return `<div class="tir-bar">${bar}</div>${legend}`;
+}
+
+function renderReadingTable(
+  history: HistoryItem[],
+  unit: Unit,
+  targetRanges: TargetRangeSettings,
+  format: DisplayFormat
+): string {
+  const rows = sortChronologically(history)
+    .map(item => {
+      const value = isA1cEntry(item)
+        ? `HbA1c ${formatDecimal(item.a1cPercent, 1, format.decimalSeparator)}%`
+        : isTreatmentEntry(item)
+          ? describeTreatment(item, format)
+          : `${formatGlucose(valueInUnit(item, unit), unit, format)} ${unit}`;
+      const range = isA1cEntry(item) || isTreatmentEntry(item) ? '' : GLUCOSE_RANGE_LABELS[classifyGlucose(item, targetRanges)];
+      return (
+        `<tr><td>${escapeHtml(formatReportDateTime(item.timestamp, format.timeFormat))}</td><td>${value}</td>` +
+        `<td>${range}</td><td>${escapeHtml(describeHistoryDetails(item))}</td></tr>`
+      );
+    })
+    .join('');
+  return (
+    '<table><thead><tr><th>Date / time</th><th>Value</th><th>Range</th><th>Tags / note</th></tr></thead>' +
+    `<tbody>${rows}</tbody></table>`
+  );
+}
+
+/**
+ * Builds a self-contained, printable HTML clinician summary of the last `days` days of history:
+ * statistics, time in range, AGP and trend charts, and every entry with its tags.
+ */
+export function buildClinicianReport(history: HistoryItem[], options: ClinicianReportOptions): string {
+  const { unit, targetRanges, days, format = DEFAULT_DISPLAY_FORMAT, now = new Date() } = options;
+  const entries = filterByWindow(history, days, now.getTime());
+  const stats = computeGlycemicStats(entries, targetRanges);
+  const band = convertTargetRange(targetRangeFor(targetRanges), 'mg/dL', unit);
+  const profile = buildAgpProfile(entries, unit);
+  const points = buildChartPoints(entries, unit);
+
+  const sections = [
+    '<h1>GlucoSwap Glucose Report</h1>',
+    `<p class="meta">Period: ${escapeHtml(formatReportDate(now.getTime() - days * DAY_MS))} – ${escapeHtml(formatReportDate(now.getTime()))} (${days} days)</p>`,
+    `<p class="meta">Target range: ${formatTargetRange(band, unit, format)}</p>`,
+    `<p class="meta">Generated ${escapeHtml(formatReportDateTime(now.getTime(), format.timeFormat))}</p>`,
+    '<h2>Statistics</h2>',
+    stats ? renderStatistics(stats, unit, format) : '<p class="empty">No glucose readings in this period.</p>',
+  ];
+  if (stats) {
+    sections.push('<h2>Time in Range</h2>', renderTimeInRange(stats));
+  }
+  sections.push(
+    '<h2>Ambulatory Glucose Profile</h2>',
+    profile ? renderAgpSvg(profile, band, unit, format) : '<p class="empty">Not enough readings for a daily profile.</p>',
+    '<h2 class="page-break">Glucose Trend</h2>',
+    points ? renderTrendSvg(points, band, unit, targetRanges, format) : '<p class="empty">Not enough readings for a trend chart.</p>',
+    '<h2 class="page-break">All Entries</h2>',
+    entries.length > 0 ? renderReadingTable(entries, unit, targetRanges, format) : '<p class="empty">No entries in this period.</p>'
+  );
+
+  return (
+    '<!DOCTYPE html><html><head><meta charset="utf-8" />' +
+    '<meta name="viewport" content="width=device-width, initial-scale=1" />' +
+    `<title>GlucoSwap Glucose Report</title><style>${REPORT_STYLES}</style></head>` +
+    `<body>${sections.join('\n')}</body></html>`
+  );
+}
@@ -0,0 +1,39 @@
+import { A1cConversion, formatA1cResult } from '@/lib/a1c';
+import { DEFAULT_DISPLAY_FORMAT, DisplayFormat, GlucoseConversion, MealContext, Unit, formatConversionResult } from '@/lib/glucose';
+import { GlucoseRange, TargetRangeSettings, classifyGlucose, describeClassification } from '@/lib/targetRange';
+
+/**
+ * What the result panel under the converter shows: the converted values, and for glucose the
+ * reading's range status against the applicable target.
+ */
+export interface ConversionSummary {
+  text: string;
+  detail?: string;
+  range?: GlucoseRange;
+}
+
+export function summarizeGlucoseConversion(
+  conversion: GlucoseConversion,
+  fromUnit: Unit,
+  targetRanges: TargetRangeSettings,
+  format: DisplayFormat = DEFAULT_DISPLAY_FORMAT,
+  context?: MealContext
+): ConversionSummary {
+  const reading = { ...conversion, context };
+  return {
+    text: formatConversionResult(conversion, fromUnit, format),
+    detail: describeClassification(reading, targetRanges, fromUnit, format),
+    range: classifyGlucose(reading, targetRanges),
+  };
+}
+
+export function summarizeA1cConversion(conversion: A1cConversion, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT): ConversionSummary {
+  return { text: formatA1cResult(conversion, format) };
+}
+
+/**
+ * Plain-text form of a summary for the clipboard and screen reader announcements.
+ */
+export function formatSummary(summary: ConversionSummary): string {
+  return summary.detail ? `${summary.text}\n${summary.detail}` : summary.text;
+}
@@ -0,0 +1,6 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { createChunkedStorageAdapter } from '@/lib/chunkedStorage';
+import { createAsyncStorageAdapter } from '@/lib/storage';
+
+export const defaultStorage = createChunkedStorageAdapter(createAsyncStorageAdapter(AsyncStorage));
@@ -0,0 +1,3 @@
+import { createLocalStorageAdapter } from '@/lib/storage';
+
+export const defaultStorage = createLocalStorageAdapter();
@@ -0,0 +1,70 @@
+/**
+ * Confirm asks a question with Cancel/OK; destructive is a confirm whose action deletes or
+ * overwrites data; info and error only report something and have a single button.
+ */
+export type DialogKind = 'confirm' | 'destructive' | 'info' | 'error';
+
+export interface DialogOptions {
+  title: string;
+  message: string;
+  confirmLabel?: string;
+  cancelLabel?: string;
+}
+
+export interface DialogRequest extends DialogOptions {
+  id: number;
+  kind: DialogKind;
+}
+
+export type DialogButtonRole = 'cancel' | 'confirm' | 'destructive';
+
+export interface DialogButton {
+  label: string;
+  role: DialogButtonRole;
+  // What the caller's promise resolves with when this button is pressed.
+  result: boolean;
+}
+
+export type ToastKind = 'info' | 'success' | 'error';
+
+export interface Toast {
+  id: number;
+  kind: ToastKind;
+  message: string;
+}
+
+// Errors stay up longer so there is time to read them.
+export const TOAST_DURATION_MS: Record<ToastKind, number> = {
+  info: 3000,
+  success: 3000,
+  error: 6000,
+};
+
+/**
+ * Buttons for a dialog, in display order: Cancel first (when there is one), the action last.
+ */
+export function dialogButtons(request: Pick<DialogRequest, 'kind' | 'confirmLabel' | 'cancelLabel'>): DialogButton[] {
+  switch (request.kind) {
+    case 'confirm':
+      return [
+        { label: request.cancelLabel ?? 'Cancel', role: 'cancel', result: false },
+        { label: request.confirmLabel ?? 'OK', role: 'confirm', result: true },
+      ];
+    case 'destructive':
+      return [
+        { label: request.cancelLabel ?? 'Cancel', role: 'cancel', result: false },
+        { label: request.confirmLabel ?? 'Delete', role: 'destructive', result: true },
+      ];
+    case 'info':
+    case 'error':
+      return [{ label: request.confirmLabel ?? 'OK', role: 'confirm', result: true }];
+  }
+}
+
+/**
+ * What dismissing a dialog without pressing a button (back button, tapping outside) means:
+ * never consent to the action.
+ */
+export function dismissResult(kind: DialogKind): boolean {
+  return kind === 'info' || kind === 'error';
+}
@@ -0,0 +1,106 @@
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { bytesToUtf8, utf8ToBytes } from '@noble/ciphers/utils';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha256';
+
+export const ENCRYPTED_FORMAT = 'glucoswap-encrypted';
+
+export const KEY_LENGTH = 32;
+
+export const SALT_LENGTH = 16;
+
+// XChaCha20's 24-byte nonce is long enough to pick at random for every write.
+const NONCE_LENGTH = 24;
+
+// Chunked so large payloads don't overflow the argument limit of String.fromCharCode.
+const BASE64_CHUNK = 0x8000;
+
+export type RandomBytes = (length: number) => Uint8Array;
+
+/**
+ * A value encrypted with XChaCha20-Poly1305. Decrypting verifies the tag, so a wrong key or a
+ * tampered payload fails instead of yielding garbage.
+ */
+export interface EncryptedPayload {
+  format: typeof ENCRYPTED_FORMAT;
+  nonce: string;
+  ciphertext: string;
+}
+
+export class DecryptionError extends Error {
+  constructor(message: string = 'Data could not be decrypted.') {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Stretches a PIN into a key. PINs are short, so the iteration count is what makes guessing them
+ * offline slow; the lockout only protects the app's own unlock screen.
+ */
+export async function deriveKey(pin: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  return pbkdf2Async(sha256, utf8ToBytes(pin), salt, { c: iterations, dkLen: KEY_LENGTH });
+}
+
+export function encryptBytes(key: Uint8Array, plaintext: Uint8Array, randomBytes: RandomBytes): EncryptedPayload {
+  const nonce = randomBytes(NONCE_LENGTH);
+  return {
+    format: ENCRYPTED_FORMAT,
+    nonce: bytesToBase64(nonce),
+    ciphertext: bytesToBase64(xchacha20poly1305(key, nonce).encrypt(plaintext)),
+  };
+}
+
+export function decryptBytes(key: Uint8Array, payload: EncryptedPayload): Uint8Array {
+  try {
+    return xchacha20poly1305(key, base64ToBytes(payload.nonce)).decrypt(base64ToBytes(payload.ciphertext));
+  } catch {
+    throw new DecryptionError();
+  }
+}
+
+export function isEncryptedPayload(value: unknown): value is EncryptedPayload {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { format, nonce, ciphertext } = value as Record<string, unknown>;
+  return format === ENCRYPTED_FORMAT && typeof nonce === 'string' && typeof ciphertext === 'string';
+}
+
+/**
+ * Parses a stored string as an encrypted payload, or returns null for anything else (such as
+ * plaintext JSON written before encryption was turned on).
+ */
+export function parseEncryptedPayload(raw: string): EncryptedPayload | null {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return isEncryptedPayload(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function encryptString(key: Uint8Array, plaintext: string, randomBytes: RandomBytes): string {
+  return JSON.stringify(encryptBytes(key, utf8ToBytes(plaintext), randomBytes));
+}
+
+export function decryptString(key: Uint8Array, raw: string): string {
+  const payload = parseEncryptedPayload(raw);
+  if (!payload) {
+    throw new DecryptionError('Data is not encrypted.');
+  }
+  return bytesToUtf8(decryptBytes(key, payload));
+}
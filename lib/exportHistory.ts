@@ -0,0 +1,101 @@
+import { HistoryItem, isTreatmentEntry, sortChronologically } from '@/lib/glucose';
+import { historySchema } from '@/lib/historyStore';
+
+export type ExportFormat = 'csv' | 'json';
+
+export const BACKUP_FORMAT = 'glucoswap-backup';
+
+// Treatment columns come last so exports from before they existed still read as GlucoSwap CSV.
+export const TREATMENT_CSV_COLUMNS = ['insulin_units', 'insulin_kind', 'carb_grams'];
+
+export const CSV_COLUMNS = ['timestamp', 'type', 'mg/dL', 'mmol/L', 'hba1c_percent', 'context', 'note', ...TREATMENT_CSV_COLUMNS];
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+/**
+ * Full-fidelity backup. `version` is the history schema version of `data`, so a backup taken
+ * today can be upgraded through the same migrations as stored history when it is imported.
+ * `profile` names whose history it is.
+ */
+export interface HistoryBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  profile?: string;
+  data: HistoryItem[];
+}
+
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  contents: string;
+}
+
+// Quotes a field when it contains a delimiter, quote or line break (RFC 4180).
+export function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Oldest-first CSV with ISO 8601 timestamps, both glucose units, treatment amounts and any tags.
+ * Values are written unrounded so re-importing loses nothing.
+ */
+export function historyToCsv(history: HistoryItem[]): string {
+  const rows = sortChronologically(history).map(item => [
+    new Date(item.timestamp).toISOString(),
+    item.type ?? 'glucose',
+    isTreatmentEntry(item) ? '' : item.mgdlValue.toString(),
+    isTreatmentEntry(item) ? '' : item.mmolValue.toString(),
+    item.a1cPercent?.toString() ?? '',
+    item.context ?? '',
+    item.note ?? '',
+    item.insulinUnits?.toString() ?? '',
+    item.insulinKind ?? '',
+    item.carbGrams?.toString() ?? '',
+  ]);
+  return [CSV_COLUMNS, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+}
+
+export function historyToBackup(history: HistoryItem[], now: Date = new Date(), profileName?: string): HistoryBackup {
+  return {
+    format: BACKUP_FORMAT,
+    version: historySchema.version,
+    exportedAt: now.toISOString(),
+    ...(profileName ? { profile: profileName } : {}),
+    data: history,
+  };
+}
+
+// Lowercase ASCII with dashes, so a profile name is safe in a file name on every platform.
+function fileNameSlug(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * `glucoswap-history[-<profile>]-<date>.<format>`, so exports of different profiles can't be mixed up.
+ */
+export function exportFileName(format: ExportFormat, now: Date = new Date(), profileName?: string): string {
+  const slug = profileName ? fileNameSlug(profileName) : '';
+  return `glucoswap-history${slug ? `-${slug}` : ''}-${now.toISOString().slice(0, 10)}.${format}`;
+}
+
+export function buildExportFile(
+  history: HistoryItem[],
+  format: ExportFormat,
+  now: Date = new Date(),
+  profileName?: string
+): ExportFile {
+  return {
+    fileName: exportFileName(format, now, profileName),
+    mimeType: EXPORT_MIME_TYPES[format],
+    contents: format === 'csv' ? historyToCsv(history) : JSON.stringify(historyToBackup(history, now, profileName), null, 2),
+  };
+}
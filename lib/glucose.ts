@@ -0,0 +1,395 @@
+/**
+ * Platform-agnostic glucose domain logic shared by the native and web GlucoSwap screens.
+ * Everything in here is pure TypeScript so it can be unit tested without a renderer.
+ */
+
+export const CONVERSION_FACTOR = 18.0182;
+export const MAX_INPUT_LENGTH = 5;
+export const MIN_POINTS_FOR_CHART = 2;
+export const MAX_NOTE_LENGTH = 200;
+export const READING_TIME_TOLERANCE_MS = 60 * 1000;
+
+export type Unit = 'mg/dL' | 'mmol/L';
+
+export const UNITS: Unit[] = ['mg/dL', 'mmol/L'];
+
+export type MealContext = 'fasting' | 'pre-meal' | 'post-meal' | 'bedtime' | 'overnight' | 'exercise';
+
+export const MEAL_CONTEXTS: MealContext[] = ['fasting', 'pre-meal', 'post-meal', 'bedtime', 'overnight', 'exercise'];
+
+export const MEAL_CONTEXT_LABELS: Record<MealContext, string> = {
+  fasting: 'Fasting',
+  'pre-meal': 'Pre-meal',
+  'post-meal': 'Post-meal',
+  bedtime: 'Bedtime',
+  overnight: 'Overnight',
+  exercise: 'Exercise',
+};
+
+// Absent type means a glucose reading; 'a1c' entries store the lab HbA1c with its eAG in the glucose fields.
+// 'insulin' and 'carbs' entries are treatments logged on the same timeline; their glucose fields are 0.
+export type HistoryEntryType = 'glucose' | 'a1c' | 'insulin' | 'carbs';
+
+export type InsulinKind = 'rapid' | 'long';
+
+export const INSULIN_KINDS: InsulinKind[] = ['rapid', 'long'];
+
+export type TreatmentType = Extract<HistoryEntryType, 'insulin' | 'carbs'>;
+
+export const TREATMENT_TYPES: TreatmentType[] = ['insulin', 'carbs'];
+
+// Insulin is dosed in international units, carbohydrate in grams.
+export const TREATMENT_UNITS: Record<TreatmentType, string> = {
+  insulin: 'U',
+  carbs: 'g',
+};
+
+export interface HistoryItem {
+  id: string;
+  timestamp: number;
+  mgdlValue: number;
+  mmolValue: number;
+  context?: MealContext;
+  note?: string;
+  type?: HistoryEntryType;
+  a1cPercent?: number;
+  insulinUnits?: number;
+  insulinKind?: InsulinKind;
+  carbGrams?: number;
+}
+
+// Optional details captured alongside a conversion.
+export interface HistoryItemDetails {
+  timestamp?: number;
+  context?: MealContext;
+  note?: string;
+}
+
+export interface GlucoseConversion {
+  mgdlValue: number;
+  mmolValue: number;
+}
+
+export interface ChartPoint {
+  timestamp: number;
+  mgdlValue: number;
+  mmolValue: number;
+  yValue: number;
+  context?: MealContext;
+  note?: string;
+}
+
+// Decimal places used when displaying a value in each unit.
+export const DISPLAY_DECIMALS: Record<Unit, number> = {
+  'mg/dL': 0,
+  'mmol/L': 2,
+};
+
+// Chart axes use one decimal less for mmol/L to keep tick labels short.
+export const CHART_DECIMALS: Record<Unit, number> = {
+  'mg/dL': 0,
+  'mmol/L': 1,
+};
+
+export type DecimalSeparator = '.' | ',';
+
+export type TimeFormat = '12h' | '24h';
+
+/**
+ * How numbers and times are shown to the user: decimal places per unit, the decimal separator
+ * and 12/24-hour clock. Part of the persisted app settings.
+ */
+export interface DisplayFormat {
+  decimals: Record<Unit, number>;
+  decimalSeparator: DecimalSeparator;
+  timeFormat: TimeFormat;
+}
+
+export const DEFAULT_DISPLAY_FORMAT: DisplayFormat = {
+  decimals: DISPLAY_DECIMALS,
+  decimalSeparator: '.',
+  timeFormat: '12h',
+};
+
+export function otherUnit(unit: Unit): Unit {
+  return unit === 'mg/dL' ? 'mmol/L' : 'mg/dL';
+}
+
+export function mgdlToMmol(value: number): number {
+  return value / CONVERSION_FACTOR;
+}
+
+export function mmolToMgdl(value: number): number {
+  return value * CONVERSION_FACTOR;
+}
+
+export function convertGlucose(value: number, fromUnit: Unit): GlucoseConversion {
+  if (fromUnit === 'mg/dL') {
+    return { mgdlValue: value, mmolValue: mgdlToMmol(value) };
+  }
+  return { mgdlValue: mmolToMgdl(value), mmolValue: value };
+}
+
+export function valueInUnit(item: GlucoseConversion, unit: Unit): number {
+  return unit === 'mg/dL' ? item.mgdlValue : item.mmolValue;
+}
+
+export function formatDecimal(value: number, decimals: number, decimalSeparator: DecimalSeparator = '.'): string {
+  const fixed = value.toFixed(decimals);
+  return decimalSeparator === '.' ? fixed : fixed.replace('.', decimalSeparator);
+}
+
+/**
+ * Formats a glucose value with the precision configured for its unit. Pass `decimals` to
+ * override it, e.g. for shorter chart axis labels.
+ */
+export function formatGlucose(
+  value: number,
+  unit: Unit,
+  format: DisplayFormat = DEFAULT_DISPLAY_FORMAT,
+  decimals: number = format.decimals[unit]
+): string {
+  return formatDecimal(value, decimals, format.decimalSeparator);
+}
+
+/**
+ * Builds the "x unit ≈ y unit" text shown after a conversion, source unit first.
+ */
+export function formatConversionResult(
+  conversion: GlucoseConversion,
+  fromUnit: Unit,
+  format: DisplayFormat = DEFAULT_DISPLAY_FORMAT
+): string {
+  const toUnit = otherUnit(fromUnit);
+  const from = `${formatGlucose(valueInUnit(conversion, fromUnit), fromUnit, format)} ${fromUnit}`;
+  const to = `${formatGlucose(valueInUnit(conversion, toUnit), toUnit, format)} ${toUnit}`;
+  return `${from} ≈ ${to}`;
+}
+
+/**
+ * Parses a decimal typed with either a point or a comma ("5.6" or "5,6"), whatever the
+ * configured separator, so a keyboard in another locale never blocks input.
+ */
+export function parseDecimalInput(input: string): number {
+  return parseFloat(input.trim().replace(',', '.'));
+}
+
+/**
+ * Parses raw text from the value input. Returns null for anything that is not a positive, finite number.
+ */
+export function parseGlucoseInput(input: string): number | null {
+  const value = parseDecimalInput(input);
+  if (!Number.isFinite(value) || value <= 0) {
+    return null;
+  }
+  return value;
+}
+
+export function isValidGlucoseInput(input: string): boolean {
+  return parseGlucoseInput(input) !== null;
+}
+
+export function isMealContext(value: unknown): value is MealContext {
+  return MEAL_CONTEXTS.includes(value as MealContext);
+}
+
+/**
+ * Trims a free-text note to the stored length; blank notes become undefined so they are not persisted.
+ */
+export function normalizeNote(note: string | undefined): string | undefined {
+  const trimmed = note?.trim().slice(0, MAX_NOTE_LENGTH);
+  return trimmed ? trimmed : undefined;
+}
+
+export function createHistoryItem(conversion: GlucoseConversion, details: HistoryItemDetails = {}): HistoryItem {
+  const timestamp = details.timestamp ?? Date.now();
+  const item: HistoryItem = {
+    // Backdated entries can share a timestamp, so the id gets a random suffix.
+    id: `${timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp,
+    mgdlValue: conversion.mgdlValue,
+    mmolValue: conversion.mmolValue,
+  };
+  const note = normalizeNote(details.note);
+  if (details.context) {
+    item.context = details.context;
+  }
+  if (note) {
+    item.note = note;
+  }
+  return item;
+}
+
+/**
+ * Inserts an entry at its chronological position in the newest-first list, so backdated
+ * readings land among their neighbours. History is unbounded; pass `limit` to trim it.
+ */
+export function addHistoryItem(history: HistoryItem[], item: HistoryItem, limit: number = Number.POSITIVE_INFINITY): HistoryItem[] {
+  const index = history.findIndex(existing => existing.timestamp <= item.timestamp);
+  const position = index === -1 ? history.length : index;
+  return [...history.slice(0, position), item, ...history.slice(position)].slice(0, limit);
+}
+
+/**
+ * Rejects reading times in the future. A minute of slack covers pickers without seconds.
+ */
+export function validateReadingTime(timestamp: number, now: number = Date.now()): string | null {
+  return timestamp > now + READING_TIME_TOLERANCE_MS ? 'Reading time cannot be in the future.' : null;
+}
+
+export function isInsulinKind(value: unknown): value is InsulinKind {
+  return INSULIN_KINDS.includes(value as InsulinKind);
+}
+
+const isPositiveNumber = (value: unknown) => Number.isFinite(value) && (value as number) > 0;
+
+export function isHistoryItem(value: unknown): value is HistoryItem {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const item = value as Record<string, unknown>;
+  // A treatment without its amount can't fall back to being a reading like a broken HbA1c entry
+  // does, since its glucose fields hold no value.
+  if (item.type === 'insulin' && !(isPositiveNumber(item.insulinUnits) && isInsulinKind(item.insulinKind))) {
+    return false;
+  }
+  if (item.type === 'carbs' && !isPositiveNumber(item.carbGrams)) {
+    return false;
+  }
+  return (
+    typeof item.id === 'string' &&
+    Number.isFinite(item.timestamp) &&
+    Number.isFinite(item.mgdlValue) &&
+    Number.isFinite(item.mmolValue)
+  );
+}
+
+export function isA1cEntry(item: HistoryItem): item is HistoryItem & { type: 'a1c'; a1cPercent: number } {
+  return item.type === 'a1c';
+}
+
+export function isInsulinEntry(
+  item: HistoryItem
+): item is HistoryItem & { type: 'insulin'; insulinUnits: number; insulinKind: InsulinKind } {
+  return item.type === 'insulin';
+}
+
+export function isCarbEntry(item: HistoryItem): item is HistoryItem & { type: 'carbs'; carbGrams: number } {
+  return item.type === 'carbs';
+}
+
+export function isTreatmentEntry(item: HistoryItem): boolean {
+  return isInsulinEntry(item) || isCarbEntry(item);
+}
+
+/**
+ * Glucose readings only; HbA1c and treatment entries are excluded from glucose charts,
+ * statistics and range classification.
+ */
+export function glucoseReadings(history: HistoryItem[]): HistoryItem[] {
+  return history.filter(item => !isA1cEntry(item) && !isTreatmentEntry(item));
+}
+
+// Keeps only the known fields of a stored entry, discarding optional ones that fail validation.
+function normalizeHistoryItem(item: HistoryItem): HistoryItem {
+  const { id, timestamp, mgdlValue, mmolValue, context, note, type, a1cPercent, insulinUnits, insulinKind, carbGrams } = item;
+  const normalized: HistoryItem = { id, timestamp, mgdlValue, mmolValue };
+  if (type === 'a1c' && Number.isFinite(a1cPercent)) {
+    normalized.type = type;
+    normalized.a1cPercent = a1cPercent;
+  }
+  // isHistoryItem has already checked the amounts of treatment entries.
+  if (type === 'insulin') {
+    normalized.type = type;
+    normalized.insulinUnits = insulinUnits;
+    normalized.insulinKind = insulinKind;
+  }
+  if (type === 'carbs') {
+    normalized.type = type;
+    normalized.carbGrams = carbGrams;
+  }
+  if (isMealContext(context)) {
+    normalized.context = context;
+  }
+  const normalizedNote = typeof note === 'string' ? normalizeNote(note) : undefined;
+  if (normalizedNote) {
+    normalized.note = normalizedNote;
+  }
+  return normalized;
+}
+
+/**
+ * Validates a parsed storage payload. Non-array payloads yield an empty list and malformed
+ * entries are dropped, so one bad row never takes the rest of the history with it.
+ */
+export function sanitizeHistory(payload: unknown, limit: number = Number.POSITIVE_INFINITY): HistoryItem[] {
+  if (!Array.isArray(payload)) {
+    return [];
+  }
+  return payload.filter(isHistoryItem).map(normalizeHistoryItem).slice(0, limit);
+}
+
+export function sortChronologically(history: HistoryItem[]): HistoryItem[] {
+  return [...history].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Oldest-first chart series in the requested unit, or null when there are too few entries to draw a line.
+ */
+export function buildChartPoints(history: HistoryItem[], unit: Unit): ChartPoint[] | null {
+  const readings = glucoseReadings(history);
+  if (readings.length < MIN_POINTS_FOR_CHART) {
+    return null;
+  }
+  return sortChronologically(readings).map(item => ({
+    timestamp: item.timestamp,
+    mgdlValue: item.mgdlValue,
+    mmolValue: item.mmolValue,
+    yValue: valueInUnit(item, unit),
+    context: item.context,
+    note: item.note,
+  }));
+}
+
+/**
+ * Evenly thins a series down to roughly maxPoints, always keeping the first and last point.
+ * Used where the chart library labels every point (react-native-chart-kit).
+ */
+export function downsamplePoints<T>(points: T[], maxPoints: number): T[] {
+  if (points.length <= maxPoints) {
+    return points;
+  }
+  const step = Math.max(1, Math.floor(points.length / maxPoints));
+  const lastIndex = points.length - 1;
+  return points.filter((_, index) => index === 0 || index === lastIndex || index % step === 0);
+}
+
+export function formatTimestamp(timestamp: number, timeFormat: TimeFormat = DEFAULT_DISPLAY_FORMAT.timeFormat): string {
+  const date = new Date(timestamp);
+  return date.toLocaleString(undefined, {
+    day: '2-digit',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: timeFormat === '12h',
+  }).replace(',', '');
+}
+
+export function formatChartDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+/**
+ * One-line summary of an entry's context tag and note, e.g. "Post-meal · after pasta".
+ */
+export function describeHistoryDetails(item: Pick<HistoryItem, 'context' | 'note'>): string {
+  const parts: string[] = [];
+  if (item.context) {
+    parts.push(MEAL_CONTEXT_LABELS[item.context]);
+  }
+  if (item.note) {
+    parts.push(item.note);
+  }
+  return parts.join(' · ');
+}
@@ -0,0 +1,139 @@
+import { convertA1c, createA1cHistoryItem, parseA1cInput } from '@/lib/a1c';
+import {
+  DEFAULT_DISPLAY_FORMAT,
+  DisplayFormat,
+  HistoryItem,
+  InsulinKind,
+  MealContext,
+  Unit,
+  convertGlucose,
+  createHistoryItem,
+  formatDecimal,
+  formatGlucose,
+  isA1cEntry,
+  isCarbEntry,
+  isInsulinEntry,
+  parseGlucoseInput,
+  validateReadingTime,
+} from '@/lib/glucose';
+import { dayKey } from '@/lib/historySections';
+import { parseTimestamp } from '@/lib/importHistory';
+import { createCarbEntry, createInsulinEntry, formatTreatmentValue } from '@/lib/treatments';
+import { INVALID_VALUE_MESSAGE, validateA1cInput, validateGlucoseInput, validateTreatmentInput } from '@/lib/validation';
+
+/**
+ * Form state for editing one entry. `value` is in `unit` for glucose entries, the HbA1c
+ * percentage for HbA1c entries and the units or grams for treatments. `dateTime` is local
+ * "YYYY-MM-DD HH:MM". `valueDirty` is set once the value field is typed in; until then the
+ * stored value is kept, since `value` only holds its rounded display text.
+ */
+export interface HistoryEditDraft {
+  value: string;
+  valueDirty: boolean;
+  unit: Unit;
+  dateTime: string;
+  context?: MealContext;
+  insulinKind?: InsulinKind;
+  note: string;
+}
+
+function draftValue(item: HistoryItem, unit: Unit, format: DisplayFormat): string {
+  if (isA1cEntry(item)) {
+    return formatDecimal(item.a1cPercent, 1, format.decimalSeparator);
+  }
+  if (isInsulinEntry(item)) {
+    return formatTreatmentValue(item.insulinUnits, format);
+  }
+  if (isCarbEntry(item)) {
+    return formatTreatmentValue(item.carbGrams, format);
+  }
+  return formatGlucose(unit === 'mg/dL' ? item.mgdlValue : item.mmolValue, unit, format);
+}
+
+export function formatDateTimeInput(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${dayKey(timestamp)} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export function parseDateTimeInput(input: string): number | null {
+  return /^\d{4}-\d{2}-\d{2}[ T]\d{1,2}:\d{2}$/.test(input.trim()) ? parseTimestamp(input) : null;
+}
+
+export function draftFromItem(item: HistoryItem, unit: Unit, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT): HistoryEditDraft {
+  return {
+    value: draftValue(item, unit, format),
+    valueDirty: false,
+    unit,
+    dateTime: formatDateTimeInput(item.timestamp),
+    context: item.context,
+    ...(isInsulinEntry(item) ? { insulinKind: item.insulinKind } : {}),
+    note: item.note ?? '',
+  };
+}
+
+export function validateHistoryEdit(
+  item: HistoryItem,
+  draft: HistoryEditDraft,
+  format: DisplayFormat = DEFAULT_DISPLAY_FORMAT
+): string | null {
+  if (draft.valueDirty) {
+    const validation = isA1cEntry(item)
+      ? validateA1cInput(draft.value, '%', format)
+      : isInsulinEntry(item) || isCarbEntry(item)
+        ? validateTreatmentInput(draft.value, item.type, format)
+        : validateGlucoseInput(draft.value, draft.unit, format);
+    if (validation.value === null) {
+      return validation.message ?? INVALID_VALUE_MESSAGE;
+    }
+  }
+  const timestamp = parseDateTimeInput(draft.dateTime);
+  if (timestamp === null) {
+    return 'Enter the date and time as YYYY-MM-DD HH:MM.';
+  }
+  return validateReadingTime(timestamp);
+}
+
+/**
+ * Rebuilds the entry from a validated draft. The id is kept so list keys and undo stay stable.
+ */
+export function applyHistoryEdit(item: HistoryItem, draft: HistoryEditDraft): HistoryItem {
+  const timestamp = parseDateTimeInput(draft.dateTime) ?? item.timestamp;
+  // An untouched value is shown rounded; keep the stored precision rather than re-deriving from it.
+  const isValueUnchanged = !draft.valueDirty;
+  if (isA1cEntry(item)) {
+    const conversion = isValueUnchanged ? convertA1c(item.a1cPercent, '%') : parseA1cInput(draft.value, '%');
+    return { ...createA1cHistoryItem(conversion ?? convertA1c(item.a1cPercent, '%'), { timestamp, note: draft.note }), id: item.id };
+  }
+  if (isInsulinEntry(item)) {
+    const units = isValueUnchanged ? item.insulinUnits : parseGlucoseInput(draft.value) ?? item.insulinUnits;
+    return { ...createInsulinEntry(units, draft.insulinKind ?? item.insulinKind, { timestamp, note: draft.note }), id: item.id };
+  }
+  if (isCarbEntry(item)) {
+    const grams = isValueUnchanged ? item.carbGrams : parseGlucoseInput(draft.value) ?? item.carbGrams;
+    return { ...createCarbEntry(grams, { timestamp, note: draft.note }), id: item.id };
+  }
+  const conversion = isValueUnchanged
+    ? { mgdlValue: item.mgdlValue, mmolValue: item.mmolValue }
+    : convertGlucose(parseGlucoseInput(draft.value) ?? item.mgdlValue, draft.unit);
+  return { ...createHistoryItem(conversion, { timestamp, context: draft.context, note: draft.note }), id: item.id };
+}
+
+export function removeHistoryItem(history: HistoryItem[], id: string): HistoryItem[] {
+  return history.filter(item => item.id !== id);
+}
+
+/**
+ * Swaps in an edited entry, re-sorting newest-first in case its timestamp moved.
+ */
+export function replaceHistoryItem(history: HistoryItem[], updated: HistoryItem): HistoryItem[] {
+  return history.map(item => (item.id === updated.id ? updated : item)).sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Puts removed entries back (undo), keeping anything added since and skipping ids already present.
+ */
+export function restoreHistoryItems(history: HistoryItem[], removed: HistoryItem[]): HistoryItem[] {
+  const ids = new Set(history.map(item => item.id));
+  return [...history, ...removed.filter(item => !ids.has(item.id))].sort((a, b) => b.timestamp - a.timestamp);
+}
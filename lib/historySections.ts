@@ -0,0 +1,63 @@
+import { DEFAULT_DISPLAY_FORMAT, HistoryItem, TimeFormat } from '@/lib/glucose';
+
+export const HISTORY_PAGE_SIZE = 50;
+
+export interface HistorySection {
+  key: string;
+  title: string;
+  data: HistoryItem[];
+}
+
+function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+// Local calendar date as YYYY-MM-DD, stable across locales for use as a list key.
+export function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * "Today", "Yesterday", or a weekday and date, with the year only when it differs from now.
+ */
+export function formatSectionTitle(timestamp: number, now: number = Date.now()): string {
+  const today = startOfDay(now);
+  const day = startOfDay(timestamp);
+  if (day === today) {
+    return 'Today';
+  }
+  if (day === startOfDay(today - 1)) {
+    return 'Yesterday';
+  }
+  const sameYear = new Date(day).getFullYear() === new Date(today).getFullYear();
+  return new Date(day).toLocaleDateString(undefined, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    ...(sameYear ? {} : { year: 'numeric' }),
+  });
+}
+
+export function formatTimeOfDay(timestamp: number, timeFormat: TimeFormat = DEFAULT_DISPLAY_FORMAT.timeFormat): string {
+  return new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', hour12: timeFormat === '12h' });
+}
+
+/**
+ * Groups newest-first history into one section per local calendar day, preserving order.
+ */
+export function groupHistoryByDay(history: HistoryItem[], now: number = Date.now()): HistorySection[] {
+  const sections: HistorySection[] = [];
+  for (const item of history) {
+    const key = dayKey(item.timestamp);
+    const current = sections[sections.length - 1];
+    if (current?.key === key) {
+      current.data.push(item);
+    } else {
+      sections.push({ key, title: formatSectionTitle(item.timestamp, now), data: [item] });
+    }
+  }
+  return sections;
+}
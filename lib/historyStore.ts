@@ -0,0 +1,45 @@
+import { HistoryItem, sanitizeHistory } from '@/lib/glucose';
+import { StorageAdapter } from '@/lib/storage';
+import { StorageFormatError, VersionedSchema, loadVersioned, saveVersioned } from '@/lib/versionedStore';
+
+export const HISTORY_STORAGE_KEY = '@glucoSwapHistory';
+
+/**
+ * Version history of the persisted `HistoryItem[]`:
+ *   0 - bare JSON array written by the original screens
+ *   1 - the same array inside a versioned envelope
+ *   2 - entries may carry an optional meal `context` and free-text `note`
+ *   3 - entries may be HbA1c results (`type: 'a1c'` with `a1cPercent`)
+ *   4 - entries may be insulin doses (`type: 'insulin'` with `insulinUnits` and `insulinKind`)
+ *       or carbohydrate intake (`type: 'carbs'` with `carbGrams`)
+ * Add a migration here whenever `HistoryItem` gains or changes a field. Anything but an array is
+ * rejected, and malformed rows are dropped only after the stored payload has been backed up.
+ */
+export const historySchema: VersionedSchema<HistoryItem[]> = {
+  version: 4,
+  migrations: {
+    1: data => data,
+    2: data => data,
+    3: data => data,
+    4: data => data,
+  },
+  validate: data => {
+    if (!Array.isArray(data)) {
+      throw new StorageFormatError('Stored history is not a list.');
+    }
+    return sanitizeHistory(data);
+  },
+  isLossless: (migrated, history) => Array.isArray(migrated) && migrated.length === history.length,
+};
+
+export async function loadHistory(storage: StorageAdapter): Promise<HistoryItem[]> {
+  return loadVersioned(storage, HISTORY_STORAGE_KEY, historySchema, []);
+}
+
+export async function saveHistory(storage: StorageAdapter, history: HistoryItem[]): Promise<void> {
+  await saveVersioned(storage, HISTORY_STORAGE_KEY, historySchema, history);
+}
+
+export async function clearHistory(storage: StorageAdapter): Promise<void> {
+  await storage.removeItem(HISTORY_STORAGE_KEY);
+}
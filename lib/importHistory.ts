@@ -0,0 +1,444 @@
+import { convertA1c, createA1cHistoryItem } from '@/lib/a1c';
+import { BACKUP_FORMAT, CSV_COLUMNS, TREATMENT_CSV_COLUMNS } from '@/lib/exportHistory';
+import {
+  HistoryItem,
+  Unit,
+  convertGlucose,
+  createHistoryItem,
+  isHistoryItem,
+  isInsulinKind,
+  isMealContext,
+  sanitizeHistory,
+} from '@/lib/glucose';
+import { historySchema } from '@/lib/historyStore';
+import { createCarbEntry, createInsulinEntry } from '@/lib/treatments';
+import { migrate } from '@/lib/versionedStore';
+
+/**
+ * Supported import sources: our own JSON backup and CSV export, the CSV exports of
+ * LibreView (FreeStyle Libre) and Dexcom Clarity, and any other CSV via a column mapping.
+ */
+export type ImportFormat = 'backup' | 'glucoswap-csv' | 'libreview' | 'dexcom-clarity' | 'generic-csv';
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  backup: 'GlucoSwap JSON backup',
+  'glucoswap-csv': 'GlucoSwap CSV export',
+  libreview: 'LibreView CSV',
+  'dexcom-clarity': 'Dexcom Clarity CSV',
+  'generic-csv': 'CSV',
+};
+
+export type DateOrder = 'YMD' | 'MDY' | 'DMY';
+
+// `row` is the 1-based line number in the source file so users can find it.
+export interface RejectedRow {
+  row: number;
+  reason: string;
+}
+
+export interface ParsedImport {
+  format: ImportFormat;
+  items: HistoryItem[];
+  rejected: RejectedRow[];
+}
+
+export interface CsvColumnMapping {
+  timestamp: number;
+  value: number;
+  unit: Unit | 'auto';
+  note?: number;
+}
+
+export interface MergeResult {
+  history: HistoryItem[];
+  added: number;
+  duplicates: number;
+}
+
+// Above this, a column of glucose values can only be mg/dL; mmol/L readings top out around 33.
+const MMOL_MAX_PLAUSIBLE = 35;
+
+export function detectDelimiter(firstLine: string): string {
+  const count = (char: string) => firstLine.split(char).length - 1;
+  return count(';') > count(',') ? ';' : count('\t') > count(',') ? '\t' : ',';
+}
+
+/**
+ * RFC 4180 CSV parser supporting quoted fields, escaped quotes and embedded line breaks.
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text.split(/\r?\n/, 1)[0] ?? '')): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const source = text.replace(/^﻿/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Accepts both "5.6" and the comma-decimal "5,6".
+export function parseNumber(value: string): number | null {
+  const trimmed = value.trim().replace(',', '.');
+  if (trimmed === '' || !/^-?\d*\.?\d+$/.test(trimmed)) {
+    return null;
+  }
+  return parseFloat(trimmed);
+}
+
+export function unitFromHeader(header: string): Unit | null {
+  const normalized = header.toLowerCase().replace(/\s/g, '');
+  if (normalized.includes('mg/dl')) {
+    return 'mg/dL';
+  }
+  if (normalized.includes('mmol/l')) {
+    return 'mmol/L';
+  }
+  return null;
+}
+
+export function inferUnit(values: number[]): Unit {
+  return values.some(value => value > MMOL_MAX_PLAUSIBLE) ? 'mg/dL' : 'mmol/L';
+}
+
+const NUMERIC_DATE = /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?)?$/;
+
+/**
+ * Works out whether numeric dates are day-first or month-first from values that disambiguate
+ * (a first part above 12 can only be a day). Year-first dates are always YMD.
+ */
+export function detectDateOrder(values: string[]): DateOrder {
+  let order: DateOrder = 'DMY';
+  for (const value of values) {
+    const match = NUMERIC_DATE.exec(value.trim());
+    if (!match) {
+      continue;
+    }
+    if (match[1].length === 4) {
+      return 'YMD';
+    }
+    if (Number(match[1]) > 12) {
+      return 'DMY';
+    }
+    if (Number(match[2]) > 12) {
+      order = 'MDY';
+    }
+  }
+  return order;
+}
+
+/**
+ * Parses ISO 8601 and the numeric "date time" layouts meters export, as local time.
+ */
+export function parseTimestamp(value: string, dateOrder: DateOrder = 'YMD'): number | null {
+  const trimmed = value.trim();
+  const match = NUMERIC_DATE.exec(trimmed);
+  if (!match) {
+    const parsed = Date.parse(trimmed);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  const [, first, second, third, hours = '0', minutes = '0', seconds = '0', meridiem] = match;
+  const order: DateOrder = first.length === 4 ? 'YMD' : dateOrder;
+  const [year, month, day] =
+    order === 'YMD' ? [first, second, third] : order === 'MDY' ? [third, first, second] : [third, second, first];
+  let hour = Number(hours);
+  if (meridiem) {
+    hour = (hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+  }
+  const fullYear = year.length === 2 ? 2000 + Number(year) : Number(year);
+  const date = new Date(fullYear, Number(month) - 1, Number(day), hour, Number(minutes), Number(seconds));
+  if (date.getMonth() !== Number(month) - 1 || date.getDate() !== Number(day)) {
+    return null;
+  }
+  return date.getTime();
+}
+
+function findHeaderRow(rows: string[][], predicate: (header: string[]) => boolean): number {
+  return rows.slice(0, 5).findIndex(predicate);
+}
+
+const isLibreViewHeader = (header: string[]) => header.some(cell => /historic glucose/i.test(cell));
+const isDexcomHeader = (header: string[]) =>
+  header.some(cell => /event type/i.test(cell)) && header.some(cell => /glucose value/i.test(cell));
+// Exports from before treatments were logged end at the note column.
+const LEGACY_CSV_COLUMNS = CSV_COLUMNS.slice(0, -TREATMENT_CSV_COLUMNS.length);
+const isGlucoSwapHeader = (header: string[]) =>
+  (header.length < CSV_COLUMNS.length ? LEGACY_CSV_COLUMNS : CSV_COLUMNS).every((column, index) => header[index] === column);
+
+export function detectImportFormat(text: string): ImportFormat {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    return 'backup';
+  }
+  const rows = parseCsv(trimmed);
+  if (findHeaderRow(rows, isGlucoSwapHeader) === 0) {
+    return 'glucoswap-csv';
+  }
+  if (findHeaderRow(rows, isLibreViewHeader) >= 0) {
+    return 'libreview';
+  }
+  if (findHeaderRow(rows, isDexcomHeader) >= 0) {
+    return 'dexcom-clarity';
+  }
+  return 'generic-csv';
+}
+
+interface RawReading {
+  row: number;
+  timestamp: string;
+  value: string;
+  unit: Unit | null;
+  note?: string;
+}
+
+function readingsToItems(format: ImportFormat, readings: RawReading[], rejected: RejectedRow[]): ParsedImport {
+  const dateOrder = detectDateOrder(readings.map(reading => reading.timestamp.split(/[ T]/)[0]));
+  const values = readings.map(reading => parseNumber(reading.value));
+  const fallbackUnit = inferUnit(values.filter((value): value is number => value !== null));
+  const items: HistoryItem[] = [];
+
+  readings.forEach((reading, index) => {
+    const timestamp = parseTimestamp(reading.timestamp, dateOrder);
+    const value = values[index];
+    if (timestamp === null) {
+      rejected.push({ row: reading.row, reason: `Unrecognised date "${reading.timestamp}"` });
+    } else if (value === null || value <= 0) {
+      rejected.push({ row: reading.row, reason: `Not a glucose value: "${reading.value}"` });
+    } else {
+      items.push(createHistoryItem(convertGlucose(value, reading.unit ?? fallbackUnit), { timestamp, note: reading.note }));
+    }
+  });
+  return { format, items, rejected: rejected.sort((a, b) => a.row - b.row) };
+}
+
+/**
+ * Parses a CSV using an explicit column mapping. The first row is treated as the header.
+ */
+export function parseMappedCsv(rows: string[][], mapping: CsvColumnMapping, format: ImportFormat = 'generic-csv'): ParsedImport {
+  const header = rows[0] ?? [];
+  const unit = mapping.unit === 'auto' ? unitFromHeader(header[mapping.value] ?? '') : mapping.unit;
+  const readings: RawReading[] = [];
+  rows.slice(1).forEach((cells, index) => {
+    if (cells.every(cell => cell.trim() === '')) {
+      return;
+    }
+    readings.push({
+      row: index + 2,
+      timestamp: cells[mapping.timestamp] ?? '',
+      value: cells[mapping.value] ?? '',
+      unit,
+      note: mapping.note !== undefined ? cells[mapping.note] : undefined,
+    });
+  });
+  return readingsToItems(format, readings, []);
+}
+
+/**
+ * Suggests a mapping for an unknown CSV from its header names.
+ */
+export function guessColumnMapping(header: string[]): CsvColumnMapping {
+  const find = (pattern: RegExp, fallback: number) => {
+    const index = header.findIndex(cell => pattern.test(cell));
+    return index >= 0 ? index : fallback;
+  };
+  const noteIndex = header.findIndex(cell => /note|comment/i.test(cell));
+  return {
+    timestamp: find(/time|date|when/i, 0),
+    value: find(/glucose|bg|sugar|value|reading|mg\/dl|mmol\/l/i, Math.min(1, header.length - 1)),
+    unit: 'auto',
+    note: noteIndex >= 0 ? noteIndex : undefined,
+  };
+}
+
+function parseLibreView(rows: string[][]): ParsedImport {
+  const headerIndex = findHeaderRow(rows, isLibreViewHeader);
+  const header = rows[headerIndex];
+  const column = (pattern: RegExp) => header.findIndex(cell => pattern.test(cell));
+  const timestampColumn = column(/device timestamp/i);
+  const typeColumn = column(/record type/i);
+  const historicColumn = column(/historic glucose/i);
+  const scanColumn = column(/scan glucose/i);
+  const stripColumn = column(/strip glucose/i);
+  const notesColumn = column(/^notes$/i);
+  const readings: RawReading[] = [];
+
+  rows.slice(headerIndex + 1).forEach((cells, index) => {
+    // Record types: 0 historic (every 15 min), 1 scan, 2 strip. Others are insulin, food and notes.
+    const valueColumn = { '0': historicColumn, '1': scanColumn, '2': stripColumn }[cells[typeColumn]?.trim() ?? ''];
+    if (valueColumn === undefined || valueColumn < 0) {
+      return;
+    }
+    readings.push({
+      row: headerIndex + index + 2,
+      timestamp: cells[timestampColumn] ?? '',
+      value: cells[valueColumn] ?? '',
+      unit: unitFromHeader(header[valueColumn]),
+      note: notesColumn >= 0 ? cells[notesColumn] : undefined,
+    });
+  });
+  return readingsToItems('libreview', readings, []);
+}
+
+function parseDexcomClarity(rows: string[][]): ParsedImport {
+  const headerIndex = findHeaderRow(rows, isDexcomHeader);
+  const header = rows[headerIndex];
+  const column = (pattern: RegExp) => header.findIndex(cell => pattern.test(cell));
+  const timestampColumn = column(/^timestamp/i);
+  const typeColumn = column(/event type/i);
+  const valueColumn = column(/glucose value/i);
+  const unit = unitFromHeader(header[valueColumn]);
+  const readings: RawReading[] = [];
+  const rejected: RejectedRow[] = [];
+
+  rows.slice(headerIndex + 1).forEach((cells, index) => {
+    // Only sensor readings (EGV) and fingerstick calibrations carry glucose values.
+    if (!/^(egv|calibration)$/i.test(cells[typeColumn]?.trim() ?? '')) {
+      return;
+    }
+    const row = headerIndex + index + 2;
+    const value = cells[valueColumn]?.trim() ?? '';
+    if (/^(low|high)$/i.test(value)) {
+      rejected.push({ row, reason: `Out-of-range sensor reading "${value}"` });
+      return;
+    }
+    readings.push({ row, timestamp: cells[timestampColumn] ?? '', value, unit });
+  });
+  return readingsToItems('dexcom-clarity', readings, rejected);
+}
+
+function parseGlucoSwapCsv(rows: string[][]): ParsedImport {
+  const items: HistoryItem[] = [];
+  const rejected: RejectedRow[] = [];
+  rows.slice(1).forEach((cells, index) => {
+    const row = index + 2;
+    if (cells.every(cell => cell.trim() === '')) {
+      return;
+    }
+    const [timestampText, type, mgdlText, , a1cText, context, note, insulinText, insulinKind, carbText] = cells;
+    const timestamp = parseTimestamp(timestampText ?? '');
+    const mgdl = parseNumber(mgdlText ?? '');
+    const a1cPercent = parseNumber(a1cText ?? '');
+    const insulinUnits = parseNumber(insulinText ?? '');
+    const carbGrams = parseNumber(carbText ?? '');
+    if (timestamp === null) {
+      rejected.push({ row, reason: `Unrecognised date "${timestampText}"` });
+    } else if (type === 'insulin') {
+      if (insulinUnits === null || insulinUnits <= 0 || !isInsulinKind(insulinKind)) {
+        rejected.push({ row, reason: `Not an insulin dose: "${insulinText} ${insulinKind}"` });
+      } else {
+        items.push(createInsulinEntry(insulinUnits, insulinKind, { timestamp, note }));
+      }
+    } else if (type === 'carbs') {
+      if (carbGrams === null || carbGrams <= 0) {
+        rejected.push({ row, reason: `Not a carbohydrate amount: "${carbText}"` });
+      } else {
+        items.push(createCarbEntry(carbGrams, { timestamp, note }));
+      }
+    } else if (type === 'a1c' && a1cPercent !== null) {
+      items.push(createA1cHistoryItem(convertA1c(a1cPercent, '%'), { timestamp, note }));
+    } else if (mgdl === null || mgdl <= 0) {
+      rejected.push({ row, reason: `Not a glucose value: "${mgdlText}"` });
+    } else {
+      items.push(createHistoryItem(convertGlucose(mgdl, 'mg/dL'), {
+        timestamp,
+        context: isMealContext(context) ? context : undefined,
+        note,
+      }));
+    }
+  });
+  return { format: 'glucoswap-csv', items, rejected };
+}
+
+function parseBackup(text: string): ParsedImport {
+  let backup: { format?: unknown; version?: unknown; data?: unknown };
+  try {
+    backup = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (backup.format !== BACKUP_FORMAT || !Number.isInteger(backup.version) || !Array.isArray(backup.data)) {
+    throw new Error('The file is not a GlucoSwap backup.');
+  }
+  const data = migrate(backup.data, backup.version as number, historySchema.migrations, historySchema.version);
+  const entries = Array.isArray(data) ? data : [];
+  const rejected = entries
+    .map((entry, index) => (isHistoryItem(entry) ? null : { row: index + 1, reason: 'Malformed backup entry' }))
+    .filter((entry): entry is RejectedRow => entry !== null);
+  return { format: 'backup', items: sanitizeHistory(entries), rejected };
+}
+
+/**
+ * Parses any supported file. Generic CSVs need a mapping; pass one from the mapping step
+ * (see `guessColumnMapping`). Throws when the file cannot be read at all.
+ */
+export function parseImport(text: string, mapping?: CsvColumnMapping): ParsedImport {
+  const format = detectImportFormat(text);
+  if (format === 'backup') {
+    return parseBackup(text);
+  }
+  const rows = parseCsv(text.trim());
+  switch (format) {
+    case 'glucoswap-csv':
+      return parseGlucoSwapCsv(rows);
+    case 'libreview':
+      return parseLibreView(rows);
+    case 'dexcom-clarity':
+      return parseDexcomClarity(rows);
+    case 'generic-csv':
+      if (rows.length < 2) {
+        throw new Error('The CSV file has no data rows.');
+      }
+      return parseMappedCsv(rows, mapping ?? guessColumnMapping(rows[0]));
+  }
+}
+
+// A dose logged at the same minute as a reading is a separate entry, not a duplicate of it.
+const mergeKey = (item: HistoryItem) => `${item.type ?? 'glucose'}@${item.timestamp}`;
+
+/**
+ * Adds imported entries whose type and timestamp are not already present (in history or earlier
+ * in the import), keeping the history newest-first.
+ */
+export function mergeImportedHistory(existing: HistoryItem[], imported: HistoryItem[]): MergeResult {
+  const seen = new Set(existing.map(mergeKey));
+  const additions: HistoryItem[] = [];
+  imported.forEach(item => {
+    if (!seen.has(mergeKey(item))) {
+      seen.add(mergeKey(item));
+      additions.push(item);
+    }
+  });
+  const history = [...existing, ...additions].sort((a, b) => b.timestamp - a.timestamp);
+  return { history, added: additions.length, duplicates: imported.length - additions.length };
+}
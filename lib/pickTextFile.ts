@@ -0,0 +1,16 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+
+const IMPORT_MIME_TYPES = ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/json'];
+
+/**
+ * Opens the system document picker and reads the chosen file as UTF-8 text.
+ * Resolves to null when the user cancels.
+ */
+export async function pickTextFile(): Promise<string | null> {
+  const result = await DocumentPicker.getDocumentAsync({ type: IMPORT_MIME_TYPES, copyToCacheDirectory: true });
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+  return FileSystem.readAsStringAsync(result.assets[0].uri, { encoding: FileSystem.EncodingType.UTF8 });
+}
@@ -0,0 +1,21 @@
+/**
+ * Opens the browser file chooser and reads the chosen file as text.
+ * Resolves to null when the user cancels.
+ */
+export function pickTextFile(): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.csv,.json,.txt,text/csv,application/json';
+    input.addEventListener('change', () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      file.text().then(resolve, reject);
+    });
+    input.addEventListener('cancel', () => resolve(null));
+    input.click();
+  });
+}
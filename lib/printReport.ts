@@ -0,0 +1,28 @@
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+
+/**
+ * Renders the report HTML to a PDF and opens the share sheet for it, falling back to the
+ * system print dialog where file sharing is unavailable. The PDF is deleted once the sheet
+ * closes, so the report is not left behind in the cache.
+ */
+export async function printReport(html: string, fileName: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    await Print.printAsync({ html });
+    return;
+  }
+  const { uri } = await Print.printToFileAsync({ html });
+  // Give the PDF a meaningful name; the print module writes it under a random one.
+  const target = FileSystem.cacheDirectory ? `${FileSystem.cacheDirectory}${fileName}` : uri;
+  try {
+    if (target !== uri) {
+      await FileSystem.moveAsync({ from: uri, to: target });
+    }
+    await Sharing.shareAsync(target, { mimeType: 'application/pdf', UTI: 'com.adobe.pdf', dialogTitle: fileName });
+  } finally {
+    // Both paths, in case the move failed part way.
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+    await FileSystem.deleteAsync(target, { idempotent: true });
+  }
+}
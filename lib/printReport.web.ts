@@ -0,0 +1,26 @@
+/**
+ * Prints the report HTML from a hidden frame, so the browser's print dialog can send it to a
+ * printer or save it as a PDF without leaving the app.
+ */
+export async function printReport(html: string, fileName: string): Promise<void> {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) {
+    frame.remove();
+    throw new Error('Printing is not available in this browser.');
+  }
+  frameWindow.document.open();
+  // The document title becomes the suggested file name when saving as PDF.
+  frameWindow.document.write(html.replace(/<title>[^<]*<\/title>/, `<title>${fileName.replace(/\.pdf$/, '')}</title>`));
+  frameWindow.document.close();
+  frameWindow.focus();
+  frameWindow.print();
+  // Removing the frame while the dialog is open cancels printing in some browsers.
+  setTimeout(() => frame.remove(), 1000);
+}
@@ -0,0 +1,162 @@
+import { HISTORY_STORAGE_KEY } from '@/lib/historyStore';
+import { REMINDER_STORAGE_KEY } from '@/lib/reminders';
+import { SETTINGS_STORAGE_KEY } from '@/lib/settings';
+import { StorageAdapter, createScopedStorageAdapter } from '@/lib/storage';
+import { TARGET_RANGE_STORAGE_KEY } from '@/lib/targetRange';
+import { VersionedSchema, backupKey, loadVersioned, saveVersioned } from '@/lib/versionedStore';
+
+export const PROFILES_STORAGE_KEY = '@glucoSwapProfiles';
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const MAX_PROFILE_NAME_LENGTH = 30;
+
+// Everything stored under these keys belongs to one profile; anything else is device-wide.
+export const PROFILE_STORAGE_KEYS = [HISTORY_STORAGE_KEY, TARGET_RANGE_STORAGE_KEY, SETTINGS_STORAGE_KEY, REMINDER_STORAGE_KEY];
+
+// Keys that were still device-wide when profiles were introduced; see `loadProfiles`.
+const LATER_PROFILE_STORAGE_KEYS = [REMINDER_STORAGE_KEY];
+
+/**
+ * A person whose readings are tracked on this device, e.g. a caregiver's child and parent.
+ */
+export interface Profile {
+  id: string;
+  name: string;
+}
+
+export interface ProfileRegistry {
+  profiles: Profile[];
+  activeProfileId: string;
+}
+
+export const DEFAULT_PROFILE: Profile = { id: DEFAULT_PROFILE_ID, name: 'Me' };
+
+export const DEFAULT_PROFILE_REGISTRY: ProfileRegistry = {
+  profiles: [DEFAULT_PROFILE],
+  activeProfileId: DEFAULT_PROFILE_ID,
+};
+
+/**
+ * Storage for one profile's history, target ranges and settings.
+ */
+export function profileStorage(storage: StorageAdapter, profileId: string): StorageAdapter {
+  return createScopedStorageAdapter(storage, `profile:${profileId}`);
+}
+
+export function normalizeProfileName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+export function validateProfileName(name: string, profiles: Profile[], excludeId?: string): string | null {
+  const normalized = normalizeProfileName(name);
+  if (normalized === '') {
+    return 'Enter a name.';
+  }
+  if (normalized.length > MAX_PROFILE_NAME_LENGTH) {
+    return `Use at most ${MAX_PROFILE_NAME_LENGTH} characters.`;
+  }
+  const isTaken = profiles.some(
+    profile => profile.id !== excludeId && profile.name.toLocaleLowerCase() === normalized.toLocaleLowerCase()
+  );
+  return isTaken ? 'A profile with this name already exists.' : null;
+}
+
+export function createProfile(name: string, now: number = Date.now()): Profile {
+  return { id: `${now}-${Math.random().toString(36).slice(2, 8)}`, name: normalizeProfileName(name) };
+}
+
+export function activeProfile(registry: ProfileRegistry): Profile {
+  return registry.profiles.find(profile => profile.id === registry.activeProfileId) ?? registry.profiles[0];
+}
+
+export function addProfile(registry: ProfileRegistry, profile: Profile): ProfileRegistry {
+  return { ...registry, profiles: [...registry.profiles, profile] };
+}
+
+/**
+ * Drops a profile from the registry. The last profile cannot be removed; removing the active one
+ * activates the first remaining profile.
+ */
+export function removeProfile(registry: ProfileRegistry, id: string): ProfileRegistry {
+  const profiles = registry.profiles.filter(profile => profile.id !== id);
+  if (profiles.length === 0) {
+    return registry;
+  }
+  const activeProfileId = registry.activeProfileId === id ? profiles[0].id : registry.activeProfileId;
+  return { profiles, activeProfileId };
+}
+
+function isProfile(value: unknown): value is Profile {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { id, name } = value as Record<string, unknown>;
+  return typeof id === 'string' && id !== '' && typeof name === 'string' && normalizeProfileName(name) !== '';
+}
+
+export function sanitizeProfiles(data: unknown): ProfileRegistry {
+  if (typeof data !== 'object' || data === null) {
+    return DEFAULT_PROFILE_REGISTRY;
+  }
+  const candidate = data as Partial<Record<keyof ProfileRegistry, unknown>>;
+  const profiles = (Array.isArray(candidate.profiles) ? candidate.profiles.filter(isProfile) : [])
+    .filter((profile, index, all) => all.findIndex(other => other.id === profile.id) === index)
+    .map(({ id, name }) => ({ id, name: normalizeProfileName(name) }));
+  if (profiles.length === 0) {
+    return DEFAULT_PROFILE_REGISTRY;
+  }
+  const activeProfileId = profiles.some(profile => profile.id === candidate.activeProfileId)
+    ? (candidate.activeProfileId as string)
+    : profiles[0].id;
+  return { profiles, activeProfileId };
+}
+
+export const profilesSchema: VersionedSchema<ProfileRegistry> = {
+  version: 1,
+  migrations: {
+    1: data => data,
+  },
+  validate: sanitizeProfiles,
+};
+
+/**
+ * Moves data written before profiles existed into the default profile. Each key is copied
+ * before the original is removed, so an interrupted migration is simply repeated next launch.
+ */
+export async function migrateLegacyData(storage: StorageAdapter, keys: string[] = PROFILE_STORAGE_KEYS): Promise<void> {
+  const target = profileStorage(storage, DEFAULT_PROFILE_ID);
+  for (const key of keys.flatMap(key => [key, backupKey(key)])) {
+    const raw = await storage.getItem(key);
+    if (raw !== null) {
+      await target.setItem(key, raw);
+      await storage.removeItem(key);
+    }
+  }
+}
+
+/**
+ * Loads the profile list. The first launch after upgrading finds no list, migrates the existing
+ * data into the default profile and saves the list, so the migration runs once. Keys that became
+ * per-profile later (reminders) are moved on any launch that still finds them device-wide.
+ */
+export async function loadProfiles(storage: StorageAdapter): Promise<ProfileRegistry> {
+  if ((await storage.getItem(PROFILES_STORAGE_KEY)) === null) {
+    await migrateLegacyData(storage);
+    await saveProfiles(storage, DEFAULT_PROFILE_REGISTRY);
+    return DEFAULT_PROFILE_REGISTRY;
+  }
+  await migrateLegacyData(storage, LATER_PROFILE_STORAGE_KEYS);
+  return loadVersioned(storage, PROFILES_STORAGE_KEY, profilesSchema, DEFAULT_PROFILE_REGISTRY);
+}
+
+export async function saveProfiles(storage: StorageAdapter, registry: ProfileRegistry): Promise<void> {
+  await saveVersioned(storage, PROFILES_STORAGE_KEY, profilesSchema, registry);
+}
+
+export async function deleteProfileData(storage: StorageAdapter, profileId: string): Promise<void> {
+  const scoped = profileStorage(storage, profileId);
+  for (const key of PROFILE_STORAGE_KEYS.flatMap(key => [key, backupKey(key)])) {
+    await scoped.removeItem(key);
+  }
+}
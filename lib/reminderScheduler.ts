@@ -0,0 +1,47 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+
+import { PlannedReminder, ReminderScheduler } from '@/lib/reminders';
+
+const ANDROID_CHANNEL_ID = 'reminders';
+
+// Show reminders as banners even while the app is open.
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({ shouldShowAlert: true, shouldPlaySound: true, shouldSetBadge: false }),
+});
+
+async function requestPermission(): Promise<boolean> {
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+      name: 'Reminders',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) {
+    return true;
+  }
+  return (await Notifications.requestPermissionsAsync()).granted;
+}
+
+function toTrigger({ trigger }: PlannedReminder): Notifications.NotificationTriggerInput {
+  return trigger.type === 'daily'
+    ? { type: Notifications.SchedulableTriggerInputTypes.DAILY, hour: trigger.hour, minute: trigger.minute, channelId: ANDROID_CHANNEL_ID }
+    : { type: Notifications.SchedulableTriggerInputTypes.DATE, date: trigger.timestamp, channelId: ANDROID_CHANNEL_ID };
+}
+
+/**
+ * Local notifications through expo-notifications. GlucoSwap schedules nothing else, so
+ * cancelling everything is safe.
+ */
+export const reminderScheduler: ReminderScheduler | null = {
+  requestPermission,
+  cancelAll: () => Notifications.cancelAllScheduledNotificationsAsync(),
+  schedule: async reminder => {
+    await Notifications.scheduleNotificationAsync({
+      identifier: reminder.id,
+      content: { title: reminder.title, body: reminder.body },
+      trigger: toTrigger(reminder),
+    });
+  },
+};
@@ -0,0 +1,4 @@
+import { ReminderScheduler } from '@/lib/reminders';
+
+// Browsers cannot deliver scheduled notifications while the page is closed.
+export const reminderScheduler: ReminderScheduler | null = null;
@@ -0,0 +1,223 @@
+import { DEFAULT_DISPLAY_FORMAT, HistoryItem, TimeFormat, glucoseReadings } from '@/lib/glucose';
+import { StorageAdapter } from '@/lib/storage';
+import { VersionedSchema, loadVersioned, saveVersioned } from '@/lib/versionedStore';
+
+export const REMINDER_STORAGE_KEY = '@glucoSwapReminders';
+
+export const MAX_DAILY_REMINDERS = 8;
+
+// Follow-up delays offered after a post-meal reading, in minutes.
+export const AFTER_MEAL_DELAY_OPTIONS = [60, 120, 180];
+
+export const NO_READING_HOURS_OPTIONS = [4, 6, 8, 12];
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+/**
+ * Which glucose-check reminders the user wants: fixed times every day, a follow-up after a
+ * post-meal reading, and a nudge when no reading has been logged for a while.
+ */
+export interface ReminderSettings {
+  dailyTimes: TimeOfDay[];
+  afterMeal: { enabled: boolean; delayMinutes: number };
+  noReading: { enabled: boolean; hours: number };
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  dailyTimes: [],
+  afterMeal: { enabled: false, delayMinutes: 120 },
+  noReading: { enabled: false, hours: 8 },
+};
+
+export type ReminderKind = 'daily' | 'after-meal' | 'no-reading';
+
+export type ReminderTrigger = { type: 'daily'; hour: number; minute: number } | { type: 'date'; timestamp: number };
+
+/**
+ * One notification to hand to the OS. Planning is pure so it can be tested without a device;
+ * a `ReminderScheduler` turns the plan into real notifications.
+ */
+export interface PlannedReminder {
+  id: string;
+  kind: ReminderKind;
+  title: string;
+  body: string;
+  trigger: ReminderTrigger;
+}
+
+/**
+ * The parts of the platform notification API the app relies on. Everything previously
+ * scheduled is replaced on each sync, so the plan is the single source of truth.
+ */
+export interface ReminderScheduler {
+  requestPermission(): Promise<boolean>;
+  cancelAll(): Promise<void>;
+  schedule(reminder: PlannedReminder): Promise<void>;
+}
+
+export function formatTimeOfDay({ hour, minute }: TimeOfDay, timeFormat: TimeFormat = DEFAULT_DISPLAY_FORMAT.timeFormat): string {
+  const minutes = String(minute).padStart(2, '0');
+  if (timeFormat === '24h') {
+    return `${String(hour).padStart(2, '0')}:${minutes}`;
+  }
+  return `${hour % 12 === 0 ? 12 : hour % 12}:${minutes} ${hour < 12 ? 'AM' : 'PM'}`;
+}
+
+/**
+ * Parses "H:MM" / "HH:MM" on a 24-hour clock, returning null for anything else.
+ */
+export function parseTimeOfDay(input: string): TimeOfDay | null {
+  const match = /^(\d{1,2})[:.](\d{2})$/.exec(input.trim());
+  if (!match) {
+    return null;
+  }
+  const time = { hour: Number(match[1]), minute: Number(match[2]) };
+  return isTimeOfDay(time) ? time : null;
+}
+
+export function formatDelay(minutes: number): string {
+  return minutes % 60 === 0 ? `${minutes / 60} h` : `${minutes} min`;
+}
+
+function isTimeOfDay(value: unknown): value is TimeOfDay {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { hour, minute } = value as Record<string, unknown>;
+  return (
+    Number.isInteger(hour) && (hour as number) >= 0 && (hour as number) < 24 &&
+    Number.isInteger(minute) && (minute as number) >= 0 && (minute as number) < 60
+  );
+}
+
+const minuteOfDay = ({ hour, minute }: TimeOfDay) => hour * 60 + minute;
+
+/**
+ * Adds a daily reminder time, keeping the list sorted and free of duplicates.
+ */
+export function addDailyTime(settings: ReminderSettings, time: TimeOfDay): ReminderSettings {
+  const others = settings.dailyTimes.filter(existing => minuteOfDay(existing) !== minuteOfDay(time));
+  return { ...settings, dailyTimes: [...others, time].sort((a, b) => minuteOfDay(a) - minuteOfDay(b)) };
+}
+
+export function removeDailyTime(settings: ReminderSettings, time: TimeOfDay): ReminderSettings {
+  return { ...settings, dailyTimes: settings.dailyTimes.filter(existing => minuteOfDay(existing) !== minuteOfDay(time)) };
+}
+
+const latest = (items: HistoryItem[]) =>
+  items.reduce<HistoryItem | null>((newest, item) => (newest === null || item.timestamp > newest.timestamp ? item : newest), null);
+
+/**
+ * Turns the settings and the logged readings into the notifications that should be pending
+ * at `now`:
+ * - each daily time repeats every day;
+ * - the follow-up fires `delayMinutes` after a post-meal reading, as long as it is still the
+ *   latest reading and the moment has not passed;
+ * - the "no reading" nudge fires `hours` after the latest reading, or `hours` from now when
+ *   that is already overdue, so opening the app never triggers it straight away.
+ */
+export function planReminders(settings: ReminderSettings, history: HistoryItem[], now: number = Date.now()): PlannedReminder[] {
+  const readings = glucoseReadings(history);
+  const latestReading = latest(readings);
+  const planned: PlannedReminder[] = settings.dailyTimes.map(time => ({
+    id: `daily-${formatTimeOfDay(time, '24h')}`,
+    kind: 'daily',
+    title: 'Time to check your glucose',
+    body: 'Log your reading in GlucoSwap.',
+    trigger: { type: 'daily', hour: time.hour, minute: time.minute },
+  }));
+
+  if (settings.afterMeal.enabled) {
+    const fireAt = latestReading ? latestReading.timestamp + settings.afterMeal.delayMinutes * MINUTE_MS : 0;
+    if (latestReading?.context === 'post-meal' && fireAt > now) {
+      planned.push({
+        id: 'after-meal',
+        kind: 'after-meal',
+        title: 'Follow-up check',
+        body: `It has been ${formatDelay(settings.afterMeal.delayMinutes)} since your post-meal reading.`,
+        trigger: { type: 'date', timestamp: fireAt },
+      });
+    }
+  }
+
+  if (settings.noReading.enabled) {
+    const delay = settings.noReading.hours * HOUR_MS;
+    const dueAt = latestReading ? latestReading.timestamp + delay : now + delay;
+    planned.push({
+      id: 'no-reading',
+      kind: 'no-reading',
+      title: 'No reading logged',
+      body: `You haven't logged a glucose reading in ${settings.noReading.hours} hours.`,
+      trigger: { type: 'date', timestamp: dueAt > now ? dueAt : now + delay },
+    });
+  }
+
+  return planned;
+}
+
+/**
+ * Replaces every pending notification with `planned`. Resolves to false when the user has
+ * not allowed notifications, so the caller can explain why nothing will fire.
+ */
+export async function syncReminders(scheduler: ReminderScheduler, planned: PlannedReminder[]): Promise<boolean> {
+  await scheduler.cancelAll();
+  if (planned.length === 0) {
+    return true;
+  }
+  if (!(await scheduler.requestPermission())) {
+    return false;
+  }
+  for (const reminder of planned) {
+    await scheduler.schedule(reminder);
+  }
+  return true;
+}
+
+export function sanitizeReminderSettings(data: unknown): ReminderSettings {
+  if (typeof data !== 'object' || data === null) {
+    return DEFAULT_REMINDER_SETTINGS;
+  }
+  const candidate = data as Partial<Record<keyof ReminderSettings, unknown>>;
+  const afterMeal = (candidate.afterMeal ?? {}) as Partial<Record<string, unknown>>;
+  const noReading = (candidate.noReading ?? {}) as Partial<Record<string, unknown>>;
+  const dailyTimes = Array.isArray(candidate.dailyTimes) ? candidate.dailyTimes.filter(isTimeOfDay) : [];
+  return {
+    dailyTimes: dailyTimes
+      .reduce((settings, time) => addDailyTime(settings, { hour: time.hour, minute: time.minute }), DEFAULT_REMINDER_SETTINGS)
+      .dailyTimes.slice(0, MAX_DAILY_REMINDERS),
+    afterMeal: {
+      enabled: afterMeal.enabled === true,
+      delayMinutes: AFTER_MEAL_DELAY_OPTIONS.includes(afterMeal.delayMinutes as number)
+        ? (afterMeal.delayMinutes as number)
+        : DEFAULT_REMINDER_SETTINGS.afterMeal.delayMinutes,
+    },
+    noReading: {
+      enabled: noReading.enabled === true,
+      hours: NO_READING_HOURS_OPTIONS.includes(noReading.hours as number)
+        ? (noReading.hours as number)
+        : DEFAULT_REMINDER_SETTINGS.noReading.hours,
+    },
+  };
+}
+
+export const reminderSchema: VersionedSchema<ReminderSettings> = {
+  version: 1,
+  migrations: {
+    1: data => data,
+  },
+  validate: sanitizeReminderSettings,
+};
+
+export async function loadReminderSettings(storage: StorageAdapter): Promise<ReminderSettings> {
+  return loadVersioned(storage, REMINDER_STORAGE_KEY, reminderSchema, DEFAULT_REMINDER_SETTINGS);
+}
+
+export async function saveReminderSettings(storage: StorageAdapter, settings: ReminderSettings): Promise<void> {
+  await saveVersioned(storage, REMINDER_STORAGE_KEY, reminderSchema, settings);
+}
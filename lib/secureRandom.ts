@@ -0,0 +1,6 @@
+import * as Crypto from 'expo-crypto';
+
+import { RandomBytes } from '@/lib/encryption';
+
+// Cryptographically secure on every platform, including Hermes, which lacks crypto.getRandomValues.
+export const secureRandomBytes: RandomBytes = length => Crypto.getRandomBytes(length);
@@ -0,0 +1,117 @@
+import { ThemeName } from '@/constants/Colors';
+import { DEFAULT_DISPLAY_FORMAT, DecimalSeparator, DisplayFormat, TimeFormat, UNITS, Unit } from '@/lib/glucose';
+import { StorageAdapter } from '@/lib/storage';
+import { VersionedSchema, loadVersioned, saveVersioned } from '@/lib/versionedStore';
+
+export const SETTINGS_STORAGE_KEY = '@glucoSwapSettings';
+
+// Precision choices offered per unit; mg/dL is conventionally whole numbers.
+export const DECIMAL_OPTIONS: Record<Unit, number[]> = {
+  'mg/dL': [0, 1],
+  'mmol/L': [1, 2],
+};
+
+export const DECIMAL_SEPARATORS: DecimalSeparator[] = ['.', ','];
+
+export const TIME_FORMATS: TimeFormat[] = ['12h', '24h'];
+
+export type ThemePreference = 'system' | 'light' | 'dark' | 'high-contrast';
+
+export const THEME_PREFERENCES: ThemePreference[] = ['system', 'light', 'dark', 'high-contrast'];
+
+export const THEME_PREFERENCE_LABELS: Record<ThemePreference, string> = {
+  system: 'System',
+  light: 'Light',
+  dark: 'Dark',
+  'high-contrast': 'High contrast',
+};
+
+/**
+ * User preferences: the unit readings are entered in, how values and times are displayed, and
+ * the colour theme.
+ */
+export interface AppSettings extends DisplayFormat {
+  preferredUnit: Unit;
+  themePreference: ThemePreference;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  ...DEFAULT_DISPLAY_FORMAT,
+  preferredUnit: 'mg/dL',
+  themePreference: 'system',
+};
+
+/**
+ * The palette to render with: an explicit choice wins, otherwise follow the device. A missing
+ * system scheme (web before hydration, older Android) falls back to light.
+ */
+export function resolveThemeName(preference: ThemePreference, systemScheme: string | null | undefined): ThemeName {
+  switch (preference) {
+    case 'light':
+      return 'light';
+    case 'dark':
+      return 'dark';
+    case 'high-contrast':
+      return 'highContrast';
+    default:
+      return systemScheme === 'dark' ? 'dark' : 'light';
+  }
+}
+
+/**
+ * Separator and clock detected from the device locale, used until the user picks their own.
+ */
+export function localeDisplayDefaults(): Pick<AppSettings, 'decimalSeparator' | 'timeFormat'> {
+  const decimalSeparator = (1.5).toLocaleString().includes(',') ? ',' : '.';
+  const hour12 = new Intl.DateTimeFormat(undefined, { hour: 'numeric' }).resolvedOptions().hour12;
+  return { decimalSeparator, timeFormat: hour12 === false ? '24h' : '12h' };
+}
+
+export function sanitizeSettings(data: unknown, fallback: AppSettings = DEFAULT_SETTINGS): AppSettings {
+  if (typeof data !== 'object' || data === null) {
+    return fallback;
+  }
+  const candidate = data as Partial<Record<keyof AppSettings, unknown>>;
+  const decimals = (candidate.decimals ?? {}) as Partial<Record<Unit, unknown>>;
+  return {
+    preferredUnit: UNITS.includes(candidate.preferredUnit as Unit) ? (candidate.preferredUnit as Unit) : fallback.preferredUnit,
+    decimals: UNITS.reduce(
+      (acc, unit) => ({
+        ...acc,
+        [unit]: DECIMAL_OPTIONS[unit].includes(decimals[unit] as number) ? decimals[unit] : fallback.decimals[unit],
+      }),
+      {} as Record<Unit, number>
+    ),
+    decimalSeparator: DECIMAL_SEPARATORS.includes(candidate.decimalSeparator as DecimalSeparator)
+      ? (candidate.decimalSeparator as DecimalSeparator)
+      : fallback.decimalSeparator,
+    timeFormat: TIME_FORMATS.includes(candidate.timeFormat as TimeFormat)
+      ? (candidate.timeFormat as TimeFormat)
+      : fallback.timeFormat,
+    themePreference: THEME_PREFERENCES.includes(candidate.themePreference as ThemePreference)
+      ? (candidate.themePreference as ThemePreference)
+      : fallback.themePreference,
+  };
+}
+
+/**
+ * Version history of the persisted `AppSettings`:
+ *   1 - preferred unit, decimals per unit, decimal separator and time format
+ *   2 - adds `themePreference`; older payloads follow the system scheme
+ */
+export const settingsSchema: VersionedSchema<AppSettings> = {
+  version: 2,
+  migrations: {
+    1: data => data,
+    2: data => data,
+  },
+  validate: data => sanitizeSettings(data),
+};
+
+export async function loadSettings(storage: StorageAdapter, fallback: AppSettings = DEFAULT_SETTINGS): Promise<AppSettings> {
+  return loadVersioned(storage, SETTINGS_STORAGE_KEY, { ...settingsSchema, validate: data => sanitizeSettings(data, fallback) }, fallback);
+}
+
+export async function saveSettings(storage: StorageAdapter, settings: AppSettings): Promise<void> {
+  await saveVersioned(storage, SETTINGS_STORAGE_KEY, settingsSchema, settings);
+}
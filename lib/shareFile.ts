@@ -0,0 +1,24 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Share } from 'react-native';
+
+import { ExportFile } from '@/lib/exportHistory';
+
+/**
+ * Writes the file to the cache directory and opens the native share sheet for it. The file is
+ * deleted once the sheet closes, so the readings are not left behind in plain text.
+ * Falls back to sharing the contents as text where file sharing is unavailable.
+ */
+export async function shareFile(file: ExportFile): Promise<void> {
+  if (FileSystem.cacheDirectory && (await Sharing.isAvailableAsync())) {
+    const uri = `${FileSystem.cacheDirectory}${file.fileName}`;
+    try {
+      await FileSystem.writeAsStringAsync(uri, file.contents, { encoding: FileSystem.EncodingType.UTF8 });
+      await Sharing.shareAsync(uri, { mimeType: file.mimeType, dialogTitle: file.fileName });
+    } finally {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+    }
+    return;
+  }
+  await Share.share({ title: file.fileName, message: file.contents });
+}
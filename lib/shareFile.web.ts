@@ -0,0 +1,16 @@
+import { ExportFile } from '@/lib/exportHistory';
+
+/**
+ * Triggers a browser download of the file.
+ */
+export async function shareFile(file: ExportFile): Promise<void> {
+  const url = URL.createObjectURL(new Blob([file.contents], { type: `${file.mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking synchronously can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,105 @@
+import { eagToA1c } from '@/lib/a1c';
+import { HistoryItem, glucoseReadings } from '@/lib/glucose';
+import { DEFAULT_TARGET_RANGES, GLUCOSE_RANGES, GlucoseRange, TargetRangeSettings, classifyGlucose } from '@/lib/targetRange';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const STATS_WINDOWS_DAYS = [7, 14, 30, 90];
+
+/**
+ * Summary metrics over a set of readings. Glucose values are in mg/dL; convert for display.
+ * Range percentages are the share of readings, which approximates time in range for
+ * fingerstick data where readings are not evenly spaced.
+ */
+export interface GlycemicStats {
+  count: number;
+  mean: number;
+  median: number;
+  standardDeviation: number;
+  coefficientOfVariation: number;
+  gmi: number;
+  estimatedA1c: number;
+  rangePercentages: Record<GlucoseRange, number>;
+  timeBelowRange: number;
+  timeInRange: number;
+  timeAboveRange: number;
+}
+
+export function filterByWindow(history: HistoryItem[], days: number, now: number = Date.now()): HistoryItem[] {
+  const since = now - days * DAY_MS;
+  return history.filter(item => item.timestamp >= since && item.timestamp <= now);
+}
+
+export function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Percentile with linear interpolation between the closest ranks; `p` is 0–100.
+export function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+// Population standard deviation, as used by the consensus CGM metrics.
+export function standardDeviation(values: number[]): number {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+}
+
+// Glucose Management Indicator (Bergenstal et al. 2018), in %.
+export function glucoseManagementIndicator(meanMgdl: number): number {
+  return 3.31 + 0.02392 * meanMgdl;
+}
+
+// HbA1c estimated from average glucose using the ADAG regression, in %.
+export function estimatedA1cFromMean(meanMgdl: number): number {
+  return eagToA1c(meanMgdl);
+}
+
+/**
+ * Computes summary statistics over the glucose readings in `history`, or null when there are none.
+ */
+export function computeGlycemicStats(
+  history: HistoryItem[],
+  targetRanges: TargetRangeSettings = DEFAULT_TARGET_RANGES
+): GlycemicStats | null {
+  const readings = glucoseReadings(history);
+  if (readings.length === 0) {
+    return null;
+  }
+  const values = readings.map(item => item.mgdlValue);
+  const average = mean(values);
+  const deviation = standardDeviation(values);
+
+  const counts = GLUCOSE_RANGES.reduce((acc, range) => ({ ...acc, [range]: 0 }), {} as Record<GlucoseRange, number>);
+  readings.forEach(item => {
+    counts[classifyGlucose(item, targetRanges)] += 1;
+  });
+  const rangePercentages = GLUCOSE_RANGES.reduce(
+    (acc, range) => ({ ...acc, [range]: (counts[range] / readings.length) * 100 }),
+    {} as Record<GlucoseRange, number>
+  );
+
+  return {
+    count: readings.length,
+    mean: average,
+    median: median(values),
+    standardDeviation: deviation,
+    coefficientOfVariation: average === 0 ? 0 : (deviation / average) * 100,
+    gmi: glucoseManagementIndicator(average),
+    estimatedA1c: estimatedA1cFromMean(average),
+    rangePercentages,
+    timeBelowRange: rangePercentages['very-low'] + rangePercentages.low,
+    timeInRange: rangePercentages['in-range'],
+    timeAboveRange: rangePercentages.high + rangePercentages['very-high'],
+  };
+}
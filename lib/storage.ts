@@ -0,0 +1,77 @@
+/**
+ * Minimal async key/value contract the app persists through. Each platform backend is wrapped
+ * in an adapter so persistence logic can be written (and tested) once.
+ */
+export interface StorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+// The subset of @react-native-async-storage/async-storage the adapter relies on.
+export interface AsyncStorageLike {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export function createAsyncStorageAdapter(asyncStorage: AsyncStorageLike): StorageAdapter {
+  return {
+    getItem: key => asyncStorage.getItem(key),
+    setItem: (key, value) => asyncStorage.setItem(key, value),
+    removeItem: key => asyncStorage.removeItem(key),
+  };
+}
+
+/**
+ * Wraps the synchronous Web Storage API. The backend is resolved lazily so the adapter can be
+ * created during static rendering, where `localStorage` does not exist yet.
+ */
+export function createLocalStorageAdapter(getStorage: () => Storage = () => window.localStorage): StorageAdapter {
+  return {
+    getItem: async key => getStorage().getItem(key),
+    setItem: async (key, value) => getStorage().setItem(key, value),
+    removeItem: async key => getStorage().removeItem(key),
+  };
+}
+
+/**
+ * Whether a failed write means the backend is out of space: the Web Storage quota (about 5 MB
+ * per origin) or a full SQLite database behind AsyncStorage.
+ */
+export function isStorageFullError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  return (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    /SQLITE_FULL|disk is full|quota/i.test(error.message)
+  );
+}
+
+export function createMemoryStorageAdapter(initial: Record<string, string> = {}): StorageAdapter {
+  const values = new Map(Object.entries(initial));
+  return {
+    getItem: async key => values.get(key) ?? null,
+    setItem: async (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: async key => {
+      values.delete(key);
+    },
+  };
+}
+
+/**
+ * Namespaces every key with `scope`, so several profiles can keep their data side by side in
+ * one backend through the same load/save functions.
+ */
+export function createScopedStorageAdapter(storage: StorageAdapter, scope: string): StorageAdapter {
+  const scopedKey = (key: string) => `${key}:${scope}`;
+  return {
+    getItem: key => storage.getItem(scopedKey(key)),
+    setItem: (key, value) => storage.setItem(scopedKey(key), value),
+    removeItem: key => storage.removeItem(scopedKey(key)),
+  };
+}
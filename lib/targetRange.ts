@@ -0,0 +1,187 @@
+import {
+  DEFAULT_DISPLAY_FORMAT,
+  DisplayFormat,
+  GlucoseConversion,
+  MealContext,
+  Unit,
+  formatDecimal,
+  mgdlToMmol,
+  mmolToMgdl,
+} from '@/lib/glucose';
+import { StorageAdapter } from '@/lib/storage';
+import { VersionedSchema, loadVersioned, saveVersioned } from '@/lib/versionedStore';
+
+export const TARGET_RANGE_STORAGE_KEY = '@glucoSwapTargetRanges';
+
+// International consensus thresholds for clinically significant low/high glucose.
+export const VERY_LOW_MGDL = 54;
+export const VERY_HIGH_MGDL = 250;
+
+export type GlucoseRange = 'very-low' | 'low' | 'in-range' | 'high' | 'very-high';
+
+export const GLUCOSE_RANGES: GlucoseRange[] = ['very-low', 'low', 'in-range', 'high', 'very-high'];
+
+export const GLUCOSE_RANGE_LABELS: Record<GlucoseRange, string> = {
+  'very-low': 'Very low',
+  low: 'Low',
+  'in-range': 'In range',
+  high: 'High',
+  'very-high': 'Very high',
+};
+
+// Shown next to (or instead of) the range colour so the status never depends on colour alone.
+export const GLUCOSE_RANGE_SYMBOLS: Record<GlucoseRange, string> = {
+  'very-low': '⇊',
+  low: '↓',
+  'in-range': '✓',
+  high: '↑',
+  'very-high': '⇈',
+};
+
+export interface TargetRange {
+  low: number;
+  high: number;
+}
+
+/**
+ * User-configured targets, all expressed in `unit`. Fasting and post-meal ranges are optional
+ * and fall back to the default range when absent.
+ */
+export interface TargetRangeSettings {
+  unit: Unit;
+  default: TargetRange;
+  fasting?: TargetRange;
+  postMeal?: TargetRange;
+}
+
+export const DEFAULT_TARGET_RANGES: TargetRangeSettings = {
+  unit: 'mg/dL',
+  default: { low: 70, high: 180 },
+};
+
+function toMgdl(value: number, unit: Unit): number {
+  return unit === 'mg/dL' ? value : mmolToMgdl(value);
+}
+
+function fromMgdl(value: number, unit: Unit): number {
+  return unit === 'mg/dL' ? value : mgdlToMmol(value);
+}
+
+export function convertTargetRange(range: TargetRange, from: Unit, to: Unit): TargetRange {
+  if (from === to) {
+    return range;
+  }
+  return { low: fromMgdl(toMgdl(range.low, from), to), high: fromMgdl(toMgdl(range.high, from), to) };
+}
+
+/**
+ * Picks the range that applies to a reading's meal context, in mg/dL.
+ */
+export function targetRangeFor(settings: TargetRangeSettings, context?: MealContext): TargetRange {
+  let range = settings.default;
+  if (context === 'fasting' && settings.fasting) {
+    range = settings.fasting;
+  } else if (context === 'post-meal' && settings.postMeal) {
+    range = settings.postMeal;
+  }
+  return convertTargetRange(range, settings.unit, 'mg/dL');
+}
+
+export function classifyGlucose(
+  reading: GlucoseConversion & { context?: MealContext },
+  settings: TargetRangeSettings = DEFAULT_TARGET_RANGES
+): GlucoseRange {
+  const value = reading.mgdlValue;
+  const range = targetRangeFor(settings, reading.context);
+  if (value < Math.min(VERY_LOW_MGDL, range.low)) {
+    return 'very-low';
+  }
+  if (value < range.low) {
+    return 'low';
+  }
+  if (value <= range.high) {
+    return 'in-range';
+  }
+  if (value > Math.max(VERY_HIGH_MGDL, range.high)) {
+    return 'very-high';
+  }
+  return 'high';
+}
+
+/**
+ * Describes a range as "70–180 mg/dL" in the requested display unit.
+ */
+export function formatTargetRange(range: TargetRange, unit: Unit, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT): string {
+  const decimals = unit === 'mg/dL' ? 0 : 1;
+  const value = (limit: number) => formatDecimal(limit, decimals, format.decimalSeparator);
+  return `${value(range.low)}–${value(range.high)} ${unit}`;
+}
+
+export function describeClassification(
+  reading: GlucoseConversion & { context?: MealContext },
+  settings: TargetRangeSettings,
+  unit: Unit,
+  format: DisplayFormat = DEFAULT_DISPLAY_FORMAT
+): string {
+  const classification = classifyGlucose(reading, settings);
+  const range = convertTargetRange(targetRangeFor(settings, reading.context), 'mg/dL', unit);
+  return `${GLUCOSE_RANGE_LABELS[classification]} (target ${formatTargetRange(range, unit, format)})`;
+}
+
+/**
+ * Returns a user-facing error for an invalid range, or null when the range is usable.
+ */
+export function validateTargetRange(range: TargetRange): string | null {
+  if (!Number.isFinite(range.low) || !Number.isFinite(range.high) || range.low <= 0 || range.high <= 0) {
+    return 'Enter positive numbers for both limits.';
+  }
+  if (range.low >= range.high) {
+    return 'The low limit must be below the high limit.';
+  }
+  return null;
+}
+
+function isTargetRange(value: unknown): value is TargetRange {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    validateTargetRange(value as TargetRange) === null
+  );
+}
+
+export function sanitizeTargetRanges(data: unknown): TargetRangeSettings {
+  if (typeof data !== 'object' || data === null) {
+    return DEFAULT_TARGET_RANGES;
+  }
+  const candidate = data as Partial<Record<keyof TargetRangeSettings, unknown>>;
+  if ((candidate.unit !== 'mg/dL' && candidate.unit !== 'mmol/L') || !isTargetRange(candidate.default)) {
+    return DEFAULT_TARGET_RANGES;
+  }
+  const settings: TargetRangeSettings = {
+    unit: candidate.unit,
+    default: { low: candidate.default.low, high: candidate.default.high },
+  };
+  if (isTargetRange(candidate.fasting)) {
+    settings.fasting = { low: candidate.fasting.low, high: candidate.fasting.high };
+  }
+  if (isTargetRange(candidate.postMeal)) {
+    settings.postMeal = { low: candidate.postMeal.low, high: candidate.postMeal.high };
+  }
+  return settings;
+}
+
+export const targetRangeSchema: VersionedSchema<TargetRangeSettings> = {
+  version: 1,
+  migrations: {
+    1: data => data,
+  },
+  validate: sanitizeTargetRanges,
+};
+
+export async function loadTargetRanges(storage: StorageAdapter): Promise<TargetRangeSettings> {
+  return loadVersioned(storage, TARGET_RANGE_STORAGE_KEY, targetRangeSchema, DEFAULT_TARGET_RANGES);
+}
+
+export async function saveTargetRanges(storage: StorageAdapter, settings: TargetRangeSettings): Promise<void> {
+  await saveVersioned(storage, TARGET_RANGE_STORAGE_KEY, targetRangeSchema, settings);
+}
@@ -0,0 +1,132 @@
+import {
+  DEFAULT_DISPLAY_FORMAT,
+  DisplayFormat,
+  HistoryItem,
+  HistoryItemDetails,
+  InsulinKind,
+  TREATMENT_UNITS,
+  TreatmentType,
+  createHistoryItem,
+  formatDecimal,
+  isCarbEntry,
+  isInsulinEntry,
+  sortChronologically,
+} from '@/lib/glucose';
+
+export const INSULIN_KIND_LABELS: Record<InsulinKind, string> = {
+  rapid: 'Rapid-acting',
+  long: 'Long-acting',
+};
+
+export const TREATMENT_LABELS: Record<TreatmentType, string> = {
+  insulin: 'Insulin',
+  carbs: 'Carbs',
+};
+
+/**
+ * An insulin dose or carbohydrate intake drawn on the trend chart at the time it was logged.
+ * `label` is the short amount shown next to the marker, e.g. "4 U".
+ */
+export interface TreatmentMarker {
+  id: string;
+  timestamp: number;
+  type: TreatmentType;
+  label: string;
+  description: string;
+  note?: string;
+}
+
+// Treatments have no glucose value; the shared fields stay at zero and are never shown.
+const NO_GLUCOSE = { mgdlValue: 0, mmolValue: 0 };
+
+export function createInsulinEntry(units: number, kind: InsulinKind, details: HistoryItemDetails = {}): HistoryItem {
+  return {
+    ...createHistoryItem(NO_GLUCOSE, { timestamp: details.timestamp, note: details.note }),
+    type: 'insulin',
+    insulinUnits: units,
+    insulinKind: kind,
+  };
+}
+
+export function createCarbEntry(grams: number, details: HistoryItemDetails = {}): HistoryItem {
+  return {
+    ...createHistoryItem(NO_GLUCOSE, { timestamp: details.timestamp, note: details.note }),
+    type: 'carbs',
+    carbGrams: grams,
+  };
+}
+
+/**
+ * Whole amounts without decimals; pump doses such as 0.05 U keep the digits they need.
+ */
+export function formatTreatmentValue(value: number, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT): string {
+  const decimals = Number.isInteger(value) ? 0 : Math.abs(value * 10 - Math.round(value * 10)) < 1e-9 ? 1 : 2;
+  return formatDecimal(value, decimals, format.decimalSeparator);
+}
+
+export function formatTreatmentAmount(
+  value: number,
+  type: TreatmentType,
+  format: DisplayFormat = DEFAULT_DISPLAY_FORMAT
+): string {
+  return `${formatTreatmentValue(value, format)} ${TREATMENT_UNITS[type]}`;
+}
+
+/**
+ * The amount of a treatment entry with its unit, e.g. "4 U", or null for any other entry.
+ */
+export function treatmentAmount(item: HistoryItem, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT): string | null {
+  if (isInsulinEntry(item)) {
+    return formatTreatmentAmount(item.insulinUnits, 'insulin', format);
+  }
+  if (isCarbEntry(item)) {
+    return formatTreatmentAmount(item.carbGrams, 'carbs', format);
+  }
+  return null;
+}
+
+/**
+ * E.g. "4 U rapid-acting insulin" or "45 g carbs"; empty for entries that are not treatments.
+ */
+export function describeTreatment(item: HistoryItem, format: DisplayFormat = DEFAULT_DISPLAY_FORMAT): string {
+  const amount = treatmentAmount(item, format);
+  if (isInsulinEntry(item)) {
+    return `${amount} ${INSULIN_KIND_LABELS[item.insulinKind].toLowerCase()} insulin`;
+  }
+  return isCarbEntry(item) ? `${amount} carbs` : '';
+}
+
+/**
+ * Oldest-first markers for every treatment entry in the history.
+ */
+export function buildTreatmentMarkers(history: HistoryItem[], format: DisplayFormat = DEFAULT_DISPLAY_FORMAT): TreatmentMarker[] {
+  return sortChronologically(history).flatMap((item): TreatmentMarker[] => {
+    const label = treatmentAmount(item, format);
+    return label !== null && (item.type === 'insulin' || item.type === 'carbs')
+      ? [{ id: item.id, timestamp: item.timestamp, type: item.type, label, description: describeTreatment(item, format), note: item.note }]
+      : [];
+  });
+}
+
+/**
+ * Markers within the domain, edges included so a dose logged right now still shows. Unlike
+ * readings, nothing beyond the edges needs drawing.
+ */
+export function markersInDomain(markers: TreatmentMarker[], [start, end]: [number, number]): TreatmentMarker[] {
+  return markers.filter(marker => marker.timestamp >= start && marker.timestamp <= end);
+}
+
+/**
+ * Screen reader summary of the markers on a chart, e.g. "2 insulin doses and 1 carb entry".
+ */
+export function describeTreatmentMarkers(markers: TreatmentMarker[]): string {
+  const count = (type: TreatmentType) => markers.filter(marker => marker.type === type).length;
+  const insulin = count('insulin');
+  const carbs = count('carbs');
+  return [
+    insulin > 0 ? `${insulin} insulin ${insulin === 1 ? 'dose' : 'doses'}` : '',
+    carbs > 0 ? `${carbs} carb ${carbs === 1 ? 'entry' : 'entries'}` : '',
+  ]
+    .filter(Boolean)
+    .join(' and ');
+}
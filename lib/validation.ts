@@ -0,0 +1,190 @@
+import { A1cQuantity, a1cToEag, ngspToIfcc } from '@/lib/a1c';
+import {
+  DEFAULT_DISPLAY_FORMAT,
+  DisplayFormat,
+  TREATMENT_UNITS,
+  TreatmentType,
+  Unit,
+  formatDecimal,
+  mgdlToMmol,
+  otherUnit,
+  parseGlucoseInput,
+} from '@/lib/glucose';
+
+export interface ValueLimits {
+  min: number;
+  max: number;
+}
+
+/**
+ * `plausible` is what meters and labs actually report; a value outside it is most likely a typo
+ * or the wrong unit. `possible` is the hard physiological limit; nothing outside it is saved.
+ */
+export interface QuantityLimits {
+  plausible: ValueLimits;
+  possible: ValueLimits;
+}
+
+export type InputSeverity = 'error' | 'warning';
+
+/**
+ * Outcome of checking the converter input. `value` is null when the input must not be
+ * converted; a warning still allows it. `suggestedUnit` is set when the value would be
+ * plausible in that unit instead.
+ */
+export interface InputValidation<Q extends string> {
+  value: number | null;
+  severity?: InputSeverity;
+  message?: string;
+  suggestedUnit?: Q;
+}
+
+// Most meters read 20–600 mg/dL. The hard limits lie beyond the most extreme readings ever
+// reported in survivors.
+const GLUCOSE_PLAUSIBLE_MGDL: ValueLimits = { min: 20, max: 600 };
+const GLUCOSE_POSSIBLE_MGDL: ValueLimits = { min: 10, max: 2700 };
+
+const A1C_PLAUSIBLE_PERCENT: ValueLimits = { min: 3.5, max: 20 };
+const A1C_POSSIBLE_PERCENT: ValueLimits = { min: 2.5, max: 25 };
+
+const mapLimits = (limits: ValueLimits, convert: (value: number) => number): ValueLimits => ({
+  min: convert(limits.min),
+  max: convert(limits.max),
+});
+
+const glucoseLimits = (convert: (mgdl: number) => number): QuantityLimits => ({
+  plausible: mapLimits(GLUCOSE_PLAUSIBLE_MGDL, convert),
+  possible: mapLimits(GLUCOSE_POSSIBLE_MGDL, convert),
+});
+
+const a1cLimits = (convert: (percent: number) => number): QuantityLimits => ({
+  plausible: mapLimits(A1C_PLAUSIBLE_PERCENT, convert),
+  possible: mapLimits(A1C_POSSIBLE_PERCENT, convert),
+});
+
+export const GLUCOSE_LIMITS: Record<Unit, QuantityLimits> = {
+  'mg/dL': glucoseLimits(mgdl => mgdl),
+  'mmol/L': glucoseLimits(mgdlToMmol),
+};
+
+// eAG limits follow from the HbA1c limits, so every accepted value converts to a sensible HbA1c.
+export const A1C_LIMITS: Record<A1cQuantity, QuantityLimits> = {
+  '%': a1cLimits(percent => percent),
+  'mmol/mol': a1cLimits(ngspToIfcc),
+  'mg/dL': a1cLimits(a1cToEag),
+  'mmol/L': a1cLimits(percent => mgdlToMmol(a1cToEag(percent))),
+};
+
+// A single bolus above 100 U or a meal above 500 g of carbohydrate is far more likely a typo
+// than a real entry.
+export const TREATMENT_LIMITS: Record<TreatmentType, ValueLimits> = {
+  insulin: { min: 0.1, max: 100 },
+  carbs: { min: 1, max: 500 },
+};
+
+// The unit a value was most likely meant in when it is implausible in the selected one.
+const A1C_ALTERNATIVES: Record<A1cQuantity, A1cQuantity> = {
+  '%': 'mmol/mol',
+  'mmol/mol': '%',
+  'mg/dL': 'mmol/L',
+  'mmol/L': 'mg/dL',
+};
+
+export const INVALID_VALUE_MESSAGE = 'Enter a valid value.';
+
+const isWithin = (value: number, { min, max }: ValueLimits) => value >= min && value <= max;
+
+const withUnit = (value: string, unit: string) => (unit === '%' ? `${value}%` : `${value} ${unit}`);
+
+// Rounds towards the inside of the range so every value shown as a limit is accepted.
+function formatLimit(value: number, round: (value: number) => number, format: DisplayFormat): string {
+  const decimals = Number.isInteger(value) || value >= 100 ? 0 : 1;
+  const scale = 10 ** decimals;
+  return formatDecimal(round(value * scale) / scale, decimals, format.decimalSeparator);
+}
+
+function validateQuantity<Q extends string>(
+  input: string,
+  unit: Q,
+  limits: Record<Q, QuantityLimits>,
+  alternative: Q,
+  format: DisplayFormat
+): InputValidation<Q> {
+  if (input.trim() === '') {
+    return { value: null };
+  }
+  const value = parseGlucoseInput(input);
+  if (value === null) {
+    return { value: null, severity: 'error', message: INVALID_VALUE_MESSAGE };
+  }
+  const { plausible, possible } = limits[unit];
+  const isPossible = isWithin(value, possible);
+  if (!isWithin(value, plausible) && isWithin(value, limits[alternative].plausible)) {
+    const typed = input.trim();
+    return {
+      value: isPossible ? value : null,
+      severity: isPossible ? 'warning' : 'error',
+      message: `${withUnit(typed, unit)} is unusual. Did you mean ${withUnit(typed, alternative)}?`,
+      suggestedUnit: alternative,
+    };
+  }
+  if (!isPossible) {
+    return {
+      value: null,
+      severity: 'error',
+      message: `Enter a value between ${formatLimit(possible.min, Math.ceil, format)} and ${withUnit(formatLimit(possible.max, Math.floor, format), unit)}.`,
+    };
+  }
+  return { value };
+}
+
+/**
+ * Checks a glucose reading against the limits for its unit, suggesting the other unit for a
+ * classic mix-up such as "180" entered as mmol/L.
+ */
+export function validateGlucoseInput(
+  input: string,
+  unit: Unit,
+  format: DisplayFormat = DEFAULT_DISPLAY_FORMAT
+): InputValidation<Unit> {
+  return validateQuantity(input, unit, GLUCOSE_LIMITS, otherUnit(unit), format);
+}
+
+/**
+ * Checks HbA1c converter input, suggesting % for an IFCC-sized value and vice versa, or the
+ * other glucose unit for eAG.
+ */
+export function validateA1cInput(
+  input: string,
+  quantity: A1cQuantity,
+  format: DisplayFormat = DEFAULT_DISPLAY_FORMAT
+): InputValidation<A1cQuantity> {
+  return validateQuantity(input, quantity, A1C_LIMITS, A1C_ALTERNATIVES[quantity], format);
+}
+
+/**
+ * Checks an insulin dose or carbohydrate amount. There is no other unit to suggest, so anything
+ * outside the limits is an error.
+ */
+export function validateTreatmentInput(
+  input: string,
+  type: TreatmentType,
+  format: DisplayFormat = DEFAULT_DISPLAY_FORMAT
+): InputValidation<never> {
+  if (input.trim() === '') {
+    return { value: null };
+  }
+  const value = parseGlucoseInput(input);
+  if (value === null) {
+    return { value: null, severity: 'error', message: INVALID_VALUE_MESSAGE };
+  }
+  const limits = TREATMENT_LIMITS[type];
+  if (!isWithin(value, limits)) {
+    return {
+      value: null,
+      severity: 'error',
+      message: `Enter a value between ${formatLimit(limits.min, Math.ceil, format)} and ${withUnit(formatLimit(limits.max, Math.floor, format), TREATMENT_UNITS[type])}.`,
+    };
+  }
+  return { value };
+}
@@ -0,0 +1,112 @@
+import { StorageAdapter } from '@/lib/storage';
+
+/**
+ * Persisted payloads are wrapped in `{ version, data }` so their shape can evolve. Anything that is
+ * not an envelope (e.g. the bare arrays written before versioning existed) is treated as version 0.
+ */
+export interface VersionedEnvelope<T> {
+  version: number;
+  data: T;
+}
+
+// Upgrades data written at `version - 1` to the shape of `version`.
+export type Migration = (data: unknown) => unknown;
+
+export interface VersionedSchema<T> {
+  version: number;
+  migrations: Record<number, Migration>;
+  validate: (data: unknown) => T;
+  // False when `validate` had to drop part of the migrated data, e.g. malformed rows.
+  isLossless?: (migrated: unknown, validated: T) => boolean;
+}
+
+export class StorageFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageFormatError';
+  }
+}
+
+function isEnvelope(value: unknown): value is VersionedEnvelope<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Number.isInteger((value as VersionedEnvelope<unknown>).version) &&
+    'data' in value
+  );
+}
+
+export function migrate(data: unknown, fromVersion: number, migrations: Record<number, Migration>, toVersion: number): unknown {
+  if (fromVersion > toVersion) {
+    throw new StorageFormatError(`Stored data is version ${fromVersion}, newer than supported version ${toVersion}.`);
+  }
+  let current = data;
+  for (let version = fromVersion + 1; version <= toVersion; version++) {
+    const step = migrations[version];
+    if (!step) {
+      throw new StorageFormatError(`No migration to version ${version}.`);
+    }
+    current = step(current);
+  }
+  return current;
+}
+
+export function decodeVersioned<T>(raw: string, schema: VersionedSchema<T>): { data: T; storedVersion: number; isLossless: boolean } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new StorageFormatError('Stored data is not valid JSON.');
+  }
+  const envelope = isEnvelope(parsed) ? parsed : { version: 0, data: parsed };
+  const migrated = migrate(envelope.data, envelope.version, schema.migrations, schema.version);
+  const data = schema.validate(migrated);
+  return { data, storedVersion: envelope.version, isLossless: schema.isLossless?.(migrated, data) ?? true };
+}
+
+export function encodeVersioned<T>(data: T, schema: VersionedSchema<T>): string {
+  const envelope: VersionedEnvelope<T> = { version: schema.version, data };
+  return JSON.stringify(envelope);
+}
+
+export function backupKey(key: string): string {
+  return `${key}:backup`;
+}
+
+/**
+ * Reads and upgrades the value under `key`, returning `fallback` when nothing is stored.
+ * A payload that cannot be decoded is copied to a backup key before the error is rethrown,
+ * and one that only decodes by dropping data is copied there before the rest is written back,
+ * so a later save can never silently destroy the only copy of the user's data.
+ */
+export async function loadVersioned<T>(
+  storage: StorageAdapter,
+  key: string,
+  schema: VersionedSchema<T>,
+  fallback: T
+): Promise<T> {
+  const raw = await storage.getItem(key);
+  if (raw === null) {
+    return fallback;
+  }
+  let decoded: ReturnType<typeof decodeVersioned<T>>;
+  try {
+    decoded = decodeVersioned(raw, schema);
+  } catch (e) {
+    await storage.setItem(backupKey(key), raw);
+    throw e;
+  }
+  const { data, storedVersion, isLossless } = decoded;
+  if (!isLossless) {
+    await storage.setItem(backupKey(key), raw);
+  }
+  if (!isLossless || storedVersion !== schema.version) {
+    await storage.setItem(key, encodeVersioned(data, schema));
+  }
+  return data;
+}
+
+export async function saveVersioned<T>(storage: StorageAdapter, key: string, schema: VersionedSchema<T>, data: T): Promise<void> {
+  await storage.setItem(key, encodeVersioned(data, schema));
+}